@@ -7,16 +7,27 @@ import { randomUUID } from 'node:crypto';
 import { Command } from 'commander';
 
 import { createXyteClient } from '../client/create-client';
-import { getEndpoint, listEndpoints } from '../client/catalog';
+import { getEndpoint, listEndpoints, requiresDestructiveGuard, requiresWriteGuard } from '../client/catalog';
 import { buildCallEnvelope } from '../contracts/call-envelope';
 import { toProblemDetails } from '../contracts/problem';
+import { mergeRateLimitState, type RateLimitState } from '../http/rate-limit';
+import { parseKeyPolicy } from '../config/key-policy';
 import { evaluateReadiness, type ReadinessCheck } from '../config/readiness';
-import { createKeychainStore, type KeychainStore } from '../secure/keychain';
+import { LazyKeychain, type KeychainStore } from '../secure/keychain';
+import { DEFAULT_ROLLBACK_HOURS, pruneExpiredRollbackSlots, rollbackKeyRotation, rotateKeySlot } from '../secure/key-rotation';
 import { makeKeyFingerprint, matchesSlotRef } from '../secure/key-slots';
 import { FileProfileStore, type ProfileStore } from '../secure/profile-store';
+import {
+  exportProfile,
+  importProfile,
+  parseProfileExport,
+  writeProfileExport,
+  type ProfileImportMode
+} from '../secure/profile-transfer';
 import type { SecretProvider } from '../types/profile';
+import type { XyteCallArgs, XyteClient } from '../types/client';
 import { parseJsonObject } from '../utils/json';
-import { writeJsonLine } from '../utils/json-output';
+import { writeJsonLine, writeNdjsonLine } from '../utils/json-output';
 import { getCliVersion } from '../utils/version';
 import {
   installSkills,
@@ -26,6 +37,34 @@ import {
 } from '../utils/install-skills';
 import { runTuiApp } from '../tui/app';
 import type { TuiScreenId } from '../tui/types';
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, parseBatchOperations, runBatch } from '../workflows/batch';
+import { collectConfigDrift, formatConfigDriftMarkdown, loadConfigDriftAttachment } from '../workflows/config-drift';
+import {
+  DEFAULT_BROADCAST_CONCURRENCY,
+  MAX_BROADCAST_CONCURRENCY,
+  parseDeviceFilters,
+  previewDeviceBroadcast,
+  resolveBroadcastTargets,
+  runDeviceBroadcast
+} from '../workflows/device-broadcast';
+import { sendDeviceCommand } from '../workflows/device-command';
+import {
+  applyDeviceConfig,
+  buildDeviceConfigDiff,
+  formatConfigDiffAscii,
+  formatConfigYaml,
+  loadConfigFile,
+  readDeviceConfig
+} from '../workflows/device-config';
+import {
+  buildMultiTenantDeepDive,
+  buildMultiTenantFleetInspect,
+  DEFAULT_FAN_OUT_CONCURRENCY,
+  formatMultiTenantFleetAscii,
+  MAX_FAN_OUT_CONCURRENCY,
+  resolveTenantTargets,
+  runPerTenant
+} from '../workflows/fan-out';
 import {
   buildDeepDive,
   buildFleetInspect,
@@ -33,9 +72,34 @@ import {
   formatDeepDiveAscii,
   formatDeepDiveMarkdown,
   formatFleetInspectAscii,
-  generateFleetReport
+  generateFleetReport,
+  generatePortfolioReport,
+  truncationNotice,
+  type DeepDiveResult,
+  type FleetReportFormat
 } from '../workflows/fleet-insights';
+import {
+  diffFleetSnapshots,
+  formatFleetDiffAscii,
+  formatFleetDiffMarkdown,
+  loadFleetSnapshot,
+  saveFleetSnapshot
+} from '../workflows/fleet-snapshots';
+import { collectSpaceTree, findSpaces, formatSpaceTreeAscii, moveSpace, ROOT_SPACE_REF } from '../workflows/space-tree';
+import {
+  deepDiveTables,
+  fleetInspectTables,
+  formatTableCsv,
+  mergeTables,
+  payloadTable,
+  selectTable,
+  writeTableBundle,
+  type TabularTable
+} from '../workflows/tabular';
+import { parseIntervalMs, postWebhook, runCommandHook, runWatch } from '../workflows/watch';
 import { createMcpServer } from '../mcp/server';
+import { createDefaultMockDataset, mergeMockDataset, type MockDataset } from '../mock/fixtures';
+import { createMockServer } from '../mock/server';
 
 type OutputStream = Pick<typeof process.stdout, 'write'>;
 type ErrorStream = Pick<typeof process.stderr, 'write'>;
@@ -172,12 +236,57 @@ function parseQueryJson(value: string | undefined): Record<string, string | numb
   return out;
 }
 
-function requiresWriteGuard(method: string): boolean {
-  return !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+function parsePositiveIntOption(value: unknown, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    throw new Error(`Invalid ${flag}: ${String(value)}. Expected a positive integer.`);
+  }
+  return parsed;
+}
+
+interface AllPagesSummary {
+  status: number;
+  durationMs: number;
+  retryCount: number;
+  pages: number;
+  items: number;
+  perPage?: number;
+  truncated: boolean;
+  rateLimit?: RateLimitState;
 }
 
-function requiresDestructiveGuard(method: string): boolean {
-  return method.toUpperCase() === 'DELETE';
+async function collectAllPages(args: {
+  client: XyteClient;
+  endpointKey: string;
+  callArgs: XyteCallArgs;
+  maxPages?: number;
+  onItems: (items: unknown[]) => void;
+}): Promise<AllPagesSummary> {
+  const summary: AllPagesSummary = {
+    status: 0,
+    durationMs: 0,
+    retryCount: 0,
+    pages: 0,
+    items: 0,
+    truncated: false
+  };
+
+  for await (const page of args.client.paginate(args.endpointKey, args.callArgs, { maxPages: args.maxPages })) {
+    summary.status = page.status;
+    summary.durationMs += page.durationMs;
+    summary.retryCount += page.retryCount;
+    summary.pages += 1;
+    summary.items += page.items.length;
+    summary.perPage = page.perPage;
+    summary.truncated = page.truncated;
+    summary.rateLimit = mergeRateLimitState(summary.rateLimit, page.rateLimit);
+    args.onItems(page.items);
+  }
+
+  return summary;
 }
 
 function formatReadinessText(readiness: ReadinessCheck): string {
@@ -190,10 +299,16 @@ function formatReadinessText(readiness: ReadinessCheck): string {
 
   for (const provider of readiness.providers) {
     lines.push(
-      `- ${provider.provider}: slots=${provider.slotCount}, active=${provider.activeSlotId ?? 'none'} (${provider.activeSlotName ?? 'n/a'}), hasSecret=${provider.hasActiveSecret}`
+      `- ${provider.provider}: slots=${provider.slotCount}, active=${provider.activeSlotId ?? 'none'} (${provider.activeSlotName ?? 'n/a'}), hasSecret=${provider.hasActiveSecret}, source=${provider.source ?? 'none'}`
     );
   }
 
+  if (readiness.policyViolations.length) {
+    lines.push('');
+    lines.push('Key policy:');
+    readiness.policyViolations.forEach((violation) => lines.push(`- ${violation.message}`));
+  }
+
   if (readiness.missingItems.length) {
     lines.push('');
     lines.push('Missing items:');
@@ -363,6 +478,55 @@ async function collectSlotViews(args: {
   return views;
 }
 
+function collectOption(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseTenantList(value: string | undefined): string[] | undefined {
+  const ids = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return ids?.length ? ids : undefined;
+}
+
+// The first Ctrl+C aborts `signal` and removes the handlers, so a second one falls through to the default exit.
+function abortOnFirstSignal(): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const dispose = () => {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  };
+  const stop = () => {
+    dispose();
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+  return { signal: controller.signal, dispose };
+}
+
+async function requireTenantId(profileStore: ProfileStore, tenantId: string | undefined): Promise<string> {
+  const resolved = tenantId ?? (await profileStore.getData()).activeTenantId;
+  if (!resolved) {
+    throw new Error('No tenant selected. Use --tenant or "xyte-cli tenant use <tenantId>".');
+  }
+  return resolved;
+}
+
+function requireZipOut(format: string, out: string | undefined): void {
+  if (format === 'zip' && !out) {
+    throw new Error('--format zip requires --out <path>.');
+  }
+}
+
+function requireInspectTenant(tenantId: string | undefined): string {
+  if (!tenantId) {
+    throw new Error('Missing tenant. Use --tenant, --tenants or --all-tenants.');
+  }
+  return tenantId;
+}
+
 function requireKeyValue(value: string | undefined): string {
   const resolved = value ?? process.env.XYTE_CLI_KEY;
   if (!resolved) {
@@ -426,16 +590,8 @@ export function createCli(runtime: CliRuntime = {}): Command {
   const profileStore = runtime.profileStore ?? new FileProfileStore();
   const runTui = runtime.runTui ?? runTuiApp;
 
-  let keychainPromise: Promise<KeychainStore> | undefined;
-  const getKeychain = async () => {
-    if (runtime.keychain) {
-      return runtime.keychain;
-    }
-    if (!keychainPromise) {
-      keychainPromise = createKeychainStore();
-    }
-    return keychainPromise;
-  };
+  const keychainStore: KeychainStore = runtime.keychain ?? new LazyKeychain();
+  const getKeychain = async () => keychainStore;
 
   const withClient = async (tenantId?: string, retry?: { attempts?: number; backoffMs?: number }) => {
     const keychain = await getKeychain();
@@ -448,6 +604,51 @@ export function createCli(runtime: CliRuntime = {}): Command {
     });
   };
 
+  const withFanOutClient = async (tenantId: string) =>
+    createXyteClient({ profileStore, keychain: await getKeychain(), tenantId, fanOut: true });
+
+  // Returns undefined when neither --tenants nor --all-tenants was given, so callers keep their single-tenant path.
+  const resolveFanOutTargets = async (options: { tenant?: string; tenants?: string; allTenants?: boolean }) => {
+    const tenants = parseTenantList(options.tenants);
+    if (!tenants && !options.allTenants) {
+      return undefined;
+    }
+    if (options.tenant) {
+      throw new Error('--tenant cannot be combined with --tenants or --all-tenants.');
+    }
+    return resolveTenantTargets(profileStore, { tenants, allTenants: options.allTenants === true });
+  };
+
+  // csv prints one table (--table) to stdout; zip writes every table as its own CSV into the --out archive.
+  const emitTables = (tables: TabularTable[], options: { format: string; table?: string; out?: string; strictJson?: boolean }) => {
+    if (options.format === 'zip') {
+      printJson(stdout, writeTableBundle(tables, options.out as string), { strictJson: options.strictJson });
+      return;
+    }
+    stdout.write(formatTableCsv(selectTable(tables, options.table ?? 'summary')));
+  };
+
+  const collectTenantTables = async (
+    tenantIds: string[],
+    concurrency: number | undefined,
+    build: (tenantId: string) => Promise<TabularTable[]>
+  ): Promise<TabularTable[] | undefined> => {
+    const outcomes = await runPerTenant(tenantIds, build, { concurrency });
+    const perTenant: TabularTable[][] = [];
+    for (const outcome of outcomes) {
+      if (outcome.ok) {
+        perTenant.push(outcome.result);
+      } else {
+        stderr.write(`Tenant ${outcome.tenantId} failed: ${outcome.error.detail}\n`);
+      }
+    }
+    if (!perTenant.length) {
+      process.exitCode = 1;
+      return undefined;
+    }
+    return mergeTables(perTenant);
+  };
+
   const runSimpleSetup = async (args: {
     tenantId: string;
     tenantName: string;
@@ -724,12 +925,20 @@ export function createCli(runtime: CliRuntime = {}): Command {
     .argument('<key>', 'Endpoint key')
     .description('Call endpoint by key')
     .option('--tenant <tenantId>', 'Tenant id')
+    .option('--tenants <ids>', 'Comma-separated tenant ids to call concurrently (NDJSON, one line per tenant)')
+    .option('--all-tenants', 'Call the endpoint for every configured tenant')
+    .option('--concurrency <n>', `Tenants called in parallel (max ${MAX_FAN_OUT_CONCURRENCY})`, String(DEFAULT_FAN_OUT_CONCURRENCY))
     .option('--path-json <json>', 'Path params JSON object')
     .option('--query-json <json>', 'Query params JSON object')
     .option('--body-json <json>', 'Body JSON object')
     .option('--allow-write', 'Allow mutation endpoint invocation')
     .option('--confirm <token>', 'Confirm token required for destructive operations')
     .option('--output-mode <mode>', 'raw|envelope', 'raw')
+    .option('--format <format>', 'json|csv (csv flattens the response items into one table)', 'json')
+    .option('--include-sensitive', 'Include full device/ticket IDs, serials and MACs in csv output')
+    .option('--all-pages', 'Follow pagination and stream every item (NDJSON in raw mode)')
+    .option('--max-pages <n>', 'Upper bound on pages fetched with --all-pages')
+    .option('--dry-run', 'Print the resolved HTTP request without sending it')
     .option('--strict-json', 'Fail on non-serializable output')
     .action(async (key: string, options: Record<string, unknown>) => {
       const endpoint = getEndpoint(key);
@@ -738,6 +947,14 @@ export function createCli(runtime: CliRuntime = {}): Command {
       if (!['raw', 'envelope'].includes(outputMode)) {
         throw new Error(`Invalid output mode: ${outputMode}. Use raw|envelope.`);
       }
+      const format = String(options.format ?? 'json');
+      if (!['json', 'csv'].includes(format)) {
+        throw new Error(`Invalid format: ${format}. Use json|csv.`);
+      }
+      const csv = format === 'csv';
+      if (csv && (outputMode === 'envelope' || options.dryRun === true || options.tenants || options.allTenants)) {
+        throw new Error('--format csv only applies to raw single-tenant calls (no --output-mode envelope, --dry-run or fan-out).');
+      }
       const requestId = randomUUID();
       const tenantId = options.tenant as string | undefined;
       const path = parsePathJson(options.pathJson as string | undefined);
@@ -746,25 +963,160 @@ export function createCli(runtime: CliRuntime = {}): Command {
       const allowWrite = options.allowWrite === true;
       const confirmToken = options.confirm as string | undefined;
       const strictJson = options.strictJson === true;
+      const allPages = options.allPages === true;
+      const maxPages = parsePositiveIntOption(options.maxPages, '--max-pages');
+      const dryRun = options.dryRun === true;
 
       try {
-        if (requiresWriteGuard(method) && !allowWrite) {
+        // Dry runs never reach the network, so the write/destructive guards only apply to real calls.
+        if (!dryRun && requiresWriteGuard(method) && !allowWrite) {
           throw new Error(`Endpoint ${key} is a write operation (${method}). Re-run with --allow-write.`);
         }
 
-        if (requiresDestructiveGuard(method) && confirmToken !== key) {
+        if (!dryRun && requiresDestructiveGuard(method) && confirmToken !== key) {
           throw new Error(`Endpoint ${key} is destructive. Re-run with --confirm ${key}.`);
         }
 
+        if (allPages && method !== 'GET') {
+          throw new Error(`--all-pages only supports read endpoints. ${key} is ${method}.`);
+        }
+
+        if (allPages && dryRun) {
+          throw new Error('--dry-run cannot be combined with --all-pages.');
+        }
+
+        const fanOutTenantIds = await resolveFanOutTargets({
+          tenant: tenantId,
+          tenants: options.tenants as string | undefined,
+          allTenants: options.allTenants === true
+        });
+        if (fanOutTenantIds) {
+          if (allPages) {
+            throw new Error('--all-pages cannot be combined with --tenants or --all-tenants.');
+          }
+          const requestIds = new Map(fanOutTenantIds.map((item) => [item, randomUUID()]));
+          const envelopeFor = (item: string) => ({
+            requestId: requestIds.get(item) as string,
+            tenantId: item,
+            endpointKey: key,
+            method,
+            guard: { allowWrite, confirm: confirmToken },
+            request: { path, query, body }
+          });
+          const outcomes = await runPerTenant(
+            fanOutTenantIds,
+            async (item) => {
+              const client = await withFanOutClient(item);
+              return client.callWithMeta(key, { requestId: requestIds.get(item), tenantId: item, path, query, body, dryRun });
+            },
+            {
+              concurrency: parsePositiveIntOption(options.concurrency, '--concurrency'),
+              onOutcome: (outcome) => {
+                if (outputMode === 'envelope') {
+                  const envelope = outcome.ok
+                    ? buildCallEnvelope({
+                        ...envelopeFor(outcome.tenantId),
+                        response: {
+                          status: outcome.result.status,
+                          durationMs: outcome.result.durationMs,
+                          retryCount: outcome.result.retryCount,
+                          data: outcome.result.dryRun ?? outcome.result.data,
+                          rateLimit: outcome.result.rateLimit,
+                          simulated: outcome.result.dryRun ? true : undefined
+                        }
+                      })
+                    : buildCallEnvelope({ ...envelopeFor(outcome.tenantId), error: outcome.error });
+                  writeNdjsonLine(stdout, envelope, { strictJson });
+                  return;
+                }
+                writeNdjsonLine(
+                  stdout,
+                  outcome.ok
+                    ? { tenantId: outcome.tenantId, data: outcome.result.dryRun ?? outcome.result.data }
+                    : { tenantId: outcome.tenantId, error: outcome.error },
+                  { strictJson }
+                );
+              }
+            }
+          );
+          if (outcomes.every((outcome) => !outcome.ok)) {
+            process.exitCode = 1;
+          }
+          return;
+        }
+
         const client = await withClient(tenantId);
+        if (allPages) {
+          const collected: unknown[] = [];
+          const summary = await collectAllPages({
+            client,
+            endpointKey: key,
+            callArgs: { requestId, tenantId, path, query },
+            maxPages,
+            onItems: (items) => {
+              if (outputMode === 'envelope' || csv) {
+                collected.push(...items);
+                return;
+              }
+              items.forEach((item) => writeNdjsonLine(stdout, item, { strictJson }));
+            }
+          });
+
+          if (outputMode === 'envelope') {
+            const envelope = buildCallEnvelope({
+              requestId,
+              tenantId,
+              endpointKey: key,
+              method,
+              guard: {
+                allowWrite,
+                confirm: confirmToken
+              },
+              request: {
+                path,
+                query
+              },
+              response: {
+                status: summary.status,
+                durationMs: summary.durationMs,
+                retryCount: summary.retryCount,
+                data: collected,
+                pagination: {
+                  pages: summary.pages,
+                  items: summary.items,
+                  perPage: summary.perPage,
+                  truncated: summary.truncated
+                },
+                rateLimit: summary.rateLimit
+              }
+            });
+            printJson(stdout, envelope, { strictJson });
+            return;
+          }
+
+          if (csv) {
+            stdout.write(formatTableCsv(payloadTable(key, collected, options.includeSensitive === true)));
+          }
+          if (summary.truncated) {
+            stderr.write(`Stopped after ${summary.pages} page(s); more results remain. Raise --max-pages to continue.\n`);
+          }
+          return;
+        }
+
         const result = await client.callWithMeta(key, {
           requestId,
           tenantId,
           path,
           query,
-          body
+          body,
+          dryRun
         });
 
+        if (csv) {
+          stdout.write(formatTableCsv(payloadTable(key, result.data, options.includeSensitive === true)));
+          return;
+        }
+
         if (outputMode === 'envelope') {
           const envelope = buildCallEnvelope({
             requestId,
@@ -784,14 +1136,16 @@ export function createCli(runtime: CliRuntime = {}): Command {
               status: result.status,
               durationMs: result.durationMs,
               retryCount: result.retryCount,
-              data: result.data
+              data: result.dryRun ?? result.data,
+              rateLimit: result.rateLimit,
+              simulated: result.dryRun ? true : undefined
             }
           });
           printJson(stdout, envelope, { strictJson });
           return;
         }
 
-        printJson(stdout, result.data, { strictJson });
+        printJson(stdout, result.dryRun ?? result.data, { strictJson });
       } catch (error) {
         if (outputMode !== 'envelope') {
           throw error;
@@ -818,59 +1172,675 @@ export function createCli(runtime: CliRuntime = {}): Command {
       }
     });
 
-  const inspect = program.command('inspect').description('Deterministic fleet insights');
+  const batch = program.command('batch').description('Run many endpoint calls from a file');
 
-  inspect
-    .command('fleet')
-    .description('Build a fleet summary snapshot')
+  batch
+    .command('run')
+    .description('Execute a JSONL file of {endpointKey, path, query, body} operations')
+    .requiredOption('--file <path>', 'Path to JSONL operations file')
+    .option('--tenant <tenantId>', 'Tenant id (lines may override with "tenantId")')
+    .option('--concurrency <n>', `Parallel calls (max ${MAX_BATCH_CONCURRENCY})`, String(DEFAULT_BATCH_CONCURRENCY))
+    .option('--allow-write', 'Allow mutation endpoint invocation')
+    .option('--confirm <endpointKey>', 'Confirm destructive lines of this endpoint key (repeatable)', collectOption, [])
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: {
+        file: string;
+        tenant?: string;
+        concurrency?: string;
+        allowWrite?: boolean;
+        confirm: string[];
+        strictJson?: boolean;
+      }) => {
+        const lines = parseBatchOperations(readFileSync(path.resolve(options.file), 'utf8'));
+        const concurrency = parsePositiveIntOption(options.concurrency, '--concurrency');
+        const strictJson = options.strictJson === true;
+        const client = await withClient(options.tenant);
+
+        const summary = await runBatch({
+          client,
+          lines,
+          tenantId: options.tenant,
+          concurrency,
+          allowWrite: options.allowWrite === true,
+          confirm: options.confirm,
+          onResult: (result) => writeNdjsonLine(stdout, result.envelope, { strictJson })
+        });
+        writeNdjsonLine(stdout, summary, { strictJson });
+
+        if (summary.failed > 0) {
+          process.exitCode = 1;
+        }
+      }
+    );
+
+  const device = program.command('device').description('Device workflows');
+  const deviceCommand = device.command('command').description('Send and track device commands');
+
+  deviceCommand
+    .command('send')
+    .description('Send a command to a device, optionally waiting until it reaches a terminal state')
+    .argument('<device>', 'Device id')
+    .argument('<name>', 'Command name (e.g. reboot)')
+    .requiredOption('--tenant <tenantId>', 'Tenant id')
+    .option('--params <json>', 'Command extra_params JSON object')
+    .option('--friendly-name <name>', 'Human-readable command label')
+    .option('--file-id <id>', 'File id for commands that deliver a file')
+    .option('--allow-write', 'Allow sending the command')
+    .option('--wait', 'Poll organization.commands.getCommands until the command finishes; Ctrl+C cancels it')
+    .option('--timeout <duration>', 'Give up waiting after this long (e.g. 90s, 5m)', '5m')
+    .option('--interval <duration>', 'Poll interval while waiting', '2s')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (
+        deviceId: string,
+        name: string,
+        options: {
+          tenant: string;
+          params?: string;
+          friendlyName?: string;
+          fileId?: string;
+          allowWrite?: boolean;
+          wait?: boolean;
+          timeout?: string;
+          interval?: string;
+          strictJson?: boolean;
+        }
+      ) => {
+        if (!options.allowWrite) {
+          throw new Error('Sending a device command is a write operation. Re-run with --allow-write.');
+        }
+        const params = options.params ? parseJsonObject(options.params) : undefined;
+        const timeoutMs = parseIntervalMs(options.timeout ?? '5m');
+        const intervalMs = parseIntervalMs(options.interval ?? '2s');
+        const client = await withClient(options.tenant);
+        // Without --wait there is nothing to cancel, so Ctrl+C keeps its default behaviour.
+        const interrupt = options.wait ? abortOnFirstSignal() : undefined;
+
+        try {
+          const result = await sendDeviceCommand({
+            client,
+            tenantId: options.tenant,
+            deviceId,
+            name,
+            friendlyName: options.friendlyName,
+            fileId: options.fileId,
+            params,
+            wait: options.wait === true,
+            timeoutMs,
+            intervalMs,
+            signal: interrupt?.signal,
+            onPoll: (poll) => stderr.write(`poll ${poll.poll}: ${poll.status ?? 'not listed yet'} (${Math.round(poll.elapsedMs / 1000)}s)\n`)
+          });
+          printJson(stdout, result, { strictJson: options.strictJson });
+          if (!['sent', 'succeeded'].includes(result.outcome)) {
+            process.exitCode = 1;
+          }
+        } finally {
+          interrupt?.dispose();
+        }
+      }
+    );
+
+  deviceCommand
+    .command('broadcast')
+    .description('Send one command to every device in a space and/or matching filters (preview first, then confirm the count)')
     .requiredOption('--tenant <tenantId>', 'Tenant id')
+    .requiredOption('--command <name>', 'Command name (e.g. reboot)')
+    .option('--space <ref>', 'Space id or full path; descendant spaces are included')
+    .option('--filter <field=value>', 'Device field filter, repeatable (e.g. status=online, model.name=XR-100)', collectOption, [])
+    .option('--params <json>', 'Command extra_params JSON object')
+    .option('--friendly-name <name>', 'Human-readable command label')
+    .option('--concurrency <n>', `Devices sent in parallel (max ${MAX_BROADCAST_CONCURRENCY})`, String(DEFAULT_BROADCAST_CONCURRENCY))
+    .option('--allow-write', 'Allow sending the commands')
+    .option('--confirm <count>', 'Number of target devices from the preview; required to send')
+    .option('--wait', 'Wait for each command to finish; Ctrl+C cancels pending ones')
+    .option('--timeout <duration>', 'Per-device wait timeout (e.g. 90s, 5m)', '5m')
+    .option('--interval <duration>', 'Poll interval while waiting', '2s')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: {
+        tenant: string;
+        command: string;
+        space?: string;
+        filter: string[];
+        params?: string;
+        friendlyName?: string;
+        concurrency?: string;
+        allowWrite?: boolean;
+        confirm?: string;
+        wait?: boolean;
+        timeout?: string;
+        interval?: string;
+        strictJson?: boolean;
+      }) => {
+        const filters = parseDeviceFilters(options.filter);
+        const params = options.params ? parseJsonObject(options.params) : undefined;
+        const concurrency = parsePositiveIntOption(options.concurrency, '--concurrency');
+        const timeoutMs = parseIntervalMs(options.timeout ?? '5m');
+        const intervalMs = parseIntervalMs(options.interval ?? '2s');
+        const client = await withClient(options.tenant);
+
+        const scope = await resolveBroadcastTargets({ client, tenantId: options.tenant, space: options.space, filters });
+        const count = scope.targets.length;
+        if (count === 0) {
+          throw new Error('No devices matched the broadcast scope.');
+        }
+        if (options.confirm === undefined) {
+          printJson(stdout, previewDeviceBroadcast(options.tenant, options.command, scope), { strictJson: options.strictJson });
+          if (scope.truncated) {
+            stderr.write(`${truncationNotice(['devices'])} Sending is refused until the scope is narrowed.\n`);
+          }
+          stderr.write(`Preview only: ${count} device(s) would receive "${options.command}". Re-run with --allow-write --confirm ${count} to send.\n`);
+          return;
+        }
+        if (!options.allowWrite) {
+          throw new Error('Broadcasting a device command is a write operation. Re-run with --allow-write.');
+        }
+        if (options.confirm !== String(count)) {
+          throw new Error(`--confirm must equal the target count. Resolved ${count} device(s), got --confirm ${options.confirm}.`);
+        }
+
+        const interrupt = options.wait ? abortOnFirstSignal() : undefined;
+        try {
+          const result = await runDeviceBroadcast({
+            client,
+            tenantId: options.tenant,
+            scope,
+            name: options.command,
+            friendlyName: options.friendlyName,
+            params,
+            concurrency,
+            wait: options.wait === true,
+            timeoutMs,
+            intervalMs,
+            signal: interrupt?.signal,
+            onResult: (item) =>
+              stderr.write(`${item.deviceId}: ${item.ok ? item.outcome : `failed (${item.outcome ?? item.error?.detail})`}\n`)
+          });
+          printJson(stdout, result, { strictJson: options.strictJson });
+          if (result.failed > 0) {
+            process.exitCode = 1;
+          }
+        } finally {
+          interrupt?.dispose();
+        }
+      }
+    );
+
+  const deviceConfig = device.command('config').description('Read, diff and apply device configuration');
+
+  deviceConfig
+    .command('get')
+    .description('Print the live configuration of a device')
+    .argument('<device>', 'Device id')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--format <format>', 'json|yaml', 'json')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(async (deviceId: string, options: { tenant?: string; format?: string; strictJson?: boolean }) => {
+      const format = options.format ?? 'json';
+      if (!['json', 'yaml'].includes(format)) {
+        throw new Error(`Invalid format: ${format}. Use json|yaml.`);
+      }
+      const client = await withClient(options.tenant);
+      const live = await readDeviceConfig(client, deviceId, options.tenant);
+      if (format === 'yaml') {
+        stdout.write(formatConfigYaml(live.config));
+        return;
+      }
+      printJson(stdout, live.config, { strictJson: options.strictJson });
+    });
+
+  deviceConfig
+    .command('diff')
+    .description('Compare a device configuration with a local JSON/YAML file or another device')
+    .argument('<device>', 'Device id')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--file <path>', 'Desired configuration (.json, .yaml or .yml)')
+    .option('--against-device <id>', 'Compare with the live configuration of another device')
     .option('--format <format>', 'json|ascii', 'json')
     .option('--strict-json', 'Fail on non-serializable output')
-    .action(async (options: { tenant: string; format?: string; strictJson?: boolean }) => {
+    .action(
+      async (
+        deviceId: string,
+        options: { tenant?: string; file?: string; againstDevice?: string; format?: string; strictJson?: boolean }
+      ) => {
+        const format = options.format ?? 'json';
+        if (!['json', 'ascii'].includes(format)) {
+          throw new Error(`Invalid format: ${format}. Use json|ascii.`);
+        }
+        if (Boolean(options.file) === Boolean(options.againstDevice)) {
+          throw new Error('Provide exactly one of --file or --against-device.');
+        }
+        const client = await withClient(options.tenant);
+        const [live, desired] = await Promise.all([
+          readDeviceConfig(client, deviceId, options.tenant),
+          options.file
+            ? Promise.resolve(loadConfigFile(options.file))
+            : readDeviceConfig(client, options.againstDevice as string, options.tenant).then((other) => other.config)
+        ]);
+        const result = buildDeviceConfigDiff({
+          tenantId: options.tenant,
+          deviceId,
+          live,
+          desired,
+          against: options.file ? { kind: 'file', ref: options.file } : { kind: 'device', ref: options.againstDevice as string }
+        });
+
+        if (format === 'ascii') {
+          stdout.write(`${formatConfigDiffAscii(result)}\n`);
+          return;
+        }
+        printJson(stdout, result, { strictJson: options.strictJson });
+      }
+    );
+
+  deviceConfig
+    .command('apply')
+    .description('Push only the keys that differ from a local JSON/YAML file to the device')
+    .argument('<device>', 'Device id')
+    .requiredOption('--file <path>', 'Desired configuration (.json, .yaml or .yml)')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--allow-write', 'Allow updating the device configuration')
+    .option('--dry-run', 'Print the setConfig request without sending it')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (
+        deviceId: string,
+        options: { file: string; tenant?: string; allowWrite?: boolean; dryRun?: boolean; strictJson?: boolean }
+      ) => {
+        const dryRun = options.dryRun === true;
+        if (!dryRun && !options.allowWrite) {
+          throw new Error('Endpoint device.configuration.setConfig is a write operation (POST). Re-run with --allow-write.');
+        }
+        const desired = loadConfigFile(options.file);
+        const client = await withClient(options.tenant);
+        const result = await applyDeviceConfig({
+          client,
+          tenantId: options.tenant,
+          deviceId,
+          desired,
+          ref: options.file,
+          allowWrite: options.allowWrite === true,
+          dryRun
+        });
+
+        if (!result.envelope) {
+          stderr.write(`Nothing to apply: device ${deviceId} already matches ${options.file}.\n`);
+          printJson(stdout, result.diff, { strictJson: options.strictJson });
+          return;
+        }
+        printJson(stdout, result.envelope, { strictJson: options.strictJson });
+        if (result.envelope.error) {
+          process.exitCode = 1;
+        }
+      }
+    );
+
+  const space = program.command('space').description('Space hierarchy workflows');
+
+  space
+    .command('tree')
+    .description('Show the space hierarchy with device and incident rollups per subtree')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--root <space>', 'Start from this space id or full path')
+    .option('--depth <n>', 'Levels shown below the root (rollups still cover the whole subtree)')
+    .option('--format <format>', 'json|ascii', 'json')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(async (options: { tenant?: string; root?: string; depth?: string; format?: string; strictJson?: boolean }) => {
       const format = options.format ?? 'json';
       if (!['json', 'ascii'].includes(format)) {
         throw new Error(`Invalid format: ${format}. Use json|ascii.`);
       }
+      const depth = options.depth === undefined ? undefined : Number.parseInt(options.depth, 10);
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+        throw new Error('--depth must be a non-negative integer.');
+      }
       const client = await withClient(options.tenant);
-      const snapshot = await collectFleetSnapshot(client, options.tenant);
-      const result = buildFleetInspect(snapshot);
-
+      const tree = await collectSpaceTree({ client, tenantId: options.tenant, root: options.root, maxDepth: depth });
+      if (tree.incidentsError) {
+        stderr.write(`Incident counts are missing: ${tree.incidentsError.detail}\n`);
+      }
+      if (tree.truncated) {
+        stderr.write(`${truncationNotice(tree.truncated)}\n`);
+      }
       if (format === 'ascii') {
-        stdout.write(`${formatFleetInspectAscii(result)}\n`);
+        stdout.write(`${formatSpaceTreeAscii(tree)}\n`);
         return;
       }
+      printJson(stdout, tree, { strictJson: options.strictJson });
+    });
 
-      printJson(stdout, result, { strictJson: options.strictJson });
+  space
+    .command('find')
+    .description('Find spaces whose name or full path contains the given text')
+    .argument('<query>', 'Text to match (case-insensitive)')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--type <spaceType>', 'Only spaces of this space_type')
+    .option('--format <format>', 'json|ascii', 'json')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(async (query: string, options: { tenant?: string; type?: string; format?: string; strictJson?: boolean }) => {
+      const format = options.format ?? 'json';
+      if (!['json', 'ascii'].includes(format)) {
+        throw new Error(`Invalid format: ${format}. Use json|ascii.`);
+      }
+      const client = await withClient(options.tenant);
+      const matches = await findSpaces({ client, tenantId: options.tenant, query, type: options.type });
+      if (format === 'ascii') {
+        const lines = matches.map((match) => `${match.path || match.name}  ${match.type ?? 'n/a'}  ${match.id}`);
+        stdout.write(`${(lines.length ? lines : [`No spaces match "${query}".`]).join('\n')}\n`);
+        return;
+      }
+      printJson(stdout, matches, { strictJson: options.strictJson });
     });
 
+  space
+    .command('move')
+    .description('Move a space (and its subtree) under another space')
+    .argument('<space>', 'Space id or full path')
+    .requiredOption('--to <parent>', `New parent space id or full path, or "${ROOT_SPACE_REF}" for the top level`)
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--allow-write', 'Allow updating the space')
+    .option('--dry-run', 'Print the updateSpace request without sending it')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (ref: string, options: { to: string; tenant?: string; allowWrite?: boolean; dryRun?: boolean; strictJson?: boolean }) => {
+        const dryRun = options.dryRun === true;
+        if (!dryRun && !options.allowWrite) {
+          throw new Error('Endpoint organization.spaces.updateSpace is a write operation (PUT). Re-run with --allow-write.');
+        }
+        const client = await withClient(options.tenant);
+        const result = await moveSpace({
+          client,
+          tenantId: options.tenant,
+          space: ref,
+          to: options.to,
+          allowWrite: options.allowWrite === true,
+          dryRun
+        });
+
+        if (!result.envelope) {
+          stderr.write(`Nothing to move: ${result.space.path || result.space.id} is already under ${result.parent?.path ?? ROOT_SPACE_REF}.\n`);
+          printJson(stdout, result.space, { strictJson: options.strictJson });
+          return;
+        }
+        printJson(stdout, result.envelope, { strictJson: options.strictJson });
+        if (result.envelope.error) {
+          process.exitCode = 1;
+        }
+      }
+    );
+
+  const inspect = program.command('inspect').description('Deterministic fleet insights');
+
+  inspect
+    .command('fleet')
+    .description('Build a fleet summary snapshot')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--tenants <ids>', 'Comma-separated tenant ids to inspect concurrently')
+    .option('--all-tenants', 'Inspect every configured tenant')
+    .option('--concurrency <n>', `Tenants inspected in parallel (max ${MAX_FAN_OUT_CONCURRENCY})`, String(DEFAULT_FAN_OUT_CONCURRENCY))
+    .option('--format <format>', 'json|ascii|csv|zip', 'json')
+    .option('--table <name>', 'Table printed by --format csv: summary|status|devices|incidents|tickets|spaces', 'summary')
+    .option('--out <path>', 'Output archive for --format zip')
+    .option('--include-sensitive', 'Include full device/ticket IDs, serials and MACs in csv/zip output')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: {
+        tenant?: string;
+        tenants?: string;
+        allTenants?: boolean;
+        concurrency?: string;
+        format?: string;
+        table?: string;
+        out?: string;
+        includeSensitive?: boolean;
+        strictJson?: boolean;
+      }) => {
+        const format = options.format ?? 'json';
+        if (!['json', 'ascii', 'csv', 'zip'].includes(format)) {
+          throw new Error(`Invalid format: ${format}. Use json|ascii|csv|zip.`);
+        }
+        requireZipOut(format, options.out);
+        const includeSensitive = options.includeSensitive === true;
+
+        const tenantIds = await resolveFanOutTargets(options);
+        if (tenantIds && (format === 'csv' || format === 'zip')) {
+          const tables = await collectTenantTables(tenantIds, parsePositiveIntOption(options.concurrency, '--concurrency'), async (tenantId) => {
+            const tenantSnapshot = await collectFleetSnapshot(await withFanOutClient(tenantId), tenantId);
+            return fleetInspectTables(buildFleetInspect(tenantSnapshot), tenantSnapshot, includeSensitive);
+          });
+          if (tables) {
+            emitTables(tables, { ...options, format });
+          }
+          return;
+        }
+        if (tenantIds) {
+          const outcomes = await runPerTenant(
+            tenantIds,
+            async (tenantId) => buildFleetInspect(await collectFleetSnapshot(await withFanOutClient(tenantId), tenantId)),
+            { concurrency: parsePositiveIntOption(options.concurrency, '--concurrency') }
+          );
+          const result = buildMultiTenantFleetInspect(outcomes);
+          if (format === 'ascii') {
+            stdout.write(`${formatMultiTenantFleetAscii(result)}\n`);
+          } else {
+            printJson(stdout, result, { strictJson: options.strictJson });
+          }
+          if (result.summary.tenants.succeeded === 0) {
+            process.exitCode = 1;
+          }
+          return;
+        }
+
+        const tenantId = requireInspectTenant(options.tenant);
+        const client = await withClient(tenantId);
+        const snapshot = await collectFleetSnapshot(client, tenantId);
+        const result = buildFleetInspect(snapshot);
+        if (result.truncated) {
+          stderr.write(`${truncationNotice(result.truncated)}\n`);
+        }
+
+        if (format === 'ascii') {
+          stdout.write(`${formatFleetInspectAscii(result)}\n`);
+          return;
+        }
+        if (format === 'csv' || format === 'zip') {
+          emitTables(fleetInspectTables(result, snapshot, includeSensitive), { ...options, format });
+          return;
+        }
+
+        printJson(stdout, result, { strictJson: options.strictJson });
+      }
+    );
+
   inspect
     .command('deep-dive')
     .description('Build deep-dive operational analytics')
-    .requiredOption('--tenant <tenantId>', 'Tenant id')
+    .option('--tenant <tenantId>', 'Tenant id')
+    .option('--tenants <ids>', 'Comma-separated tenant ids to inspect concurrently')
+    .option('--all-tenants', 'Inspect every configured tenant')
+    .option('--concurrency <n>', `Tenants inspected in parallel (max ${MAX_FAN_OUT_CONCURRENCY})`, String(DEFAULT_FAN_OUT_CONCURRENCY))
     .option('--window <hours>', 'Window in hours', '24')
+    .option('--format <format>', 'json|ascii|markdown|csv|zip', 'json')
+    .option('--table <name>', 'Table printed by --format csv (see README for the list)', 'summary')
+    .option('--out <path>', 'Output archive for --format zip')
+    .option('--include-sensitive', 'Include full device/ticket IDs, serials and MACs in csv/zip output')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: {
+        tenant?: string;
+        tenants?: string;
+        allTenants?: boolean;
+        concurrency?: string;
+        window?: string;
+        format?: string;
+        table?: string;
+        out?: string;
+        includeSensitive?: boolean;
+        strictJson?: boolean;
+      }) => {
+        const format = options.format ?? 'json';
+        if (!['json', 'ascii', 'markdown', 'csv', 'zip'].includes(format)) {
+          throw new Error(`Invalid format: ${format}. Use json|ascii|markdown|csv|zip.`);
+        }
+        requireZipOut(format, options.out);
+        const includeSensitive = options.includeSensitive === true;
+        const parsedWindow = Number.parseInt(options.window ?? '24', 10);
+        const windowHours = Number.isFinite(parsedWindow) ? parsedWindow : 24;
+
+        const tenantIds = await resolveFanOutTargets(options);
+        if (tenantIds && (format === 'csv' || format === 'zip')) {
+          const tables = await collectTenantTables(tenantIds, parsePositiveIntOption(options.concurrency, '--concurrency'), async (tenantId) => {
+            const tenantSnapshot = await collectFleetSnapshot(await withFanOutClient(tenantId), tenantId, { windowHours });
+            return deepDiveTables(buildDeepDive(tenantSnapshot, windowHours), includeSensitive, tenantSnapshot);
+          });
+          if (tables) {
+            emitTables(tables, { ...options, format });
+          }
+          return;
+        }
+        if (tenantIds) {
+          const outcomes = await runPerTenant(
+            tenantIds,
+            async (tenantId) => buildDeepDive(await collectFleetSnapshot(await withFanOutClient(tenantId), tenantId, { windowHours }), windowHours),
+            { concurrency: parsePositiveIntOption(options.concurrency, '--concurrency') }
+          );
+          const result = buildMultiTenantDeepDive(outcomes, windowHours);
+          if (format === 'json') {
+            printJson(stdout, result, { strictJson: options.strictJson });
+          } else {
+            const sections = result.tenants.map((item) =>
+              format === 'ascii' ? formatDeepDiveAscii(item) : formatDeepDiveMarkdown(item, false)
+            );
+            const failures = result.failures.map((failure) => `Tenant ${failure.tenantId} failed: ${failure.error.detail}`);
+            stdout.write(`${[...sections, ...failures].join(format === 'ascii' ? '\n\n' : '\n\n---\n\n')}\n`);
+          }
+          if (result.tenants.length === 0) {
+            process.exitCode = 1;
+          }
+          return;
+        }
+
+        const tenantId = requireInspectTenant(options.tenant);
+        const client = await withClient(tenantId);
+        const snapshot = await collectFleetSnapshot(client, tenantId, { windowHours });
+        const result = buildDeepDive(snapshot, windowHours);
+        if (result.truncated) {
+          stderr.write(`${truncationNotice(result.truncated)}\n`);
+        }
+
+        if (format === 'ascii') {
+          stdout.write(`${formatDeepDiveAscii(result)}\n`);
+          return;
+        }
+        if (format === 'markdown') {
+          stdout.write(`${formatDeepDiveMarkdown(result, false)}\n`);
+          return;
+        }
+        if (format === 'csv' || format === 'zip') {
+          emitTables(deepDiveTables(result, includeSensitive, snapshot), { ...options, format });
+          return;
+        }
+        printJson(stdout, result, { strictJson: options.strictJson });
+      }
+    );
+
+  const snapshot = inspect.command('snapshot').description('Persist fleet snapshots for later diffing');
+
+  snapshot
+    .command('save')
+    .description('Collect a fleet snapshot and save it under the config dir')
+    .requiredOption('--tenant <tenantId>', 'Tenant id')
+    .option('--out <path>', 'Write to this path instead of <config-dir>/snapshots/<tenant>/')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(async (options: { tenant: string; out?: string; strictJson?: boolean }) => {
+      const client = await withClient(options.tenant);
+      const collected = await collectFleetSnapshot(client, options.tenant);
+      const saved = await saveFleetSnapshot(collected, { outPath: options.out });
+      printJson(stdout, saved, { strictJson: options.strictJson });
+    });
+
+  inspect
+    .command('diff')
+    .description('Compare two fleet snapshots (file path, saved name, latest or previous)')
+    .argument('<from>', 'Older snapshot')
+    .argument('<to>', 'Newer snapshot')
+    .option('--tenant <tenantId>', 'Tenant id used to resolve saved snapshot names')
     .option('--format <format>', 'json|ascii|markdown', 'json')
     .option('--strict-json', 'Fail on non-serializable output')
-    .action(async (options: { tenant: string; window?: string; format?: string; strictJson?: boolean }) => {
+    .action(async (from: string, to: string, options: { tenant?: string; format?: string; strictJson?: boolean }) => {
       const format = options.format ?? 'json';
       if (!['json', 'ascii', 'markdown'].includes(format)) {
         throw new Error(`Invalid format: ${format}. Use json|ascii|markdown.`);
       }
-      const windowHours = Number.parseInt(options.window ?? '24', 10);
-      const client = await withClient(options.tenant);
-      const snapshot = await collectFleetSnapshot(client, options.tenant);
-      const result = buildDeepDive(snapshot, Number.isFinite(windowHours) ? windowHours : 24);
+      const [before, after] = await Promise.all([
+        loadFleetSnapshot(from, { tenantId: options.tenant }),
+        loadFleetSnapshot(to, { tenantId: options.tenant })
+      ]);
+      const result = diffFleetSnapshots(before, after);
 
       if (format === 'ascii') {
-        stdout.write(`${formatDeepDiveAscii(result)}\n`);
+        stdout.write(`${formatFleetDiffAscii(result)}\n`);
         return;
       }
       if (format === 'markdown') {
-        stdout.write(`${formatDeepDiveMarkdown(result, false)}\n`);
+        stdout.write(`${formatFleetDiffMarkdown(result)}\n`);
         return;
       }
       printJson(stdout, result, { strictJson: options.strictJson });
     });
 
+  inspect
+    .command('config-drift')
+    .description('Group device configurations by fingerprint and report keys that drift from a baseline or the majority')
+    .requiredOption('--tenant <tenantId>', 'Tenant id')
+    .option('--space <space>', 'Space id or full path (includes descendant spaces)')
+    .option('--filter <field=value>', 'Device filter, e.g. status=online (repeatable)', collectOption, [])
+    .option('--baseline <path>', 'Baseline JSON/YAML config; without it keys are compared against the majority value')
+    .option('--concurrency <n>', `Devices read in parallel (max ${MAX_BROADCAST_CONCURRENCY})`, String(DEFAULT_BROADCAST_CONCURRENCY))
+    .option('--format <format>', 'json|markdown', 'json')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: {
+        tenant: string;
+        space?: string;
+        filter: string[];
+        baseline?: string;
+        concurrency?: string;
+        format?: string;
+        strictJson?: boolean;
+      }) => {
+        const format = options.format ?? 'json';
+        if (!['json', 'markdown'].includes(format)) {
+          throw new Error(`Invalid format: ${format}. Use json|markdown.`);
+        }
+        const filters = parseDeviceFilters(options.filter);
+        const baseline = options.baseline ? { ref: options.baseline, config: loadConfigFile(options.baseline) } : undefined;
+        const client = await withClient(options.tenant);
+        const result = await collectConfigDrift({
+          client,
+          tenantId: options.tenant,
+          space: options.space,
+          filters,
+          baseline,
+          concurrency: parsePositiveIntOption(options.concurrency, '--concurrency')
+        });
+        if (result.scope.truncated) {
+          stderr.write(`${truncationNotice(['devices'])}\n`);
+        }
+
+        if (format === 'markdown') {
+          stdout.write(`${formatConfigDriftMarkdown(result)}\n`);
+        } else {
+          printJson(stdout, result, { strictJson: options.strictJson });
+        }
+        if (result.totals.read === 0 && result.totals.failed > 0) {
+          process.exitCode = 1;
+        }
+      }
+    );
+
   const report = program.command('report').description('Generate fleet findings reports');
 
   report
@@ -879,7 +1849,8 @@ export function createCli(runtime: CliRuntime = {}): Command {
     .requiredOption('--tenant <tenantId>', 'Tenant id')
     .requiredOption('--input <path>', 'Path to deep-dive JSON input')
     .requiredOption('--out <path>', 'Output path')
-    .option('--format <format>', 'markdown|pdf', 'pdf')
+    .option('--format <format>', 'markdown|pdf|html', 'pdf')
+    .option('--attach <path>', 'Append `inspect config-drift --format json` output as a Configuration Drift section')
     .option('--include-sensitive', 'Include full ticket/device IDs in report')
     .option('--strict-json', 'Fail on non-serializable output')
     .action(
@@ -887,7 +1858,8 @@ export function createCli(runtime: CliRuntime = {}): Command {
         tenant: string;
         input: string;
         out: string;
-        format?: 'markdown' | 'pdf';
+        format?: FleetReportFormat;
+        attach?: string;
         includeSensitive?: boolean;
         strictJson?: boolean;
       }) => {
@@ -897,8 +1869,8 @@ export function createCli(runtime: CliRuntime = {}): Command {
           windowHours?: number;
         };
         const format = options.format ?? 'pdf';
-        if (!['markdown', 'pdf'].includes(format)) {
-          throw new Error(`Invalid format: ${format}. Use markdown|pdf.`);
+        if (!['markdown', 'pdf', 'html'].includes(format)) {
+          throw new Error(`Invalid format: ${format}. Use markdown|pdf|html.`);
         }
 
         if (raw.schemaVersion !== 'xyte.inspect.deep-dive.v1') {
@@ -911,6 +1883,46 @@ export function createCli(runtime: CliRuntime = {}): Command {
 
         const generated = await generateFleetReport({
           deepDive: raw as any,
+          format,
+          outPath: options.out,
+          includeSensitive: options.includeSensitive === true,
+          configDrift: options.attach ? loadConfigDriftAttachment(options.attach, options.tenant) : undefined
+        });
+        printJson(stdout, generated, { strictJson: options.strictJson });
+      }
+    );
+
+  report
+    .command('portfolio')
+    .description('Generate a cross-tenant portfolio report from several deep-dive JSON inputs')
+    .option('--input <path>', 'Deep-dive JSON input (repeatable; multi-tenant deep-dive files are expanded)', collectOption, [])
+    .requiredOption('--out <path>', 'Output path')
+    .option('--format <format>', 'markdown|pdf', 'pdf')
+    .option('--include-sensitive', 'Include full ticket/device IDs in report')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: { input: string[]; out: string; format?: string; includeSensitive?: boolean; strictJson?: boolean }) => {
+        const format = options.format ?? 'pdf';
+        if (!['markdown', 'pdf'].includes(format)) {
+          throw new Error(`Invalid format: ${format}. Use markdown|pdf.`);
+        }
+        if (!options.input.length) {
+          throw new Error('Missing --input. Pass one deep-dive JSON file per tenant.');
+        }
+
+        const deepDives = options.input.flatMap((inputPath) => {
+          const raw = JSON.parse(readFileSync(path.resolve(inputPath), 'utf8')) as { schemaVersion?: string; tenants?: unknown[] };
+          if (raw.schemaVersion === 'xyte.inspect.deep-dive.multi.v1') {
+            return (raw.tenants ?? []) as DeepDiveResult[];
+          }
+          if (raw.schemaVersion !== 'xyte.inspect.deep-dive.v1') {
+            throw new Error(`${inputPath} must be produced by \`xyte-cli inspect deep-dive --format json\`.`);
+          }
+          return [raw as DeepDiveResult];
+        });
+
+        const generated = await generatePortfolioReport({
+          deepDives,
           format: format as 'markdown' | 'pdf',
           outPath: options.out,
           includeSensitive: options.includeSensitive === true
@@ -919,6 +1931,126 @@ export function createCli(runtime: CliRuntime = {}): Command {
       }
     );
 
+  program
+    .command('watch')
+    .description('Poll devices, incidents and tickets and emit change events as NDJSON')
+    .requiredOption('--tenant <tenantId>', 'Tenant id')
+    .option('--interval <duration>', 'Poll interval (e.g. 30s, 5m, 1h)', '60s')
+    .option('--max-polls <n>', 'Stop after n polls')
+    .option('--webhook <url>', 'POST each event as JSON to this URL')
+    .option('--exec <command>', 'Run a shell command per event with the event JSON on stdin')
+    .option('--strict-json', 'Fail on non-serializable output')
+    .action(
+      async (options: { tenant: string; interval?: string; maxPolls?: string; webhook?: string; exec?: string; strictJson?: boolean }) => {
+        const intervalMs = parseIntervalMs(options.interval ?? '60s');
+        const maxPolls = parsePositiveIntOption(options.maxPolls, '--max-polls');
+        const client = await withClient(options.tenant);
+        const controller = new AbortController();
+        const stop = () => controller.abort();
+        process.on('SIGINT', stop);
+        process.on('SIGTERM', stop);
+
+        const deliver = async (label: string, send: () => Promise<void>) => {
+          try {
+            await send();
+          } catch (error) {
+            stderr.write(`${label} failed: ${error instanceof Error ? error.message : String(error)}\n`);
+          }
+        };
+        // Hooks run in event order on their own chain so a slow receiver never delays the next poll.
+        let deliveries = Promise.resolve();
+
+        try {
+          await runWatch({
+            client,
+            tenantId: options.tenant,
+            intervalMs,
+            maxPolls,
+            signal: controller.signal,
+            onEvent: (event) => {
+              writeNdjsonLine(stdout, event, { strictJson: options.strictJson });
+              deliveries = deliveries.then(async () => {
+                if (options.webhook) {
+                  await deliver('Webhook delivery', () => postWebhook(options.webhook as string, event));
+                }
+                if (options.exec) {
+                  await deliver('Hook command', () => runCommandHook(options.exec as string, event));
+                }
+              });
+            }
+          });
+        } finally {
+          process.off('SIGINT', stop);
+          process.off('SIGTERM', stop);
+          await deliveries;
+        }
+      }
+    );
+
+  const mock = program.command('mock').description('Local mock Xyte API for scripts and TUI testing');
+  mock
+    .command('serve')
+    .description('Serve every catalog route from an in-memory fixture dataset')
+    .option('--port <port>', 'Port to listen on', '4010')
+    .option('--host <host>', 'Interface to bind', '127.0.0.1')
+    .option('--fixtures <path>', 'JSON file overriding dataset collections (devices, spaces, incidents, ...)')
+    .option('--latency-ms <ms>', 'Delay every response')
+    .option('--rate-limit-every <n>', 'Answer every nth request with 429')
+    .option('--retry-after <seconds>', 'Retry-After sent with injected 429s', '1')
+    .option('--error-rate <ratio>', 'Fraction (0-1) of requests answered with 503')
+    .action(
+      async (options: {
+        port: string;
+        host: string;
+        fixtures?: string;
+        latencyMs?: string;
+        rateLimitEvery?: string;
+        retryAfter?: string;
+        errorRate?: string;
+      }) => {
+        const port = Number.parseInt(options.port, 10);
+        if (!Number.isFinite(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid --port: ${options.port}.`);
+        }
+        const errorRate = options.errorRate === undefined ? undefined : Number(options.errorRate);
+        if (errorRate !== undefined && (!Number.isFinite(errorRate) || errorRate < 0 || errorRate > 1)) {
+          throw new Error(`Invalid --error-rate: ${options.errorRate}. Expected a number between 0 and 1.`);
+        }
+
+        const dataset = options.fixtures
+          ? mergeMockDataset(
+              createDefaultMockDataset(),
+              JSON.parse(readFileSync(path.resolve(options.fixtures), 'utf8')) as Partial<MockDataset>
+            )
+          : createDefaultMockDataset();
+        const server = createMockServer({
+          host: options.host,
+          port,
+          dataset,
+          faults: {
+            latencyMs: parsePositiveIntOption(options.latencyMs, '--latency-ms'),
+            rateLimitEvery: parsePositiveIntOption(options.rateLimitEvery, '--rate-limit-every'),
+            retryAfterSeconds: parsePositiveIntOption(options.retryAfter, '--retry-after'),
+            errorRate
+          }
+        });
+
+        const { url } = await server.start();
+        printJson(stdout, { url, hubBaseUrl: url, entryBaseUrl: url, routes: server.routeCount });
+        stderr.write(`Mock Xyte API listening on ${url}. Point a tenant at it with: xyte-cli tenant add mock --hub-url ${url} --entry-url ${url}\n`);
+
+        await new Promise<void>((resolve) => {
+          const shutdown = () => {
+            process.off('SIGINT', shutdown);
+            process.off('SIGTERM', shutdown);
+            server.stop().finally(resolve);
+          };
+          process.on('SIGINT', shutdown);
+          process.on('SIGTERM', shutdown);
+        });
+      }
+    );
+
   const mcp = program.command('mcp').description('Model Context Protocol tools');
   mcp
     .command('serve')
@@ -941,12 +2073,14 @@ export function createCli(runtime: CliRuntime = {}): Command {
     .option('--name <name>', 'Display name')
     .option('--hub-url <url>', 'Hub API base URL')
     .option('--entry-url <url>', 'Entry API base URL')
+    .option('--credential-process <command>', 'Command that prints the API key (empty string clears it)')
     .action(async (tenantId: string, options: Record<string, string | undefined>) => {
       const tenantProfile = await profileStore.upsertTenant({
         id: tenantId,
         name: options.name,
         hubBaseUrl: options.hubUrl,
-        entryBaseUrl: options.entryUrl
+        entryBaseUrl: options.entryUrl,
+        credentialProcess: options.credentialProcess
       });
       printJson(stdout, tenantProfile);
     });
@@ -991,6 +2125,84 @@ export function createCli(runtime: CliRuntime = {}): Command {
       stdout.write(`Default tenant set to ${options.tenant}\n`);
     });
 
+  profile
+    .command('repair')
+    .description('Restore profile.json from the newest good backup when it is corrupt')
+    .action(async () => {
+      if (!(profileStore instanceof FileProfileStore)) {
+        throw new Error('Profile repair is only available for the file-backed profile store.');
+      }
+      printJson(stdout, await profileStore.repair());
+    });
+
+  profile
+    .command('export')
+    .description('Export tenants and key slot metadata, optionally with passphrase-encrypted secrets')
+    .option('--out <path>', 'Write the export to a file (mode 0600) instead of stdout')
+    .option('--tenants <ids>', 'Comma-separated tenant ids (default: all)')
+    .option('--include-secrets', 'Include keychain secrets, encrypted with --passphrase')
+    .option('--passphrase <value>', 'Export passphrase (or set XYTE_CLI_EXPORT_PASSPHRASE)')
+    .action(async (options: { out?: string; tenants?: string; includeSecrets?: boolean; passphrase?: string }) => {
+      const file = await exportProfile({
+        profileStore,
+        tenantIds: parseTenantList(options.tenants),
+        includeSecrets: options.includeSecrets,
+        keychain: options.includeSecrets ? await getKeychain() : undefined,
+        passphrase: options.passphrase ?? process.env.XYTE_CLI_EXPORT_PASSPHRASE
+      });
+
+      if (!options.out) {
+        printJson(stdout, file);
+        return;
+      }
+      const outPath = await writeProfileExport(file, options.out);
+      printJson(stdout, {
+        path: outPath,
+        tenants: file.tenants.map((tenant) => tenant.id),
+        secrets: Object.keys(file.secrets?.entries ?? {}).length
+      });
+    });
+
+  profile
+    .command('import')
+    .description('Import a profile export; merge keeps local tenants and slots, overwrite replaces them')
+    .argument('<file>', 'Profile export file')
+    .option('--mode <mode>', 'merge|overwrite', 'merge')
+    .option('--tenants <ids>', 'Comma-separated tenant ids to import (default: all)')
+    .option('--passphrase <value>', 'Export passphrase (or set XYTE_CLI_EXPORT_PASSPHRASE)')
+    .option('--skip-secrets', 'Import profile metadata only')
+    .option('--trust-credential-process', 'Also import tenant credential_process commands (run through a shell)')
+    .action(
+      async (
+        filePath: string,
+        options: { mode?: string; tenants?: string; passphrase?: string; skipSecrets?: boolean; trustCredentialProcess?: boolean }
+      ) => {
+        const mode = options.mode ?? 'merge';
+        if (mode !== 'merge' && mode !== 'overwrite') {
+          throw new Error(`Invalid mode: ${mode}. Use merge|overwrite.`);
+        }
+        const file = parseProfileExport(readFileSync(filePath, 'utf8'));
+        const importsSecrets = Boolean(file.secrets) && !options.skipSecrets;
+        const result = await importProfile(file, {
+          profileStore,
+          keychain: importsSecrets || mode === 'overwrite' ? await getKeychain() : undefined,
+          mode: mode as ProfileImportMode,
+          tenantIds: parseTenantList(options.tenants),
+          passphrase: options.passphrase ?? process.env.XYTE_CLI_EXPORT_PASSPHRASE,
+          skipSecrets: options.skipSecrets,
+          trustCredentialProcess: options.trustCredentialProcess
+        });
+        for (const item of result.credentialProcesses) {
+          stderr.write(
+            item.imported
+              ? `Imported credential_process for ${item.tenantId}: ${item.command}\n`
+              : `Skipped credential_process for ${item.tenantId}: ${item.command} (re-run with --trust-credential-process to import it)\n`
+          );
+        }
+        printJson(stdout, result);
+      }
+    );
+
   const auth = program.command('auth').description('Manage API keys in OS keychain');
   const authKey = auth.command('key').description('Manage named key slots');
 
@@ -1110,6 +2322,42 @@ export function createCli(runtime: CliRuntime = {}): Command {
       });
     });
 
+  authKey
+    .command('rotate')
+    .description('Verify a new key in a staging slot, make it active and keep the old slot for rollback')
+    .option('--tenant <tenantId>', 'Tenant id (default: active tenant)')
+    .requiredOption('--provider <provider>', 'Provider')
+    .option('--slot <slotRef>', 'Slot id or name to rotate (default: active slot)')
+    .option('--key <value>', 'New API key value')
+    .option('--rollback-hours <n>', 'How long to keep the previous key for rollback', String(DEFAULT_ROLLBACK_HOURS))
+    .action(async (options: { tenant?: string; provider: string; slot?: string; key?: string; rollbackHours?: string }) => {
+      const provider = parseProvider(options.provider);
+      const tenantId = await requireTenantId(profileStore, options.tenant);
+      const rollbackHours = Number(options.rollbackHours ?? DEFAULT_ROLLBACK_HOURS);
+      const result = await rotateKeySlot({
+        profileStore,
+        keychain: await getKeychain(),
+        tenantId,
+        provider,
+        slotRef: options.slot,
+        newKey: requireKeyValue(options.key),
+        rollbackHours
+      });
+      printJson(stdout, result);
+    });
+
+  authKey
+    .command('rollback')
+    .description('Re-activate the slot retired by the last rotation while its rollback window is open')
+    .option('--tenant <tenantId>', 'Tenant id (default: active tenant)')
+    .requiredOption('--provider <provider>', 'Provider')
+    .action(async (options: { tenant?: string; provider: string }) => {
+      const provider = parseProvider(options.provider);
+      const tenantId = await requireTenantId(profileStore, options.tenant);
+      const prunedSlotIds = await pruneExpiredRollbackSlots({ profileStore, keychain: await getKeychain(), tenantId, provider });
+      printJson(stdout, { ...(await rollbackKeyRotation({ profileStore, tenantId, provider })), prunedSlotIds });
+    });
+
   authKey
     .command('remove')
     .requiredOption('--tenant <tenantId>', 'Tenant id')
@@ -1175,23 +2423,38 @@ export function createCli(runtime: CliRuntime = {}): Command {
     .description('Show setup/readiness status')
     .option('--tenant <tenantId>', 'Tenant id override')
     .option('--format <format>', 'json|text', 'json')
-    .action(async (options: { tenant?: string; format?: OutputFormat }) => {
-      const keychain = await getKeychain();
-      const client = await withClient(options.tenant);
-      const readiness = await evaluateReadiness({
-        profileStore,
-        keychain,
-        tenantId: options.tenant,
-        client,
-        checkConnectivity: true
-      });
+    .option('--max-key-age <days>', 'Flag keys older than this (or set XYTE_CLI_MAX_KEY_AGE_DAYS)')
+    .option('--max-validation-age <days>', 'Flag keys not validated within this (or set XYTE_CLI_MAX_VALIDATION_AGE_DAYS)')
+    .option('--fail-on-policy', 'Exit non-zero when any key violates the policy (for CI)')
+    .action(
+      async (options: {
+        tenant?: string;
+        format?: OutputFormat;
+        maxKeyAge?: string;
+        maxValidationAge?: string;
+        failOnPolicy?: boolean;
+      }) => {
+        const keychain = await getKeychain();
+        const client = await withClient(options.tenant);
+        const readiness = await evaluateReadiness({
+          profileStore,
+          keychain,
+          tenantId: options.tenant,
+          client,
+          checkConnectivity: true,
+          keyPolicy: parseKeyPolicy({ maxKeyAge: options.maxKeyAge, maxValidationAge: options.maxValidationAge })
+        });
 
-      if ((options.format ?? 'json') === 'text') {
-        stdout.write(formatReadinessText(readiness));
-        return;
+        if ((options.format ?? 'json') === 'text') {
+          stdout.write(formatReadinessText(readiness));
+        } else {
+          printJson(stdout, readiness);
+        }
+        if (options.failOnPolicy && readiness.policyViolations.length > 0) {
+          process.exitCode = 1;
+        }
       }
-      printJson(stdout, readiness);
-    });
+    );
 
   setup
     .command('run')
@@ -26,3 +26,11 @@ export function hasEndpoint(key: string): boolean {
 export function listEndpointKeys(): string[] {
   return endpoints.map((endpoint) => endpoint.key);
 }
+
+export function requiresWriteGuard(method: string): boolean {
+  return !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+}
+
+export function requiresDestructiveGuard(method: string): boolean {
+  return method.toUpperCase() === 'DELETE';
+}
@@ -1,4 +1,14 @@
 import { getEndpoint, listEndpoints } from './catalog';
+import { validateRequestBody } from './endpoint-schemas';
+import {
+  DEFAULT_MAX_PAGES,
+  DEFAULT_PAGE_SIZE,
+  extractPageItems,
+  isPaginatedEndpoint,
+  readTotalPages,
+  resolvePageSize,
+  resolveStartPage
+} from './pagination';
 import { HttpTransport } from '../http/transport';
 import { XyteAuthError, XyteValidationError } from '../http/errors';
 import { createDeviceNamespace } from '../namespaces/device';
@@ -6,9 +16,18 @@ import { createOrganizationNamespace } from '../namespaces/organization';
 import { createPartnerNamespace } from '../namespaces/partner';
 import { createKeychainStore, type KeychainStore } from '../secure/keychain';
 import { FileProfileStore, type ProfileStore } from '../secure/profile-store';
+import { PROVIDER_ENV_VARS, resolveProviderSecret, tenantEnvVar, type ResolvedSecret } from '../secure/secret-sources';
 import type { PublicEndpointSpec } from '../types/endpoints';
-import type { SecretProvider } from '../types/profile';
-import type { XyteCallArgs, XyteCallResult, XyteClient, XyteClientOptions } from '../types/client';
+import type { SecretProvider, TenantProfile } from '../types/profile';
+import type {
+  XyteCallArgs,
+  XyteCallResult,
+  XyteClient,
+  XyteClientOptions,
+  XytePage,
+  XytePaginateOptions,
+  XyteRequestPreview
+} from '../types/client';
 
 const DEFAULT_HUB_BASE_URL = 'https://hub.xyte.io';
 const DEFAULT_ENTRY_BASE_URL = 'https://entry.xyte.io';
@@ -38,6 +57,37 @@ function normalizeCloudSettingsPayload(body: unknown): Record<string, unknown> {
   return { property, value };
 }
 
+const REDACTED_HEADER_PATTERN = /^(authorization|x-api-key)$|token|secret/i;
+
+function previewBody(body: string | FormData | undefined): string | undefined {
+  if (!(body instanceof FormData)) {
+    return body;
+  }
+  const fields: Record<string, string> = {};
+  body.forEach((value, key) => {
+    fields[key] = typeof value === 'string' ? value : `[file ${value.name || 'blob'}, ${value.size} bytes]`;
+  });
+  return JSON.stringify(fields);
+}
+
+function buildRequestPreview(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: string | FormData | undefined
+): XyteRequestPreview {
+  const redacted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    redacted[key] = REDACTED_HEADER_PATTERN.test(key) ? '[REDACTED]' : value;
+  }
+  return {
+    method,
+    url,
+    headers: redacted,
+    body: previewBody(body)
+  };
+}
+
 function withPathParams(pathTemplate: string, pathParams: PublicEndpointSpec['pathParams'], path: XyteCallArgs['path']): string {
   let compiled = pathTemplate;
   for (const param of pathParams) {
@@ -95,7 +145,10 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
     new HttpTransport({
       timeoutMs: options.timeoutMs,
       retryAttempts: options.retryAttempts,
-      retryBackoffMs: options.retryBackoffMs
+      retryBackoffMs: options.retryBackoffMs,
+      rateLimit: options.rateLimit,
+      recordPath: options.recordPath,
+      replayPath: options.replayPath
     });
 
   let keychainPromise: Promise<KeychainStore> | undefined;
@@ -110,6 +163,9 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
     return keychainPromise;
   };
 
+  // credential_process output is reused for the client's lifetime instead of spawning a process per request.
+  const processSecrets = new Map<string, ResolvedSecret>();
+
   const resolveTenant = async (requestedTenantId?: string) => {
     const tenantId = requestedTenantId ?? options.tenantId ?? (await profileStore.getData()).activeTenantId;
     if (!tenantId) {
@@ -121,7 +177,7 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
     };
   };
 
-  const getAuthHeader = async (endpoint: PublicEndpointSpec, tenantId?: string): Promise<string | undefined> => {
+  const getAuthHeader = async (endpoint: PublicEndpointSpec, tenantId?: string, tenant?: TenantProfile): Promise<string | undefined> => {
     if (endpoint.authScope === 'none') {
       return undefined;
     }
@@ -136,23 +192,26 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
       return undefined;
     }
 
-    if (!tenantId) {
-      throw new XyteAuthError(
-        `Endpoint ${endpoint.key} requires ${endpoint.authScope} API key. Provide a tenant via --tenant / profile default, or pass auth option.`
-      );
+    const slotId = tenantId ? (await profileStore.getActiveKeySlot(tenantId, provider))?.slotId ?? 'default' : undefined;
+    const cacheKey = `${tenantId}:${provider}:${slotId}`;
+    const resolved =
+      processSecrets.get(cacheKey) ??
+      (await resolveProviderSecret({ provider, tenantId, tenant, slotId, fanOut: options.fanOut, getKeychain }, options.secretResolvers));
+    if (resolved?.source === 'credential_process') {
+      processSecrets.set(cacheKey, resolved);
+    }
+    if (resolved) {
+      return resolved.value;
     }
 
-    const activeSlot = await profileStore.getActiveKeySlot(tenantId, provider);
-    const slotId = activeSlot?.slotId ?? 'default';
-    const keychain = await getKeychain();
-    const value = await keychain.getSlotSecret(tenantId, provider, slotId);
-    if (!value) {
+    if (!tenantId) {
       throw new XyteAuthError(
-        `Missing API key for provider ${provider} in tenant ${tenantId} (slot ${slotId}). Use "xyte-cli auth key add/use" or "xyte-cli setup run".`
+        `Endpoint ${endpoint.key} requires ${endpoint.authScope} API key. Provide a tenant via --tenant / profile default, set ${PROVIDER_ENV_VARS[provider]}, or pass auth option.`
       );
     }
-
-    return value;
+    throw new XyteAuthError(
+      `Missing API key for provider ${provider} in tenant ${tenantId} (slot ${slotId}). Use "xyte-cli auth key add/use", "xyte-cli setup run" or set ${tenantEnvVar(provider, tenantId)}.`
+    );
   };
 
   const callWithMeta = async <T = unknown>(endpointKey: string, args: XyteCallArgs = {}): Promise<XyteCallResult<T>> => {
@@ -164,7 +223,7 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
 
     const path = withPathParams(endpoint.pathTemplate, endpoint.pathParams, args.path);
     const url = withQueryParams(new URL(path, baseUrl), args.query);
-    const authHeader = await getAuthHeader(endpoint, tenantId);
+    const authHeader = await getAuthHeader(endpoint, tenantId, tenant);
 
     const headers: Record<string, string> = {
       Accept: 'application/json',
@@ -177,6 +236,7 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
 
     let body: string | FormData | undefined;
     if (endpoint.hasBody && args.body !== undefined) {
+      validateRequestBody(endpoint.key, args.body);
       let requestBody = args.body;
       if (endpoint.key === 'device.device-info.setCloudSettings') {
         requestBody = normalizeCloudSettingsPayload(args.body);
@@ -200,6 +260,18 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
       }
     }
 
+    if (args.dryRun) {
+      return {
+        status: 0,
+        headers: {},
+        data: undefined as T,
+        durationMs: 0,
+        retryCount: 0,
+        attempts: 0,
+        dryRun: buildRequestPreview(endpoint.method, url.toString(), headers, body)
+      };
+    }
+
     const response = await transport.request<T>({
       requestId: args.requestId,
       endpointKey: endpoint.key,
@@ -207,7 +279,8 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
       url: url.toString(),
       headers,
       body,
-      idempotent: ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'].includes(endpoint.method)
+      idempotent: ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'].includes(endpoint.method),
+      rateLimitKey: `${tenantId ?? 'anonymous'}@${url.origin}`
     });
 
     return {
@@ -216,7 +289,8 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
       data: response.data,
       durationMs: response.meta?.durationMs ?? 0,
       retryCount: response.meta?.retryCount ?? 0,
-      attempts: response.meta?.attempts ?? 1
+      attempts: response.meta?.attempts ?? 1,
+      rateLimit: response.meta?.rateLimit
     };
   };
 
@@ -225,12 +299,76 @@ export function createXyteClient(options: XyteClientOptions = {}): XyteClient {
     return result.data;
   };
 
+  async function* paginate<T = unknown>(
+    endpointKey: string,
+    args: XyteCallArgs = {},
+    paginateOptions: XytePaginateOptions = {}
+  ): AsyncGenerator<XytePage<T>, void, undefined> {
+    const endpoint = getEndpoint(endpointKey);
+    if (endpoint.method !== 'GET') {
+      throw new XyteValidationError(`Endpoint ${endpoint.key} is not a read endpoint and cannot be paginated.`);
+    }
+
+    if (!isPaginatedEndpoint(endpoint)) {
+      const result = await callWithMeta(endpointKey, args);
+      yield {
+        page: 1,
+        items: extractPageItems(endpoint, result.data) as T[],
+        paginated: false,
+        truncated: false,
+        status: result.status,
+        durationMs: result.durationMs,
+        retryCount: result.retryCount,
+        rateLimit: result.rateLimit
+      };
+      return;
+    }
+
+    const perPage = resolvePageSize(endpoint, args.query?.per_page, paginateOptions.perPage ?? DEFAULT_PAGE_SIZE);
+    const startPage = resolveStartPage(args.query?.page);
+    const maxPages = paginateOptions.maxPages ?? DEFAULT_MAX_PAGES;
+
+    for (let fetched = 1; ; fetched += 1) {
+      const page = startPage + fetched - 1;
+      const query: XyteCallArgs['query'] = { ...(args.query ?? {}), page };
+      if (perPage !== undefined) {
+        query.per_page = perPage;
+      }
+
+      const result = await callWithMeta(endpointKey, { ...args, query });
+      const items = extractPageItems(endpoint, result.data) as T[];
+      const totalPages = readTotalPages(result.data);
+      // Servers may cap per_page below the requested size, so a short page only ends paging when total_pages is absent.
+      const exhausted =
+        items.length === 0 ||
+        (totalPages !== undefined ? page >= totalPages : perPage !== undefined && items.length < perPage);
+      const truncated = !exhausted && fetched >= maxPages;
+
+      yield {
+        page,
+        perPage,
+        items,
+        paginated: true,
+        truncated,
+        status: result.status,
+        durationMs: result.durationMs,
+        retryCount: result.retryCount,
+        rateLimit: result.rateLimit
+      };
+
+      if (exhausted || truncated) {
+        return;
+      }
+    }
+  }
+
   return {
     device: createDeviceNamespace(call),
     organization: createOrganizationNamespace(call),
     partner: createPartnerNamespace(call),
     call,
     callWithMeta,
+    paginate,
     describeEndpoint: (key) => getEndpoint(key),
     listEndpoints: () => listEndpoints(),
     listTenantEndpoints: async (tenantId: string) => {
@@ -0,0 +1,314 @@
+import { z } from 'zod';
+
+import { XyteValidationError } from '../http/errors';
+
+const IdSchema = z.union([z.string(), z.number()]);
+const JsonRecordSchema = z.record(z.string(), z.unknown());
+const OptionalText = z.string().nullable().optional();
+const OptionalId = IdSchema.nullable().optional();
+
+function listOf<T extends z.ZodType>(item: T, key: string) {
+  return z.union([
+    z.array(item),
+    z.looseObject({
+      [key]: z.array(item).optional(),
+      data: z.array(item).optional(),
+      items: z.array(item).optional(),
+      total_pages: z.number().optional()
+    })
+  ]);
+}
+
+export const DeviceSchema = z.looseObject({
+  id: IdSchema,
+  name: OptionalText,
+  status: OptionalText,
+  sn: OptionalText,
+  mac: OptionalText,
+  model: z.unknown().optional(),
+  space_id: OptionalId,
+  space: z.looseObject({ id: OptionalId, name: OptionalText, full_path: OptionalText }).nullable().optional(),
+  last_seen_at: OptionalText,
+  state: z.unknown().optional()
+});
+
+export const SpaceSchema = z.looseObject({
+  id: IdSchema,
+  name: OptionalText,
+  space_type: OptionalText,
+  parent_id: OptionalId,
+  path: OptionalText,
+  full_path: OptionalText
+});
+
+export const IncidentSchema = z.looseObject({
+  id: IdSchema,
+  title: OptionalText,
+  status: OptionalText,
+  priority: z.union([z.string(), z.number()]).nullable().optional(),
+  device_id: OptionalId,
+  device_name: OptionalText,
+  space_tree_path_name: OptionalText,
+  created_at: OptionalText,
+  closed_at: OptionalText
+});
+
+export const TicketSchema = z.looseObject({
+  id: IdSchema,
+  title: OptionalText,
+  subject: OptionalText,
+  status: OptionalText,
+  device_id: OptionalId,
+  created_at: OptionalText,
+  updated_at: OptionalText
+});
+
+export const CommandSchema = z.looseObject({
+  id: IdSchema,
+  name: OptionalText,
+  friendly_name: OptionalText,
+  status: OptionalText,
+  message: OptionalText,
+  created_at: OptionalText
+});
+
+export const HistorySchema = z.looseObject({
+  device_id: OptionalId,
+  status: OptionalText,
+  from: OptionalText,
+  to: OptionalText,
+  created_at: OptionalText
+});
+
+export const OrganizationInfoSchema = z.looseObject({
+  id: OptionalId,
+  name: OptionalText
+});
+
+export const LicenseSchema = z.looseObject({
+  id: OptionalId,
+  state: OptionalText
+});
+
+export const FileSchema = z.looseObject({
+  id: IdSchema,
+  name: OptionalText,
+  url: OptionalText
+});
+
+const AckSchema = z.unknown();
+const MultipartBodySchema = z.union([z.instanceof(FormData), JsonRecordSchema]);
+
+const TelemetrySchema = z.looseObject({
+  status: z.string().optional(),
+  timestamp: z.string().optional(),
+  override: z.boolean().optional(),
+  telemetries: JsonRecordSchema.optional()
+});
+
+const TicketUpdateSchema = z.looseObject({
+  title: z.string().optional(),
+  description: z.string().optional()
+});
+
+const MessageSchema = z.looseObject({
+  message: z.string().min(1)
+});
+
+const SpaceBodySchema = z.looseObject({
+  name: z.string().min(1),
+  parent_id: OptionalId,
+  config: JsonRecordSchema.optional()
+});
+
+export interface EndpointSchemaEntry {
+  body?: z.ZodType;
+  response: z.ZodType;
+}
+
+export const ENDPOINT_SCHEMAS = {
+  'device.command.getCommand': { response: CommandSchema.nullable() },
+  'device.command.getCommandsWithChildren': { response: listOf(CommandSchema, 'commands') },
+  'device.command.updateCommand': {
+    body: z.looseObject({ id: IdSchema, status: z.string().min(1), message: z.string().optional() }),
+    response: AckSchema
+  },
+  'device.configuration.getConfig': { response: JsonRecordSchema },
+  'device.configuration.setConfig': { body: JsonRecordSchema, response: AckSchema },
+  'device.device-info.getDeviceInfo': { response: DeviceSchema },
+  'device.device-info.getSpaceInfo': { response: SpaceSchema },
+  'device.device-info.setCloudSettings': {
+    body: z.union([z.looseObject({ property: z.string().min(1), value: z.unknown() }), JsonRecordSchema]),
+    response: AckSchema
+  },
+  'device.device-info.updateDevice': {
+    body: z.looseObject({ name: z.string().optional(), details: JsonRecordSchema.optional() }),
+    response: AckSchema
+  },
+  'device.events.addEvent': {
+    body: z.looseObject({ name: z.string().min(1), category: z.string().optional() }),
+    response: AckSchema
+  },
+  'device.file-dumps.appendDumpFile': { body: MultipartBodySchema, response: AckSchema },
+  'device.file-dumps.sendDump': { body: MultipartBodySchema, response: AckSchema },
+  'device.incidents.closeIncident': { response: AckSchema },
+  'device.incidents.closeIncidents': { response: AckSchema },
+  'device.incidents.getIncidents': { response: listOf(IncidentSchema, 'incidents') },
+  'device.incidents.openIncident': {
+    body: z.looseObject({
+      title: z.string().min(1),
+      issue: z.string().optional(),
+      priority: z.number().int().optional(),
+      description: z.string().optional()
+    }),
+    response: AckSchema
+  },
+  'device.license.getLicense': { response: LicenseSchema },
+  'device.license.updateLicense': {
+    body: z.looseObject({ id: IdSchema, state: z.string().min(1) }),
+    response: AckSchema
+  },
+  'device.registration.bulkRegisterDevice': {
+    body: z.union([z.array(JsonRecordSchema), JsonRecordSchema]),
+    response: AckSchema
+  },
+  'device.registration.deleteDevice': { response: AckSchema },
+  'device.registration.getChildDevices': { response: listOf(DeviceSchema, 'devices') },
+  'device.registration.registerChildDevice': {
+    body: z.looseObject({
+      sn: z.string().min(1),
+      model_id: z.string().min(1),
+      firmware_version: z.string().optional(),
+      name: z.string().optional(),
+      details: JsonRecordSchema.optional()
+    }),
+    response: AckSchema
+  },
+  'device.registration.registerDevice': {
+    body: z.looseObject({
+      mac: z.string().optional(),
+      cloud_id: z.string().optional(),
+      sn: z.string().optional(),
+      hardware_key: z.string().optional(),
+      firmware_version: z.string().optional(),
+      name: z.string().optional(),
+      details: JsonRecordSchema.optional()
+    }),
+    response: AckSchema
+  },
+  'device.remote-files.getFile': { response: FileSchema },
+  'device.remote-files.getFiles': { response: listOf(FileSchema, 'files') },
+  'device.telemetries.sendChildTelemetry': { body: z.record(z.string(), TelemetrySchema), response: AckSchema },
+  'device.telemetries.sendMassTelemetry': { body: z.record(z.string(), TelemetrySchema), response: AckSchema },
+  'device.telemetries.sendTelemetry': { body: TelemetrySchema, response: AckSchema },
+  'organization.commands.cancelCommand': { response: AckSchema },
+  'organization.commands.getCommands': { response: listOf(CommandSchema, 'commands') },
+  'organization.commands.sendCommand': {
+    body: z.looseObject({
+      name: z.string().min(1),
+      friendly_name: z.string().optional(),
+      file_id: IdSchema.optional(),
+      extra_params: JsonRecordSchema.optional()
+    }),
+    response: CommandSchema
+  },
+  'organization.devices.claimDevice': {
+    body: z.looseObject({
+      name: z.string().optional(),
+      space_id: IdSchema.optional(),
+      mac: OptionalText,
+      sn: OptionalText,
+      cloud_id: OptionalText
+    }),
+    response: AckSchema
+  },
+  'organization.devices.deleteDevice': { response: AckSchema },
+  'organization.devices.getDevice': { response: DeviceSchema },
+  'organization.devices.getDevices': { response: listOf(DeviceSchema, 'devices') },
+  'organization.devices.getHistories': { response: listOf(HistorySchema, 'histories') },
+  'organization.devices.updateDevice': {
+    body: z.looseObject({
+      name: z.string().optional(),
+      space_id: IdSchema.optional(),
+      configuration: JsonRecordSchema.optional(),
+      details: JsonRecordSchema.optional()
+    }),
+    response: AckSchema
+  },
+  'organization.getOrganizationInfo': { response: OrganizationInfoSchema },
+  'organization.incidents.getIncidents': { response: listOf(IncidentSchema, 'incidents') },
+  'organization.spaces.createSpace': { body: SpaceBodySchema, response: SpaceSchema },
+  'organization.spaces.deleteSpace': { response: AckSchema },
+  'organization.spaces.findOrCreateSpace': { body: SpaceBodySchema, response: SpaceSchema },
+  'organization.spaces.getSpace': { response: SpaceSchema },
+  'organization.spaces.getSpaces': { response: listOf(SpaceSchema, 'spaces') },
+  'organization.spaces.updateSpace': {
+    body: z.looseObject({ name: z.string().min(1).optional(), parent_id: OptionalId, config: JsonRecordSchema.optional() }),
+    response: AckSchema
+  },
+  'organization.tickets.getTicket': { response: TicketSchema },
+  'organization.tickets.getTickets': { response: listOf(TicketSchema, 'tickets') },
+  'organization.tickets.markResolved': { response: AckSchema },
+  'organization.tickets.sendMessage': { body: MessageSchema, response: AckSchema },
+  'organization.tickets.updateTicket': { body: TicketUpdateSchema, response: AckSchema },
+  'partner.devices.deleteDevice': { response: AckSchema },
+  'partner.devices.getCommands': { response: listOf(CommandSchema, 'commands') },
+  'partner.devices.getConfiguration': { response: JsonRecordSchema },
+  'partner.devices.getDeviceInfo': { response: DeviceSchema },
+  'partner.devices.getDevices': { response: listOf(DeviceSchema, 'devices') },
+  'partner.devices.getStateHistory': { response: listOf(HistorySchema, 'histories') },
+  'partner.devices.getStateHistoryMultiDevices': { response: listOf(HistorySchema, 'histories') },
+  'partner.devices.getTelemetries': { response: listOf(JsonRecordSchema, 'telemetries') },
+  'partner.tickets.addComment': { body: MessageSchema, response: AckSchema },
+  'partner.tickets.closeTicket': { response: AckSchema },
+  'partner.tickets.getTicket': { response: TicketSchema },
+  'partner.tickets.getTickets': { response: listOf(TicketSchema, 'tickets') },
+  'partner.tickets.updateTicket': { body: TicketUpdateSchema, response: AckSchema }
+} satisfies Record<string, EndpointSchemaEntry>;
+
+type EndpointSchemaMap = typeof ENDPOINT_SCHEMAS;
+
+export type EndpointKey = keyof EndpointSchemaMap;
+
+export type EndpointBody<K extends EndpointKey> = EndpointSchemaMap[K] extends { body: infer S extends z.ZodType }
+  ? z.input<S>
+  : never;
+
+export type EndpointResponse<K extends EndpointKey> = z.output<EndpointSchemaMap[K]['response']>;
+
+export function hasEndpointSchema(key: string): key is EndpointKey {
+  return Object.prototype.hasOwnProperty.call(ENDPOINT_SCHEMAS, key);
+}
+
+export function getBodySchema(key: string): z.ZodType | undefined {
+  if (!hasEndpointSchema(key)) {
+    return undefined;
+  }
+  const entry: EndpointSchemaEntry = ENDPOINT_SCHEMAS[key];
+  return entry.body;
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') {
+      return `${acc}[${segment}]`;
+    }
+    return `${acc}.${String(segment)}`;
+  }, 'body');
+}
+
+export function validateRequestBody(key: string, body: unknown): void {
+  const schema = getBodySchema(key);
+  if (!schema) {
+    return;
+  }
+
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    return;
+  }
+
+  const issue = parsed.error.issues[0];
+  const field = formatIssuePath(issue.path);
+  throw new XyteValidationError(`Invalid request body for ${key}: ${field}: ${issue.message}`, { field });
+}
@@ -0,0 +1,69 @@
+import type { XytePage } from '../types/client';
+import type { PublicEndpointSpec } from '../types/endpoints';
+import { extractArray } from '../utils/json';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 500;
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  return value as Record<string, unknown>;
+}
+
+function toPositiveInt(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number.parseInt(value, 10) : Number.NaN;
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return undefined;
+  }
+  return Math.floor(parsed);
+}
+
+export function isPaginatedEndpoint(endpoint: PublicEndpointSpec): boolean {
+  return endpoint.queryParams.includes('page');
+}
+
+export function resolvePageSize(endpoint: PublicEndpointSpec, requested: unknown, fallback = DEFAULT_PAGE_SIZE): number | undefined {
+  if (!endpoint.queryParams.includes('per_page')) {
+    return undefined;
+  }
+  return toPositiveInt(requested) ?? fallback;
+}
+
+export function resolveStartPage(requested: unknown): number {
+  return toPositiveInt(requested) ?? 1;
+}
+
+export function extractPageItems(endpoint: PublicEndpointSpec, payload: unknown): unknown[] {
+  return extractArray(payload, [endpoint.group, 'data', 'items']);
+}
+
+export function readTotalPages(payload: unknown): number | undefined {
+  const record = asRecord(payload);
+  const candidates = [record.total_pages, asRecord(record.meta).total_pages, asRecord(record.pagination).total_pages];
+  for (const candidate of candidates) {
+    const value = toPositiveInt(candidate);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+export interface CollectedItems {
+  items: any[];
+  /** True when paging stopped at the page cap with more results left, so `items` is incomplete. */
+  truncated: boolean;
+}
+
+/** Drains `client.paginate` into one array for workflows that need the whole collection. */
+export async function collectItems(pages: AsyncIterable<XytePage>): Promise<CollectedItems> {
+  const items: any[] = [];
+  let truncated = false;
+  for await (const page of pages) {
+    items.push(...page.items);
+    truncated = page.truncated;
+  }
+  return { items, truncated };
+}
@@ -0,0 +1,86 @@
+import type { ApiKeySlotMeta, SecretProvider } from '../types/profile';
+
+export interface KeyPolicy {
+  maxKeyAgeDays?: number;
+  maxValidationAgeDays?: number;
+}
+
+export type KeyPolicyRule = 'max_key_age' | 'max_validation_age';
+
+export interface KeyPolicyViolation {
+  provider: SecretProvider;
+  slotId: string;
+  slotName: string;
+  rule: KeyPolicyRule;
+  limitDays: number;
+  /** Null when the slot has never been validated. */
+  actualDays: number | null;
+  message: string;
+}
+
+const DAY_MS = 86_400_000;
+
+function parseDays(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const days = Number(value.trim().replace(/d$/i, ''));
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(`Invalid ${name}: ${value}. Use a positive number of days, e.g. 90 or 90d.`);
+  }
+  return days;
+}
+
+export function parseKeyPolicy(input: { maxKeyAge?: string; maxValidationAge?: string }): KeyPolicy {
+  return {
+    maxKeyAgeDays: parseDays(input.maxKeyAge, 'max key age'),
+    maxValidationAgeDays: parseDays(input.maxValidationAge, 'max validation age')
+  };
+}
+
+export function resolveKeyPolicy(overrides: KeyPolicy = {}, env: NodeJS.ProcessEnv = process.env): KeyPolicy {
+  const fromEnv = parseKeyPolicy({
+    maxKeyAge: env.XYTE_CLI_MAX_KEY_AGE_DAYS,
+    maxValidationAge: env.XYTE_CLI_MAX_VALIDATION_AGE_DAYS
+  });
+  return {
+    maxKeyAgeDays: overrides.maxKeyAgeDays ?? fromEnv.maxKeyAgeDays,
+    maxValidationAgeDays: overrides.maxValidationAgeDays ?? fromEnv.maxValidationAgeDays
+  };
+}
+
+export function evaluateKeyPolicy(slot: ApiKeySlotMeta, policy: KeyPolicy, now: Date = new Date()): KeyPolicyViolation[] {
+  const violations: KeyPolicyViolation[] = [];
+  const base = { provider: slot.provider, slotId: slot.slotId, slotName: slot.name };
+
+  if (policy.maxKeyAgeDays !== undefined) {
+    const ageDays = Math.floor((now.getTime() - Date.parse(slot.keySetAt ?? slot.createdAt)) / DAY_MS);
+    if (ageDays > policy.maxKeyAgeDays) {
+      violations.push({
+        ...base,
+        rule: 'max_key_age',
+        limitDays: policy.maxKeyAgeDays,
+        actualDays: ageDays,
+        message: `${slot.provider} key "${slot.name}" is ${ageDays} days old (policy: ${policy.maxKeyAgeDays}).`
+      });
+    }
+  }
+
+  if (policy.maxValidationAgeDays !== undefined) {
+    const sinceDays = slot.lastValidatedAt ? Math.floor((now.getTime() - Date.parse(slot.lastValidatedAt)) / DAY_MS) : null;
+    if (sinceDays === null || sinceDays > policy.maxValidationAgeDays) {
+      violations.push({
+        ...base,
+        rule: 'max_validation_age',
+        limitDays: policy.maxValidationAgeDays,
+        actualDays: sinceDays,
+        message:
+          sinceDays === null
+            ? `${slot.provider} key "${slot.name}" has never been validated (policy: every ${policy.maxValidationAgeDays} days).`
+            : `${slot.provider} key "${slot.name}" was last validated ${sinceDays} days ago (policy: ${policy.maxValidationAgeDays}).`
+      });
+    }
+  }
+
+  return violations;
+}
@@ -1,8 +1,10 @@
 import type { KeychainStore } from '../secure/keychain';
 import type { ProfileStore } from '../secure/profile-store';
+import { PROVIDER_ENV_VARS, resolveProviderSecret, tenantEnvVar, type SecretResolver, type SecretSource } from '../secure/secret-sources';
 import type { SecretProvider, TenantProfile } from '../types/profile';
 import type { XyteClient } from '../types/client';
 import { probeConnectivity, type ConnectivityResult } from './connectivity';
+import { evaluateKeyPolicy, resolveKeyPolicy, type KeyPolicy, type KeyPolicyViolation } from './key-policy';
 
 export type ReadinessState = 'ready' | 'needs_setup' | 'degraded';
 
@@ -12,6 +14,7 @@ export interface ProviderReadiness {
   activeSlotId?: string;
   activeSlotName?: string;
   hasActiveSecret: boolean;
+  source?: SecretSource;
 }
 
 export interface ReadinessCheck {
@@ -21,6 +24,7 @@ export interface ReadinessCheck {
   missingItems: string[];
   recommendedActions: string[];
   providers: ProviderReadiness[];
+  policyViolations: KeyPolicyViolation[];
   connectionState: ConnectivityResult['state'];
   connectivity: ConnectivityResult;
 }
@@ -31,6 +35,10 @@ export interface ReadinessOptions {
   tenantId?: string;
   client?: XyteClient;
   checkConnectivity?: boolean;
+  secretResolvers?: SecretResolver[];
+  /** Merged over XYTE_CLI_MAX_KEY_AGE_DAYS / XYTE_CLI_MAX_VALIDATION_AGE_DAYS. */
+  keyPolicy?: KeyPolicy;
+  now?: Date;
 }
 
 const XYTE_PROVIDERS: SecretProvider[] = ['xyte-org', 'xyte-partner', 'xyte-device'];
@@ -59,8 +67,12 @@ export async function evaluateReadiness(options: ReadinessOptions): Promise<Read
   const missingItems: string[] = [];
   const recommendedActions: string[] = [];
   const providers: ProviderReadiness[] = [];
+  // Env keys work without any profile, so CI runners with no tenant configured can still be ready.
+  const hasEnvCredential = XYTE_PROVIDERS.some(
+    (provider) => Boolean(process.env[PROVIDER_ENV_VARS[provider]]?.trim()) || Boolean(tenantId && process.env[tenantEnvVar(provider, tenantId)]?.trim())
+  );
 
-  if (!tenantId) {
+  if (!tenantId && !hasEnvCredential) {
     missingItems.push('No active tenant is configured.');
     recommendedActions.push('Run "xyte-cli" for guided first-run setup, or "xyte-cli setup run --non-interactive --tenant default --key <value>".');
     return {
@@ -68,13 +80,14 @@ export async function evaluateReadiness(options: ReadinessOptions): Promise<Read
       missingItems,
       recommendedActions,
       providers,
+      policyViolations: [],
       connectionState: 'not_checked',
       connectivity: defaultConnectivity()
     };
   }
 
-  const tenant = await options.profileStore.getTenant(tenantId);
-  if (!tenant) {
+  const tenant = tenantId ? await options.profileStore.getTenant(tenantId) : undefined;
+  if (!tenant && !hasEnvCredential) {
     missingItems.push(`Active tenant "${tenantId}" does not exist in profile.`);
     recommendedActions.push('Run "xyte-cli setup run" (or "xyte-cli" in a TTY) to recreate the active tenant profile.');
     return {
@@ -83,26 +96,62 @@ export async function evaluateReadiness(options: ReadinessOptions): Promise<Read
       missingItems,
       recommendedActions,
       providers,
+      policyViolations: [],
       connectionState: 'not_checked',
       connectivity: defaultConnectivity()
     };
   }
 
-  for (const provider of XYTE_PROVIDERS) {
-    const [slots, active] = await Promise.all([
-      options.profileStore.listKeySlots(tenant.id, provider),
-      options.profileStore.getActiveKeySlot(tenant.id, provider)
-    ]);
+  let policy: KeyPolicy = {};
+  try {
+    policy = resolveKeyPolicy(options.keyPolicy);
+  } catch (error) {
+    missingItems.push(error instanceof Error ? error.message : String(error));
+  }
+  const policyViolations: KeyPolicyViolation[] = [];
 
-    const hasActiveSecret = active ? Boolean(await options.keychain.getSlotSecret(tenant.id, provider, active.slotId)) : false;
+  for (const provider of XYTE_PROVIDERS) {
+    const [slots, active] = tenant
+      ? await Promise.all([
+          options.profileStore.listKeySlots(tenant.id, provider),
+          options.profileStore.getActiveKeySlot(tenant.id, provider)
+        ])
+      : [[], undefined];
+
+    const resolved = await resolveProviderSecret(
+      {
+        provider,
+        tenantId: tenant?.id,
+        tenant,
+        slotId: active?.slotId,
+        getKeychain: async () => options.keychain
+      },
+      options.secretResolvers
+    ).catch((error) => {
+      missingItems.push(`Could not resolve ${provider} key: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    });
 
     providers.push({
       provider,
       slotCount: slots.length,
       activeSlotId: active?.slotId,
       activeSlotName: active?.name,
-      hasActiveSecret
+      hasActiveSecret: Boolean(resolved),
+      source: resolved?.source
     });
+
+    // Only keychain slots carry age/validation metadata; env and credential_process keys are managed elsewhere.
+    if (tenant && active && resolved?.source === 'keychain') {
+      for (const violation of evaluateKeyPolicy(active, policy, options.now)) {
+        policyViolations.push(violation);
+        recommendedActions.push(
+          violation.rule === 'max_key_age'
+            ? `${violation.message} Rotate it: xyte-cli auth key rotate --tenant ${tenant.id} --provider ${provider}`
+            : `${violation.message} Re-validate it: xyte-cli auth key test --tenant ${tenant.id} --provider ${provider} --slot ${active.slotId}`
+        );
+      }
+    }
   }
 
   const hasXyteCredential = providers.some((provider) => XYTE_PROVIDERS.includes(provider.provider) && provider.hasActiveSecret);
@@ -113,7 +162,7 @@ export async function evaluateReadiness(options: ReadinessOptions): Promise<Read
 
   let connectivity = defaultConnectivity();
   if (options.client && options.checkConnectivity && hasXyteCredential) {
-    connectivity = await probeConnectivity({ client: options.client, tenantId: tenant.id });
+    connectivity = await probeConnectivity({ client: options.client, tenantId: tenant?.id });
     if (connectivity.state === 'auth_required' || connectivity.state === 'missing_key') {
       missingItems.push(`Connectivity check requires updated credentials: ${connectivity.message}`);
       recommendedActions.push('Use "xyte-cli auth key list/use/update" to select or update the active slot.');
@@ -122,15 +171,19 @@ export async function evaluateReadiness(options: ReadinessOptions): Promise<Read
     }
   }
 
-  const baseState: ReadinessState = missingItems.length > 0 ? 'needs_setup' : connectionToState(connectivity);
+  let baseState: ReadinessState = missingItems.length > 0 ? 'needs_setup' : connectionToState(connectivity);
+  if (baseState === 'ready' && policyViolations.length > 0) {
+    baseState = 'degraded';
+  }
 
   return {
     state: baseState,
     activeTenant: tenant,
-    tenantId: tenant.id,
+    tenantId: tenant?.id ?? tenantId,
     missingItems,
     recommendedActions,
     providers,
+    policyViolations,
     connectionState: connectivity.state,
     connectivity
   };
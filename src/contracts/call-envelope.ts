@@ -2,17 +2,37 @@ import { z } from 'zod';
 
 import { CALL_ENVELOPE_SCHEMA_VERSION } from './versions';
 import type { ProblemDetails } from './problem';
+import type { RateLimitState } from '../http/rate-limit';
 
 export const CallGuardSchema = z.object({
   allowWrite: z.boolean(),
   confirm: z.string().optional()
 });
 
+export const CallEnvelopePaginationSchema = z.object({
+  pages: z.number().int().nonnegative(),
+  items: z.number().int().nonnegative(),
+  perPage: z.number().int().positive().optional(),
+  truncated: z.boolean()
+});
+
+export const CallEnvelopeRateLimitSchema = z.object({
+  limit: z.number().nonnegative().optional(),
+  remaining: z.number().nonnegative().optional(),
+  resetAt: z.string().optional(),
+  retryAfterMs: z.number().int().nonnegative().optional(),
+  throttledRetries: z.number().int().nonnegative(),
+  queuedMs: z.number().int().nonnegative()
+});
+
 export const CallEnvelopeResponseSchema = z.object({
   status: z.number().int().nonnegative(),
   durationMs: z.number().int().nonnegative(),
   retryCount: z.number().int().nonnegative(),
-  data: z.unknown()
+  data: z.unknown(),
+  pagination: CallEnvelopePaginationSchema.optional(),
+  rateLimit: CallEnvelopeRateLimitSchema.optional(),
+  simulated: z.boolean().optional()
 });
 
 export const CallEnvelopeRequestSchema = z.object({
@@ -21,6 +41,12 @@ export const CallEnvelopeRequestSchema = z.object({
   body: z.unknown().optional()
 });
 
+/** Before/after state recorded by workflows that read a resource, write it, and read it back. */
+export const CallEnvelopeChangeSchema = z.object({
+  before: z.unknown(),
+  after: z.unknown()
+});
+
 export const CallEnvelopeSchema = z.object({
   schemaVersion: z.literal(CALL_ENVELOPE_SCHEMA_VERSION),
   timestamp: z.string(),
@@ -31,6 +57,7 @@ export const CallEnvelopeSchema = z.object({
   guard: CallGuardSchema,
   request: CallEnvelopeRequestSchema,
   response: CallEnvelopeResponseSchema.optional(),
+  change: CallEnvelopeChangeSchema.optional(),
   error: z
     .object({
       type: z.string(),
@@ -65,6 +92,18 @@ export interface BuildCallEnvelopeArgs {
     durationMs: number;
     retryCount: number;
     data: unknown;
+    pagination?: {
+      pages: number;
+      items: number;
+      perPage?: number;
+      truncated: boolean;
+    };
+    rateLimit?: RateLimitState;
+    simulated?: boolean;
+  };
+  change?: {
+    before: unknown;
+    after: unknown;
   };
   error?: ProblemDetails;
 }
@@ -95,6 +134,7 @@ export function buildCallEnvelope(args: BuildCallEnvelopeArgs): CallEnvelopeV1 {
       body: args.request.body
     },
     response: args.response,
+    change: args.change,
     error: args.error
   };
 }
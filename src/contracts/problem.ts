@@ -26,7 +26,7 @@ export function toProblemDetails(error: unknown, instance?: string): ProblemDeta
       detail: error.message,
       instance,
       xyteCode: error.code,
-      retriable: error.status >= 500
+      retriable: error.status >= 500 || error.status === 429
     };
   }
 
@@ -3,3 +3,17 @@ export const HEADLESS_FRAME_SCHEMA_VERSION = 'xyte.headless.frame.v1';
 export const INSPECT_FLEET_SCHEMA_VERSION = 'xyte.inspect.fleet.v1';
 export const INSPECT_DEEP_DIVE_SCHEMA_VERSION = 'xyte.inspect.deep-dive.v1';
 export const REPORT_SCHEMA_VERSION = 'xyte.report.v1';
+export const BATCH_SUMMARY_SCHEMA_VERSION = 'xyte.batch.summary.v1';
+export const CASSETTE_SCHEMA_VERSION = 'xyte.cassette.v1';
+export const FLEET_SNAPSHOT_SCHEMA_VERSION = 'xyte.fleet.snapshot.v1';
+export const INSPECT_DIFF_SCHEMA_VERSION = 'xyte.inspect.diff.v1';
+export const WATCH_EVENT_SCHEMA_VERSION = 'xyte.watch.event.v1';
+export const PROFILE_EXPORT_SCHEMA_VERSION = 'xyte.profile.export.v1';
+export const INSPECT_FLEET_MULTI_SCHEMA_VERSION = 'xyte.inspect.fleet.multi.v1';
+export const INSPECT_DEEP_DIVE_MULTI_SCHEMA_VERSION = 'xyte.inspect.deep-dive.multi.v1';
+export const REPORT_PORTFOLIO_SCHEMA_VERSION = 'xyte.report.portfolio.v1';
+export const DEVICE_COMMAND_SCHEMA_VERSION = 'xyte.device.command.v1';
+export const DEVICE_BROADCAST_SCHEMA_VERSION = 'xyte.device.broadcast.v1';
+export const DEVICE_CONFIG_DIFF_SCHEMA_VERSION = 'xyte.device.config.diff.v1';
+export const INSPECT_CONFIG_DRIFT_SCHEMA_VERSION = 'xyte.inspect.config-drift.v1';
+export const SPACE_TREE_SCHEMA_VERSION = 'xyte.space.tree.v1';
@@ -0,0 +1,204 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+import { XyteError } from './errors';
+import { CASSETTE_SCHEMA_VERSION } from '../contracts/versions';
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+export interface CassetteFile {
+  schemaVersion: typeof CASSETTE_SCHEMA_VERSION;
+  recordedAtUtc: string;
+  interactions: CassetteInteraction[];
+}
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_HEADER_PATTERN = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key)$/i;
+const SENSITIVE_FIELD_PATTERN = /(secret|token|password|passphrase|api_?key|authorization|hardware_key)/i;
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    out[key.toLowerCase()] = SENSITIVE_HEADER_PATTERN.test(key) ? REDACTED : value;
+  }
+  return out;
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    out[key] = SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : redactValue(item);
+  }
+  return out;
+}
+
+function redactBody(body: string | undefined): string | undefined {
+  if (!body) {
+    return body;
+  }
+  try {
+    return JSON.stringify(redactValue(JSON.parse(body)));
+  } catch {
+    return body;
+  }
+}
+
+// Cassettes store path + query only so a recording made against one base URL replays against any other.
+function cassettePath(url: string): string {
+  const parsed = new URL(url);
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (SENSITIVE_FIELD_PATTERN.test(key)) {
+      parsed.searchParams.set(key, REDACTED);
+    }
+  }
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+// Time-window params are derived from the clock at request time, so replay matches without them.
+const TIME_WINDOW_PARAMS = new Set(['from', 'to', 'since', 'until']);
+
+function interactionKey(method: string, requestPath: string): string {
+  const parsed = new URL(requestPath, 'http://cassette.invalid');
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TIME_WINDOW_PARAMS.has(key)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  return `${method.toUpperCase()} ${parsed.pathname}${parsed.search}`;
+}
+
+function headersToRecord(headers: HeadersInit | undefined): Record<string, string> {
+  return Object.fromEntries(new Headers(headers).entries());
+}
+
+function bodyToString(body: RequestInit['body']): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body instanceof FormData) {
+    return '[multipart form-data]';
+  }
+  return '[binary body]';
+}
+
+export class CassetteRecorder {
+  private readonly interactions: CassetteInteraction[] = [];
+
+  constructor(private readonly filePath: string) {}
+
+  wrap(fetchImpl: FetchLike): FetchLike {
+    return async (url, init) => {
+      const response = await fetchImpl(url, init);
+      const body = await response.clone().text();
+      this.interactions.push({
+        request: {
+          method: (init.method ?? 'GET').toUpperCase(),
+          url: cassettePath(url),
+          headers: redactHeaders(headersToRecord(init.headers)),
+          body: redactBody(bodyToString(init.body))
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: redactHeaders(headersToRecord(response.headers)),
+          body: redactBody(body) ?? ''
+        }
+      });
+      this.flush();
+      return response;
+    };
+  }
+
+  private flush(): void {
+    const file: CassetteFile = {
+      schemaVersion: CASSETTE_SCHEMA_VERSION,
+      recordedAtUtc: new Date().toISOString(),
+      interactions: this.interactions
+    };
+    mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    writeFileSync(this.filePath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+  }
+}
+
+export class CassettePlayer {
+  private readonly queues = new Map<string, CassetteInteraction[]>();
+  private readonly lastServed = new Map<string, CassetteInteraction>();
+
+  constructor(private readonly filePath: string) {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<CassetteFile>;
+    if (parsed.schemaVersion !== CASSETTE_SCHEMA_VERSION || !Array.isArray(parsed.interactions)) {
+      throw new XyteError(`Cassette ${filePath} is not a ${CASSETTE_SCHEMA_VERSION} file.`, 'XYTE_CASSETTE_INVALID');
+    }
+    for (const interaction of parsed.interactions) {
+      const key = interactionKey(interaction.request.method, interaction.request.url);
+      const queue = this.queues.get(key) ?? [];
+      queue.push(interaction);
+      this.queues.set(key, queue);
+    }
+  }
+
+  readonly fetch: FetchLike = async (url, init) => {
+    const key = interactionKey(init.method ?? 'GET', cassettePath(url));
+    // Consume interactions in recorded order; once exhausted keep serving the last one so polling loops stay stable.
+    const interaction = this.queues.get(key)?.shift() ?? this.lastServed.get(key);
+    if (!interaction) {
+      throw new XyteError(`No interaction for ${key} in cassette ${this.filePath}.`, 'XYTE_CASSETTE_MISS');
+    }
+    this.lastServed.set(key, interaction);
+    const { status, statusText, headers, body } = interaction.response;
+    const nullBody = [101, 204, 205, 304].includes(status);
+    return new Response(nullBody ? null : body, { status, statusText, headers });
+  };
+}
+
+const recorders = new Map<string, CassetteRecorder>();
+const players = new Map<string, CassettePlayer>();
+
+export function getCassetteRecorder(filePath: string): CassetteRecorder {
+  const key = path.resolve(filePath);
+  let recorder = recorders.get(key);
+  if (!recorder) {
+    recorder = new CassetteRecorder(key);
+    recorders.set(key, recorder);
+  }
+  return recorder;
+}
+
+export function getCassettePlayer(filePath: string): CassettePlayer {
+  const key = path.resolve(filePath);
+  let player = players.get(key);
+  if (!player) {
+    player = new CassettePlayer(key);
+    players.set(key, player);
+  }
+  return player;
+}
+
+export function resetCassettes(): void {
+  recorders.clear();
+  players.clear();
+}
@@ -13,6 +13,7 @@ export class XyteHttpError extends XyteError {
   readonly statusText: string;
   readonly endpointKey?: string;
   readonly details?: unknown;
+  readonly retryAfterMs?: number;
 
   constructor(args: {
     message: string;
@@ -20,12 +21,14 @@ export class XyteHttpError extends XyteError {
     statusText: string;
     endpointKey?: string;
     details?: unknown;
+    retryAfterMs?: number;
   }) {
     super(args.message, 'XYTE_HTTP_ERROR');
     this.status = args.status;
     this.statusText = args.statusText;
     this.endpointKey = args.endpointKey;
     this.details = args.details;
+    this.retryAfterMs = args.retryAfterMs;
   }
 }
 
@@ -36,7 +39,10 @@ export class XyteAuthError extends XyteError {
 }
 
 export class XyteValidationError extends XyteError {
-  constructor(message: string) {
+  readonly field?: string;
+
+  constructor(message: string, options: { field?: string } = {}) {
     super(message, 'XYTE_VALIDATION_ERROR');
+    this.field = options.field;
   }
 }
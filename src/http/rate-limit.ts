@@ -0,0 +1,139 @@
+export interface RateLimitOptions {
+  requestsPerSecond?: number;
+  burst?: number;
+  maxRetryAfterMs?: number;
+}
+
+export interface RateLimitHeaders {
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  retryAfterMs?: number;
+}
+
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+  retryAfterMs?: number;
+  throttledRetries: number;
+  queuedMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: Required<RateLimitOptions> = {
+  requestsPerSecond: 10,
+  burst: 20,
+  maxRetryAfterMs: 60_000
+};
+
+function readNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function firstHeader(headers: Record<string, string>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = headers[name];
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+export function parseRetryAfterMs(value: string | undefined, now = Date.now()): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const seconds = readNumber(value);
+  if (seconds !== undefined) {
+    return Math.round(seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+export function parseRateLimitHeaders(headers: Record<string, string>, now = Date.now()): RateLimitHeaders {
+  const reset = readNumber(firstHeader(headers, ['x-ratelimit-reset', 'ratelimit-reset']));
+  let resetAt: number | undefined;
+  if (reset !== undefined) {
+    // Epoch seconds vs. delta seconds: anything past 2001-09-09 is treated as an absolute timestamp.
+    resetAt = reset > 1_000_000_000 ? reset * 1000 : now + reset * 1000;
+  }
+
+  return {
+    limit: readNumber(firstHeader(headers, ['x-ratelimit-limit', 'ratelimit-limit'])),
+    remaining: readNumber(firstHeader(headers, ['x-ratelimit-remaining', 'ratelimit-remaining'])),
+    resetAt,
+    retryAfterMs: parseRetryAfterMs(headers['retry-after'], now)
+  };
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private blockedUntil = 0;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+    now = Date.now()
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  reserve(now = Date.now()): number {
+    this.refill(now);
+    this.tokens -= 1;
+    const deficitMs = this.tokens < 0 ? Math.ceil((-this.tokens / this.refillPerSecond) * 1000) : 0;
+    return Math.max(deficitMs, this.blockedUntil - now, 0);
+  }
+
+  blockUntil(timestamp: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, timestamp);
+  }
+
+  private refill(now: number): void {
+    const elapsedMs = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsedMs / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+export function getRateLimitBucket(key: string, options: RateLimitOptions = {}): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    const merged = { ...DEFAULT_RATE_LIMIT, ...options };
+    bucket = new TokenBucket(merged.burst, merged.requestsPerSecond);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+export function resetRateLimitBuckets(): void {
+  buckets.clear();
+}
+
+export function mergeRateLimitState(
+  previous: RateLimitState | undefined,
+  next: RateLimitState | undefined
+): RateLimitState | undefined {
+  if (!previous || !next) {
+    return next ?? previous;
+  }
+  return {
+    ...previous,
+    ...next,
+    throttledRetries: previous.throttledRetries + next.throttledRetries,
+    queuedMs: previous.queuedMs + next.queuedMs
+  };
+}
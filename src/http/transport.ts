@@ -1,6 +1,16 @@
 import { setTimeout as delay } from 'node:timers/promises';
 
+import { getCassettePlayer, getCassetteRecorder, type FetchLike } from './cassette';
 import { XyteHttpError } from './errors';
+import {
+  DEFAULT_RATE_LIMIT,
+  getRateLimitBucket,
+  parseRateLimitHeaders,
+  type RateLimitHeaders,
+  type RateLimitOptions,
+  type RateLimitState
+} from './rate-limit';
+import { computeRetryDelayMs } from '../config/retry-policy';
 import { getLogger } from '../observability/logger';
 import { withSpan } from '../observability/tracing';
 
@@ -8,6 +18,9 @@ export interface TransportOptions {
   timeoutMs?: number;
   retryAttempts?: number;
   retryBackoffMs?: number;
+  rateLimit?: RateLimitOptions | false;
+  recordPath?: string;
+  replayPath?: string;
 }
 
 export interface TransportRequest {
@@ -19,12 +32,14 @@ export interface TransportRequest {
   body?: string | FormData;
   idempotent?: boolean;
   timeoutMs?: number;
+  rateLimitKey?: string;
 }
 
 export interface TransportMeta {
   durationMs: number;
   attempts: number;
   retryCount: number;
+  rateLimit: RateLimitState;
 }
 
 export interface TransportResponse<T = unknown> {
@@ -56,7 +71,18 @@ async function parseResponseBody(response: Response): Promise<unknown> {
   return text ? { message: text } : undefined;
 }
 
-function shouldRetry(error: unknown): boolean {
+function isRateLimited(error: unknown): error is XyteHttpError {
+  return error instanceof XyteHttpError && error.status === 429;
+}
+
+function shouldRetry(error: unknown, idempotent: boolean): boolean {
+  // A 429 means the hub rejected the request before processing it, so it is safe to replay writes too.
+  if (isRateLimited(error)) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
   if (error instanceof XyteHttpError) {
     return error.status >= 500;
   }
@@ -66,23 +92,68 @@ function shouldRetry(error: unknown): boolean {
   return error instanceof TypeError;
 }
 
+function recordRateLimit(state: RateLimitState, observed: RateLimitHeaders): void {
+  if (observed.limit !== undefined) {
+    state.limit = observed.limit;
+  }
+  if (observed.remaining !== undefined) {
+    state.remaining = observed.remaining;
+  }
+  if (observed.resetAt !== undefined) {
+    state.resetAt = new Date(observed.resetAt).toISOString();
+  }
+  if (observed.retryAfterMs !== undefined) {
+    state.retryAfterMs = observed.retryAfterMs;
+  }
+}
+
+function resolveFetch(options: TransportOptions): FetchLike {
+  const replayPath = options.replayPath ?? process.env.XYTE_CLI_REPLAY;
+  if (replayPath) {
+    return getCassettePlayer(replayPath).fetch;
+  }
+
+  const live: FetchLike = (url, init) => fetch(url, init);
+  const recordPath = options.recordPath ?? process.env.XYTE_CLI_RECORD;
+  return recordPath ? getCassetteRecorder(recordPath).wrap(live) : live;
+}
+
 export class HttpTransport {
   private readonly timeoutMs: number;
   private readonly retryAttempts: number;
   private readonly retryBackoffMs: number;
+  private readonly rateLimit: Required<RateLimitOptions> | undefined;
+  private readonly fetchImpl: FetchLike;
   private readonly logger = getLogger();
 
   constructor(options: TransportOptions = {}) {
     this.timeoutMs = options.timeoutMs ?? 15_000;
     this.retryAttempts = options.retryAttempts ?? 2;
     this.retryBackoffMs = options.retryBackoffMs ?? 250;
+    this.rateLimit = options.rateLimit === false ? undefined : { ...DEFAULT_RATE_LIMIT, ...(options.rateLimit ?? {}) };
+    this.fetchImpl = resolveFetch(options);
+  }
+
+  private retryDelayMs(error: unknown, attempt: number): number | undefined {
+    const backoffMs = computeRetryDelayMs(attempt, { baseDelayMs: this.retryBackoffMs });
+    if (!isRateLimited(error) || error.retryAfterMs === undefined) {
+      return backoffMs;
+    }
+    if (this.rateLimit && error.retryAfterMs > this.rateLimit.maxRetryAfterMs) {
+      return undefined;
+    }
+    return Math.max(error.retryAfterMs, backoffMs);
   }
 
   async request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
     const idempotent = request.idempotent ?? ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'].includes(request.method.toUpperCase());
-    const maxAttempts = idempotent ? this.retryAttempts + 1 : 1;
+    const maxAttempts = this.retryAttempts + 1;
     const started = Date.now();
     const requestId = request.requestId ?? 'none';
+    const bucket = this.rateLimit
+      ? getRateLimitBucket(request.rateLimitKey ?? new URL(request.url).origin, this.rateLimit)
+      : undefined;
+    const rateLimit: RateLimitState = { throttledRetries: 0, queuedMs: 0 };
 
     return withSpan(
       'xyte.http.request',
@@ -96,11 +167,17 @@ export class HttpTransport {
       async (span) => {
         let lastError: unknown;
         for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+          const queuedMs = bucket?.reserve() ?? 0;
+          if (queuedMs > 0) {
+            rateLimit.queuedMs += queuedMs;
+            await delay(queuedMs);
+          }
+
           const controller = new AbortController();
           const timeout = setTimeout(() => controller.abort(), request.timeoutMs ?? this.timeoutMs);
 
           try {
-            const response = await fetch(request.url, {
+            const response = await this.fetchImpl(request.url, {
               method: request.method,
               headers: request.headers,
               body: request.body,
@@ -108,6 +185,13 @@ export class HttpTransport {
             });
             clearTimeout(timeout);
 
+            const headers = toLowerCaseMap(response.headers);
+            const observed = parseRateLimitHeaders(headers);
+            recordRateLimit(rateLimit, observed);
+            if (observed.remaining === 0 && observed.resetAt !== undefined) {
+              bucket?.blockUntil(observed.resetAt);
+            }
+
             const parsed = await parseResponseBody(response);
             if (!response.ok) {
               throw new XyteHttpError({
@@ -115,7 +199,8 @@ export class HttpTransport {
                 status: response.status,
                 statusText: response.statusText,
                 endpointKey: request.endpointKey,
-                details: parsed
+                details: parsed,
+                retryAfterMs: observed.retryAfterMs
               });
             }
 
@@ -125,7 +210,8 @@ export class HttpTransport {
             const meta: TransportMeta = {
               durationMs: Date.now() - started,
               attempts: attempt,
-              retryCount: attempt - 1
+              retryCount: attempt - 1,
+              rateLimit
             };
 
             this.logger.debug(
@@ -143,14 +229,15 @@ export class HttpTransport {
 
             return {
               status: response.status,
-              headers: toLowerCaseMap(response.headers),
+              headers,
               data: parsed as T,
               meta
             };
           } catch (error) {
             clearTimeout(timeout);
             lastError = error;
-            const retryable = attempt < maxAttempts && shouldRetry(error);
+            const retryDelayMs = attempt < maxAttempts && shouldRetry(error, idempotent) ? this.retryDelayMs(error, attempt) : undefined;
+            const retryable = retryDelayMs !== undefined;
 
             this.logger.debug(
               {
@@ -160,6 +247,7 @@ export class HttpTransport {
                 url: request.url,
                 attempt,
                 retryable,
+                retryDelayMs,
                 error: error instanceof Error ? error.message : String(error)
               },
               'HTTP request failed'
@@ -169,7 +257,11 @@ export class HttpTransport {
               throw error;
             }
 
-            await delay(this.retryBackoffMs * attempt);
+            if (isRateLimited(error)) {
+              rateLimit.throttledRetries += 1;
+              bucket?.blockUntil(Date.now() + retryDelayMs);
+            }
+            await delay(retryDelayMs);
           }
         }
 
@@ -1,8 +1,22 @@
 export { createXyteClient } from './client/create-client';
 export { listEndpoints, getEndpoint, listEndpointKeys } from './client/catalog';
+export { ENDPOINT_SCHEMAS, validateRequestBody } from './client/endpoint-schemas';
+export { XyteError, XyteHttpError, XyteAuthError, XyteValidationError } from './http/errors';
 
-export type { XyteClient, XyteClientOptions, XyteCallArgs, XyteCallResult } from './types/client';
+export type {
+  XyteClient,
+  XyteClientOptions,
+  XyteCallArgs,
+  XyteCallResult,
+  EndpointCall,
+  EndpointCallArgs,
+  XytePage,
+  XytePaginateOptions
+} from './types/client';
 export type { PublicEndpointSpec } from './types/endpoints';
+export type { RateLimitOptions, RateLimitState } from './http/rate-limit';
+export type { CassetteFile, CassetteInteraction } from './http/cassette';
+export type { EndpointKey, EndpointBody, EndpointResponse } from './client/endpoint-schemas';
 
 export {
   collectFleetSnapshot,
@@ -11,10 +25,48 @@ export {
   formatFleetInspectAscii,
   formatDeepDiveAscii,
   formatDeepDiveMarkdown,
-  generateFleetReport
+  generateFleetReport,
+  buildPortfolio,
+  formatPortfolioMarkdown,
+  generatePortfolioReport
 } from './workflows/fleet-insights';
+export type {
+  DeepDiveResult,
+  FleetInspectResult,
+  FleetReportFormat,
+  Portfolio,
+  PortfolioReportResult
+} from './workflows/fleet-insights';
+export { formatDeepDiveHtml } from './workflows/report-html';
+export { saveFleetSnapshot, loadFleetSnapshot, diffFleetSnapshots } from './workflows/fleet-snapshots';
+export type { FleetDiffResult, FleetSnapshotFile } from './workflows/fleet-snapshots';
+export { previewDeviceBroadcast, resolveBroadcastTargets, runDeviceBroadcast } from './workflows/device-broadcast';
+export type { BroadcastTargets, DeviceBroadcastResult } from './workflows/device-broadcast';
+export { applyDeviceConfig, buildDeviceConfigDiff, readDeviceConfig } from './workflows/device-config';
+export type { DeviceConfigDiff } from './workflows/device-config';
+export { buildConfigDrift, collectConfigDrift, formatConfigDriftMarkdown } from './workflows/config-drift';
+export type { ConfigDriftResult } from './workflows/config-drift';
+export { buildSpaceTree, collectSpaceTree, findSpaces, moveSpace } from './workflows/space-tree';
+export type { SpaceTree } from './workflows/space-tree';
+export { sendDeviceCommand } from './workflows/device-command';
+export type { DeviceCommandOutcome, DeviceCommandResult } from './workflows/device-command';
+export { buildMultiTenantDeepDive, buildMultiTenantFleetInspect, resolveTenantTargets, runPerTenant } from './workflows/fan-out';
+export type { MultiTenantDeepDiveResult, MultiTenantFleetInspectResult, TenantFailure, TenantOutcome } from './workflows/fan-out';
+export { deepDiveTables, fleetInspectTables, formatTableCsv, payloadTable, writeTableBundle } from './workflows/tabular';
+export type { TabularTable } from './workflows/tabular';
+export { runWatch } from './workflows/watch';
+export type { WatchEvent, WatchEventType } from './workflows/watch';
 
-export { FileProfileStore } from './secure/profile-store';
-export { createKeychainStore, MemoryKeychain } from './secure/keychain';
-export type { ProfileStore } from './secure/profile-store';
+export { FileProfileStore, ProfileCorruptError } from './secure/profile-store';
+export { createKeychainStore, LazyKeychain, MemoryKeychain } from './secure/keychain';
+export { PROVIDER_ENV_VARS, resolveProviderSecret, runCredentialProcess, tenantEnvVar } from './secure/secret-sources';
+export type { ResolvedSecret, SecretResolver, SecretSource } from './secure/secret-sources';
+export { EncryptedFileKeychain } from './secure/file-keychain';
+export type { FileProfileStoreOptions, ProfileRepairResult, ProfileStore } from './secure/profile-store';
+export { evaluateKeyPolicy, parseKeyPolicy, resolveKeyPolicy } from './config/key-policy';
+export type { KeyPolicy, KeyPolicyViolation } from './config/key-policy';
+export { pruneExpiredRollbackSlots, rollbackKeyRotation, rotateKeySlot } from './secure/key-rotation';
+export type { KeyProbe, RotateKeyResult } from './secure/key-rotation';
+export { exportProfile, importProfile, parseProfileExport } from './secure/profile-transfer';
+export type { ProfileExportFile, ProfileImportMode, ProfileImportResult } from './secure/profile-transfer';
 export type { SecretProvider, TenantProfile, ProfileStoreData, ApiKeySlotMeta, TenantKeyRegistry } from './types/profile';
@@ -3,13 +3,15 @@ import { readFileSync } from 'node:fs';
 import Ajv2020 from 'ajv/dist/2020';
 
 import { createXyteClient } from '../client/create-client';
-import { getEndpoint, listEndpoints } from '../client/catalog';
+import { getEndpoint, listEndpoints, requiresDestructiveGuard, requiresWriteGuard } from '../client/catalog';
 import { buildCallEnvelope } from '../contracts/call-envelope';
 import { toProblemDetails } from '../contracts/problem';
 import { evaluateReadiness } from '../config/readiness';
 import type { KeychainStore } from '../secure/keychain';
 import type { ProfileStore } from '../secure/profile-store';
 import { getCliVersion } from '../utils/version';
+import { loadConfigDriftAttachment } from '../workflows/config-drift';
+import { sendDeviceCommand } from '../workflows/device-command';
 import { buildFleetInspect, collectFleetSnapshot, generateFleetReport } from '../workflows/fleet-insights';
 
 interface JsonRpcRequest {
@@ -81,14 +83,6 @@ function parseObject(value: unknown, field: string): Record<string, unknown> {
   return value as Record<string, unknown>;
 }
 
-function requiresWriteGuard(method: string): boolean {
-  return !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
-}
-
-function requiresDestructiveGuard(method: string): boolean {
-  return method.toUpperCase() === 'DELETE';
-}
-
 function toolList(): McpTool[] {
   return [
     {
@@ -142,7 +136,7 @@ function toolList(): McpTool[] {
     },
     {
       name: 'xyte_call',
-      description: 'Invoke a Xyte endpoint with write guards.',
+      description: 'Invoke a Xyte endpoint with write guards. Set dry_run to preview the HTTP request without sending it.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -152,12 +146,34 @@ function toolList(): McpTool[] {
           query: { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean', 'null'] } },
           body: {},
           allow_write: { type: 'boolean' },
-          confirm: { type: 'string' }
+          confirm: { type: 'string' },
+          dry_run: { type: 'boolean' }
         },
         required: ['endpoint_key'],
         additionalProperties: false
       }
     },
+    {
+      name: 'xyte_device_command',
+      description: 'Send a command to a device. Set wait to poll until the command succeeds, fails or times out.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tenant: { type: 'string' },
+          device_id: { type: 'string' },
+          name: { type: 'string' },
+          friendly_name: { type: 'string' },
+          file_id: { type: 'string' },
+          params: { type: 'object' },
+          allow_write: { type: 'boolean' },
+          wait: { type: 'boolean' },
+          timeout_ms: { type: 'integer', minimum: 1000 },
+          interval_ms: { type: 'integer', minimum: 1000 }
+        },
+        required: ['tenant', 'device_id', 'name'],
+        additionalProperties: false
+      }
+    },
     {
       name: 'xyte_inspect_fleet',
       description: 'Collect deterministic fleet summary.',
@@ -172,14 +188,15 @@ function toolList(): McpTool[] {
     },
     {
       name: 'xyte_report_generate',
-      description: 'Generate a markdown/pdf report from deep-dive JSON input.',
+      description: 'Generate a markdown/pdf/html report from deep-dive JSON input.',
       inputSchema: {
         type: 'object',
         properties: {
           tenant: { type: 'string' },
           input_path: { type: 'string' },
           out_path: { type: 'string' },
-          format: { type: 'string', enum: ['markdown', 'pdf'] },
+          format: { type: 'string', enum: ['markdown', 'pdf', 'html'] },
+          attach_path: { type: 'string' },
           include_sensitive: { type: 'boolean' }
         },
         required: ['tenant', 'input_path', 'out_path'],
@@ -287,12 +304,13 @@ export function createMcpServer(options: McpServerOptions) {
       const allowWrite = parseBoolean(args.allow_write, false);
       const confirm = typeof args.confirm === 'string' ? args.confirm : undefined;
       const tenant = typeof args.tenant === 'string' ? args.tenant : undefined;
+      const dryRun = parseBoolean(args.dry_run, false);
       const requestId = `mcp-${Date.now()}`;
 
-      if (requiresWriteGuard(method) && !allowWrite) {
+      if (!dryRun && requiresWriteGuard(method) && !allowWrite) {
         throw new Error(`Endpoint ${endpointKey} is a write operation (${method}). Set allow_write=true.`);
       }
-      if (requiresDestructiveGuard(method) && confirm !== endpointKey) {
+      if (!dryRun && requiresDestructiveGuard(method) && confirm !== endpointKey) {
         throw new Error(`Endpoint ${endpointKey} is destructive. confirm must equal "${endpointKey}".`);
       }
 
@@ -308,7 +326,8 @@ export function createMcpServer(options: McpServerOptions) {
           tenantId: tenant,
           path,
           query,
-          body: args.body
+          body: args.body,
+          dryRun
         });
         return buildCallEnvelope({
           requestId,
@@ -328,7 +347,9 @@ export function createMcpServer(options: McpServerOptions) {
             status: result.status,
             durationMs: result.durationMs,
             retryCount: result.retryCount,
-            data: result.data
+            data: result.dryRun ?? result.data,
+            rateLimit: result.rateLimit,
+            simulated: result.dryRun ? true : undefined
           }
         });
       } catch (error) {
@@ -351,6 +372,25 @@ export function createMcpServer(options: McpServerOptions) {
       }
     }
 
+    if (name === 'xyte_device_command') {
+      if (!parseBoolean(args.allow_write, false)) {
+        throw new Error('Sending a device command is a write operation. Set allow_write=true.');
+      }
+      const tenant = parseString(args.tenant, 'tenant');
+      return sendDeviceCommand({
+        client: withClient(tenant),
+        tenantId: tenant,
+        deviceId: parseString(args.device_id, 'device_id'),
+        name: parseString(args.name, 'name'),
+        friendlyName: typeof args.friendly_name === 'string' ? args.friendly_name : undefined,
+        fileId: typeof args.file_id === 'string' ? args.file_id : undefined,
+        params: hasProperty(args, 'params') ? parseObject(args.params, 'params') : undefined,
+        wait: parseBoolean(args.wait, false),
+        timeoutMs: typeof args.timeout_ms === 'number' ? args.timeout_ms : undefined,
+        intervalMs: typeof args.interval_ms === 'number' ? args.interval_ms : undefined
+      });
+    }
+
     if (name === 'xyte_inspect_fleet') {
       const tenant = parseString(args.tenant, 'tenant');
       const client = withClient(tenant);
@@ -362,7 +402,7 @@ export function createMcpServer(options: McpServerOptions) {
       const tenant = parseString(args.tenant, 'tenant');
       const inputPath = parseString(args.input_path, 'input_path');
       const outPath = parseString(args.out_path, 'out_path');
-      const format = args.format === 'markdown' ? 'markdown' : 'pdf';
+      const format = args.format === 'markdown' || args.format === 'html' ? args.format : 'pdf';
       const includeSensitive = parseBoolean(args.include_sensitive, false);
       const parsed = JSON.parse(readFileSync(inputPath, 'utf8')) as {
         schemaVersion?: string;
@@ -379,7 +419,8 @@ export function createMcpServer(options: McpServerOptions) {
         deepDive: parsed as any,
         format,
         outPath,
-        includeSensitive
+        includeSensitive,
+        configDrift: args.attach_path === undefined ? undefined : loadConfigDriftAttachment(parseString(args.attach_path, 'attach_path'), tenant)
       });
     }
 
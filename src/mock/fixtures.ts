@@ -0,0 +1,152 @@
+export type MockRecord = Record<string, unknown> & { id: string };
+
+export interface MockDataset {
+  organization: MockRecord;
+  devices: MockRecord[];
+  spaces: MockRecord[];
+  incidents: MockRecord[];
+  tickets: MockRecord[];
+  commands: MockRecord[];
+  histories: MockRecord[];
+  events: MockRecord[];
+  files: MockRecord[];
+  configs: Record<string, Record<string, unknown>>;
+  licenses: Record<string, MockRecord>;
+  telemetries: Record<string, Record<string, unknown>[]>;
+}
+
+function hoursAgo(now: number, hours: number): string {
+  return new Date(now - hours * 3_600_000).toISOString();
+}
+
+export function createDefaultMockDataset(now = Date.now()): MockDataset {
+  const spaces: MockRecord[] = [
+    { id: 'space-hq', name: 'HQ', space_type: 'building', parent_id: null, full_path: 'HQ' },
+    { id: 'space-f1', name: 'Floor 1', space_type: 'floor', parent_id: 'space-hq', full_path: 'HQ/Floor 1' },
+    { id: 'space-lobby', name: 'Lobby', space_type: 'room', parent_id: 'space-f1', full_path: 'HQ/Floor 1/Lobby' },
+    { id: 'space-board', name: 'Boardroom', space_type: 'room', parent_id: 'space-f1', full_path: 'HQ/Floor 1/Boardroom' },
+    { id: 'space-f2', name: 'Floor 2', space_type: 'floor', parent_id: 'space-hq', full_path: 'HQ/Floor 2' },
+    { id: 'space-lab', name: 'Lab', space_type: 'room', parent_id: 'space-f2', full_path: 'HQ/Floor 2/Lab' }
+  ];
+
+  const deviceSeeds: Array<[string, string, string, string]> = [
+    ['dev-lobby-display', 'Lobby Display', 'online', 'space-lobby'],
+    ['dev-lobby-player', 'Lobby Player', 'online', 'space-lobby'],
+    ['dev-board-codec', 'Boardroom Codec', 'offline', 'space-board'],
+    ['dev-board-camera', 'Boardroom Camera', 'online', 'space-board'],
+    ['dev-board-mic', 'Boardroom Mic', 'online', 'space-board'],
+    ['dev-lab-sensor', 'Lab Sensor', 'offline', 'space-lab'],
+    ['dev-lab-switch', 'Lab Switch', 'online', 'space-lab'],
+    ['dev-lab-panel', 'Lab Panel', 'online', 'space-lab']
+  ];
+
+  const devices: MockRecord[] = deviceSeeds.map(([id, name, status, spaceId], index) => {
+    const space = spaces.find((item) => item.id === spaceId);
+    return {
+      id,
+      name,
+      status,
+      sn: `SN-${1000 + index}`,
+      mac: `00:1A:2B:3C:4D:${(16 + index).toString(16).toUpperCase()}`,
+      model: { name: index % 2 === 0 ? 'XR-100' : 'XR-200' },
+      space_id: spaceId,
+      space: { id: spaceId, name: space?.name ?? null, full_path: space?.full_path ?? null },
+      last_seen_at: hoursAgo(now, status === 'offline' ? 6 + index : 0.1),
+      cloud_settings: {},
+      details: {}
+    };
+  });
+
+  const configs: Record<string, Record<string, unknown>> = {};
+  const licenses: Record<string, MockRecord> = {};
+  for (const device of devices) {
+    configs[device.id] = { volume: 40, input: 'hdmi1' };
+    licenses[device.id] = { id: `lic-${device.id}`, state: 'active' };
+  }
+
+  return {
+    organization: { id: 'org-mock', name: 'Mock Organization' },
+    devices,
+    spaces,
+    incidents: [
+      {
+        id: 'inc-1',
+        title: 'Codec offline',
+        status: 'active',
+        priority: 1,
+        device_id: 'dev-board-codec',
+        device_name: 'Boardroom Codec',
+        space_tree_path_name: 'HQ/Floor 1/Boardroom',
+        created_at: hoursAgo(now, 5)
+      },
+      {
+        id: 'inc-2',
+        title: 'Sensor offline',
+        status: 'active',
+        priority: 2,
+        device_id: 'dev-lab-sensor',
+        device_name: 'Lab Sensor',
+        space_tree_path_name: 'HQ/Floor 2/Lab',
+        created_at: hoursAgo(now, 11)
+      },
+      {
+        id: 'inc-3',
+        title: 'Display flicker',
+        status: 'closed',
+        priority: 3,
+        device_id: 'dev-lobby-display',
+        device_name: 'Lobby Display',
+        space_tree_path_name: 'HQ/Floor 1/Lobby',
+        created_at: hoursAgo(now, 30),
+        closed_at: hoursAgo(now, 28)
+      }
+    ],
+    tickets: [
+      {
+        id: 'tkt-1',
+        title: 'Boardroom codec will not boot',
+        description: 'Power cycled twice, still offline.',
+        status: 'open',
+        device_id: 'dev-board-codec',
+        created_at: hoursAgo(now, 4),
+        updated_at: hoursAgo(now, 4),
+        messages: []
+      },
+      {
+        id: 'tkt-2',
+        title: 'Replace lab sensor battery',
+        description: 'Scheduled maintenance.',
+        status: 'resolved',
+        device_id: 'dev-lab-sensor',
+        created_at: hoursAgo(now, 48),
+        updated_at: hoursAgo(now, 40),
+        messages: []
+      }
+    ],
+    commands: [
+      {
+        id: 'cmd-1',
+        device_id: 'dev-lobby-display',
+        name: 'reboot',
+        friendly_name: 'Reboot',
+        status: 'done',
+        created_at: hoursAgo(now, 3)
+      }
+    ],
+    histories: [
+      { id: 'hist-1', device_id: 'dev-board-codec', status: 'online', from: hoursAgo(now, 24), to: hoursAgo(now, 6) },
+      { id: 'hist-2', device_id: 'dev-board-codec', status: 'offline', from: hoursAgo(now, 6), to: null },
+      { id: 'hist-3', device_id: 'dev-lab-sensor', status: 'online', from: hoursAgo(now, 24), to: hoursAgo(now, 11) },
+      { id: 'hist-4', device_id: 'dev-lab-sensor', status: 'offline', from: hoursAgo(now, 11), to: null }
+    ],
+    events: [],
+    files: [{ id: 'file-1', device_id: 'dev-lobby-player', name: 'playlist.json', url: 'https://files.example.test/playlist.json' }],
+    configs,
+    licenses,
+    telemetries: {}
+  };
+}
+
+export function mergeMockDataset(base: MockDataset, overrides: Partial<MockDataset>): MockDataset {
+  return { ...base, ...overrides };
+}
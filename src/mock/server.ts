@@ -0,0 +1,632 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { listEndpoints } from '../client/catalog';
+import type { EndpointKey } from '../client/endpoint-schemas';
+import type { PublicEndpointSpec } from '../types/endpoints';
+import { createDefaultMockDataset, type MockDataset, type MockRecord } from './fixtures';
+
+export interface MockFaultOptions {
+  latencyMs?: number;
+  rateLimitEvery?: number;
+  retryAfterSeconds?: number;
+  errorRate?: number;
+  errorStatus?: number;
+  random?: () => number;
+}
+
+export interface MockServerOptions {
+  host?: string;
+  port?: number;
+  dataset?: MockDataset;
+  faults?: MockFaultOptions;
+}
+
+export interface MockRequest {
+  endpoint: PublicEndpointSpec;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockServer {
+  readonly dataset: MockDataset;
+  readonly routeCount: number;
+  handle(method: string, url: string, headers: Record<string, string | undefined>, rawBody?: string): Promise<MockResponse>;
+  start(): Promise<{ url: string }>;
+  stop(): Promise<void>;
+}
+
+type MockHandler = (request: MockRequest, dataset: MockDataset) => MockResponse;
+
+interface MockRoute {
+  endpoint: PublicEndpointSpec;
+  pattern: RegExp;
+  paramNames: string[];
+  paramCount: number;
+}
+
+function compileRoute(endpoint: PublicEndpointSpec): MockRoute {
+  const paramNames: string[] = [];
+  const source = endpoint.pathTemplate
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { endpoint, pattern: new RegExp(`^${source}/?$`), paramNames, paramCount: paramNames.length };
+}
+
+export function compileMockRoutes(endpoints: PublicEndpointSpec[] = listEndpoints()): MockRoute[] {
+  // Literal segments (e.g. /devices/histories) must win over parameters (/devices/:device_id).
+  return endpoints.map(compileRoute).sort((a, b) => a.paramCount - b.paramCount);
+}
+
+export function matchMockRoute(
+  routes: MockRoute[],
+  method: string,
+  pathname: string
+): { endpoint: PublicEndpointSpec; params: Record<string, string> } | undefined {
+  for (const route of routes) {
+    if (route.endpoint.method !== method.toUpperCase()) {
+      continue;
+    }
+    const match = route.pattern.exec(pathname);
+    if (!match) {
+      continue;
+    }
+    const params: Record<string, string> = {};
+    route.paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+    return { endpoint: route.endpoint, params };
+  }
+  return undefined;
+}
+
+function ok(body: unknown = { ok: true }): MockResponse {
+  return { status: 200, body };
+}
+
+function created(body: unknown): MockResponse {
+  return { status: 201, body };
+}
+
+function notFound(kind: string, id: string | undefined): MockResponse {
+  return { status: 404, body: { message: `${kind} ${id ?? ''} not found`.replace(/\s+/g, ' ').trim() } };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  return value as Record<string, unknown>;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function findById(items: MockRecord[], id: string | undefined): MockRecord | undefined {
+  return items.find((item) => item.id === id);
+}
+
+function removeById(items: MockRecord[], id: string | undefined): boolean {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  items.splice(index, 1);
+  return true;
+}
+
+function pagedResponse(group: string, items: unknown[], query: URLSearchParams): MockResponse {
+  const perPage = Math.max(1, Number.parseInt(query.get('per_page') ?? '25', 10) || 25);
+  const page = Math.max(1, Number.parseInt(query.get('page') ?? '1', 10) || 1);
+  const totalPages = Math.max(1, Math.ceil(items.length / perPage));
+  return ok({
+    [group]: items.slice((page - 1) * perPage, page * perPage),
+    page,
+    per_page: perPage,
+    total_pages: totalPages,
+    total_count: items.length
+  });
+}
+
+function withDevice(handler: (device: MockRecord, request: MockRequest, dataset: MockDataset) => MockResponse): MockHandler {
+  return (request, dataset) => {
+    const device = findById(dataset.devices, request.params.device_id);
+    if (!device) {
+      return notFound('Device', request.params.device_id);
+    }
+    return handler(device, request, dataset);
+  };
+}
+
+function withTicket(handler: (ticket: MockRecord, request: MockRequest) => MockResponse): MockHandler {
+  return (request, dataset) => {
+    const ticket = findById(dataset.tickets, request.params.ticket_id);
+    if (!ticket) {
+      return notFound('Ticket', request.params.ticket_id);
+    }
+    return handler(ticket, request);
+  };
+}
+
+function withSpace(handler: (space: MockRecord, request: MockRequest, dataset: MockDataset) => MockResponse): MockHandler {
+  return (request, dataset) => {
+    const space = findById(dataset.spaces, request.params.space_id);
+    if (!space) {
+      return notFound('Space', request.params.space_id);
+    }
+    return handler(space, request, dataset);
+  };
+}
+
+function spacePath(dataset: MockDataset, parentId: unknown, name: string): string {
+  const parent = findById(dataset.spaces, typeof parentId === 'string' ? parentId : undefined);
+  return parent?.full_path ? `${String(parent.full_path)}/${name}` : name;
+}
+
+function registerDevice(dataset: MockDataset, body: Record<string, unknown>): MockRecord {
+  const device: MockRecord = {
+    status: 'online',
+    space_id: null,
+    space: null,
+    details: {},
+    cloud_settings: {},
+    ...body,
+    id: typeof body.id === 'string' ? body.id : `dev-${randomUUID().slice(0, 8)}`,
+    name: typeof body.name === 'string' ? body.name : 'Unnamed device',
+    last_seen_at: nowIso()
+  };
+  dataset.devices.push(device);
+  dataset.configs[device.id] = {};
+  return device;
+}
+
+function pushTelemetry(dataset: MockDataset, deviceId: string, telemetry: unknown): void {
+  const list = dataset.telemetries[deviceId] ?? [];
+  list.push({ received_at: nowIso(), ...asRecord(telemetry) });
+  dataset.telemetries[deviceId] = list;
+}
+
+function deleteDevice(request: MockRequest, dataset: MockDataset): MockResponse {
+  return removeById(dataset.devices, request.params.device_id) ? ok() : notFound('Device', request.params.device_id);
+}
+
+function historiesFor(dataset: MockDataset, query: URLSearchParams, deviceId?: string): MockRecord[] {
+  const status = query.get('status');
+  const from = query.get('from');
+  const to = query.get('to');
+  const deviceFilter = deviceId ?? query.get('device_id');
+  return dataset.histories.filter((item) => {
+    if (deviceFilter && item.device_id !== deviceFilter) {
+      return false;
+    }
+    if (status && item.status !== status) {
+      return false;
+    }
+    if (to && typeof item.from === 'string' && item.from > to) {
+      return false;
+    }
+    if (from && typeof item.to === 'string' && item.to < from) {
+      return false;
+    }
+    return true;
+  });
+}
+
+function resolveTicket(ticket: MockRecord): MockResponse {
+  ticket.status = 'resolved';
+  ticket.updated_at = nowIso();
+  return ok(ticket);
+}
+
+function addTicketMessage(ticket: MockRecord, request: MockRequest): MockResponse {
+  const messages = Array.isArray(ticket.messages) ? ticket.messages : [];
+  const message = { id: `msg-${randomUUID().slice(0, 8)}`, message: asRecord(request.body).message, created_at: nowIso() };
+  messages.push(message);
+  ticket.messages = messages;
+  ticket.updated_at = message.created_at;
+  return created(message);
+}
+
+function updateTicket(ticket: MockRecord, request: MockRequest): MockResponse {
+  Object.assign(ticket, asRecord(request.body), { id: ticket.id, updated_at: nowIso() });
+  return ok(ticket);
+}
+
+function findOrCreateSpace(request: MockRequest, dataset: MockDataset, allowExisting: boolean): MockResponse {
+  const body = asRecord(request.body);
+  const name = String(body.name ?? '');
+  const parentId = body.parent_id ?? null;
+  if (allowExisting) {
+    const existing = dataset.spaces.find((space) => space.name === name && (space.parent_id ?? null) === parentId);
+    if (existing) {
+      return ok(existing);
+    }
+  }
+  const space: MockRecord = {
+    space_type: 'room',
+    ...body,
+    id: `space-${randomUUID().slice(0, 8)}`,
+    name,
+    parent_id: parentId,
+    full_path: spacePath(dataset, parentId, name)
+  };
+  dataset.spaces.push(space);
+  return created(space);
+}
+
+const HANDLERS: Record<EndpointKey, MockHandler> = {
+  'device.command.getCommand': withDevice((device, _request, dataset) =>
+    ok(dataset.commands.find((command) => command.device_id === device.id && command.status === 'pending') ?? null)
+  ),
+  'device.command.getCommandsWithChildren': withDevice((device, _request, dataset) =>
+    ok({ commands: dataset.commands.filter((command) => command.device_id === device.id && command.status === 'pending') })
+  ),
+  'device.command.updateCommand': withDevice((device, request, dataset) => {
+    const body = asRecord(request.body);
+    const command = dataset.commands.find((item) => item.device_id === device.id && item.id === String(body.id));
+    if (!command) {
+      return notFound('Command', String(body.id));
+    }
+    Object.assign(command, { status: body.status, message: body.message ?? command.message, updated_at: nowIso() });
+    return ok(command);
+  }),
+  'device.configuration.getConfig': withDevice((device, _request, dataset) => ok(dataset.configs[device.id] ?? {})),
+  'device.configuration.setConfig': withDevice((device, request, dataset) => {
+    dataset.configs[device.id] = asRecord(request.body);
+    return ok(dataset.configs[device.id]);
+  }),
+  'device.device-info.getDeviceInfo': withDevice((device) => ok(device)),
+  'device.device-info.getSpaceInfo': withDevice((device, _request, dataset) => {
+    const space = findById(dataset.spaces, typeof device.space_id === 'string' ? device.space_id : undefined);
+    return space ? ok(space) : notFound('Space', String(device.space_id));
+  }),
+  'device.device-info.setCloudSettings': withDevice((device, request) => {
+    const body = asRecord(request.body);
+    device.cloud_settings = { ...asRecord(device.cloud_settings), [String(body.property)]: body.value };
+    return ok(device.cloud_settings);
+  }),
+  'device.device-info.updateDevice': withDevice((device, request) => {
+    const body = asRecord(request.body);
+    if (typeof body.name === 'string') {
+      device.name = body.name;
+    }
+    if (body.details) {
+      device.details = { ...asRecord(device.details), ...asRecord(body.details) };
+    }
+    return ok(device);
+  }),
+  'device.events.addEvent': withDevice((device, request, dataset) => {
+    const event: MockRecord = { ...asRecord(request.body), id: `evt-${randomUUID().slice(0, 8)}`, device_id: device.id, created_at: nowIso() };
+    dataset.events.push(event);
+    return created(event);
+  }),
+  'device.file-dumps.appendDumpFile': withDevice(() => ok()),
+  'device.file-dumps.sendDump': withDevice((device, request) =>
+    created({ id: `dump-${randomUUID().slice(0, 8)}`, device_id: device.id, filename: request.params.filename, mime_type: request.params.mime_type })
+  ),
+  'device.incidents.closeIncident': withDevice((device, request, dataset) => {
+    const incident = dataset.incidents.find((item) => item.device_id === device.id && item.id === request.params.incident_id);
+    if (!incident) {
+      return notFound('Incident', request.params.incident_id);
+    }
+    Object.assign(incident, { status: 'closed', closed_at: nowIso() });
+    return ok(incident);
+  }),
+  'device.incidents.closeIncidents': withDevice((device, _request, dataset) => {
+    const closedAt = nowIso();
+    const closed = dataset.incidents.filter((item) => item.device_id === device.id && item.status !== 'closed');
+    closed.forEach((incident) => Object.assign(incident, { status: 'closed', closed_at: closedAt }));
+    return ok({ closed: closed.length });
+  }),
+  'device.incidents.getIncidents': withDevice((device, _request, dataset) =>
+    ok({ incidents: dataset.incidents.filter((item) => item.device_id === device.id) })
+  ),
+  'device.incidents.openIncident': withDevice((device, request, dataset) => {
+    const incident: MockRecord = {
+      ...asRecord(request.body),
+      id: `inc-${randomUUID().slice(0, 8)}`,
+      status: 'active',
+      device_id: device.id,
+      device_name: device.name,
+      space_tree_path_name: asRecord(device.space).full_path ?? null,
+      created_at: nowIso()
+    };
+    dataset.incidents.push(incident);
+    return created(incident);
+  }),
+  'device.license.getLicense': withDevice((device, _request, dataset) => ok(dataset.licenses[device.id] ?? null)),
+  'device.license.updateLicense': withDevice((device, request, dataset) => {
+    const body = asRecord(request.body);
+    dataset.licenses[device.id] = { ...(dataset.licenses[device.id] ?? {}), ...body, id: String(body.id ?? `lic-${device.id}`) };
+    return ok(dataset.licenses[device.id]);
+  }),
+  'device.registration.bulkRegisterDevice': (request, dataset) => {
+    const body = request.body;
+    const entries = Array.isArray(body) ? body : Array.isArray(asRecord(body).devices) ? (asRecord(body).devices as unknown[]) : [body];
+    return created({ devices: entries.map((entry) => registerDevice(dataset, asRecord(entry))) });
+  },
+  'device.registration.deleteDevice': deleteDevice,
+  'device.registration.getChildDevices': withDevice((device, _request, dataset) =>
+    ok({ devices: dataset.devices.filter((item) => item.parent_id === device.id) })
+  ),
+  'device.registration.registerChildDevice': withDevice((device, request, dataset) =>
+    created(registerDevice(dataset, { ...asRecord(request.body), parent_id: device.id, space_id: device.space_id, space: device.space }))
+  ),
+  'device.registration.registerDevice': (request, dataset) => created(registerDevice(dataset, asRecord(request.body))),
+  'device.remote-files.getFile': withDevice((device, request, dataset) => {
+    const file = dataset.files.find((item) => item.device_id === device.id && item.id === request.params.file_id);
+    return file ? ok(file) : notFound('File', request.params.file_id);
+  }),
+  'device.remote-files.getFiles': withDevice((device, _request, dataset) =>
+    ok({ files: dataset.files.filter((item) => item.device_id === device.id) })
+  ),
+  'device.telemetries.sendChildTelemetry': withDevice((_device, request, dataset) => {
+    for (const [childId, telemetry] of Object.entries(asRecord(request.body))) {
+      pushTelemetry(dataset, childId, telemetry);
+    }
+    return ok();
+  }),
+  'device.telemetries.sendMassTelemetry': withDevice((_device, request, dataset) => {
+    for (const [childId, telemetry] of Object.entries(asRecord(request.body))) {
+      pushTelemetry(dataset, childId, telemetry);
+    }
+    return ok();
+  }),
+  'device.telemetries.sendTelemetry': withDevice((device, request, dataset) => {
+    pushTelemetry(dataset, device.id, request.body);
+    const status = asRecord(request.body).status;
+    if (typeof status === 'string') {
+      device.status = status;
+    }
+    device.last_seen_at = nowIso();
+    return ok();
+  }),
+  'organization.commands.cancelCommand': withDevice((device, request, dataset) => {
+    const command = dataset.commands.find((item) => item.device_id === device.id && item.id === request.params.command_id);
+    if (!command) {
+      return notFound('Command', request.params.command_id);
+    }
+    Object.assign(command, { status: 'cancelled', updated_at: nowIso() });
+    return ok(command);
+  }),
+  'organization.commands.getCommands': withDevice((device, _request, dataset) =>
+    ok({ commands: dataset.commands.filter((item) => item.device_id === device.id) })
+  ),
+  'organization.commands.sendCommand': withDevice((device, request, dataset) => {
+    const body = asRecord(request.body);
+    const command: MockRecord = {
+      ...body,
+      id: `cmd-${randomUUID().slice(0, 8)}`,
+      device_id: device.id,
+      friendly_name: body.friendly_name ?? body.name,
+      status: 'pending',
+      created_at: nowIso()
+    };
+    dataset.commands.push(command);
+    return created(command);
+  }),
+  'organization.devices.claimDevice': (request, dataset) => {
+    const body = asRecord(request.body);
+    const space = findById(dataset.spaces, body.space_id === undefined ? undefined : String(body.space_id));
+    return created(
+      registerDevice(dataset, {
+        ...body,
+        space: space ? { id: space.id, name: space.name, full_path: space.full_path } : null
+      })
+    );
+  },
+  'organization.devices.deleteDevice': deleteDevice,
+  'organization.devices.getDevice': withDevice((device) => ok(device)),
+  'organization.devices.getDevices': (request, dataset) => pagedResponse('devices', dataset.devices, request.query),
+  'organization.devices.getHistories': (request, dataset) => {
+    const name = request.query.get('name');
+    const spaceId = request.query.get('space_id');
+    const histories = historiesFor(dataset, request.query).filter((item) => {
+      const device = findById(dataset.devices, String(item.device_id));
+      if (name && device?.name !== name) {
+        return false;
+      }
+      return !spaceId || device?.space_id === spaceId;
+    });
+    return ok({ histories });
+  },
+  'organization.devices.updateDevice': withDevice((device, request, dataset) => {
+    const body = asRecord(request.body);
+    Object.assign(device, body, { id: device.id });
+    if (body.configuration) {
+      dataset.configs[device.id] = { ...(dataset.configs[device.id] ?? {}), ...asRecord(body.configuration) };
+    }
+    if (typeof body.space_id === 'string') {
+      const space = findById(dataset.spaces, body.space_id);
+      device.space = space ? { id: space.id, name: space.name, full_path: space.full_path } : null;
+    }
+    return ok(device);
+  }),
+  'organization.getOrganizationInfo': (_request, dataset) => ok(dataset.organization),
+  'organization.incidents.getIncidents': (_request, dataset) => ok({ incidents: dataset.incidents }),
+  'organization.spaces.createSpace': (request, dataset) => findOrCreateSpace(request, dataset, false),
+  'organization.spaces.deleteSpace': withSpace((space, _request, dataset) => {
+    if (dataset.spaces.some((item) => item.parent_id === space.id) || dataset.devices.some((item) => item.space_id === space.id)) {
+      return { status: 422, body: { message: `Space ${space.id} is not empty` } };
+    }
+    removeById(dataset.spaces, space.id);
+    return ok();
+  }),
+  'organization.spaces.findOrCreateSpace': (request, dataset) => findOrCreateSpace(request, dataset, true),
+  'organization.spaces.getSpace': withSpace((space) => ok(space)),
+  'organization.spaces.getSpaces': (request, dataset) => {
+    const query = request.query;
+    const spaces = dataset.spaces.filter((space) => {
+      if (query.get('id') && space.id !== query.get('id')) {
+        return false;
+      }
+      if (query.get('parent_id') && space.parent_id !== query.get('parent_id')) {
+        return false;
+      }
+      if (query.get('name') && space.name !== query.get('name')) {
+        return false;
+      }
+      if (query.get('space_type') && space.space_type !== query.get('space_type')) {
+        return false;
+      }
+      return !query.get('path_includes') || String(space.full_path ?? '').includes(query.get('path_includes') ?? '');
+    });
+    return pagedResponse('spaces', spaces, query);
+  },
+  'organization.spaces.updateSpace': withSpace((space, request, dataset) => {
+    const body = asRecord(request.body);
+    Object.assign(space, body, { id: space.id });
+    space.full_path = spacePath(dataset, space.parent_id, String(space.name ?? ''));
+    return ok(space);
+  }),
+  'organization.tickets.getTicket': withTicket((ticket) => ok(ticket)),
+  'organization.tickets.getTickets': (_request, dataset) => ok({ tickets: dataset.tickets }),
+  'organization.tickets.markResolved': withTicket(resolveTicket),
+  'organization.tickets.sendMessage': withTicket(addTicketMessage),
+  'organization.tickets.updateTicket': withTicket(updateTicket),
+  'partner.devices.deleteDevice': deleteDevice,
+  'partner.devices.getCommands': withDevice((device, _request, dataset) =>
+    ok({ commands: dataset.commands.filter((item) => item.device_id === device.id) })
+  ),
+  'partner.devices.getConfiguration': withDevice((device, _request, dataset) => ok(dataset.configs[device.id] ?? {})),
+  'partner.devices.getDeviceInfo': withDevice((device) => ok(device)),
+  'partner.devices.getDevices': (request, dataset) => pagedResponse('devices', dataset.devices, request.query),
+  'partner.devices.getStateHistory': withDevice((device, request, dataset) =>
+    ok({ histories: historiesFor(dataset, request.query, device.id) })
+  ),
+  'partner.devices.getStateHistoryMultiDevices': (request, dataset) => ok({ histories: historiesFor(dataset, request.query) }),
+  'partner.devices.getTelemetries': withDevice((device, _request, dataset) => ok({ telemetries: dataset.telemetries[device.id] ?? [] })),
+  'partner.tickets.addComment': withTicket(addTicketMessage),
+  'partner.tickets.closeTicket': withTicket(resolveTicket),
+  'partner.tickets.getTicket': withTicket((ticket) => ok(ticket)),
+  'partner.tickets.getTickets': (_request, dataset) => ok({ tickets: dataset.tickets }),
+  'partner.tickets.updateTicket': withTicket(updateTicket)
+};
+
+function parseBody(contentType: string, rawBody: string): unknown {
+  if (!rawBody || !contentType.includes('application/json')) {
+    return {};
+  }
+  return JSON.parse(rawBody);
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export function createMockServer(options: MockServerOptions = {}): MockServer {
+  const dataset = options.dataset ?? createDefaultMockDataset();
+  const faults = options.faults ?? {};
+  const random = faults.random ?? Math.random;
+  const routes = compileMockRoutes();
+  let requestCount = 0;
+  let server: Server | undefined;
+
+  const handle: MockServer['handle'] = async (method, rawUrl, headers, rawBody = '') => {
+    requestCount += 1;
+    if (faults.latencyMs && faults.latencyMs > 0) {
+      await delay(faults.latencyMs);
+    }
+
+    if (faults.rateLimitEvery && requestCount % faults.rateLimitEvery === 0) {
+      return {
+        status: 429,
+        headers: { 'retry-after': String(faults.retryAfterSeconds ?? 1) },
+        body: { message: 'Rate limit exceeded (mock fault)' }
+      };
+    }
+    if (faults.errorRate && random() < faults.errorRate) {
+      return { status: faults.errorStatus ?? 503, body: { message: 'Injected server error (mock fault)' } };
+    }
+
+    const url = new URL(rawUrl, 'http://mock.local');
+    const matched = matchMockRoute(routes, method, url.pathname);
+    if (!matched) {
+      return { status: 404, body: { message: `No mock route for ${method.toUpperCase()} ${url.pathname}` } };
+    }
+
+    if (matched.endpoint.authScope !== 'none' && !headers.authorization) {
+      return { status: 401, body: { message: `Missing ${matched.endpoint.authScope} API key` } };
+    }
+
+    let body: unknown;
+    try {
+      body = parseBody(headers['content-type'] ?? '', rawBody);
+    } catch {
+      return { status: 400, body: { message: 'Malformed JSON body' } };
+    }
+
+    const handler = HANDLERS[matched.endpoint.key as EndpointKey];
+    return handler({ endpoint: matched.endpoint, params: matched.params, query: url.searchParams, body }, dataset);
+  };
+
+  return {
+    dataset,
+    routeCount: routes.length,
+    handle,
+    async start() {
+      server = createServer((request, response) => {
+        readBody(request)
+          .then((rawBody) =>
+            handle(
+              request.method ?? 'GET',
+              request.url ?? '/',
+              {
+                authorization: request.headers.authorization,
+                'content-type': request.headers['content-type']
+              },
+              rawBody
+            )
+          )
+          .then((result) => {
+            response.writeHead(result.status, { 'content-type': 'application/json', ...(result.headers ?? {}) });
+            response.end(result.body === undefined ? '' : JSON.stringify(result.body));
+          })
+          .catch((error: unknown) => {
+            response.writeHead(500, { 'content-type': 'application/json' });
+            response.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+          });
+      });
+
+      const active = server;
+      await new Promise<void>((resolve, reject) => {
+        active.once('error', reject);
+        active.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+      });
+      const address = active.address() as AddressInfo;
+      const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+      return { url: `http://${host}:${address.port}` };
+    },
+    async stop() {
+      const active = server;
+      server = undefined;
+      if (!active) {
+        return;
+      }
+      const closed = new Promise<void>((resolve, reject) => active.close((error) => (error ? reject(error) : resolve())));
+      active.closeAllConnections();
+      await closed;
+    }
+  };
+}
@@ -1,37 +1,37 @@
-import type { NamespaceCall, XyteCallArgs } from '../types/client';
+import type { EndpointCall, NamespaceCaller } from '../types/client';
 
 export interface DeviceNamespace {
-  getCommand: NamespaceCall;
-  getCommandsWithChildren: NamespaceCall;
-  updateCommand: NamespaceCall;
-  getConfig: NamespaceCall;
-  setConfig: NamespaceCall;
-  getDeviceInfo: NamespaceCall;
-  getSpaceInfo: NamespaceCall;
-  setCloudSettings: (args: XyteCallArgs & { body: { property: string; value: unknown } | Record<string, unknown> }) => Promise<unknown>;
-  updateDevice: NamespaceCall;
-  addEvent: NamespaceCall;
-  appendDumpFile: NamespaceCall;
-  sendDump: NamespaceCall;
-  closeIncident: NamespaceCall;
-  closeIncidents: NamespaceCall;
-  getIncidents: NamespaceCall;
-  openIncident: NamespaceCall;
-  getLicense: NamespaceCall;
-  updateLicense: NamespaceCall;
-  bulkRegisterDevice: NamespaceCall;
-  deleteDevice: NamespaceCall;
-  getChildDevices: NamespaceCall;
-  registerChildDevice: NamespaceCall;
-  registerDevice: NamespaceCall;
-  getFile: NamespaceCall;
-  getFiles: NamespaceCall;
-  sendChildTelemetry: NamespaceCall;
-  sendMassTelemetry: NamespaceCall;
-  sendTelemetry: NamespaceCall;
+  getCommand: EndpointCall<'device.command.getCommand'>;
+  getCommandsWithChildren: EndpointCall<'device.command.getCommandsWithChildren'>;
+  updateCommand: EndpointCall<'device.command.updateCommand'>;
+  getConfig: EndpointCall<'device.configuration.getConfig'>;
+  setConfig: EndpointCall<'device.configuration.setConfig'>;
+  getDeviceInfo: EndpointCall<'device.device-info.getDeviceInfo'>;
+  getSpaceInfo: EndpointCall<'device.device-info.getSpaceInfo'>;
+  setCloudSettings: EndpointCall<'device.device-info.setCloudSettings'>;
+  updateDevice: EndpointCall<'device.device-info.updateDevice'>;
+  addEvent: EndpointCall<'device.events.addEvent'>;
+  appendDumpFile: EndpointCall<'device.file-dumps.appendDumpFile'>;
+  sendDump: EndpointCall<'device.file-dumps.sendDump'>;
+  closeIncident: EndpointCall<'device.incidents.closeIncident'>;
+  closeIncidents: EndpointCall<'device.incidents.closeIncidents'>;
+  getIncidents: EndpointCall<'device.incidents.getIncidents'>;
+  openIncident: EndpointCall<'device.incidents.openIncident'>;
+  getLicense: EndpointCall<'device.license.getLicense'>;
+  updateLicense: EndpointCall<'device.license.updateLicense'>;
+  bulkRegisterDevice: EndpointCall<'device.registration.bulkRegisterDevice'>;
+  deleteDevice: EndpointCall<'device.registration.deleteDevice'>;
+  getChildDevices: EndpointCall<'device.registration.getChildDevices'>;
+  registerChildDevice: EndpointCall<'device.registration.registerChildDevice'>;
+  registerDevice: EndpointCall<'device.registration.registerDevice'>;
+  getFile: EndpointCall<'device.remote-files.getFile'>;
+  getFiles: EndpointCall<'device.remote-files.getFiles'>;
+  sendChildTelemetry: EndpointCall<'device.telemetries.sendChildTelemetry'>;
+  sendMassTelemetry: EndpointCall<'device.telemetries.sendMassTelemetry'>;
+  sendTelemetry: EndpointCall<'device.telemetries.sendTelemetry'>;
 }
 
-export function createDeviceNamespace(call: (endpointKey: string, args?: XyteCallArgs) => Promise<unknown>): DeviceNamespace {
+export function createDeviceNamespace(call: NamespaceCaller): DeviceNamespace {
   return {
     getCommand: (args) => call('device.command.getCommand', args),
     getCommandsWithChildren: (args) => call('device.command.getCommandsWithChildren', args),
@@ -1,31 +1,31 @@
-import type { NamespaceCall, XyteCallArgs } from '../types/client';
+import type { EndpointCall, NamespaceCaller } from '../types/client';
 
 export interface OrganizationNamespace {
-  cancelCommand: NamespaceCall;
-  getCommands: NamespaceCall;
-  sendCommand: NamespaceCall;
-  claimDevice: NamespaceCall;
-  deleteDevice: NamespaceCall;
-  getDevice: NamespaceCall;
-  getDevices: NamespaceCall;
-  getHistories: NamespaceCall;
-  updateDevice: NamespaceCall;
-  getOrganizationInfo: NamespaceCall;
-  getIncidents: NamespaceCall;
-  createSpace: NamespaceCall;
-  deleteSpace: NamespaceCall;
-  findOrCreateSpace: NamespaceCall;
-  getSpace: NamespaceCall;
-  getSpaces: NamespaceCall;
-  updateSpace: NamespaceCall;
-  getTicket: NamespaceCall;
-  getTickets: NamespaceCall;
-  markResolved: NamespaceCall;
-  sendMessage: NamespaceCall;
-  updateTicket: NamespaceCall;
+  cancelCommand: EndpointCall<'organization.commands.cancelCommand'>;
+  getCommands: EndpointCall<'organization.commands.getCommands'>;
+  sendCommand: EndpointCall<'organization.commands.sendCommand'>;
+  claimDevice: EndpointCall<'organization.devices.claimDevice'>;
+  deleteDevice: EndpointCall<'organization.devices.deleteDevice'>;
+  getDevice: EndpointCall<'organization.devices.getDevice'>;
+  getDevices: EndpointCall<'organization.devices.getDevices'>;
+  getHistories: EndpointCall<'organization.devices.getHistories'>;
+  updateDevice: EndpointCall<'organization.devices.updateDevice'>;
+  getOrganizationInfo: EndpointCall<'organization.getOrganizationInfo'>;
+  getIncidents: EndpointCall<'organization.incidents.getIncidents'>;
+  createSpace: EndpointCall<'organization.spaces.createSpace'>;
+  deleteSpace: EndpointCall<'organization.spaces.deleteSpace'>;
+  findOrCreateSpace: EndpointCall<'organization.spaces.findOrCreateSpace'>;
+  getSpace: EndpointCall<'organization.spaces.getSpace'>;
+  getSpaces: EndpointCall<'organization.spaces.getSpaces'>;
+  updateSpace: EndpointCall<'organization.spaces.updateSpace'>;
+  getTicket: EndpointCall<'organization.tickets.getTicket'>;
+  getTickets: EndpointCall<'organization.tickets.getTickets'>;
+  markResolved: EndpointCall<'organization.tickets.markResolved'>;
+  sendMessage: EndpointCall<'organization.tickets.sendMessage'>;
+  updateTicket: EndpointCall<'organization.tickets.updateTicket'>;
 }
 
-export function createOrganizationNamespace(call: (endpointKey: string, args?: XyteCallArgs) => Promise<unknown>): OrganizationNamespace {
+export function createOrganizationNamespace(call: NamespaceCaller): OrganizationNamespace {
   return {
     cancelCommand: (args) => call('organization.commands.cancelCommand', args),
     getCommands: (args) => call('organization.commands.getCommands', args),
@@ -1,22 +1,22 @@
-import type { NamespaceCall, XyteCallArgs } from '../types/client';
+import type { EndpointCall, NamespaceCaller } from '../types/client';
 
 export interface PartnerNamespace {
-  deleteDevice: NamespaceCall;
-  getCommands: NamespaceCall;
-  getConfiguration: NamespaceCall;
-  getDeviceInfo: NamespaceCall;
-  getDevices: NamespaceCall;
-  getStateHistory: NamespaceCall;
-  getStateHistoryMultiDevices: NamespaceCall;
-  getTelemetries: NamespaceCall;
-  addComment: NamespaceCall;
-  closeTicket: NamespaceCall;
-  getTicket: NamespaceCall;
-  getTickets: NamespaceCall;
-  updateTicket: NamespaceCall;
+  deleteDevice: EndpointCall<'partner.devices.deleteDevice'>;
+  getCommands: EndpointCall<'partner.devices.getCommands'>;
+  getConfiguration: EndpointCall<'partner.devices.getConfiguration'>;
+  getDeviceInfo: EndpointCall<'partner.devices.getDeviceInfo'>;
+  getDevices: EndpointCall<'partner.devices.getDevices'>;
+  getStateHistory: EndpointCall<'partner.devices.getStateHistory'>;
+  getStateHistoryMultiDevices: EndpointCall<'partner.devices.getStateHistoryMultiDevices'>;
+  getTelemetries: EndpointCall<'partner.devices.getTelemetries'>;
+  addComment: EndpointCall<'partner.tickets.addComment'>;
+  closeTicket: EndpointCall<'partner.tickets.closeTicket'>;
+  getTicket: EndpointCall<'partner.tickets.getTicket'>;
+  getTickets: EndpointCall<'partner.tickets.getTickets'>;
+  updateTicket: EndpointCall<'partner.tickets.updateTicket'>;
 }
 
-export function createPartnerNamespace(call: (endpointKey: string, args?: XyteCallArgs) => Promise<unknown>): PartnerNamespace {
+export function createPartnerNamespace(call: NamespaceCaller): PartnerNamespace {
   return {
     deleteDevice: (args) => call('partner.devices.deleteDevice', args),
     getCommands: (args) => call('partner.devices.getCommands', args),
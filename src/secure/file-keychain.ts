@@ -0,0 +1,194 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type { SecretProvider } from '../types/profile';
+import { getXyteConfigDir } from '../utils/config-dir';
+import { withFileLock, writeFileAtomic } from './file-lock';
+import type { KeychainStore } from './keychain';
+import { DEFAULT_SLOT_ID } from './key-slots';
+
+const FILE_VERSION = 1;
+const CHECK_PLAINTEXT = 'xyte-cli-keychain';
+const KEY_LENGTH = 32;
+
+export const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+export interface SealedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface KeychainFile {
+  version: typeof FILE_VERSION;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  check: SealedValue;
+  entries: Record<string, SealedValue>;
+}
+
+export interface EncryptedFileKeychainOptions {
+  filePath?: string;
+  passphrase?: string;
+  keyFile?: string;
+  scryptParams?: { N: number; r: number; p: number };
+}
+
+// Derived keys are cached per file + salt so scrypt runs once per process, not once per secret lookup.
+const unlockedKeys = new Map<string, Buffer>();
+
+export function resetFileKeychainCache(): void {
+  unlockedKeys.clear();
+}
+
+export function deriveKey(secret: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 256 * params.N * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export function seal(key: Buffer, plaintext: string, aad: string): SealedValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+export function unseal(key: Buffer, sealed: SealedValue, aad: string): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+function accountName(tenantId: string, provider: SecretProvider, slotId: string): string {
+  return `${tenantId}:${provider}:${slotId}`;
+}
+
+export class EncryptedFileKeychain implements KeychainStore {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: EncryptedFileKeychainOptions = {}) {
+    this.filePath = options.filePath ?? path.join(getXyteConfigDir(), 'keychain.enc.json');
+  }
+
+  async setSlotSecret(tenantId: string, provider: SecretProvider, slotId: string, value: string): Promise<void> {
+    await this.mutate(async (file, key) => {
+      const account = accountName(tenantId, provider, slotId);
+      file.entries[account] = seal(key, value, account);
+    });
+  }
+
+  async getSlotSecret(tenantId: string, provider: SecretProvider, slotId: string): Promise<string | undefined> {
+    const file = await this.readFile();
+    const account = accountName(tenantId, provider, slotId);
+    if (!file?.entries[account]) {
+      return undefined;
+    }
+    const key = await this.unlock(file);
+    return unseal(key, file.entries[account], account);
+  }
+
+  async clearSlotSecret(tenantId: string, provider: SecretProvider, slotId: string): Promise<void> {
+    await this.mutate(async (file) => {
+      delete file.entries[accountName(tenantId, provider, slotId)];
+    });
+  }
+
+  async setSecret(tenantId: string, provider: SecretProvider, value: string): Promise<void> {
+    await this.setSlotSecret(tenantId, provider, DEFAULT_SLOT_ID, value);
+  }
+
+  async getSecret(tenantId: string, provider: SecretProvider): Promise<string | undefined> {
+    return this.getSlotSecret(tenantId, provider, DEFAULT_SLOT_ID);
+  }
+
+  async clearSecret(tenantId: string, provider: SecretProvider): Promise<void> {
+    await this.clearSlotSecret(tenantId, provider, DEFAULT_SLOT_ID);
+  }
+
+  private async resolveSecret(): Promise<string> {
+    const passphrase = this.options.passphrase ?? process.env.XYTE_CLI_KEYCHAIN_PASSPHRASE;
+    if (passphrase) {
+      return passphrase;
+    }
+    const keyFile = this.options.keyFile ?? process.env.XYTE_CLI_KEYCHAIN_KEY_FILE;
+    if (keyFile) {
+      const material = (await fs.readFile(keyFile, 'utf8')).trim();
+      if (!material) {
+        throw new Error(`Keychain key file ${keyFile} is empty.`);
+      }
+      return material;
+    }
+    throw new Error(
+      'The file keychain backend needs XYTE_CLI_KEYCHAIN_PASSPHRASE or XYTE_CLI_KEYCHAIN_KEY_FILE to unlock its encrypted store.'
+    );
+  }
+
+  private async unlock(file: KeychainFile): Promise<Buffer> {
+    const cacheKey = `${this.filePath}:${file.kdf.salt}`;
+    const cached = unlockedKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { N, r, p } = file.kdf;
+    const key = await deriveKey(await this.resolveSecret(), Buffer.from(file.kdf.salt, 'base64'), { N, r, p });
+    try {
+      unseal(key, file.check, CHECK_PLAINTEXT);
+    } catch {
+      throw new Error(`Unable to unlock ${this.filePath}: wrong passphrase or key file.`);
+    }
+    unlockedKeys.set(cacheKey, key);
+    return key;
+  }
+
+  private async readFile(): Promise<KeychainFile | undefined> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as KeychainFile;
+      if (parsed.version !== FILE_VERSION || parsed.kdf?.name !== 'scrypt') {
+        throw new Error(`Unsupported keychain file format in ${this.filePath}.`);
+      }
+      return parsed;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async createFile(): Promise<KeychainFile> {
+    const params = this.options.scryptParams ?? DEFAULT_SCRYPT_PARAMS;
+    const salt = randomBytes(16);
+    const key = await deriveKey(await this.resolveSecret(), salt, params);
+    const file: KeychainFile = {
+      version: FILE_VERSION,
+      kdf: { name: 'scrypt', salt: salt.toString('base64'), ...params },
+      check: seal(key, CHECK_PLAINTEXT, CHECK_PLAINTEXT),
+      entries: {}
+    };
+    unlockedKeys.set(`${this.filePath}:${file.kdf.salt}`, key);
+    return file;
+  }
+
+  // Serializes writers within this process, then across processes (CLI, TUI, MCP server) via the lock file.
+  private mutate(update: (file: KeychainFile, key: Buffer) => Promise<void>): Promise<void> {
+    const run = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+      await withFileLock(this.filePath, { label: 'keychain', code: 'XYTE_KEYCHAIN_LOCKED' }, async () => {
+        const file = (await this.readFile()) ?? (await this.createFile());
+        const key = await this.unlock(file);
+        await update(file, key);
+        await writeFileAtomic(this.filePath, `${JSON.stringify(file, null, 2)}\n`);
+      });
+    };
+
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
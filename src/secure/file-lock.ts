@@ -0,0 +1,130 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { XyteError } from '../http/errors';
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 10_000;
+export const DEFAULT_STALE_LOCK_MS = 30_000;
+
+export interface FileLockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+  /** Names the guarded file in the timeout error, e.g. "profile" or "keychain". */
+  label: string;
+  /** Error code raised when the lock cannot be taken in time. */
+  code: string;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function clearStaleLock(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const [content, stat] = await Promise.all([fs.readFile(lockPath, 'utf8'), fs.stat(lockPath)]);
+    const owner = Number((JSON.parse(content || '{}') as { pid?: number }).pid);
+    const ownerGone = Number.isInteger(owner) && owner > 0 && owner !== process.pid && !isProcessAlive(owner);
+    if (!ownerGone && Date.now() - stat.mtimeMs < staleMs) {
+      return false;
+    }
+    // Another process may take a fresh lock after the checks above, so move the lock aside first and only
+    // delete it if it is still the one judged stale.
+    const claimedPath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+    await fs.rename(lockPath, claimedPath);
+    const claimed = await fs.stat(claimedPath);
+    if (claimed.ino !== stat.ino || claimed.mtimeMs !== stat.mtimeMs) {
+      await fs.link(claimedPath, lockPath).catch(() => undefined);
+      await fs.rm(claimedPath, { force: true });
+      return false;
+    }
+    await fs.rm(claimedPath, { force: true });
+    return true;
+  } catch (error) {
+    // The holder released the lock between our open and read; retry straight away.
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+}
+
+/**
+ * Deletes the lock only if it still carries our `token`. After a stale takeover the file at `lockPath` can
+ * belong to another process, so it is moved aside first and put back when it is not ours.
+ */
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+  const claimedPath = `${lockPath}.${process.pid}.${randomUUID()}.release`;
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch {
+    // Already gone: a takeover removed it and nobody has locked since.
+    return;
+  }
+  const owner = await fs
+    .readFile(claimedPath, 'utf8')
+    .then((content) => (JSON.parse(content) as { token?: string }).token)
+    .catch(() => undefined);
+  if (owner !== token) {
+    await fs.link(claimedPath, lockPath).catch(() => undefined);
+  }
+  await fs.rm(claimedPath, { force: true });
+}
+
+/**
+ * Runs `task` while holding `<filePath>.lock`, so writers in other processes (CLI, TUI, MCP server) wait
+ * their turn. Locks whose owner has exited, or that are older than `staleMs`, are taken over.
+ */
+export async function withFileLock<T>(filePath: string, options: FileLockOptions, task: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS);
+  const token = randomUUID();
+  let delayMs = 10;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(JSON.stringify({ pid: process.pid, token, acquiredAt: new Date().toISOString() }));
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (await clearStaleLock(lockPath, options.staleMs ?? DEFAULT_STALE_LOCK_MS)) {
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new XyteError(
+        `Timed out waiting for ${options.label} lock ${lockPath}. If no other xyte-cli process is running, delete the lock file.`,
+        options.code
+      );
+    }
+    await delay(delayMs);
+    delayMs = Math.min(delayMs * 2, 200);
+  }
+
+  try {
+    return await task();
+  } finally {
+    await releaseLock(lockPath, token);
+  }
+}
+
+/** Writes through a uniquely named temp file and renames it into place, so readers never see a partial file. */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
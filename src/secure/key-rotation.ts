@@ -0,0 +1,198 @@
+import { createXyteClient } from '../client/create-client';
+import { probeConnectivity, type ConnectivityResult } from '../config/connectivity';
+import { XyteAuthError } from '../http/errors';
+import type { ApiKeySlotMeta, KeyRotationEntry, SecretProvider } from '../types/profile';
+import type { KeychainStore } from './keychain';
+import { makeKeyFingerprint, matchesSlotRef } from './key-slots';
+import type { ProfileStore } from './profile-store';
+
+export const DEFAULT_ROLLBACK_HOURS = 72;
+const MAX_ROTATION_HISTORY = 20;
+
+export type KeyProbe = (args: {
+  profileStore: ProfileStore;
+  tenantId: string;
+  provider: SecretProvider;
+  key: string;
+}) => Promise<ConnectivityResult>;
+
+export interface RotateKeyOptions {
+  profileStore: ProfileStore;
+  keychain: KeychainStore;
+  tenantId: string;
+  provider: SecretProvider;
+  newKey: string;
+  /** Slot id or name to rotate; defaults to the provider's active slot. */
+  slotRef?: string;
+  rollbackHours?: number;
+  probe?: KeyProbe;
+  now?: Date;
+}
+
+export interface RotateKeyResult {
+  tenantId: string;
+  provider: SecretProvider;
+  newSlot: ApiKeySlotMeta;
+  /** False when a non-active slot was rotated; the new slot is then added without touching the active pointer. */
+  activated: boolean;
+  rollbackSlot: ApiKeySlotMeta;
+  probe: ConnectivityResult;
+  prunedSlotIds: string[];
+}
+
+// Device keys need a device path to call anything, so like `auth key test` they are only checked locally.
+export const probeKeyWithConnectivity: KeyProbe = async ({ profileStore, tenantId, provider, key }) => {
+  if (provider === 'xyte-device') {
+    return {
+      state: 'connected',
+      message: 'Device-key probe skipped (requires device-specific path context).',
+      retriable: false
+    };
+  }
+  const client = createXyteClient({
+    profileStore,
+    tenantId,
+    auth: provider === 'xyte-org' ? { organization: key } : { partner: key },
+    secretResolvers: []
+  });
+  return probeConnectivity({ client, tenantId });
+};
+
+async function resolveSlot(
+  profileStore: ProfileStore,
+  tenantId: string,
+  provider: SecretProvider,
+  slotRef: string | undefined
+): Promise<ApiKeySlotMeta> {
+  if (!slotRef) {
+    const active = await profileStore.getActiveKeySlot(tenantId, provider);
+    if (!active) {
+      throw new Error(`No ${provider} slot to rotate in tenant ${tenantId}. Use "xyte-cli auth key add" first.`);
+    }
+    return active;
+  }
+  const slot = (await profileStore.listKeySlots(tenantId, provider)).find((item) => matchesSlotRef(item, slotRef));
+  if (!slot) {
+    throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
+  }
+  return slot;
+}
+
+function nextSlotName(current: string, existing: ApiKeySlotMeta[]): string {
+  const base = current.replace(/-\d+$/, '');
+  const taken = new Set(existing.map((slot) => slot.name.toLowerCase()));
+  let counter = 2;
+  while (taken.has(`${base}-${counter}`.toLowerCase())) {
+    counter += 1;
+  }
+  return `${base}-${counter}`;
+}
+
+export async function pruneExpiredRollbackSlots(options: {
+  profileStore: ProfileStore;
+  keychain: KeychainStore;
+  tenantId: string;
+  provider: SecretProvider;
+  now?: Date;
+}): Promise<string[]> {
+  const now = (options.now ?? new Date()).getTime();
+  const active = await options.profileStore.getActiveKeySlot(options.tenantId, options.provider);
+  const expired = (await options.profileStore.listKeySlots(options.tenantId, options.provider)).filter(
+    (slot) => slot.rollbackUntil && Date.parse(slot.rollbackUntil) <= now && slot.slotId !== active?.slotId
+  );
+  for (const slot of expired) {
+    await options.keychain.clearSlotSecret(options.tenantId, options.provider, slot.slotId);
+    await options.profileStore.removeKeySlot(options.tenantId, options.provider, slot.slotId);
+  }
+  return expired.map((slot) => slot.slotId);
+}
+
+export async function rotateKeySlot(options: RotateKeyOptions): Promise<RotateKeyResult> {
+  const { profileStore, keychain, tenantId, provider } = options;
+  const now = options.now ?? new Date();
+  const rollbackHours = options.rollbackHours ?? DEFAULT_ROLLBACK_HOURS;
+  if (!Number.isFinite(rollbackHours) || rollbackHours < 0) {
+    throw new Error(`Invalid rollback period: ${rollbackHours}. Use a number of hours >= 0.`);
+  }
+  const newKey = options.newKey.trim();
+  if (!newKey) {
+    throw new Error('New key value must not be empty.');
+  }
+
+  const current = await resolveSlot(profileStore, tenantId, provider, options.slotRef);
+  const activated = (await profileStore.getActiveKeySlot(tenantId, provider))?.slotId === current.slotId;
+  const fingerprint = makeKeyFingerprint(newKey);
+  if (fingerprint === current.fingerprint) {
+    throw new Error(`The new key matches the current key in slot "${current.name}".`);
+  }
+  const prunedSlotIds = await pruneExpiredRollbackSlots({ profileStore, keychain, tenantId, provider, now });
+
+  const staging = await profileStore.addKeySlot(tenantId, {
+    provider,
+    name: nextSlotName(current.name, await profileStore.listKeySlots(tenantId, provider)),
+    fingerprint
+  });
+  await keychain.setSlotSecret(tenantId, provider, staging.slotId, newKey);
+
+  const discardStaging = async () => {
+    await keychain.clearSlotSecret(tenantId, provider, staging.slotId);
+    await profileStore.removeKeySlot(tenantId, provider, staging.slotId);
+  };
+
+  let probe: ConnectivityResult;
+  try {
+    probe = await (options.probe ?? probeKeyWithConnectivity)({ profileStore, tenantId, provider, key: newKey });
+  } catch (error) {
+    await discardStaging();
+    throw error;
+  }
+  if (probe.state !== 'connected') {
+    await discardStaging();
+    throw new XyteAuthError(`New ${provider} key failed verification (${probe.state}): ${probe.message}. Active slot unchanged.`);
+  }
+
+  // The active pointer moves in a single profile write; everything after it is bookkeeping.
+  if (activated) {
+    await profileStore.setActiveKeySlot(tenantId, provider, staging.slotId);
+  }
+
+  const rotatedAt = now.toISOString();
+  const entry: KeyRotationEntry = {
+    rotatedAt,
+    previousSlotId: current.slotId,
+    previousFingerprint: current.fingerprint,
+    fingerprint,
+    verifiedBy: probe.endpointKey
+  };
+  const newSlot = await profileStore.updateKeySlot(tenantId, provider, staging.slotId, {
+    lastValidatedAt: rotatedAt,
+    rotationHistory: [...(current.rotationHistory ?? []), entry].slice(-MAX_ROTATION_HISTORY)
+  });
+  const rollbackSlot = await profileStore.updateKeySlot(tenantId, provider, current.slotId, {
+    rollbackUntil: new Date(now.getTime() + rollbackHours * 3_600_000).toISOString()
+  });
+
+  return { tenantId, provider, newSlot, activated, rollbackSlot, probe, prunedSlotIds };
+}
+
+export async function rollbackKeyRotation(options: {
+  profileStore: ProfileStore;
+  tenantId: string;
+  provider: SecretProvider;
+  now?: Date;
+}): Promise<{ tenantId: string; provider: SecretProvider; activeSlot: ApiKeySlotMeta; replacedSlotId?: string }> {
+  const { profileStore, tenantId, provider } = options;
+  const now = (options.now ?? new Date()).getTime();
+  const active = await profileStore.getActiveKeySlot(tenantId, provider);
+  const lastRotation = active?.rotationHistory?.at(-1);
+  const candidate = lastRotation
+    ? (await profileStore.listKeySlots(tenantId, provider)).find((slot) => slot.slotId === lastRotation.previousSlotId)
+    : undefined;
+  if (!candidate?.rollbackUntil || Date.parse(candidate.rollbackUntil) <= now) {
+    throw new Error(`No rollback slot available for ${provider} in tenant ${tenantId}.`);
+  }
+
+  await profileStore.setActiveKeySlot(tenantId, provider, candidate.slotId);
+  const activeSlot = await profileStore.updateKeySlot(tenantId, provider, candidate.slotId, { rollbackUntil: '' });
+  return { tenantId, provider, activeSlot, replacedSlotId: active?.slotId };
+}
@@ -2,6 +2,7 @@ import { execFile, spawn } from 'node:child_process';
 import { promisify } from 'node:util';
 
 import type { SecretProvider } from '../types/profile';
+import { EncryptedFileKeychain } from './file-keychain';
 import { DEFAULT_SLOT_ID } from './key-slots';
 
 const execFileAsync = promisify(execFile);
@@ -191,6 +192,10 @@ export async function createKeychainStore(): Promise<KeychainStore> {
     return new MemoryKeychain();
   }
 
+  if (process.env.XYTE_CLI_KEYCHAIN_BACKEND === 'file') {
+    return new EncryptedFileKeychain();
+  }
+
   if (process.platform === 'darwin') {
     return new DarwinSecurityKeychain();
   }
@@ -200,6 +205,44 @@ export async function createKeychainStore(): Promise<KeychainStore> {
   }
 
   throw new Error(
-    'No supported OS keychain backend found. Use macOS keychain, libsecret (secret-tool), or set XYTE_CLI_KEYCHAIN_BACKEND=memory for tests.'
+    'No supported OS keychain backend found. Use macOS keychain, libsecret (secret-tool), XYTE_CLI_KEYCHAIN_BACKEND=file with XYTE_CLI_KEYCHAIN_PASSPHRASE or XYTE_CLI_KEYCHAIN_KEY_FILE, or XYTE_CLI_KEYCHAIN_BACKEND=memory for tests.'
   );
 }
+
+// Defers backend detection until a secret is actually read or written, so env-only runs never need an OS keychain.
+export class LazyKeychain implements KeychainStore {
+  private store?: Promise<KeychainStore>;
+
+  constructor(private readonly factory: () => Promise<KeychainStore> = createKeychainStore) {}
+
+  private resolve(): Promise<KeychainStore> {
+    if (!this.store) {
+      this.store = this.factory();
+    }
+    return this.store;
+  }
+
+  async setSlotSecret(tenantId: string, provider: SecretProvider, slotId: string, value: string): Promise<void> {
+    await (await this.resolve()).setSlotSecret(tenantId, provider, slotId, value);
+  }
+
+  async getSlotSecret(tenantId: string, provider: SecretProvider, slotId: string): Promise<string | undefined> {
+    return (await this.resolve()).getSlotSecret(tenantId, provider, slotId);
+  }
+
+  async clearSlotSecret(tenantId: string, provider: SecretProvider, slotId: string): Promise<void> {
+    await (await this.resolve()).clearSlotSecret(tenantId, provider, slotId);
+  }
+
+  async setSecret(tenantId: string, provider: SecretProvider, value: string): Promise<void> {
+    await (await this.resolve()).setSecret(tenantId, provider, value);
+  }
+
+  async getSecret(tenantId: string, provider: SecretProvider): Promise<string | undefined> {
+    return (await this.resolve()).getSecret(tenantId, provider);
+  }
+
+  async clearSecret(tenantId: string, provider: SecretProvider): Promise<void> {
+    await (await this.resolve()).clearSecret(tenantId, provider);
+  }
+}
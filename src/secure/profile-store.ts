@@ -1,14 +1,18 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 
+import { XyteError } from '../http/errors';
+
 import type {
   ApiKeySlotMeta,
+  KeySlotUpdate,
   ProfileStoreData,
   SecretProvider,
   TenantKeyRegistry,
   TenantProfile
 } from '../types/profile';
 import { getXyteConfigDir } from '../utils/config-dir';
+import { DEFAULT_LOCK_TIMEOUT_MS, DEFAULT_STALE_LOCK_MS, withFileLock, writeFileAtomic } from './file-lock';
 import { buildSlotId, ensureSlotName, matchesSlotRef } from './key-slots';
 
 const DEFAULT_DATA: ProfileStoreData = {
@@ -25,6 +29,7 @@ export interface ProfileStore {
     name?: string;
     hubBaseUrl?: string;
     entryBaseUrl?: string;
+    credentialProcess?: string;
   }): Promise<TenantProfile>;
   removeTenant(tenantId: string): Promise<void>;
   setActiveTenant(tenantId: string): Promise<void>;
@@ -35,7 +40,7 @@ export interface ProfileStore {
     tenantId: string,
     provider: SecretProvider,
     slotRef: string,
-    update: { name?: string; fingerprint?: string; lastValidatedAt?: string }
+    update: KeySlotUpdate
   ): Promise<ApiKeySlotMeta>;
   removeKeySlot(tenantId: string, provider: SecretProvider, slotRef: string): Promise<void>;
   getActiveKeySlot(tenantId: string, provider: SecretProvider): Promise<ApiKeySlotMeta | undefined>;
@@ -71,7 +76,10 @@ function normalizeTenant(raw: TenantProfile): TenantProfile {
       fingerprint: slot.fingerprint || 'sha256:unknown',
       createdAt: slot.createdAt || now,
       updatedAt: slot.updatedAt || now,
-      lastValidatedAt: slot.lastValidatedAt
+      lastValidatedAt: slot.lastValidatedAt,
+      keySetAt: slot.keySetAt,
+      rollbackUntil: slot.rollbackUntil,
+      rotationHistory: Array.isArray(slot.rotationHistory) ? slot.rotationHistory.map((entry) => ({ ...entry })) : undefined
     }));
 
   const activeSlotByProvider: Partial<Record<SecretProvider, string>> = { ...(registry.activeSlotByProvider ?? {}) };
@@ -89,6 +97,7 @@ function normalizeTenant(raw: TenantProfile): TenantProfile {
     name: raw.name ?? raw.id,
     hubBaseUrl: raw.hubBaseUrl,
     entryBaseUrl: raw.entryBaseUrl,
+    credentialProcess: raw.credentialProcess || undefined,
     keyRegistry: {
       slots: normalizedSlots,
       activeSlotByProvider
@@ -98,18 +107,70 @@ function normalizeTenant(raw: TenantProfile): TenantProfile {
   };
 }
 
+export interface FileProfileStoreOptions {
+  backupCount?: number;
+  lockTimeoutMs?: number;
+  staleLockMs?: number;
+}
+
+export interface ProfileRepairResult {
+  status: 'ok' | 'restored' | 'reset';
+  filePath: string;
+  restoredFrom?: string;
+  quarantinedPath?: string;
+}
+
+export const DEFAULT_PROFILE_BACKUP_COUNT = 5;
+
+export class ProfileCorruptError extends XyteError {
+  constructor(
+    readonly filePath: string,
+    cause: string
+  ) {
+    super(`Profile file ${filePath} is corrupt (${cause}). Run "xyte-cli profile repair" to restore the latest good backup.`, 'XYTE_PROFILE_CORRUPT');
+  }
+}
+
+function parseProfileFile(filePath: string, content: string): ProfileStoreData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ProfileCorruptError(filePath, error instanceof Error ? error.message : String(error));
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ProfileCorruptError(filePath, 'expected a JSON object');
+  }
+  return parsed as ProfileStoreData;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export class FileProfileStore implements ProfileStore {
   private readonly filePath: string;
+  private readonly backupCount: number;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+  private writeQueue: Promise<unknown> = Promise.resolve();
 
-  constructor(filePath?: string) {
+  constructor(filePath?: string, options: FileProfileStoreOptions = {}) {
     this.filePath = filePath ?? path.join(getXyteConfigDir(), 'profile.json');
+    this.backupCount = options.backupCount ?? DEFAULT_PROFILE_BACKUP_COUNT;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
   }
 
   async getData(): Promise<ProfileStoreData> {
     try {
       const content = await fs.readFile(this.filePath, 'utf8');
-      const parsed = JSON.parse(content) as ProfileStoreData;
-      return this.normalize(parsed);
+      return this.normalize(parseProfileFile(this.filePath, content));
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         return structuredClone(DEFAULT_DATA);
@@ -131,64 +192,66 @@ export class FileProfileStore implements ProfileStore {
     name?: string;
     hubBaseUrl?: string;
     entryBaseUrl?: string;
+    credentialProcess?: string;
   }): Promise<TenantProfile> {
-    const data = await this.getData();
-    const now = new Date().toISOString();
-    const index = data.tenants.findIndex((tenant) => tenant.id === input.id);
+    return this.mutate((data) => {
+      const now = new Date().toISOString();
+      const index = data.tenants.findIndex((tenant) => tenant.id === input.id);
+
+      if (index === -1) {
+        const tenant: TenantProfile = {
+          id: input.id,
+          name: input.name ?? input.id,
+          hubBaseUrl: input.hubBaseUrl,
+          entryBaseUrl: input.entryBaseUrl,
+          credentialProcess: input.credentialProcess || undefined,
+          keyRegistry: createEmptyRegistry(),
+          createdAt: now,
+          updatedAt: now
+        };
+        data.tenants.push(tenant);
+        if (!data.activeTenantId) {
+          data.activeTenantId = tenant.id;
+        }
+        return tenant;
+      }
 
-    if (index === -1) {
-      const tenant: TenantProfile = {
-        id: input.id,
-        name: input.name ?? input.id,
-        hubBaseUrl: input.hubBaseUrl,
-        entryBaseUrl: input.entryBaseUrl,
-        keyRegistry: createEmptyRegistry(),
-        createdAt: now,
+      const current = data.tenants[index];
+      const updated: TenantProfile = {
+        ...current,
+        name: input.name ?? current.name,
+        hubBaseUrl: input.hubBaseUrl ?? current.hubBaseUrl,
+        entryBaseUrl: input.entryBaseUrl ?? current.entryBaseUrl,
+        // An empty string clears the command.
+        credentialProcess: input.credentialProcess !== undefined ? input.credentialProcess || undefined : current.credentialProcess,
+        keyRegistry: cloneRegistry(current.keyRegistry),
         updatedAt: now
       };
-      data.tenants.push(tenant);
-      if (!data.activeTenantId) {
-        data.activeTenantId = tenant.id;
-      }
-      await this.writeData(data);
-      return tenant;
-    }
 
-    const current = data.tenants[index];
-    const updated: TenantProfile = {
-      ...current,
-      name: input.name ?? current.name,
-      hubBaseUrl: input.hubBaseUrl ?? current.hubBaseUrl,
-      entryBaseUrl: input.entryBaseUrl ?? current.entryBaseUrl,
-      keyRegistry: cloneRegistry(current.keyRegistry),
-      updatedAt: now
-    };
-
-    data.tenants[index] = updated;
-    await this.writeData(data);
-    return updated;
+      data.tenants[index] = updated;
+      return updated;
+    });
   }
 
   async removeTenant(tenantId: string): Promise<void> {
-    const data = await this.getData();
-    const next = data.tenants.filter((tenant) => tenant.id !== tenantId);
-    data.tenants = next;
+    await this.mutate((data) => {
+      const next = data.tenants.filter((tenant) => tenant.id !== tenantId);
+      data.tenants = next;
 
-    if (data.activeTenantId === tenantId) {
-      data.activeTenantId = next[0]?.id;
-    }
-
-    await this.writeData(data);
+      if (data.activeTenantId === tenantId) {
+        data.activeTenantId = next[0]?.id;
+      }
+    });
   }
 
   async setActiveTenant(tenantId: string): Promise<void> {
-    const data = await this.getData();
-    const tenant = data.tenants.find((item) => item.id === tenantId);
-    if (!tenant) {
-      throw new Error(`Unknown tenant: ${tenantId}`);
-    }
-    data.activeTenantId = tenantId;
-    await this.writeData(data);
+    await this.mutate((data) => {
+      const tenant = data.tenants.find((item) => item.id === tenantId);
+      if (!tenant) {
+        throw new Error(`Unknown tenant: ${tenantId}`);
+      }
+      data.activeTenantId = tenantId;
+    });
   }
 
   async getActiveTenant(): Promise<TenantProfile | undefined> {
@@ -206,114 +269,118 @@ export class FileProfileStore implements ProfileStore {
   }
 
   async addKeySlot(tenantId: string, input: { provider: SecretProvider; name: string; slotId?: string; fingerprint: string }): Promise<ApiKeySlotMeta> {
-    const data = await this.getData();
-    const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
-    const registry = cloneRegistry(tenant.keyRegistry);
-    const now = new Date().toISOString();
-    const slotName = ensureSlotName(input.name);
-    const providerSlots = registry.slots.filter((slot) => slot.provider === input.provider);
-
-    if (providerSlots.some((slot) => slot.name.toLowerCase() === slotName.toLowerCase())) {
-      throw new Error(`A key slot named "${slotName}" already exists for provider ${input.provider}.`);
-    }
+    return this.mutate((data) => {
+      const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
+      const registry = cloneRegistry(tenant.keyRegistry);
+      const now = new Date().toISOString();
+      const slotName = ensureSlotName(input.name);
+      const providerSlots = registry.slots.filter((slot) => slot.provider === input.provider);
+
+      if (providerSlots.some((slot) => slot.name.toLowerCase() === slotName.toLowerCase())) {
+        throw new Error(`A key slot named "${slotName}" already exists for provider ${input.provider}.`);
+      }
 
-    const existingIds = new Set(providerSlots.map((slot) => slot.slotId));
-    const slotId = input.slotId?.trim() || buildSlotId(slotName, existingIds);
-    if (existingIds.has(slotId)) {
-      throw new Error(`A key slot with id "${slotId}" already exists for provider ${input.provider}.`);
-    }
+      const existingIds = new Set(providerSlots.map((slot) => slot.slotId));
+      const slotId = input.slotId?.trim() || buildSlotId(slotName, existingIds);
+      if (existingIds.has(slotId)) {
+        throw new Error(`A key slot with id "${slotId}" already exists for provider ${input.provider}.`);
+      }
 
-    const slot: ApiKeySlotMeta = {
-      slotId,
-      provider: input.provider,
-      name: slotName,
-      fingerprint: input.fingerprint,
-      createdAt: now,
-      updatedAt: now
-    };
+      const slot: ApiKeySlotMeta = {
+        slotId,
+        provider: input.provider,
+        name: slotName,
+        fingerprint: input.fingerprint,
+        keySetAt: now,
+        createdAt: now,
+        updatedAt: now
+      };
 
-    registry.slots.push(slot);
-    if (!registry.activeSlotByProvider[input.provider]) {
-      registry.activeSlotByProvider[input.provider] = slotId;
-    }
+      registry.slots.push(slot);
+      if (!registry.activeSlotByProvider[input.provider]) {
+        registry.activeSlotByProvider[input.provider] = slotId;
+      }
 
-    data.tenants[index] = {
-      ...tenant,
-      keyRegistry: registry,
-      updatedAt: now
-    };
-    await this.writeData(data);
-    return slot;
+      data.tenants[index] = {
+        ...tenant,
+        keyRegistry: registry,
+        updatedAt: now
+      };
+      return slot;
+    });
   }
 
   async updateKeySlot(
     tenantId: string,
     provider: SecretProvider,
     slotRef: string,
-    update: { name?: string; fingerprint?: string; lastValidatedAt?: string }
+    update: KeySlotUpdate
   ): Promise<ApiKeySlotMeta> {
-    const data = await this.getData();
-    const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
-    const registry = cloneRegistry(tenant.keyRegistry);
-    const slotIndex = registry.slots.findIndex((slot) => slot.provider === provider && matchesSlotRef(slot, slotRef));
-    if (slotIndex === -1) {
-      throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
-    }
+    return this.mutate((data) => {
+      const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
+      const registry = cloneRegistry(tenant.keyRegistry);
+      const slotIndex = registry.slots.findIndex((slot) => slot.provider === provider && matchesSlotRef(slot, slotRef));
+      if (slotIndex === -1) {
+        throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
+      }
 
-    const slot = registry.slots[slotIndex];
-    const nextName = update.name !== undefined ? ensureSlotName(update.name) : slot.name;
-    if (nextName.toLowerCase() !== slot.name.toLowerCase()) {
-      const duplicate = registry.slots.some(
-        (item, idx) => idx !== slotIndex && item.provider === provider && item.name.toLowerCase() === nextName.toLowerCase()
-      );
-      if (duplicate) {
-        throw new Error(`A key slot named "${nextName}" already exists for provider ${provider}.`);
+      const slot = registry.slots[slotIndex];
+      const nextName = update.name !== undefined ? ensureSlotName(update.name) : slot.name;
+      if (nextName.toLowerCase() !== slot.name.toLowerCase()) {
+        const duplicate = registry.slots.some(
+          (item, idx) => idx !== slotIndex && item.provider === provider && item.name.toLowerCase() === nextName.toLowerCase()
+        );
+        if (duplicate) {
+          throw new Error(`A key slot named "${nextName}" already exists for provider ${provider}.`);
+        }
       }
-    }
 
-    const updated: ApiKeySlotMeta = {
-      ...slot,
-      name: nextName,
-      fingerprint: update.fingerprint ?? slot.fingerprint,
-      lastValidatedAt: update.lastValidatedAt ?? slot.lastValidatedAt,
-      updatedAt: new Date().toISOString()
-    };
-    registry.slots[slotIndex] = updated;
+      const updated: ApiKeySlotMeta = {
+        ...slot,
+        name: nextName,
+        fingerprint: update.fingerprint ?? slot.fingerprint,
+        lastValidatedAt: update.lastValidatedAt ?? slot.lastValidatedAt,
+        keySetAt: update.fingerprint && update.fingerprint !== slot.fingerprint ? new Date().toISOString() : slot.keySetAt,
+        rollbackUntil: update.rollbackUntil !== undefined ? update.rollbackUntil || undefined : slot.rollbackUntil,
+        rotationHistory: update.rotationHistory ?? slot.rotationHistory,
+        updatedAt: new Date().toISOString()
+      };
+      registry.slots[slotIndex] = updated;
 
-    data.tenants[index] = {
-      ...tenant,
-      keyRegistry: registry,
-      updatedAt: updated.updatedAt
-    };
-    await this.writeData(data);
-    return updated;
+      data.tenants[index] = {
+        ...tenant,
+        keyRegistry: registry,
+        updatedAt: updated.updatedAt
+      };
+      return updated;
+    });
   }
 
   async removeKeySlot(tenantId: string, provider: SecretProvider, slotRef: string): Promise<void> {
-    const data = await this.getData();
-    const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
-    const registry = cloneRegistry(tenant.keyRegistry);
-    const slot = registry.slots.find((item) => item.provider === provider && matchesSlotRef(item, slotRef));
-    if (!slot) {
-      throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
-    }
+    await this.mutate((data) => {
+      const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
+      const registry = cloneRegistry(tenant.keyRegistry);
+      const slot = registry.slots.find((item) => item.provider === provider && matchesSlotRef(item, slotRef));
+      if (!slot) {
+        throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
+      }
 
-    registry.slots = registry.slots.filter((item) => !(item.provider === provider && item.slotId === slot.slotId));
-    if (registry.activeSlotByProvider[provider] === slot.slotId) {
-      const fallback = registry.slots.find((item) => item.provider === provider)?.slotId;
-      if (fallback) {
-        registry.activeSlotByProvider[provider] = fallback;
-      } else {
-        delete registry.activeSlotByProvider[provider];
+      registry.slots = registry.slots.filter((item) => !(item.provider === provider && item.slotId === slot.slotId));
+      if (registry.activeSlotByProvider[provider] === slot.slotId) {
+        const fallback = registry.slots.find((item) => item.provider === provider)?.slotId;
+        if (fallback) {
+          registry.activeSlotByProvider[provider] = fallback;
+        } else {
+          delete registry.activeSlotByProvider[provider];
+        }
       }
-    }
 
-    data.tenants[index] = {
-      ...tenant,
-      keyRegistry: registry,
-      updatedAt: new Date().toISOString()
-    };
-    await this.writeData(data);
+      data.tenants[index] = {
+        ...tenant,
+        keyRegistry: registry,
+        updatedAt: new Date().toISOString()
+      };
+    });
   }
 
   async getActiveKeySlot(tenantId: string, provider: SecretProvider): Promise<ApiKeySlotMeta | undefined> {
@@ -330,23 +397,66 @@ export class FileProfileStore implements ProfileStore {
   }
 
   async setActiveKeySlot(tenantId: string, provider: SecretProvider, slotRef: string): Promise<ApiKeySlotMeta> {
-    const data = await this.getData();
-    const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
-    const registry = cloneRegistry(tenant.keyRegistry);
-    const slot = registry.slots.find((item) => item.provider === provider && matchesSlotRef(item, slotRef));
-    if (!slot) {
-      throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
+    return this.mutate((data) => {
+      const { tenant, index } = this.getRequiredTenantFromData(data, tenantId);
+      const registry = cloneRegistry(tenant.keyRegistry);
+      const slot = registry.slots.find((item) => item.provider === provider && matchesSlotRef(item, slotRef));
+      if (!slot) {
+        throw new Error(`Unknown slot "${slotRef}" for provider ${provider}.`);
+      }
+
+      registry.activeSlotByProvider[provider] = slot.slotId;
+      const now = new Date().toISOString();
+      data.tenants[index] = {
+        ...tenant,
+        keyRegistry: registry,
+        updatedAt: now
+      };
+      return slot;
+    });
+  }
+
+  async listBackups(): Promise<string[]> {
+    const backups: string[] = [];
+    for (let generation = 1; generation <= this.backupCount; generation += 1) {
+      if (await fileExists(this.backupPath(generation))) {
+        backups.push(this.backupPath(generation));
+      }
     }
+    return backups;
+  }
 
-    registry.activeSlotByProvider[provider] = slot.slotId;
-    const now = new Date().toISOString();
-    data.tenants[index] = {
-      ...tenant,
-      keyRegistry: registry,
-      updatedAt: now
-    };
-    await this.writeData(data);
-    return slot;
+  // Moves a corrupt profile aside and restores the newest backup that still parses, or starts empty if none do.
+  async repair(): Promise<ProfileRepairResult> {
+    return this.withLock(async () => {
+      try {
+        await this.getData();
+        return { status: 'ok', filePath: this.filePath };
+      } catch (error) {
+        if (!(error instanceof ProfileCorruptError)) {
+          throw error;
+        }
+      }
+
+      const quarantinedPath = `${this.filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+      await fs.rename(this.filePath, quarantinedPath);
+
+      for (const backupPath of await this.listBackups()) {
+        try {
+          const content = await fs.readFile(backupPath, 'utf8');
+          parseProfileFile(backupPath, content);
+          await this.writeAtomic(content);
+          return { status: 'restored', filePath: this.filePath, restoredFrom: backupPath, quarantinedPath };
+        } catch (error) {
+          if (!(error instanceof ProfileCorruptError)) {
+            throw error;
+          }
+        }
+      }
+
+      await this.writeAtomic(`${JSON.stringify(DEFAULT_DATA, null, 2)}\n`);
+      return { status: 'reset', filePath: this.filePath, quarantinedPath };
+    });
   }
 
   private normalize(input: ProfileStoreData): ProfileStoreData {
@@ -361,9 +471,52 @@ export class FileProfileStore implements ProfileStore {
     };
   }
 
+  // Serializes writers within this process, then across processes via the lock file.
+  private mutate<T>(update: (data: ProfileStoreData) => T): Promise<T> {
+    const run = () =>
+      this.withLock(async () => {
+        const data = await this.getData();
+        const result = update(data);
+        await this.writeData(data);
+        return result;
+      });
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private withLock<T>(task: () => Promise<T>): Promise<T> {
+    return withFileLock(
+      this.filePath,
+      { timeoutMs: this.lockTimeoutMs, staleMs: this.staleLockMs, label: 'profile', code: 'XYTE_PROFILE_LOCKED' },
+      task
+    );
+  }
+
+  private backupPath(generation: number): string {
+    return `${this.filePath}.bak.${generation}`;
+  }
+
+  private async rotateBackups(): Promise<void> {
+    if (this.backupCount < 1 || !(await fileExists(this.filePath))) {
+      return;
+    }
+    for (let generation = this.backupCount - 1; generation >= 1; generation -= 1) {
+      if (await fileExists(this.backupPath(generation))) {
+        await fs.rename(this.backupPath(generation), this.backupPath(generation + 1));
+      }
+    }
+    await fs.copyFile(this.filePath, this.backupPath(1));
+  }
+
   private async writeData(data: ProfileStoreData): Promise<void> {
+    await this.rotateBackups();
+    await this.writeAtomic(`${JSON.stringify(data, null, 2)}\n`);
+  }
+
+  private async writeAtomic(content: string): Promise<void> {
     await fs.mkdir(path.dirname(this.filePath), { recursive: true });
-    await fs.writeFile(this.filePath, `${JSON.stringify(data, null, 2)}\n`, 'utf8');
+    await writeFileAtomic(this.filePath, content);
   }
 
   private async getRequiredTenant(tenantId: string): Promise<TenantProfile> {
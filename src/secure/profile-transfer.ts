@@ -0,0 +1,358 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { z } from 'zod';
+
+import { PROFILE_EXPORT_SCHEMA_VERSION } from '../contracts/versions';
+import type { ProfileStoreData, SecretProvider, TenantProfile } from '../types/profile';
+import { DEFAULT_SCRYPT_PARAMS, deriveKey, seal, unseal, type SealedValue } from './file-keychain';
+import type { KeychainStore } from './keychain';
+import type { ProfileStore } from './profile-store';
+
+const CHECK_PLAINTEXT = 'xyte-cli-profile-export';
+const PROFILE_VERSION: ProfileStoreData['version'] = 2;
+
+export type ProfileImportMode = 'merge' | 'overwrite';
+
+export interface ProfileExportSecrets {
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  check: SealedValue;
+  entries: Record<string, SealedValue>;
+}
+
+export interface ProfileExportFile {
+  schemaVersion: typeof PROFILE_EXPORT_SCHEMA_VERSION;
+  exportedAtUtc: string;
+  profileVersion: ProfileStoreData['version'];
+  activeTenantId?: string;
+  tenants: TenantProfile[];
+  secrets?: ProfileExportSecrets;
+}
+
+export interface SlotRef {
+  tenantId: string;
+  provider: SecretProvider;
+  slotId: string;
+}
+
+export interface ProfileImportResult {
+  mode: ProfileImportMode;
+  activeTenantId?: string;
+  tenants: { created: string[]; updated: string[]; unchanged: string[] };
+  slots: {
+    added: SlotRef[];
+    replaced: SlotRef[];
+    removed: SlotRef[];
+    skipped: Array<SlotRef & { reason: string }>;
+  };
+  /** `credential_process` commands found in the export; only `imported` ones were written to the profile. */
+  credentialProcesses: Array<{ tenantId: string; command: string; imported: boolean }>;
+  secretsWritten: number;
+  secretsCleared: number;
+}
+
+const ProviderSchema = z.enum(['xyte-org', 'xyte-partner', 'xyte-device']);
+
+const SealedValueSchema = z.object({ iv: z.string(), tag: z.string(), data: z.string() });
+
+const TenantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  hubBaseUrl: z.string().optional(),
+  entryBaseUrl: z.string().optional(),
+  credentialProcess: z.string().optional(),
+  keyRegistry: z.object({
+    slots: z.array(
+      z.object({
+        slotId: z.string().min(1),
+        provider: ProviderSchema,
+        name: z.string().min(1),
+        fingerprint: z.string(),
+        createdAt: z.string(),
+        updatedAt: z.string(),
+        lastValidatedAt: z.string().optional(),
+        keySetAt: z.string().optional(),
+        rollbackUntil: z.string().optional(),
+        rotationHistory: z
+          .array(
+            z.object({
+              rotatedAt: z.string(),
+              previousSlotId: z.string(),
+              previousFingerprint: z.string(),
+              fingerprint: z.string(),
+              verifiedBy: z.string().optional()
+            })
+          )
+          .optional()
+      })
+    ),
+    activeSlotByProvider: z.object({
+      'xyte-org': z.string().optional(),
+      'xyte-partner': z.string().optional(),
+      'xyte-device': z.string().optional()
+    })
+  }),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+const ProfileExportSchema = z.object({
+  schemaVersion: z.literal(PROFILE_EXPORT_SCHEMA_VERSION),
+  exportedAtUtc: z.string(),
+  profileVersion: z.literal(PROFILE_VERSION),
+  activeTenantId: z.string().optional(),
+  tenants: z.array(TenantSchema),
+  secrets: z
+    .object({
+      // The file is untrusted, so cap the cost parameters at the ones exports are written with.
+      kdf: z.object({
+        name: z.literal('scrypt'),
+        salt: z.string(),
+        N: z.number().int().min(2).max(DEFAULT_SCRYPT_PARAMS.N),
+        r: z.number().int().min(1).max(DEFAULT_SCRYPT_PARAMS.r),
+        p: z.number().int().min(1).max(DEFAULT_SCRYPT_PARAMS.p)
+      }),
+      check: SealedValueSchema,
+      entries: z.record(z.string(), SealedValueSchema)
+    })
+    .optional()
+});
+
+function entryName(tenantId: string, provider: SecretProvider, slotId: string): string {
+  return `${tenantId}:${provider}:${slotId}`;
+}
+
+function selectTenants(tenants: TenantProfile[], tenantIds: string[] | undefined): TenantProfile[] {
+  if (!tenantIds?.length) {
+    return tenants;
+  }
+  const unknown = tenantIds.filter((id) => !tenants.some((tenant) => tenant.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tenant(s): ${unknown.join(', ')}`);
+  }
+  return tenants.filter((tenant) => tenantIds.includes(tenant.id));
+}
+
+export async function exportProfile(options: {
+  profileStore: ProfileStore;
+  tenantIds?: string[];
+  includeSecrets?: boolean;
+  keychain?: KeychainStore;
+  passphrase?: string;
+  scryptParams?: { N: number; r: number; p: number };
+}): Promise<ProfileExportFile> {
+  const data = await options.profileStore.getData();
+  const tenants = selectTenants(data.tenants, options.tenantIds);
+  const file: ProfileExportFile = {
+    schemaVersion: PROFILE_EXPORT_SCHEMA_VERSION,
+    exportedAtUtc: new Date().toISOString(),
+    profileVersion: PROFILE_VERSION,
+    activeTenantId: tenants.some((tenant) => tenant.id === data.activeTenantId) ? data.activeTenantId : undefined,
+    tenants
+  };
+
+  if (!options.includeSecrets) {
+    return file;
+  }
+  if (!options.passphrase) {
+    throw new Error('Exporting secrets requires a passphrase.');
+  }
+  if (!options.keychain) {
+    throw new Error('Exporting secrets requires a keychain.');
+  }
+
+  const params = options.scryptParams ?? DEFAULT_SCRYPT_PARAMS;
+  const salt = randomBytes(16);
+  const key = await deriveKey(options.passphrase, salt, params);
+  const entries: Record<string, SealedValue> = {};
+  for (const tenant of tenants) {
+    for (const slot of tenant.keyRegistry.slots) {
+      const value = await options.keychain.getSlotSecret(tenant.id, slot.provider, slot.slotId);
+      if (value) {
+        const name = entryName(tenant.id, slot.provider, slot.slotId);
+        entries[name] = seal(key, value, name);
+      }
+    }
+  }
+
+  file.secrets = {
+    kdf: { name: 'scrypt', salt: salt.toString('base64'), ...params },
+    check: seal(key, CHECK_PLAINTEXT, CHECK_PLAINTEXT),
+    entries
+  };
+  return file;
+}
+
+// Exports may carry sealed secrets, so they are always written owner-only.
+export async function writeProfileExport(file: ProfileExportFile, outPath: string): Promise<string> {
+  const resolved = path.resolve(outPath);
+  await fs.mkdir(path.dirname(resolved), { recursive: true });
+  await fs.writeFile(resolved, `${JSON.stringify(file, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+  return resolved;
+}
+
+export function parseProfileExport(content: string): ProfileExportFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid profile export: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ProfileExportSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? issue.path.join('.') : 'file';
+    throw new Error(`Invalid profile export: ${field}: ${issue.message}`);
+  }
+  return result.data as ProfileExportFile;
+}
+
+async function openSecrets(secrets: ProfileExportSecrets, passphrase: string): Promise<Map<string, string>> {
+  const { salt, N, r, p } = secrets.kdf;
+  const key = await deriveKey(passphrase, Buffer.from(salt, 'base64'), { N, r, p });
+  try {
+    unseal(key, secrets.check, CHECK_PLAINTEXT);
+  } catch {
+    throw new Error('Unable to decrypt profile export secrets: wrong passphrase.');
+  }
+  return new Map(Object.entries(secrets.entries).map(([name, sealed]) => [name, unseal(key, sealed, name)]));
+}
+
+export async function importProfile(
+  file: ProfileExportFile,
+  options: {
+    profileStore: ProfileStore;
+    keychain?: KeychainStore;
+    mode?: ProfileImportMode;
+    tenantIds?: string[];
+    passphrase?: string;
+    skipSecrets?: boolean;
+    /** Write imported `credential_process` commands; they run through a shell, so they are dropped by default. */
+    trustCredentialProcess?: boolean;
+  }
+): Promise<ProfileImportResult> {
+  const mode = options.mode ?? 'merge';
+  const { profileStore } = options;
+  const tenants = selectTenants(file.tenants, options.tenantIds);
+
+  // Decrypt everything before touching the profile so a wrong passphrase leaves it unchanged.
+  let secrets = new Map<string, string>();
+  if (file.secrets && !options.skipSecrets) {
+    if (!options.passphrase) {
+      throw new Error('This export contains encrypted secrets. Provide the export passphrase or skip secrets.');
+    }
+    if (!options.keychain) {
+      throw new Error('Importing secrets requires a keychain.');
+    }
+    secrets = await openSecrets(file.secrets, options.passphrase);
+  }
+  if (mode === 'overwrite' && !options.keychain) {
+    throw new Error('Overwrite mode requires a keychain to clear secrets of replaced slots.');
+  }
+
+  const result: ProfileImportResult = {
+    mode,
+    tenants: { created: [], updated: [], unchanged: [] },
+    slots: { added: [], replaced: [], removed: [], skipped: [] },
+    credentialProcesses: [],
+    secretsWritten: 0,
+    secretsCleared: 0
+  };
+  const previousActiveTenantId = (await profileStore.getData()).activeTenantId;
+
+  for (const imported of tenants) {
+    const existing = await profileStore.getTenant(imported.id);
+    const existingSlotKeys = new Set(existing?.keyRegistry.slots.map((slot) => `${slot.provider}:${slot.slotId}`));
+
+    if (existing && mode === 'merge') {
+      result.tenants.unchanged.push(imported.id);
+    } else {
+      if (existing) {
+        // Overwrite rebuilds the tenant so its settings and slot registry match the export exactly.
+        for (const slot of existing.keyRegistry.slots) {
+          if (!imported.keyRegistry.slots.some((item) => item.provider === slot.provider && item.slotId === slot.slotId)) {
+            result.slots.removed.push({ tenantId: imported.id, provider: slot.provider, slotId: slot.slotId });
+            await options.keychain?.clearSlotSecret(imported.id, slot.provider, slot.slotId);
+            result.secretsCleared += 1;
+          }
+        }
+        await profileStore.removeTenant(imported.id);
+      }
+      if (imported.credentialProcess) {
+        result.credentialProcesses.push({
+          tenantId: imported.id,
+          command: imported.credentialProcess,
+          imported: Boolean(options.trustCredentialProcess)
+        });
+      }
+      await profileStore.upsertTenant({
+        id: imported.id,
+        name: imported.name,
+        hubBaseUrl: imported.hubBaseUrl,
+        entryBaseUrl: imported.entryBaseUrl,
+        // An untrusted import keeps whatever command this machine already had.
+        credentialProcess: options.trustCredentialProcess ? imported.credentialProcess : existing?.credentialProcess
+      });
+      (existing ? result.tenants.updated : result.tenants.created).push(imported.id);
+    }
+
+    const localSlots = await profileStore.listKeySlots(imported.id);
+    for (const slot of imported.keyRegistry.slots) {
+      const ref: SlotRef = { tenantId: imported.id, provider: slot.provider, slotId: slot.slotId };
+      const sameId = localSlots.find((item) => item.provider === slot.provider && item.slotId === slot.slotId);
+      const sameName = localSlots.find(
+        (item) => item.provider === slot.provider && item.slotId !== slot.slotId && item.name.toLowerCase() === slot.name.toLowerCase()
+      );
+      if (sameId || sameName) {
+        result.slots.skipped.push({ ...ref, reason: sameId ? 'slot id exists locally' : `slot name "${slot.name}" exists locally` });
+        continue;
+      }
+
+      await profileStore.addKeySlot(imported.id, {
+        provider: slot.provider,
+        name: slot.name,
+        slotId: slot.slotId,
+        fingerprint: slot.fingerprint
+      });
+      if (slot.lastValidatedAt || slot.rollbackUntil || slot.rotationHistory) {
+        await profileStore.updateKeySlot(imported.id, slot.provider, slot.slotId, {
+          lastValidatedAt: slot.lastValidatedAt,
+          rollbackUntil: slot.rollbackUntil,
+          rotationHistory: slot.rotationHistory
+        });
+      }
+      const replaced = existingSlotKeys.has(`${slot.provider}:${slot.slotId}`);
+      (replaced ? result.slots.replaced : result.slots.added).push(ref);
+
+      const secret = secrets.get(entryName(imported.id, slot.provider, slot.slotId));
+      if (secret && options.keychain) {
+        await options.keychain.setSlotSecret(imported.id, slot.provider, slot.slotId, secret);
+        result.secretsWritten += 1;
+      } else if (replaced && options.keychain) {
+        // The local secret belongs to the old slot and would no longer match the imported fingerprint.
+        await options.keychain.clearSlotSecret(imported.id, slot.provider, slot.slotId);
+        result.secretsCleared += 1;
+      }
+    }
+
+    if (!existing || mode === 'overwrite') {
+      for (const [provider, slotId] of Object.entries(imported.keyRegistry.activeSlotByProvider) as Array<[SecretProvider, string]>) {
+        if (slotId && imported.keyRegistry.slots.some((slot) => slot.provider === provider && slot.slotId === slotId)) {
+          await profileStore.setActiveKeySlot(imported.id, provider, slotId);
+        }
+      }
+    }
+  }
+
+  const importedActive = tenants.some((tenant) => tenant.id === file.activeTenantId) ? file.activeTenantId : undefined;
+  const keepLocalActive = previousActiveTenantId && (await profileStore.getTenant(previousActiveTenantId));
+  const nextActive = mode === 'overwrite' || !keepLocalActive ? importedActive ?? previousActiveTenantId : previousActiveTenantId;
+  if (nextActive && (await profileStore.getTenant(nextActive))) {
+    await profileStore.setActiveTenant(nextActive);
+  }
+  result.activeTenantId = (await profileStore.getData()).activeTenantId;
+
+  return result;
+}
@@ -0,0 +1,131 @@
+import { spawn } from 'node:child_process';
+
+import { XyteAuthError } from '../http/errors';
+import type { SecretProvider, TenantProfile } from '../types/profile';
+import type { KeychainStore } from './keychain';
+
+export type SecretSource = 'env' | 'credential_process' | 'keychain';
+
+export interface ResolvedSecret {
+  value: string;
+  source: SecretSource;
+}
+
+export interface SecretResolutionContext {
+  provider: SecretProvider;
+  tenantId?: string;
+  tenant?: TenantProfile;
+  slotId?: string;
+  /** Set when the run spans several tenants; unscoped env keys are then ignored so one tenant's key never reaches another hub. */
+  fanOut?: boolean;
+  getKeychain: () => Promise<KeychainStore>;
+}
+
+export type SecretResolver = (context: SecretResolutionContext) => Promise<ResolvedSecret | undefined>;
+
+export const PROVIDER_ENV_VARS: Record<SecretProvider, string> = {
+  'xyte-org': 'XYTE_CLI_ORG_KEY',
+  'xyte-partner': 'XYTE_CLI_PARTNER_KEY',
+  'xyte-device': 'XYTE_CLI_DEVICE_KEY'
+};
+
+const CREDENTIAL_PROCESS_TIMEOUT_MS = 30_000;
+
+/** Tenant-scoped variant of a provider env var, e.g. `XYTE_CLI_ORG_KEY_ACME_EU` for tenant `acme-eu`. */
+export function tenantEnvVar(provider: SecretProvider, tenantId: string): string {
+  return `${PROVIDER_ENV_VARS[provider]}_${tenantId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+export const envSecretResolver: SecretResolver = async ({ provider, tenantId, fanOut }) => {
+  const scoped = tenantId ? process.env[tenantEnvVar(provider, tenantId)]?.trim() : undefined;
+  if (scoped) {
+    return { value: scoped, source: 'env' };
+  }
+  const value = fanOut ? undefined : process.env[PROVIDER_ENV_VARS[provider]]?.trim();
+  return value ? { value, source: 'env' } : undefined;
+};
+
+export function runCredentialProcess(
+  command: string,
+  context: { tenantId: string; provider: SecretProvider; slotId?: string }
+): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: CREDENTIAL_PROCESS_TIMEOUT_MS,
+      env: {
+        ...process.env,
+        XYTE_TENANT_ID: context.tenantId,
+        XYTE_PROVIDER: context.provider,
+        XYTE_SLOT_ID: context.slotId ?? ''
+      }
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(
+          new XyteAuthError(
+            `credential_process for tenant ${context.tenantId} (${context.provider}) exited with code ${code ?? -1}: ${stderr.trim() || 'no output'}`
+          )
+        );
+        return;
+      }
+
+      const output = stdout.trim();
+      if (!output.startsWith('{')) {
+        resolve(output || undefined);
+        return;
+      }
+      // JSON output may carry one key per provider, or a single `key` for whichever provider was asked for.
+      try {
+        const parsed = JSON.parse(output) as Record<string, unknown>;
+        const value = parsed[context.provider] ?? parsed.key;
+        resolve(typeof value === 'string' && value.trim() ? value.trim() : undefined);
+      } catch {
+        reject(new XyteAuthError(`credential_process for tenant ${context.tenantId} printed invalid JSON.`));
+      }
+    });
+  });
+}
+
+export const credentialProcessResolver: SecretResolver = async ({ tenant, tenantId, provider, slotId }) => {
+  if (!tenant?.credentialProcess || !tenantId) {
+    return undefined;
+  }
+  const value = await runCredentialProcess(tenant.credentialProcess, { tenantId, provider, slotId });
+  return value ? { value, source: 'credential_process' } : undefined;
+};
+
+export const keychainSecretResolver: SecretResolver = async ({ tenantId, provider, slotId, getKeychain }) => {
+  if (!tenantId || !slotId) {
+    return undefined;
+  }
+  const keychain = await getKeychain();
+  const value = await keychain.getSlotSecret(tenantId, provider, slotId);
+  return value ? { value, source: 'keychain' } : undefined;
+};
+
+export const DEFAULT_SECRET_RESOLVERS: SecretResolver[] = [envSecretResolver, credentialProcessResolver, keychainSecretResolver];
+
+export async function resolveProviderSecret(
+  context: SecretResolutionContext,
+  resolvers: SecretResolver[] = DEFAULT_SECRET_RESOLVERS
+): Promise<ResolvedSecret | undefined> {
+  for (const resolver of resolvers) {
+    const resolved = await resolver(context);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
@@ -3,6 +3,9 @@ import { setTimeout as delay } from 'node:timers/promises';
 import { classifyConnectivityError, type ConnectivityResult, type ConnectionState } from '../config/connectivity';
 import { computeRetryDelayMs, DEFAULT_RETRY_POLICY, isRetryableErrorClass, type RetryPolicyOptions, type RetryState } from '../config/retry-policy';
 import type { XyteClient } from '../types/client';
+import { extractArray } from '../utils/json';
+
+export { extractArray };
 
 function asRecord(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) {
@@ -11,27 +14,6 @@ function asRecord(value: unknown): Record<string, unknown> {
   return value as Record<string, unknown>;
 }
 
-export function extractArray(value: unknown, preferredKeys: string[] = ['data', 'items']): any[] {
-  if (Array.isArray(value)) {
-    return value;
-  }
-
-  const record = asRecord(value);
-  for (const key of preferredKeys) {
-    if (Array.isArray(record[key])) {
-      return record[key] as any[];
-    }
-  }
-
-  for (const key of Object.keys(record)) {
-    if (Array.isArray(record[key])) {
-      return record[key] as any[];
-    }
-  }
-
-  return [];
-}
-
 function extractIncidentsArray(value: unknown): any[] {
   const primary = extractArray(value, ['incidents', 'data', 'items']);
   if (primary.length > 0) {
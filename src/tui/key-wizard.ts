@@ -1,3 +1,4 @@
+import { DEFAULT_ROLLBACK_HOURS, rotateKeySlot, type KeyProbe } from '../secure/key-rotation';
 import { makeKeyFingerprint, matchesSlotRef } from '../secure/key-slots';
 import type { ApiKeySlotMeta, SecretProvider } from '../types/profile';
 import type { TuiContext } from './types';
@@ -22,13 +23,12 @@ export interface RunKeyCreateWizardArgs {
   setActiveDefault?: boolean;
 }
 
-export interface RunKeyUpdateWizardArgs {
+export interface RunKeyRotateWizardArgs {
   context: WizardContext;
   tenantId: string;
   provider: SecretProvider;
   slotRef: string;
-  promptEditSelected?: boolean;
-  setActiveDefault?: boolean;
+  probe?: KeyProbe;
 }
 
 function canceledResult(message = 'Canceled setup wizard.'): KeyWizardResult {
@@ -173,61 +173,59 @@ export async function runKeyCreateWizard(args: RunKeyCreateWizardArgs): Promise<
   };
 }
 
-export async function runKeyUpdateWizard(args: RunKeyUpdateWizardArgs): Promise<KeyWizardResult> {
+export async function runKeyRotateWizard(args: RunKeyRotateWizardArgs): Promise<KeyWizardResult> {
   const { context, tenantId, provider, slotRef } = args;
-
-  if (args.promptEditSelected) {
-    const editSelected = await promptYesNo(context, `Edit selected slot "${slotRef}" for ${provider}?`, true);
-    if (editSelected === undefined || !editSelected) {
-      return canceledResult();
-    }
-  }
-
   const slots = await context.profileStore.listKeySlots(tenantId, provider);
   const slot = slots.find((item) => matchesSlotRef(item, slotRef));
   if (!slot) {
     throw new Error(`Unknown slot "${slotRef}" for ${provider}.`);
   }
 
-  const slotName = await promptNonEmpty(context, 'Slot name:', slot.name);
-  if (!slotName) {
-    return canceledResult();
-  }
-
-  const keyValue = await promptSecretNonEmpty(context, 'New key value:');
+  const keyValue = await promptSecretNonEmpty(context, `New key for ${labelForSlot(slot)}:`);
   if (!keyValue) {
     return canceledResult();
   }
 
-  const setActive = await promptYesNo(context, 'Set this slot as active now?', args.setActiveDefault ?? true);
-  if (setActive === undefined) {
-    return canceledResult();
+  let rollbackHours: number | undefined;
+  while (rollbackHours === undefined) {
+    const input = await context.prompt('Keep previous key for rollback (hours):', String(DEFAULT_ROLLBACK_HOURS));
+    if (input === undefined || !input.trim()) {
+      return canceledResult();
+    }
+    const parsed = Number(input.trim());
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      rollbackHours = parsed;
+    } else {
+      context.setStatus(`Invalid hours "${input}".`);
+    }
   }
 
-  const fingerprint = makeKeyFingerprint(keyValue);
   const confirmed = await context.confirmWrite(
-    `Update slot "${slotName}" (${slot.slotId}) for ${provider} [${fingerprint}]${setActive ? ' and set active' : ''}`,
-    'save'
+    `Rotate ${provider} slot ${labelForSlot(slot)} to [${makeKeyFingerprint(keyValue)}], keeping rollback for ${rollbackHours}h`,
+    'rotate'
   );
   if (!confirmed) {
     return canceledResult();
   }
 
-  await context.keychain.setSlotSecret(tenantId, provider, slot.slotId, keyValue);
-  const updated = await context.profileStore.updateKeySlot(tenantId, provider, slot.slotId, {
-    name: slotName,
-    fingerprint
+  context.setStatus('Verifying new key...');
+  const result = await rotateKeySlot({
+    profileStore: context.profileStore,
+    keychain: context.keychain,
+    tenantId,
+    provider,
+    slotRef: slot.slotId,
+    newKey: keyValue,
+    rollbackHours,
+    probe: args.probe
   });
-  if (setActive) {
-    await context.profileStore.setActiveKeySlot(tenantId, provider, updated.slotId);
-  }
 
-  const message = `Updated ${provider} slot ${labelForSlot(updated)}.`;
+  const message = `Rotated ${provider}: ${labelForSlot(result.newSlot)} ${result.activated ? 'active' : 'added'}, ${labelForSlot(result.rollbackSlot)} kept until ${result.rollbackSlot.rollbackUntil}.`;
   context.setStatus(message);
   return {
     canceled: false,
     provider,
-    slotId: updated.slotId,
+    slotId: result.newSlot.slotId,
     message
   };
 }
@@ -20,7 +20,9 @@ export const SCREEN_ACTION_KEYMAP: Array<{ keys: string; description: string }>
   { keys: 'Setup: a/u/k/p/c/r', description: 'Tenant setup + guided key wizard + connectivity checks' },
   { keys: 'Config: a/n/u/e/t/x/c/r', description: 'Provider-first key slot add/rename/use/rotate/test/remove + doctor' },
   { keys: 'Spaces: Enter', description: 'Load selected space details and devices asynchronously' },
+  { keys: 'Spaces: Space / + / -', description: 'Expand or collapse the selected subtree; + / - expand or collapse all' },
   { keys: 'Devices: Enter', description: 'Open selected device details' },
+  { keys: 'Devices: c / x', description: 'Send a command to the selected device and track it (with confirmation); x cancels it' },
   { keys: 'Tickets: R or rr', description: 'Mark selected ticket as resolved (with confirmation)' },
   { keys: 'Incidents: /', description: 'Filter incidents by severity' }
 ];
@@ -2,6 +2,7 @@ import type { TuiScreenId } from './types';
 import { safePreviewLines } from './serialize';
 import { fitCell, formatBoolTag, sanitizePrintable, shortId } from './table-format';
 import { HEADLESS_FRAME_SCHEMA_VERSION } from '../contracts/versions';
+import type { SpaceTreeRow } from '../workflows/space-tree';
 
 export type FrameInputState = 'idle' | 'modal' | 'busy';
 export type FrameTransitionState = 'idle' | 'switching';
@@ -107,6 +108,8 @@ export interface SpacesSceneState {
   loading: boolean;
   paneStatus: string;
   spaces: any[];
+  /** Collapsible tree rows parallel to `spaces`; the list falls back to a flat table without them. */
+  treeRows?: SpaceTreeRow[];
   spaceDetail?: unknown;
   devicesInSpace: any[];
 }
@@ -118,14 +121,25 @@ export interface SetupSceneState {
   missingItems: string[];
   recommendedActions: string[];
   providerRows: Array<{ provider: string; slotCount: number; activeSlot: string; hasSecret: string }>;
+  policyWarnings?: string[];
 }
 
 export interface ConfigSceneState {
   tenantId?: string;
   providerRows: Array<{ provider: string; slotCount: number; activeSlot: string; hasSecret: string; lastValidatedAt?: string }>;
   selectedProvider?: string;
+  policyWarnings?: string[];
   slotRows: Array<{ provider: string; slotId: string; name: string; active: string; hasSecret: string; fingerprint: string }>;
-  selectedSlot?: { provider: string; slotId: string; name: string; active: string; hasSecret: string; fingerprint: string };
+  selectedSlot?: {
+    provider: string;
+    slotId: string;
+    name: string;
+    active: string;
+    hasSecret: string;
+    fingerprint: string;
+    rollbackUntil?: string;
+    rotations?: number;
+  };
   doctorStatus?: string;
 }
 
@@ -351,6 +365,7 @@ export function sceneFromTicketsState(state: TicketsSceneState): ScenePanel[] {
 export function sceneFromSpacesState(state: SpacesSceneState): ScenePanel[] {
   const selectedIndex = clampSelection(state.selectedIndex, state.spaces.length);
   const selected = state.spaces[selectedIndex];
+  const selectedRollup = state.treeRows?.[selectedIndex]?.node.rollup;
   const detailPreview = state.spaceDetail ? safePreviewLines(state.spaceDetail) : selected ? safePreviewLines(selected) : undefined;
   const detailLines = selected
     ? detailBlock(
@@ -358,7 +373,10 @@ export function sceneFromSpacesState(state: SpacesSceneState): ScenePanel[] {
           `ID: ${sanitizePrintable(safeSpaceId(selected, selectedIndex))}`,
           `Name: ${sanitizePrintable(selected?.name ?? selected?.title ?? 'n/a')}`,
           `Type: ${sanitizePrintable(selected?.space_type ?? selected?.type ?? 'n/a')}`,
-          `Path: ${sanitizePrintable(selected?.path ?? selected?.full_path ?? 'n/a')}`
+          `Path: ${sanitizePrintable(selected?.path ?? selected?.full_path ?? 'n/a')}`,
+          ...(selectedRollup
+            ? [`Subtree: ${selectedRollup.devices} devices, ${selectedRollup.offlineDevices} offline, ${selectedRollup.activeIncidents} active incidents`]
+            : [])
         ],
         detailPreview
       )
@@ -369,15 +387,25 @@ export function sceneFromSpacesState(state: SpacesSceneState): ScenePanel[] {
       id: 'spaces-list',
       title: 'Spaces',
       kind: 'table',
-      table: {
-        columns: ['ID', 'Name', 'Type', 'Path'],
-        rows: state.spaces.map((item, index) => [
-          shortId(safeId(item, index)),
-          fitCell(safeName(item), 22, 'end'),
-          fitCell(item?.space_type ?? item?.type ?? 'n/a', 10, 'end'),
-          fitCell(item?.path ?? item?.full_path ?? 'n/a', 28, 'end')
-        ])
-      },
+      table: state.treeRows
+        ? {
+            columns: ['Space', 'Devices', 'Offline', 'Incidents'],
+            rows: state.treeRows.map((row) => [
+              fitCell(`${'│ '.repeat(row.node.depth)}${row.hasChildren ? (row.expanded ? '▾' : '▸') : '·'} ${row.node.name}`, 30, 'end'),
+              String(row.node.rollup.devices),
+              String(row.node.rollup.offlineDevices),
+              String(row.node.rollup.activeIncidents)
+            ])
+          }
+        : {
+            columns: ['ID', 'Name', 'Type', 'Path'],
+            rows: state.spaces.map((item, index) => [
+              shortId(safeId(item, index)),
+              fitCell(safeName(item), 22, 'end'),
+              fitCell(item?.space_type ?? item?.type ?? 'n/a', 10, 'end'),
+              fitCell(item?.path ?? item?.full_path ?? 'n/a', 28, 'end')
+            ])
+          },
       status: state.searchText ? `filter=${state.searchText}` : 'filter=none'
     },
     {
@@ -441,6 +469,7 @@ export function sceneFromSetupState(state: SetupSceneState): ScenePanel[] {
           ...(state.missingItems.length ? ['Missing:'] : ['No missing setup items.']),
           ...(state.missingItems.length ? state.missingItems.map((item) => `- ${item}`) : []),
           '',
+          ...(state.policyWarnings?.length ? ['Key policy warnings:', ...state.policyWarnings.map((item) => `! ${item}`), ''] : []),
           ...(state.recommendedActions.length ? ['Recommended actions:'] : ['No recommendations.']),
           ...state.recommendedActions.map((item) => `- ${item}`),
           '',
@@ -500,6 +529,7 @@ export function sceneFromConfigState(state: ConfigSceneState): ScenePanel[] {
           `Provider: ${state.selectedProvider ?? 'none'}`,
           `Doctor: ${state.doctorStatus ?? 'not run'}`,
           '',
+          ...(state.policyWarnings?.length ? ['Key policy warnings:', ...state.policyWarnings.map((item) => `! ${item}`), ''] : []),
           ...(selectedSlot
             ? [
                 'Selected slot:',
@@ -508,6 +538,8 @@ export function sceneFromConfigState(state: ConfigSceneState): ScenePanel[] {
                 `- Fingerprint: ${selectedSlot.fingerprint}`,
                 `- Active: ${formatBoolTag(selectedSlot.active)}`,
                 `- Secret stored: ${formatBoolTag(selectedSlot.hasSecret)}`,
+                ...(selectedSlot.rollbackUntil ? [`- Rollback until: ${selectedSlot.rollbackUntil}`] : []),
+                ...(selectedSlot.rotations ? [`- Rotations: ${selectedSlot.rotations}`] : []),
                 ''
               ]
             : ['Selected slot: none', '']),
@@ -515,7 +547,7 @@ export function sceneFromConfigState(state: ConfigSceneState): ScenePanel[] {
           '- a add slot (guided wizard)',
           '- n rename slot',
           '- u use slot',
-          '- e rotate/update key (guided wizard)',
+          '- e rotate key (verify, swap active, keep rollback slot)',
           '- t test selected slot',
           '- x remove slot',
           '- c doctor',
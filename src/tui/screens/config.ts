@@ -12,7 +12,7 @@ import {
 } from '../navigation';
 import { SCREEN_PANE_CONFIG } from '../panes';
 import { sceneFromConfigState } from '../scene';
-import { runKeyCreateWizard, runKeyUpdateWizard } from '../key-wizard';
+import { runKeyCreateWizard, runKeyRotateWizard } from '../key-wizard';
 import type { SecretProvider } from '../../types/profile';
 import type { TuiArrowKey, TuiContext, TuiScreen } from '../types';
 
@@ -94,6 +94,8 @@ export function createConfigScreen(): TuiScreen {
     active: 'yes' | 'no';
     hasSecret: 'yes' | 'no';
     fingerprint: string;
+    rollbackUntil?: string;
+    rotations?: number;
   }> = [];
   const paneConfig = SCREEN_PANE_CONFIG.config;
   let activePane = paneConfig.defaultPane;
@@ -154,7 +156,9 @@ export function createConfigScreen(): TuiScreen {
         active: activeForProvider?.slotId === slot.slotId ? 'yes' : 'no',
         hasSecret:
           activeTenantId && (await context.keychain.getSlotSecret(activeTenantId, slot.provider, slot.slotId)) ? 'yes' : 'no',
-        fingerprint: slot.fingerprint
+        fingerprint: slot.fingerprint,
+        rollbackUntil: slot.rollbackUntil,
+        rotations: slot.rotationHistory?.length
       }))
     );
     selectedSlotIndex = clampIndex(selectedSlotIndex, slotRowsState.length);
@@ -163,6 +167,7 @@ export function createConfigScreen(): TuiScreen {
       tenantId: activeTenantId,
       providerRows: providerRowsState,
       selectedProvider,
+      policyWarnings: context.getReadiness()?.policyViolations?.map((violation) => violation.message),
       slotRows: slotRowsState,
       selectedSlot: slotRowsState[selectedSlotIndex],
       doctorStatus
@@ -428,13 +433,11 @@ export function createConfigScreen(): TuiScreen {
             context.setStatus('No slot selected to rotate.');
             return true;
           }
-          const result = await runKeyUpdateWizard({
+          const result = await runKeyRotateWizard({
             context,
             tenantId,
             provider: selectedProvider,
-            slotRef: selectedSlot.slotId,
-            promptEditSelected: true,
-            setActiveDefault: selectedSlot.active === 'yes'
+            slotRef: selectedSlot.slotId
           });
           await this.refresh();
           context.setStatus(result.message);
@@ -15,6 +15,60 @@ import type { TuiArrowKey, TuiContext, TuiPaneId, TuiScreen } from '../types';
 import { loadDevicesData } from '../data-loaders';
 import { sceneFromDevicesState } from '../scene';
 import { payloadSummary, safeSearchText } from '../serialize';
+import { sendDeviceCommand, type DeviceCommandResult } from '../../workflows/device-command';
+import { parseJsonObject } from '../../utils/json';
+
+export interface SendDeviceCommandWithGuardArgs {
+  device: any;
+  context: Pick<TuiContext, 'confirmWrite' | 'prompt' | 'setStatus' | 'showError' | 'getActiveTenantId' | 'client'>;
+  signal?: AbortSignal;
+}
+
+export async function sendDeviceCommandWithGuard(args: SendDeviceCommandWithGuardArgs): Promise<DeviceCommandResult | undefined> {
+  const { device, context, signal } = args;
+  const deviceId = String(device?.id ?? device?._id ?? '');
+  if (!deviceId) {
+    context.setStatus('Selected device has no id.');
+    return undefined;
+  }
+
+  const name = (await context.prompt(`Command for ${device?.name ?? deviceId} (e.g. reboot):`, ''))?.trim();
+  if (!name) {
+    context.setStatus('Command canceled.');
+    return undefined;
+  }
+  const paramsText = (await context.prompt('Params JSON (empty for none):', ''))?.trim();
+  if (paramsText === undefined) {
+    context.setStatus('Command canceled.');
+    return undefined;
+  }
+
+  try {
+    const params = paramsText ? parseJsonObject(paramsText) : undefined;
+    const ok = await context.confirmWrite(`Send "${name}" to ${deviceId}`, 'send');
+    if (!ok) {
+      context.setStatus('Command canceled.');
+      return undefined;
+    }
+
+    context.setStatus(`Sending ${name}...`);
+    const result = await sendDeviceCommand({
+      client: context.client,
+      tenantId: await context.getActiveTenantId(),
+      deviceId,
+      name,
+      params,
+      wait: true,
+      signal,
+      onPoll: (poll) => context.setStatus(`Command ${name}: ${poll.status ?? 'pending'} (${Math.round(poll.elapsedMs / 1000)}s, x cancels)`)
+    });
+    context.setStatus(`Command ${name} ${result.outcome}${result.status ? ` (${result.status})` : ''}.`);
+    return result;
+  } catch (error) {
+    context.showError(error);
+    return undefined;
+  }
+}
 
 export function createDevicesScreen(): TuiScreen {
   let root: blessed.Widgets.BoxElement | undefined;
@@ -36,6 +90,7 @@ export function createDevicesScreen(): TuiScreen {
   let renderErrorCount = 0;
   let renderErrorWindowStart = 0;
   let renderFrozen = false;
+  let pendingCommand: AbortController | undefined;
 
   const focusPane = () => {
     if (activePane === 'devices-table') {
@@ -313,6 +368,28 @@ export function createDevicesScreen(): TuiScreen {
         return true;
       }
 
+      if (ch === 'c') {
+        if (pendingCommand) {
+          context.setStatus('A command is still running. Press x to cancel it.');
+          return true;
+        }
+        const controller = new AbortController();
+        pendingCommand = controller;
+        // Polling runs in the background so the screen stays responsive while the command executes.
+        void sendDeviceCommandWithGuard({ device: filtered[selectedIndex], context, signal: controller.signal }).finally(() => {
+          if (pendingCommand === controller) {
+            pendingCommand = undefined;
+          }
+        });
+        return true;
+      }
+
+      if (ch === 'x' && pendingCommand) {
+        pendingCommand.abort();
+        context.setStatus('Canceling command...');
+        return true;
+      }
+
       return false;
     }
   };
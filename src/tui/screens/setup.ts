@@ -68,7 +68,8 @@ export function createSetupScreen(): TuiScreen {
         slotCount: provider.slotCount,
         activeSlot: provider.activeSlotId ?? 'none',
         hasSecret: provider.hasActiveSecret ? 'yes' : 'no'
-      }))
+      })),
+      policyWarnings: readiness.policyViolations?.map((violation) => violation.message)
     });
     providerRowsState = readiness.providers.map((provider) => provider.provider);
 
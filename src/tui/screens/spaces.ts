@@ -16,11 +16,13 @@ import {
   getSpaceId,
   getSpaceName,
   loadDevicesData,
+  loadIncidentsData,
   loadSpaceDrilldownData,
   loadSpacesData
 } from '../data-loaders';
 import { sceneFromSpacesState } from '../scene';
 import { safeSearchText } from '../serialize';
+import { buildSpaceTree, flattenSpaceTree, type SpaceTree, type SpaceTreeNode, type SpaceTreeRow } from '../../workflows/space-tree';
 
 const SPINNER_FRAMES = ['|', '/', '-', '\\'];
 
@@ -50,6 +52,10 @@ export function createSpacesScreen(): TuiScreen {
   let context: TuiContext;
 
   let spaces: any[] = [];
+  let spacesById = new Map<string, any>();
+  let tree: SpaceTree | undefined;
+  let expanded: Set<string> | undefined;
+  let treeRows: SpaceTreeRow[] = [];
   let filtered: any[] = [];
   let searchText = '';
   let selectedIndex = 0;
@@ -126,6 +132,7 @@ export function createSpacesScreen(): TuiScreen {
       loading,
       paneStatus,
       spaces: filtered,
+      treeRows,
       spaceDetail: selectedSpaceDetail,
       devicesInSpace
     });
@@ -135,7 +142,7 @@ export function createSpacesScreen(): TuiScreen {
     const devicesPanel = panels.find((panel) => panel.id === 'spaces-devices');
 
     setListTableData(spaceTable, [
-      (listPanel?.table?.columns ?? ['ID', 'Name', 'Type', 'Path']) as [string, string, string, string],
+      (listPanel?.table?.columns ?? ['Space', 'Devices', 'Offline', 'Incidents']) as [string, string, string, string],
       ...((listPanel?.table?.rows ?? []) as Array<[string, string, string, string]>)
     ], spaceSelectionSync);
     syncListSelection(spaceTable, selectedIndex, spaceSelectionSync);
@@ -225,12 +232,13 @@ export function createSpacesScreen(): TuiScreen {
   };
 
   const applyFilter = () => {
-    if (!searchText) {
-      filtered = spaces;
-    } else {
-      const needle = searchText.toLowerCase();
-      filtered = spaces.filter((space) => safeSearchText(space).includes(needle));
-    }
+    const highlightedId = filtered[selectedIndex] ? getSpaceId(filtered[selectedIndex]) : undefined;
+    const needle = searchText.toLowerCase();
+    const match = searchText
+      ? (node: SpaceTreeNode) => safeSearchText(spacesById.get(node.id) ?? node).includes(needle)
+      : undefined;
+    treeRows = flattenSpaceTree(tree?.roots ?? [], expanded ?? new Set(), match);
+    filtered = treeRows.map((row) => spacesById.get(row.node.id) ?? row.node);
 
     if (!filtered.length) {
       selectedIndex = 0;
@@ -245,8 +253,9 @@ export function createSpacesScreen(): TuiScreen {
       return;
     }
 
-    if (selectedSpaceId) {
-      const matchIndex = filtered.findIndex((space) => getSpaceId(space) === selectedSpaceId);
+    const keepId = highlightedId ?? selectedSpaceId;
+    if (keepId) {
+      const matchIndex = filtered.findIndex((space) => getSpaceId(space) === keepId);
       if (matchIndex >= 0) {
         selectedIndex = matchIndex;
       } else {
@@ -259,6 +268,38 @@ export function createSpacesScreen(): TuiScreen {
     renderState();
   };
 
+  const toggleSelected = () => {
+    const row = treeRows[selectedIndex];
+    if (!row?.hasChildren) {
+      return false;
+    }
+    if (searchText) {
+      context.setStatus('Clear the search (/) to expand or collapse spaces.');
+      return true;
+    }
+    expanded = new Set(expanded);
+    if (expanded.has(row.node.id)) {
+      expanded.delete(row.node.id);
+    } else {
+      expanded.add(row.node.id);
+    }
+    applyFilter();
+    return true;
+  };
+
+  const expandAll = (open: boolean) => {
+    const ids: string[] = [];
+    const walk = (node: SpaceTreeNode) => {
+      if (node.children.length) {
+        ids.push(node.id);
+        node.children.forEach(walk);
+      }
+    };
+    (tree?.roots ?? []).forEach(walk);
+    expanded = new Set(open ? ids : []);
+    applyFilter();
+  };
+
   return {
     id: 'spaces',
     title: 'Spaces',
@@ -285,10 +326,10 @@ export function createSpacesScreen(): TuiScreen {
         width: '35%',
         height: '100%-1',
         border: 'line',
-        label: ' Spaces ',
+        label: ' Space Tree ',
         keys: false,
         mouse: true,
-        data: [['ID', 'Name', 'Type', 'Path']],
+        data: [['Space', 'Devices', 'Offline', 'Incidents']],
         style: {
           header: { bold: true, fg: 'black', bg: 'white' },
           cell: { selected: { bg: 'blue' } }
@@ -370,13 +411,18 @@ export function createSpacesScreen(): TuiScreen {
         return;
       }
       activeTenantId = tenantId;
-      const [nextSpacesOutcome, devicesCacheOutcome] = await Promise.all([
+      const [nextSpacesOutcome, devicesCacheOutcome, incidentsOutcome] = await Promise.all([
         loadSpacesData(context.client, tenantId),
-        loadDevicesData(context.client, tenantId)
+        loadDevicesData(context.client, tenantId),
+        loadIncidentsData(context.client, tenantId)
       ]);
 
       spaces = nextSpacesOutcome.data;
+      spacesById = new Map(spaces.map((item) => [getSpaceId(item), item]));
       allDevicesCache = devicesCacheOutcome.data;
+      tree = buildSpaceTree({ tenantId, spaces, devices: allDevicesCache, incidents: incidentsOutcome.data });
+      // First load shows the top level expanded; later refreshes keep what the user opened or closed.
+      expanded ??= new Set(tree.roots.map((root) => root.id));
       if (!isMounted) {
         return;
       }
@@ -472,6 +518,15 @@ export function createSpacesScreen(): TuiScreen {
         return true;
       }
 
+      if (activePane === 'spaces-table' && (key.name === 'space' || ch === ' ')) {
+        return toggleSelected();
+      }
+
+      if (activePane === 'spaces-table' && (ch === '+' || ch === '-')) {
+        expandAll(ch === '+');
+        return true;
+      }
+
       return false;
     }
   };
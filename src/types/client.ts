@@ -1,7 +1,10 @@
 import type { PublicEndpointSpec } from './endpoints';
+import type { EndpointBody, EndpointKey, EndpointResponse } from '../client/endpoint-schemas';
+import type { RateLimitOptions, RateLimitState } from '../http/rate-limit';
 import type { HttpTransport } from '../http/transport';
 import type { KeychainStore } from '../secure/keychain';
 import type { ProfileStore } from '../secure/profile-store';
+import type { SecretResolver } from '../secure/secret-sources';
 import type { DeviceNamespace } from '../namespaces/device';
 import type { OrganizationNamespace } from '../namespaces/organization';
 import type { PartnerNamespace } from '../namespaces/partner';
@@ -13,6 +16,14 @@ export interface XyteCallArgs {
   body?: unknown;
   headers?: Record<string, string>;
   tenantId?: string;
+  dryRun?: boolean;
+}
+
+export interface XyteRequestPreview {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
 }
 
 export interface XyteCallResult<T = unknown> {
@@ -22,14 +33,35 @@ export interface XyteCallResult<T = unknown> {
   durationMs: number;
   retryCount: number;
   attempts: number;
+  rateLimit?: RateLimitState;
+  dryRun?: XyteRequestPreview;
 }
 
-export type NamespaceCall = (args?: XyteCallArgs) => Promise<unknown>;
+export interface XytePaginateOptions {
+  perPage?: number;
+  maxPages?: number;
+}
 
-export interface XyteNamespace {
-  [method: string]: NamespaceCall;
+export interface XytePage<T = unknown> {
+  page: number;
+  perPage?: number;
+  items: T[];
+  paginated: boolean;
+  truncated: boolean;
+  status: number;
+  durationMs: number;
+  retryCount: number;
+  rateLimit?: RateLimitState;
 }
 
+export type EndpointCallArgs<K extends EndpointKey> = [EndpointBody<K>] extends [never]
+  ? Omit<XyteCallArgs, 'body'>
+  : Omit<XyteCallArgs, 'body'> & { body?: EndpointBody<K> };
+
+export type EndpointCall<K extends EndpointKey> = (args?: EndpointCallArgs<K>) => Promise<EndpointResponse<K>>;
+
+export type NamespaceCaller = <T = unknown>(endpointKey: EndpointKey, args?: XyteCallArgs) => Promise<T>;
+
 export interface XyteClientOptions {
   tenantId?: string;
   hubBaseUrl?: string;
@@ -37,6 +69,9 @@ export interface XyteClientOptions {
   timeoutMs?: number;
   retryAttempts?: number;
   retryBackoffMs?: number;
+  rateLimit?: RateLimitOptions | false;
+  recordPath?: string;
+  replayPath?: string;
   auth?: {
     organization?: string;
     partner?: string;
@@ -44,6 +79,9 @@ export interface XyteClientOptions {
   };
   profileStore?: ProfileStore;
   keychain?: KeychainStore;
+  secretResolvers?: SecretResolver[];
+  /** The client serves one tenant of a multi-tenant run; unscoped `XYTE_CLI_*_KEY` env vars are ignored. */
+  fanOut?: boolean;
   transport?: HttpTransport;
 }
 
@@ -53,6 +91,7 @@ export interface XyteClient {
   partner: PartnerNamespace;
   call<T = unknown>(endpointKey: string, args?: XyteCallArgs): Promise<T>;
   callWithMeta<T = unknown>(endpointKey: string, args?: XyteCallArgs): Promise<XyteCallResult<T>>;
+  paginate<T = unknown>(endpointKey: string, args?: XyteCallArgs, options?: XytePaginateOptions): AsyncGenerator<XytePage<T>, void, undefined>;
   describeEndpoint(key: string): PublicEndpointSpec;
   listEndpoints(): PublicEndpointSpec[];
   listTenantEndpoints(tenantId: string): Promise<PublicEndpointSpec[]>;
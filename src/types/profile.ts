@@ -1,5 +1,13 @@
 export type SecretProvider = 'xyte-org' | 'xyte-partner' | 'xyte-device';
 
+export interface KeyRotationEntry {
+  rotatedAt: string;
+  previousSlotId: string;
+  previousFingerprint: string;
+  fingerprint: string;
+  verifiedBy?: string;
+}
+
 export interface ApiKeySlotMeta {
   slotId: string;
   provider: SecretProvider;
@@ -8,6 +16,20 @@ export interface ApiKeySlotMeta {
   createdAt: string;
   updatedAt: string;
   lastValidatedAt?: string;
+  /** When the slot's current secret was stored; key age is measured from here. */
+  keySetAt?: string;
+  /** Set on a slot retired by `auth key rotate`; it is pruned after this time. */
+  rollbackUntil?: string;
+  rotationHistory?: KeyRotationEntry[];
+}
+
+export interface KeySlotUpdate {
+  name?: string;
+  fingerprint?: string;
+  lastValidatedAt?: string;
+  /** An empty string clears it. */
+  rollbackUntil?: string;
+  rotationHistory?: KeyRotationEntry[];
 }
 
 export interface TenantKeyRegistry {
@@ -20,6 +42,7 @@ export interface TenantProfile {
   name: string;
   hubBaseUrl?: string;
   entryBaseUrl?: string;
+  credentialProcess?: string;
   keyRegistry: TenantKeyRegistry;
   createdAt: string;
   updatedAt: string;
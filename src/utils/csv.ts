@@ -0,0 +1,19 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheet apps evaluate cells that start with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value: CsvCell): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !Number.isFinite(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(columns: string[], rows: CsvCell[][]): string {
+  return [columns, ...rows].map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
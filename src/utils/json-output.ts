@@ -2,7 +2,7 @@ export interface JsonWriteOptions {
   strictJson?: boolean;
 }
 
-function safeStringify(value: unknown): string {
+function safeStringify(value: unknown, space?: number): string {
   const seen = new WeakSet<object>();
   return JSON.stringify(
     value,
@@ -20,7 +20,7 @@ function safeStringify(value: unknown): string {
 
       return item;
     },
-    2
+    space
   );
 }
 
@@ -28,7 +28,7 @@ export function stringifyForOutput(value: unknown, options: JsonWriteOptions = {
   if (options.strictJson) {
     return JSON.stringify(value, null, 2);
   }
-  return safeStringify(value);
+  return safeStringify(value, 2);
 }
 
 export function writeJsonLine(
@@ -39,3 +39,12 @@ export function writeJsonLine(
   const text = stringifyForOutput(value, options);
   stream.write(`${text}\n`);
 }
+
+export function writeNdjsonLine(
+  stream: Pick<typeof process.stdout, 'write'>,
+  value: unknown,
+  options: JsonWriteOptions = {}
+): void {
+  const text = options.strictJson ? JSON.stringify(value) : safeStringify(value);
+  stream.write(`${text}\n`);
+}
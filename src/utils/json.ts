@@ -33,3 +33,24 @@ export function extractFirstJsonObject<T = unknown>(text: string): T | undefined
 
   return tryParseJson<T>(text.slice(start, end + 1));
 }
+
+export function extractArray(value: unknown, preferredKeys: string[] = ['data', 'items']): any[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  const record = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  for (const key of preferredKeys) {
+    if (Array.isArray(record[key])) {
+      return record[key] as any[];
+    }
+  }
+
+  for (const key of Object.keys(record)) {
+    if (Array.isArray(record[key])) {
+      return record[key] as any[];
+    }
+  }
+
+  return [];
+}
@@ -0,0 +1,191 @@
+import { randomUUID } from 'node:crypto';
+
+import { z } from 'zod';
+
+import { getEndpoint, hasEndpoint, requiresDestructiveGuard, requiresWriteGuard } from '../client/catalog';
+import { buildCallEnvelope, type CallEnvelopeV1 } from '../contracts/call-envelope';
+import { toProblemDetails } from '../contracts/problem';
+import { BATCH_SUMMARY_SCHEMA_VERSION } from '../contracts/versions';
+import type { XyteClient } from '../types/client';
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+export const MAX_BATCH_CONCURRENCY = 32;
+
+export const BatchOperationSchema = z.object({
+  endpointKey: z.string().min(1),
+  tenantId: z.string().min(1).optional(),
+  path: z.record(z.string(), z.union([z.string(), z.number()])).optional(),
+  query: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+  body: z.unknown().optional()
+});
+
+export type BatchOperation = z.infer<typeof BatchOperationSchema>;
+
+export interface BatchLine {
+  line: number;
+  operation: BatchOperation;
+}
+
+export interface BatchFailure {
+  line: number;
+  endpointKey: string;
+  requestId: string;
+  status?: number;
+  detail: string;
+}
+
+export interface BatchSummary {
+  schemaVersion: typeof BATCH_SUMMARY_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  tenantId?: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  concurrency: number;
+  durationMs: number;
+  failures: BatchFailure[];
+}
+
+export interface BatchLineResult {
+  line: number;
+  envelope: CallEnvelopeV1;
+}
+
+export function parseBatchOperations(text: string): BatchLine[] {
+  const lines: BatchLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid batch line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (parsed && typeof parsed === 'object' && 'confirm' in parsed) {
+      throw new Error(`Invalid batch line ${line}: confirm: destructive lines are confirmed on the command line with --confirm <endpointKey>.`);
+    }
+
+    const result = BatchOperationSchema.safeParse(parsed);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const field = issue.path.length > 0 ? issue.path.join('.') : 'line';
+      throw new Error(`Invalid batch line ${line}: ${field}: ${issue.message}`);
+    }
+    if (!hasEndpoint(result.data.endpointKey)) {
+      throw new Error(`Invalid batch line ${line}: unknown endpoint key ${result.data.endpointKey}.`);
+    }
+
+    lines.push({ line, operation: result.data });
+  });
+  return lines;
+}
+
+export async function runBatch(args: {
+  client: XyteClient;
+  lines: BatchLine[];
+  tenantId?: string;
+  concurrency?: number;
+  allowWrite: boolean;
+  /** Endpoint keys the operator confirmed for destructive lines; lines cannot confirm themselves. */
+  confirm?: string[];
+  onResult?: (result: BatchLineResult) => void;
+}): Promise<BatchSummary> {
+  const started = Date.now();
+  const concurrency = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, args.concurrency ?? DEFAULT_BATCH_CONCURRENCY));
+  const results: Array<BatchLineResult | undefined> = new Array(args.lines.length);
+  const failures: BatchFailure[] = [];
+  let nextIndex = 0;
+  let nextToEmit = 0;
+
+  const emitReady = () => {
+    while (nextToEmit < results.length && results[nextToEmit]) {
+      args.onResult?.(results[nextToEmit] as BatchLineResult);
+      nextToEmit += 1;
+    }
+  };
+
+  const execute = async ({ line, operation }: BatchLine): Promise<BatchLineResult> => {
+    const endpoint = getEndpoint(operation.endpointKey);
+    const method = endpoint.method.toUpperCase();
+    const requestId = randomUUID();
+    const tenantId = operation.tenantId ?? args.tenantId;
+    const confirm = args.confirm?.includes(endpoint.key) ? endpoint.key : undefined;
+    const path = operation.path ?? {};
+    const query = operation.query ?? {};
+    const envelopeBase = {
+      requestId,
+      tenantId,
+      endpointKey: endpoint.key,
+      method,
+      guard: { allowWrite: args.allowWrite, confirm },
+      request: { path, query, body: operation.body }
+    };
+
+    try {
+      if (requiresWriteGuard(method) && !args.allowWrite) {
+        throw new Error(`Endpoint ${endpoint.key} is a write operation (${method}). Re-run with --allow-write.`);
+      }
+      if (requiresDestructiveGuard(method) && confirm !== endpoint.key) {
+        throw new Error(`Endpoint ${endpoint.key} is destructive. Re-run with --confirm ${endpoint.key}.`);
+      }
+
+      const result = await args.client.callWithMeta(endpoint.key, {
+        requestId,
+        tenantId,
+        path,
+        query,
+        body: operation.body
+      });
+      return {
+        line,
+        envelope: buildCallEnvelope({
+          ...envelopeBase,
+          response: {
+            status: result.status,
+            durationMs: result.durationMs,
+            retryCount: result.retryCount,
+            data: result.data,
+            rateLimit: result.rateLimit
+          }
+        })
+      };
+    } catch (error) {
+      const problem = toProblemDetails(error, `/batch/${line}`);
+      failures.push({ line, endpointKey: endpoint.key, requestId, status: problem.status, detail: problem.detail });
+      return {
+        line,
+        envelope: buildCallEnvelope({ ...envelopeBase, error: problem })
+      };
+    }
+  };
+
+  const worker = async () => {
+    while (nextIndex < args.lines.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await execute(args.lines[index]);
+      emitReady();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, Math.max(1, args.lines.length)) }, () => worker()));
+
+  failures.sort((a, b) => a.line - b.line);
+  return {
+    schemaVersion: BATCH_SUMMARY_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    tenantId: args.tenantId,
+    total: args.lines.length,
+    succeeded: args.lines.length - failures.length,
+    failed: failures.length,
+    concurrency,
+    durationMs: Date.now() - started,
+    failures
+  };
+}
@@ -0,0 +1,365 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { DEFAULT_MAX_PAGES } from '../client/pagination';
+import { toProblemDetails, type ProblemDetails } from '../contracts/problem';
+import { INSPECT_CONFIG_DRIFT_SCHEMA_VERSION } from '../contracts/versions';
+import type { XyteClient } from '../types/client';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  DEFAULT_BROADCAST_CONCURRENCY,
+  MAX_BROADCAST_CONCURRENCY,
+  resolveBroadcastTargets,
+  type BroadcastTarget,
+  type BroadcastTargets,
+  type DeviceFilter
+} from './device-broadcast';
+import { flattenConfig, readDeviceConfig, type DeviceConfigSource, type LiveDeviceConfig } from './device-config';
+import { pct } from './report-format';
+
+export type DriftReference = 'baseline' | 'majority';
+
+export interface ConfigDriftGroup {
+  fingerprint: string;
+  devices: number;
+  sharePct: number;
+  /** The single largest group; false for every group when the top sizes tie. */
+  majority: boolean;
+  /** null when no baseline was given. */
+  matchesBaseline: boolean | null;
+  deviceIds: string[];
+}
+
+export interface ConfigDriftValue {
+  missing: boolean;
+  value?: unknown;
+  devices: number;
+  deviceIds: string[];
+}
+
+export interface ConfigDriftKey {
+  path: string;
+  expected: { missing: boolean; value?: unknown };
+  deviating: number;
+  values: ConfigDriftValue[];
+}
+
+export interface ConfigDriftDevice {
+  deviceId: string;
+  name: string;
+  space: string | null;
+  source: DeviceConfigSource;
+  fingerprint: string;
+  driftedKeys: string[];
+}
+
+export interface ConfigDriftFailure {
+  deviceId: string;
+  name: string;
+  error: ProblemDetails;
+}
+
+export interface ConfigDriftResult {
+  schemaVersion: typeof INSPECT_CONFIG_DRIFT_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  tenantId: string;
+  scope: {
+    space: { id: string; path: string } | null;
+    filters: DeviceFilter[];
+    truncated?: boolean;
+  };
+  reference: DriftReference;
+  baseline: { ref: string; fingerprint: string } | null;
+  totals: {
+    devices: number;
+    read: number;
+    failed: number;
+    groups: number;
+    driftedDevices: number;
+    driftedKeys: number;
+  };
+  groups: ConfigDriftGroup[];
+  keys: ConfigDriftKey[];
+  devices: ConfigDriftDevice[];
+  failures: ConfigDriftFailure[];
+}
+
+export interface DeviceConfigRead {
+  target: BroadcastTarget;
+  live?: LiveDeviceConfig;
+  error?: ProblemDetails;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Short, order-independent hash of a configuration document. */
+export function configFingerprint(config: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson(config)).digest('hex').slice(0, 12);
+}
+
+const MISSING = '<missing>';
+
+function valueKey(leaves: Map<string, unknown>, path: string): string {
+  return leaves.has(path) ? canonicalJson(leaves.get(path)) : MISSING;
+}
+
+function expectedOf(leaves: Map<string, unknown>, path: string): ConfigDriftKey['expected'] {
+  return leaves.has(path) ? { missing: false, value: leaves.get(path) } : { missing: true };
+}
+
+/**
+ * Groups devices by config fingerprint and lists every key that deviates from the reference. With a
+ * baseline only the baseline's keys are checked (device-only keys are not drift, matching `device config
+ * apply`); without one each key is compared against the most common value across the devices read.
+ */
+export function buildConfigDrift(args: {
+  tenantId: string;
+  scope: BroadcastTargets;
+  reads: DeviceConfigRead[];
+  baseline?: { ref: string; config: Record<string, unknown> };
+}): ConfigDriftResult {
+  const read = args.reads.filter((item) => item.live) as Array<Required<Pick<DeviceConfigRead, 'target' | 'live'>>>;
+  const leavesById = new Map(read.map((item) => [item.target.deviceId, flattenConfig(item.live.config)]));
+  const fingerprints = new Map(read.map((item) => [item.target.deviceId, configFingerprint(item.live.config)]));
+  const baselineLeaves = args.baseline ? flattenConfig(args.baseline.config) : undefined;
+
+  const paths = baselineLeaves
+    ? [...baselineLeaves.keys()]
+    : [...new Set([...leavesById.values()].flatMap((leaves) => [...leaves.keys()]))].sort();
+
+  const keys: ConfigDriftKey[] = [];
+  const driftedByDevice = new Map<string, string[]>(read.map((item) => [item.target.deviceId, []]));
+  for (const path of paths) {
+    const buckets = new Map<string, ConfigDriftValue>();
+    for (const [deviceId, leaves] of leavesById) {
+      const key = valueKey(leaves, path);
+      const bucket = buckets.get(key) ?? { ...expectedOf(leaves, path), devices: 0, deviceIds: [] };
+      bucket.devices += 1;
+      bucket.deviceIds.push(deviceId);
+      buckets.set(key, bucket);
+    }
+
+    const ranked = [...buckets.entries()].sort((a, b) => b[1].devices - a[1].devices || a[0].localeCompare(b[0]));
+    const expectedKey = baselineLeaves ? valueKey(baselineLeaves, path) : ranked[0]?.[0];
+    const deviating = ranked.filter(([key]) => key !== expectedKey);
+    if (!deviating.length) {
+      continue;
+    }
+    for (const [, bucket] of deviating) {
+      bucket.deviceIds.forEach((deviceId) => driftedByDevice.get(deviceId)?.push(path));
+    }
+    const { devices: _devices, deviceIds: _deviceIds, ...majority } = ranked[0][1];
+    keys.push({
+      path,
+      expected: baselineLeaves ? expectedOf(baselineLeaves, path) : majority,
+      deviating: deviating.reduce((sum, [, bucket]) => sum + bucket.devices, 0),
+      values: ranked.map(([, bucket]) => ({ ...bucket, deviceIds: [...bucket.deviceIds].sort() }))
+    });
+  }
+  keys.sort((a, b) => b.deviating - a.deviating || a.path.localeCompare(b.path));
+
+  const byFingerprint = new Map<string, string[]>();
+  for (const [deviceId, fingerprint] of fingerprints) {
+    byFingerprint.set(fingerprint, [...(byFingerprint.get(fingerprint) ?? []), deviceId]);
+  }
+  const sizes = [...byFingerprint.values()].map((ids) => ids.length).sort((a, b) => b - a);
+  const groups = [...byFingerprint.entries()]
+    .map(([fingerprint, deviceIds]) => ({
+      fingerprint,
+      devices: deviceIds.length,
+      sharePct: pct(deviceIds.length, read.length),
+      majority: deviceIds.length === sizes[0] && sizes[0] !== sizes[1],
+      matchesBaseline: baselineLeaves ? deviceIds.every((deviceId) => !driftedByDevice.get(deviceId)?.length) : null,
+      deviceIds: deviceIds.sort()
+    }))
+    .sort((a, b) => b.devices - a.devices || a.fingerprint.localeCompare(b.fingerprint));
+
+  const devices = read
+    .map((item) => ({
+      deviceId: item.target.deviceId,
+      name: item.target.name,
+      space: item.target.space,
+      source: item.live.source,
+      fingerprint: fingerprints.get(item.target.deviceId) as string,
+      driftedKeys: driftedByDevice.get(item.target.deviceId) ?? []
+    }))
+    .sort((a, b) => b.driftedKeys.length - a.driftedKeys.length || a.deviceId.localeCompare(b.deviceId));
+  const failures = args.reads
+    .filter((item) => !item.live)
+    .map((item) => ({
+      deviceId: item.target.deviceId,
+      name: item.target.name,
+      error: item.error ?? toProblemDetails(new Error('Configuration was not read.'), `/devices/${item.target.deviceId}/config`)
+    }));
+
+  return {
+    schemaVersion: INSPECT_CONFIG_DRIFT_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    tenantId: args.tenantId,
+    scope: {
+      space: args.scope.space ? { id: args.scope.space.id, path: args.scope.space.path } : null,
+      filters: args.scope.filters,
+      ...(args.scope.truncated ? { truncated: true } : {})
+    },
+    reference: args.baseline ? 'baseline' : 'majority',
+    baseline: args.baseline ? { ref: args.baseline.ref, fingerprint: configFingerprint(args.baseline.config) } : null,
+    totals: {
+      devices: args.reads.length,
+      read: read.length,
+      failed: failures.length,
+      groups: groups.length,
+      driftedDevices: devices.filter((device) => device.driftedKeys.length > 0).length,
+      driftedKeys: keys.length
+    },
+    groups,
+    keys,
+    devices,
+    failures
+  };
+}
+
+/** Reads every device in scope with bounded concurrency; a device whose config cannot be read is reported, not fatal. */
+export async function collectConfigDrift(args: {
+  client: XyteClient;
+  tenantId: string;
+  space?: string;
+  filters?: DeviceFilter[];
+  baseline?: { ref: string; config: Record<string, unknown> };
+  concurrency?: number;
+}): Promise<ConfigDriftResult> {
+  const { client, tenantId } = args;
+  const scope = await resolveBroadcastTargets({ client, tenantId, space: args.space, filters: args.filters, allowUnscoped: true });
+  const concurrency = Math.min(MAX_BROADCAST_CONCURRENCY, Math.max(1, args.concurrency ?? DEFAULT_BROADCAST_CONCURRENCY));
+  const reads = await mapWithConcurrency(scope.targets, concurrency, async (target): Promise<DeviceConfigRead> => {
+    try {
+      return { target, live: await readDeviceConfig(client, target.deviceId, tenantId) };
+    } catch (error) {
+      return { target, error: toProblemDetails(error, `/devices/${target.deviceId}/config`) };
+    }
+  });
+  return buildConfigDrift({ tenantId, scope, reads, baseline: args.baseline });
+}
+
+/** Loads `inspect config-drift --format json` output for `report generate --attach`. */
+export function loadConfigDriftAttachment(filePath: string, tenantId: string): ConfigDriftResult {
+  const raw = JSON.parse(readFileSync(resolve(filePath), 'utf8')) as Partial<ConfigDriftResult>;
+  if (raw.schemaVersion !== INSPECT_CONFIG_DRIFT_SCHEMA_VERSION) {
+    throw new Error(`${filePath} must be produced by \`xyte-cli inspect config-drift --format json\`.`);
+  }
+  if (raw.tenantId && raw.tenantId !== tenantId) {
+    throw new Error(`Attachment tenant mismatch. Expected ${tenantId}, got ${raw.tenantId}.`);
+  }
+  return raw as ConfigDriftResult;
+}
+
+export function formatDriftValue(value: { missing: boolean; value?: unknown }): string {
+  return value.missing ? '(missing)' : canonicalJson(value.value);
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+export function formatConfigDriftMarkdown(result: ConfigDriftResult): string {
+  const markdown: string[] = [];
+  const names = new Map(result.devices.map((device) => [device.deviceId, device.name]));
+  const nameList = (deviceIds: string[], limit = 5) => {
+    const listed = deviceIds.slice(0, limit).map((deviceId) => names.get(deviceId) ?? deviceId);
+    return deviceIds.length > limit ? `${listed.join(', ')} +${deviceIds.length - limit} more` : listed.join(', ');
+  };
+  const scope = [
+    result.scope.space ? `space \`${result.scope.space.path || result.scope.space.id}\`` : 'all spaces',
+    ...result.scope.filters.map((filter) => `\`${filter.field}=${filter.value}\``)
+  ].join(', ');
+
+  markdown.push('# Xyte Configuration Drift');
+  markdown.push('');
+  markdown.push(`- Tenant: \`${result.tenantId}\``);
+  markdown.push(`- Generated: \`${result.generatedAtUtc}\``);
+  markdown.push(`- Scope: ${scope}`);
+  if (result.scope.truncated) {
+    markdown.push(`- Incomplete: the device listing stopped at ${DEFAULT_MAX_PAGES} pages.`);
+  }
+  markdown.push(
+    `- Reference: ${result.baseline ? `baseline \`${result.baseline.ref}\` (\`${result.baseline.fingerprint}\`)` : 'majority value per key'}`
+  );
+  markdown.push('');
+  markdown.push('## Summary');
+  markdown.push('');
+  markdown.push(
+    `- Devices: **${result.totals.devices}**, configs read: **${result.totals.read}**, unreadable: **${result.totals.failed}**`
+  );
+  markdown.push(`- Distinct configurations: **${result.totals.groups}**`);
+  markdown.push(`- Drifted devices: **${result.totals.driftedDevices}**, drifted keys: **${result.totals.driftedKeys}**`);
+  markdown.push('');
+
+  markdown.push('## Configuration Groups');
+  markdown.push('');
+  if (!result.groups.length) {
+    markdown.push('None.');
+  } else {
+    markdown.push('| Fingerprint | Devices | Share | Baseline | Members |');
+    markdown.push('| --- | ---: | ---: | --- | --- |');
+    result.groups.forEach((group) => {
+      const baseline = group.matchesBaseline === null ? 'n/a' : group.matchesBaseline ? 'match' : 'drift';
+      const label = `\`${group.fingerprint}\`${group.majority ? ' (majority)' : ''}`;
+      markdown.push(`| ${label} | ${group.devices} | ${group.sharePct}% | ${baseline} | ${cell(nameList(group.deviceIds))} |`);
+    });
+  }
+  markdown.push('');
+
+  markdown.push('## Drifted Keys');
+  markdown.push('');
+  if (!result.keys.length) {
+    markdown.push('None.');
+  } else {
+    markdown.push(`| Key | ${result.reference === 'baseline' ? 'Baseline' : 'Majority'} | Deviating | Other Values |`);
+    markdown.push('| --- | --- | ---: | --- |');
+    result.keys.forEach((key) => {
+      const expected = formatDriftValue(key.expected);
+      const others = key.values
+        .filter((value) => formatDriftValue(value) !== expected)
+        .map((value) => `${formatDriftValue(value)} (${value.devices})`)
+        .join(', ');
+      markdown.push(`| \`${cell(key.path)}\` | ${cell(expected)} | ${key.deviating} | ${cell(others)} |`);
+    });
+  }
+  markdown.push('');
+
+  const drifted = result.devices.filter((device) => device.driftedKeys.length > 0);
+  markdown.push('## Drifted Devices');
+  markdown.push('');
+  if (!drifted.length) {
+    markdown.push('None.');
+  } else {
+    markdown.push('| Device | Space | Fingerprint | Keys |');
+    markdown.push('| --- | --- | --- | --- |');
+    drifted.forEach((device) =>
+      markdown.push(
+        `| ${cell(device.name)} | ${cell(device.space ?? 'n/a')} | \`${device.fingerprint}\` | ${cell(device.driftedKeys.join(', '))} |`
+      )
+    );
+  }
+
+  if (result.failures.length) {
+    markdown.push('');
+    markdown.push('## Unreadable Devices');
+    markdown.push('');
+    result.failures.forEach((failure) => markdown.push(`- ${failure.name}: ${failure.error.detail}`));
+  }
+
+  return markdown.join('\n').trimEnd();
+}
@@ -0,0 +1,276 @@
+import { toProblemDetails, type ProblemDetails } from '../contracts/problem';
+import { DEVICE_BROADCAST_SCHEMA_VERSION } from '../contracts/versions';
+import { collectItems, DEFAULT_MAX_PAGES } from '../client/pagination';
+import type { XyteClient } from '../types/client';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { sendDeviceCommand, type DeviceCommandOutcome } from './device-command';
+
+export const DEFAULT_BROADCAST_CONCURRENCY = 4;
+export const MAX_BROADCAST_CONCURRENCY = 16;
+
+export interface DeviceFilter {
+  field: string;
+  value: string;
+}
+
+export interface BroadcastSpace {
+  id: string;
+  path: string;
+  /** The space itself plus every descendant. */
+  spaceIds: string[];
+}
+
+export interface BroadcastTarget {
+  deviceId: string;
+  name: string;
+  status: string | null;
+  space: string | null;
+}
+
+export interface BroadcastDeviceResult {
+  deviceId: string;
+  name: string;
+  ok: boolean;
+  commandId?: string;
+  outcome?: DeviceCommandOutcome;
+  status?: string | null;
+  error?: ProblemDetails;
+}
+
+export interface DeviceBroadcastResult {
+  schemaVersion: typeof DEVICE_BROADCAST_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  tenantId: string;
+  command: string;
+  preview: boolean;
+  scope: {
+    space: { id: string; path: string } | null;
+    filters: DeviceFilter[];
+    truncated?: boolean;
+  };
+  total: number;
+  succeeded: number;
+  failed: number;
+  durationMs: number;
+  targets: BroadcastTarget[];
+  results: BroadcastDeviceResult[];
+}
+
+export interface BroadcastTargets {
+  space?: BroadcastSpace;
+  filters: DeviceFilter[];
+  targets: BroadcastTarget[];
+  /** The device or space listing stopped at the page cap, so `targets` may be missing devices. */
+  truncated?: boolean;
+}
+
+export function parseDeviceFilters(values: string[]): DeviceFilter[] {
+  return values.map((raw) => {
+    const index = raw.indexOf('=');
+    const field = index > 0 ? raw.slice(0, index).trim() : '';
+    if (!field) {
+      throw new Error(`Invalid filter: ${raw}. Use field=value, e.g. status=online.`);
+    }
+    return { field, value: raw.slice(index + 1).trim() };
+  });
+}
+
+function readField(item: any, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as any)[key] : undefined), item);
+}
+
+export function matchesDeviceFilters(device: unknown, filters: DeviceFilter[]): boolean {
+  return filters.every((filter) => {
+    const value = readField(device, filter.field);
+    return value !== undefined && value !== null && String(value).toLowerCase() === filter.value.toLowerCase();
+  });
+}
+
+export function spacePathOf(space: any): string {
+  return String(space?.full_path ?? space?.path ?? space?.name ?? '');
+}
+
+export function deviceSpaceId(device: any): string {
+  return String(device?.space_id ?? device?.space?.id ?? device?.spaceId ?? '');
+}
+
+export function deviceSpacePath(device: any): string {
+  return String(device?.space_tree_path_name ?? device?.space?.full_path ?? '');
+}
+
+/**
+ * Resolves a space by id or full path and collects its descendants, following `parent_id` links and,
+ * for spaces that only carry a path, `full_path` prefixes.
+ */
+export function resolveSpaceScope(spaces: unknown[], ref: string): BroadcastSpace {
+  const all = spaces as any[];
+  const root = all.find((space) => String(space?.id ?? '') === ref) ?? all.find((space) => spacePathOf(space) === ref);
+  if (!root) {
+    throw new Error(`Unknown space: ${ref}. Use a space id or full path (e.g. "HQ/Floor 2").`);
+  }
+
+  const rootId = String(root.id);
+  const rootPath = spacePathOf(root);
+  const spaceIds = new Set([rootId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const space of all) {
+      const id = String(space?.id ?? '');
+      if (!id || spaceIds.has(id)) {
+        continue;
+      }
+      const parentId = String(space?.parent_id ?? '');
+      if (spaceIds.has(parentId) || (rootPath && spacePathOf(space).startsWith(`${rootPath}/`))) {
+        spaceIds.add(id);
+        grew = true;
+      }
+    }
+  }
+
+  return { id: rootId, path: rootPath, spaceIds: [...spaceIds].sort() };
+}
+
+function inSpace(device: any, space: BroadcastSpace): boolean {
+  if (space.spaceIds.includes(deviceSpaceId(device))) {
+    return true;
+  }
+  const path = deviceSpacePath(device);
+  return Boolean(space.path) && (path === space.path || path.startsWith(`${space.path}/`));
+}
+
+export async function resolveBroadcastTargets(args: {
+  client: XyteClient;
+  tenantId: string;
+  space?: string;
+  filters?: DeviceFilter[];
+  /** Read-only callers (e.g. config drift) may scan the whole tenant; broadcasts never do. */
+  allowUnscoped?: boolean;
+}): Promise<BroadcastTargets> {
+  const { client, tenantId } = args;
+  const filters = args.filters ?? [];
+  if (!args.space && filters.length === 0 && !args.allowUnscoped) {
+    throw new Error('Refusing to target every device. Narrow the broadcast with --space and/or --filter.');
+  }
+
+  const [devices, spaces] = await Promise.all([
+    collectItems(client.paginate('organization.devices.getDevices', { tenantId })),
+    args.space ? collectItems(client.paginate('organization.spaces.getSpaces', { tenantId })) : Promise.resolve({ items: [], truncated: false })
+  ]);
+  const space = args.space ? resolveSpaceScope(spaces.items, args.space) : undefined;
+
+  const targets = devices.items
+    .filter((device) => String(device?.id ?? '') !== '')
+    .filter((device) => !space || inSpace(device, space))
+    .filter((device) => matchesDeviceFilters(device, filters))
+    .map((device) => ({
+      deviceId: String(device.id),
+      name: String(device?.name ?? device.id),
+      status: device?.status ? String(device.status) : null,
+      space: deviceSpacePath(device) || deviceSpaceId(device) || null
+    }))
+    .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+
+  return { space, filters, targets, truncated: devices.truncated || spaces.truncated };
+}
+
+function emptyResult(tenantId: string, command: string, scope: BroadcastTargets, preview: boolean): DeviceBroadcastResult {
+  return {
+    schemaVersion: DEVICE_BROADCAST_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    tenantId,
+    command,
+    preview,
+    scope: {
+      space: scope.space ? { id: scope.space.id, path: scope.space.path } : null,
+      filters: scope.filters,
+      ...(scope.truncated ? { truncated: true } : {})
+    },
+    total: scope.targets.length,
+    succeeded: 0,
+    failed: 0,
+    durationMs: 0,
+    targets: scope.targets,
+    results: []
+  };
+}
+
+export function previewDeviceBroadcast(tenantId: string, command: string, scope: BroadcastTargets): DeviceBroadcastResult {
+  return emptyResult(tenantId, command, scope, true);
+}
+
+/**
+ * Sends `name` to every target with bounded concurrency. One device failing (or timing out with
+ * `wait`) never stops the others; aborting `signal` skips devices that were not sent yet.
+ */
+export async function runDeviceBroadcast(args: {
+  client: XyteClient;
+  tenantId: string;
+  scope: BroadcastTargets;
+  name: string;
+  friendlyName?: string;
+  params?: Record<string, unknown>;
+  concurrency?: number;
+  wait?: boolean;
+  timeoutMs?: number;
+  intervalMs?: number;
+  signal?: AbortSignal;
+  onResult?: (result: BroadcastDeviceResult) => void;
+}): Promise<DeviceBroadcastResult> {
+  if (args.scope.truncated) {
+    throw new Error(
+      `Refusing to broadcast: the device listing stopped at ${DEFAULT_MAX_PAGES} pages, so the target list is incomplete. Narrow the scope with --space and/or --filter.`
+    );
+  }
+  const started = Date.now();
+  const { targets } = args.scope;
+  const concurrency = Math.min(MAX_BROADCAST_CONCURRENCY, Math.max(1, args.concurrency ?? DEFAULT_BROADCAST_CONCURRENCY));
+
+  const execute = async (target: BroadcastTarget): Promise<BroadcastDeviceResult> => {
+    const base = { deviceId: target.deviceId, name: target.name };
+    if (args.signal?.aborted) {
+      return { ...base, ok: false, error: toProblemDetails(new Error('Broadcast canceled before sending.'), `/devices/${target.deviceId}`) };
+    }
+    try {
+      const sent = await sendDeviceCommand({
+        client: args.client,
+        tenantId: args.tenantId,
+        deviceId: target.deviceId,
+        name: args.name,
+        friendlyName: args.friendlyName,
+        params: args.params,
+        wait: args.wait,
+        timeoutMs: args.timeoutMs,
+        intervalMs: args.intervalMs,
+        signal: args.signal
+      });
+      return {
+        ...base,
+        ok: sent.outcome === 'sent' || sent.outcome === 'succeeded',
+        commandId: sent.commandId,
+        outcome: sent.outcome,
+        status: sent.status,
+        ...(sent.cancelError
+          ? { error: toProblemDetails(new Error(`Cancel failed: ${sent.cancelError}`), `/devices/${target.deviceId}`) }
+          : {})
+      };
+    } catch (error) {
+      return { ...base, ok: false, error: toProblemDetails(error, `/devices/${target.deviceId}`) };
+    }
+  };
+
+  const results = await mapWithConcurrency(targets, concurrency, async (target) => {
+    const result = await execute(target);
+    args.onResult?.(result);
+    return result;
+  });
+
+  const succeeded = results.filter((result) => result.ok).length;
+  return {
+    ...emptyResult(args.tenantId, args.name, args.scope, false),
+    succeeded,
+    failed: results.length - succeeded,
+    durationMs: Date.now() - started,
+    results
+  };
+}
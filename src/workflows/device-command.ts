@@ -0,0 +1,148 @@
+import { setTimeout as delay } from 'node:timers/promises';
+
+import { DEVICE_COMMAND_SCHEMA_VERSION } from '../contracts/versions';
+import type { XyteClient } from '../types/client';
+import { extractArray } from '../utils/json';
+
+export type DeviceCommandOutcome = 'sent' | 'succeeded' | 'failed' | 'canceled' | 'timeout';
+
+export interface DeviceCommandResult {
+  schemaVersion: typeof DEVICE_COMMAND_SCHEMA_VERSION;
+  tenantId?: string;
+  deviceId: string;
+  commandId: string;
+  name: string;
+  outcome: DeviceCommandOutcome;
+  /** Last status reported by the hub, lower-cased; null when the command never showed up in getCommands. */
+  status: string | null;
+  polls: number;
+  sentAtUtc: string;
+  finishedAtUtc: string;
+  elapsedMs: number;
+  command: Record<string, unknown>;
+  /** Set when aborting could not cancel the command on the hub; the outcome is then `failed`. */
+  cancelError?: string;
+}
+
+export interface DeviceCommandPoll {
+  poll: number;
+  status: string | null;
+  elapsedMs: number;
+}
+
+export interface SendDeviceCommandOptions {
+  client: XyteClient;
+  tenantId?: string;
+  deviceId: string;
+  name: string;
+  friendlyName?: string;
+  fileId?: string;
+  params?: Record<string, unknown>;
+  wait?: boolean;
+  timeoutMs?: number;
+  intervalMs?: number;
+  /** Aborting while waiting cancels the command on the hub (organization.commands.cancelCommand). */
+  signal?: AbortSignal;
+  onPoll?: (poll: DeviceCommandPoll) => void;
+}
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 300_000;
+export const DEFAULT_COMMAND_INTERVAL_MS = 2_000;
+
+const SUCCEEDED_STATUSES = new Set(['done', 'completed', 'complete', 'success', 'succeeded']);
+const FAILED_STATUSES = new Set(['failed', 'failure', 'error', 'rejected', 'expired', 'timeout', 'timed_out']);
+const CANCELED_STATUSES = new Set(['canceled', 'cancelled']);
+
+export function commandOutcomeForStatus(status: string | null): DeviceCommandOutcome | undefined {
+  if (!status) {
+    return undefined;
+  }
+  if (SUCCEEDED_STATUSES.has(status)) {
+    return 'succeeded';
+  }
+  if (FAILED_STATUSES.has(status)) {
+    return 'failed';
+  }
+  return CANCELED_STATUSES.has(status) ? 'canceled' : undefined;
+}
+
+function normalizeStatus(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+}
+
+export async function sendDeviceCommand(options: SendDeviceCommandOptions): Promise<DeviceCommandResult> {
+  const { client, tenantId, deviceId, signal } = options;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+  const intervalMs = options.intervalMs ?? DEFAULT_COMMAND_INTERVAL_MS;
+  const path = { device_id: deviceId };
+  const startedAt = Date.now();
+
+  const sent = (await client.organization.sendCommand({
+    tenantId,
+    path,
+    body: {
+      name: options.name,
+      friendly_name: options.friendlyName,
+      file_id: options.fileId,
+      extra_params: options.params
+    }
+  })) as Record<string, unknown>;
+  const commandId = String(sent?.id ?? '');
+  if (!commandId) {
+    throw new Error(`sendCommand for device ${deviceId} returned no command id.`);
+  }
+
+  let command = sent;
+  let status = normalizeStatus(sent.status);
+  let polls = 0;
+  const finish = (outcome: DeviceCommandOutcome): DeviceCommandResult => ({
+    schemaVersion: DEVICE_COMMAND_SCHEMA_VERSION,
+    tenantId,
+    deviceId,
+    commandId,
+    name: options.name,
+    outcome,
+    status,
+    polls,
+    sentAtUtc: new Date(startedAt).toISOString(),
+    finishedAtUtc: new Date().toISOString(),
+    elapsedMs: Date.now() - startedAt,
+    command
+  });
+
+  if (!options.wait) {
+    return finish(commandOutcomeForStatus(status) ?? 'sent');
+  }
+
+  while (true) {
+    if (signal?.aborted) {
+      try {
+        await client.organization.cancelCommand({ tenantId, path: { ...path, command_id: commandId } });
+      } catch (error) {
+        return { ...finish('failed'), cancelError: error instanceof Error ? error.message : String(error) };
+      }
+      status = 'canceled';
+      return finish('canceled');
+    }
+
+    polls += 1;
+    const listed = extractArray(await client.organization.getCommands({ tenantId, path }), ['commands', 'data', 'items']);
+    const match = listed.find((item) => String(item?.id ?? '') === commandId);
+    if (match) {
+      command = match;
+      status = normalizeStatus(match.status);
+    }
+    options.onPoll?.({ poll: polls, status, elapsedMs: Date.now() - startedAt });
+
+    const outcome = commandOutcomeForStatus(status);
+    if (outcome) {
+      return finish(outcome);
+    }
+
+    const remainingMs = timeoutMs - (Date.now() - startedAt);
+    if (remainingMs <= 0) {
+      return finish('timeout');
+    }
+    await delay(Math.min(intervalMs, remainingMs), undefined, { signal }).catch(() => undefined);
+  }
+}
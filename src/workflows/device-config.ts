@@ -0,0 +1,299 @@
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { buildCallEnvelope, type CallEnvelopeV1 } from '../contracts/call-envelope';
+import { toProblemDetails } from '../contracts/problem';
+import { DEVICE_CONFIG_DIFF_SCHEMA_VERSION } from '../contracts/versions';
+import type { XyteClient } from '../types/client';
+
+export type DeviceConfigSource = 'device' | 'partner';
+export type ConfigChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ConfigChange {
+  path: string;
+  kind: ConfigChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DeviceConfigDiff {
+  schemaVersion: typeof DEVICE_CONFIG_DIFF_SCHEMA_VERSION;
+  tenantId?: string;
+  deviceId: string;
+  source: DeviceConfigSource;
+  against: { kind: 'file' | 'device'; ref: string };
+  identical: boolean;
+  summary: Record<ConfigChangeKind, number>;
+  changes: ConfigChange[];
+}
+
+export interface LiveDeviceConfig {
+  source: DeviceConfigSource;
+  config: Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Some hubs wrap the document as `{ config: {...} }`; unwrap that so diffs line up with local files. */
+function unwrapConfig(value: unknown): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    throw new Error('Device configuration response is not a JSON object.');
+  }
+  const keys = Object.keys(value);
+  if (keys.length === 1 && ['config', 'configuration'].includes(keys[0]) && isPlainObject(value[keys[0]])) {
+    return value[keys[0]] as Record<string, unknown>;
+  }
+  return value;
+}
+
+/**
+ * Reads the live configuration with the device key (`device.configuration.getConfig`), falling back to
+ * the partner key (`partner.devices.getConfiguration`) when the tenant has no device credentials.
+ */
+export async function readDeviceConfig(client: XyteClient, deviceId: string, tenantId?: string): Promise<LiveDeviceConfig> {
+  const path = { device_id: deviceId };
+  try {
+    return { source: 'device', config: unwrapConfig(await client.device.getConfig({ tenantId, path })) };
+  } catch (deviceError) {
+    try {
+      return { source: 'partner', config: unwrapConfig(await client.partner.getConfiguration({ tenantId, path })) };
+    } catch {
+      throw deviceError;
+    }
+  }
+}
+
+export function loadConfigFile(filePath: string): Record<string, unknown> {
+  const resolved = resolve(filePath);
+  const text = readFileSync(resolved, 'utf8');
+  const yaml = ['.yaml', '.yml'].includes(extname(resolved).toLowerCase());
+  let parsed: unknown;
+  try {
+    parsed = yaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ${yaml ? 'YAML' : 'JSON'} in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error(`${filePath} must contain a configuration object.`);
+  }
+  return parsed;
+}
+
+export function formatConfigYaml(config: Record<string, unknown>): string {
+  return stringifyYaml(config);
+}
+
+function formatPath(segments: string[]): string {
+  return segments
+    .map((segment, index) => (/^[A-Za-z_][\w-]*$/.test(segment) ? `${index === 0 ? '' : '.'}${segment}` : `[${JSON.stringify(segment)}]`))
+    .join('');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => key in a && key in b && sameValue(a[key], b[key]));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+  }
+  return a === b;
+}
+
+/** Leaf values keyed by display path; arrays, scalars and empty objects count as leaves. */
+export function flattenConfig(config: Record<string, unknown>): Map<string, unknown> {
+  const leaves = new Map<string, unknown>();
+  const walk = (value: Record<string, unknown>, prefix: string[]) => {
+    for (const key of Object.keys(value).sort()) {
+      const segments = [...prefix, key];
+      const child = value[key];
+      if (isPlainObject(child) && Object.keys(child).length > 0) {
+        walk(child, segments);
+      } else {
+        leaves.set(formatPath(segments), child);
+      }
+    }
+  };
+  walk(config, []);
+  return leaves;
+}
+
+/** Objects are compared key by key; arrays and scalars are compared (and later applied) as whole values. */
+function diffConfig(before: Record<string, unknown>, after: Record<string, unknown>): Array<ConfigChange & { segments: string[] }> {
+  const changes: Array<ConfigChange & { segments: string[] }> = [];
+  const walk = (left: Record<string, unknown>, right: Record<string, unknown>, prefix: string[]) => {
+    for (const key of [...new Set([...Object.keys(left), ...Object.keys(right)])].sort()) {
+      const segments = [...prefix, key];
+      const path = formatPath(segments);
+      if (!(key in right)) {
+        changes.push({ path, segments, kind: 'removed', before: left[key] });
+      } else if (!(key in left)) {
+        changes.push({ path, segments, kind: 'added', after: right[key] });
+      } else if (isPlainObject(left[key]) && isPlainObject(right[key])) {
+        walk(left[key] as Record<string, unknown>, right[key] as Record<string, unknown>, segments);
+      } else if (!sameValue(left[key], right[key])) {
+        changes.push({ path, segments, kind: 'changed', before: left[key], after: right[key] });
+      }
+    }
+  };
+  walk(before, after, []);
+  return changes;
+}
+
+export function buildDeviceConfigDiff(args: {
+  tenantId?: string;
+  deviceId: string;
+  live: LiveDeviceConfig;
+  desired: Record<string, unknown>;
+  against: DeviceConfigDiff['against'];
+}): DeviceConfigDiff {
+  const changes = diffConfig(args.live.config, args.desired).map(({ segments: _segments, ...change }) => change);
+  const summary = { added: 0, removed: 0, changed: 0 };
+  for (const change of changes) {
+    summary[change.kind] += 1;
+  }
+  return {
+    schemaVersion: DEVICE_CONFIG_DIFF_SCHEMA_VERSION,
+    tenantId: args.tenantId,
+    deviceId: args.deviceId,
+    source: args.live.source,
+    against: args.against,
+    identical: changes.length === 0,
+    summary,
+    changes
+  };
+}
+
+/**
+ * Builds the setConfig body from added and changed keys only. Keys present on the device but missing
+ * from the desired document are left alone, so a partial file never wipes unrelated settings.
+ */
+export function buildConfigPatch(before: Record<string, unknown>, desired: Record<string, unknown>): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  for (const change of diffConfig(before, desired)) {
+    if (change.kind === 'removed') {
+      continue;
+    }
+    let target = patch;
+    for (const segment of change.segments.slice(0, -1)) {
+      target[segment] = isPlainObject(target[segment]) ? target[segment] : {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[change.segments[change.segments.length - 1]] = change.after;
+  }
+  return patch;
+}
+
+function mergeConfig(base: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key]) ? mergeConfig(base[key] as Record<string, unknown>, value) : value;
+  }
+  return merged;
+}
+
+export interface ApplyDeviceConfigResult {
+  diff: DeviceConfigDiff;
+  /** Absent when the device already matches the desired document and nothing was sent. */
+  envelope?: CallEnvelopeV1;
+}
+
+/**
+ * Sends the changed keys through `device.configuration.setConfig` and records the configuration before
+ * and after in the envelope's `change` block. `after` is read back from the device; dry runs (and
+ * read-back failures) fall back to the expected merge of the live config and the patch.
+ */
+export async function applyDeviceConfig(args: {
+  client: XyteClient;
+  tenantId?: string;
+  deviceId: string;
+  desired: Record<string, unknown>;
+  ref: string;
+  allowWrite: boolean;
+  dryRun?: boolean;
+}): Promise<ApplyDeviceConfigResult> {
+  const { client, tenantId, deviceId } = args;
+  const live = await readDeviceConfig(client, deviceId, tenantId);
+  const diff = buildDeviceConfigDiff({ tenantId, deviceId, live, desired: args.desired, against: { kind: 'file', ref: args.ref } });
+  const patch = buildConfigPatch(live.config, args.desired);
+  if (Object.keys(patch).length === 0) {
+    return { diff };
+  }
+
+  const requestId = randomUUID();
+  const path = { device_id: deviceId };
+  const expected = mergeConfig(live.config, patch);
+  const envelopeBase = {
+    requestId,
+    tenantId,
+    endpointKey: 'device.configuration.setConfig',
+    method: 'POST',
+    guard: { allowWrite: args.allowWrite },
+    request: { path, body: patch }
+  };
+
+  try {
+    const result = await client.callWithMeta('device.configuration.setConfig', { requestId, tenantId, path, body: patch, dryRun: args.dryRun });
+    const after = result.dryRun
+      ? expected
+      : await readDeviceConfig(client, deviceId, tenantId).then(
+          (reread) => reread.config,
+          () => expected
+        );
+    return {
+      diff,
+      envelope: buildCallEnvelope({
+        ...envelopeBase,
+        response: {
+          status: result.status,
+          durationMs: result.durationMs,
+          retryCount: result.retryCount,
+          data: result.dryRun ?? result.data,
+          rateLimit: result.rateLimit,
+          simulated: result.dryRun ? true : undefined
+        },
+        change: { before: live.config, after }
+      })
+    };
+  } catch (error) {
+    return {
+      diff,
+      envelope: buildCallEnvelope({
+        ...envelopeBase,
+        change: { before: live.config, after: live.config },
+        error: toProblemDetails(error, `/devices/${deviceId}/config`)
+      })
+    };
+  }
+}
+
+function inline(value: unknown): string {
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+export function formatConfigDiffAscii(diff: DeviceConfigDiff): string {
+  const header = `Device ${diff.deviceId} (${diff.source} config) vs ${diff.against.kind} ${diff.against.ref}`;
+  if (diff.identical) {
+    return `${header}\nNo differences.`;
+  }
+  const lines = diff.changes.map((change) => {
+    if (change.kind === 'added') {
+      return `+ ${change.path}: ${inline(change.after)}`;
+    }
+    if (change.kind === 'removed') {
+      return `- ${change.path}: ${inline(change.before)}`;
+    }
+    return `~ ${change.path}: ${inline(change.before)} -> ${inline(change.after)}`;
+  });
+  return [
+    header,
+    ...lines,
+    '',
+    `${diff.summary.changed} changed, ${diff.summary.added} added, ${diff.summary.removed} only on device`
+  ].join('\n');
+}
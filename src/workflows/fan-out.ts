@@ -0,0 +1,213 @@
+import { toProblemDetails, type ProblemDetails } from '../contracts/problem';
+import { INSPECT_DEEP_DIVE_MULTI_SCHEMA_VERSION, INSPECT_FLEET_MULTI_SCHEMA_VERSION } from '../contracts/versions';
+import type { ProfileStore } from '../secure/profile-store';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { DeepDiveResult, FleetInspectResult } from './fleet-insights';
+import { pct } from './report-format';
+
+export const DEFAULT_FAN_OUT_CONCURRENCY = 4;
+export const MAX_FAN_OUT_CONCURRENCY = 16;
+
+export interface TenantFailure {
+  tenantId: string;
+  error: ProblemDetails;
+}
+
+export type TenantOutcome<T> = { tenantId: string; ok: true; result: T } | ({ ok: false } & TenantFailure);
+
+export interface FleetTenantRank {
+  tenantId: string;
+  value: number;
+}
+
+export interface MultiTenantFleetInspectResult {
+  schemaVersion: typeof INSPECT_FLEET_MULTI_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  summary: {
+    tenants: {
+      requested: number;
+      succeeded: number;
+      failed: number;
+    };
+    totals: FleetInspectResult['totals'];
+    highlights: {
+      offlineDevices: number;
+      offlinePct: number;
+      activeIncidents: number;
+      activeIncidentPct: number;
+      openTickets: number;
+    };
+    worstOfflinePct: FleetTenantRank | null;
+    mostActiveIncidents: FleetTenantRank | null;
+    mostOpenTickets: FleetTenantRank | null;
+  };
+  tenants: FleetInspectResult[];
+  failures: TenantFailure[];
+}
+
+export interface MultiTenantDeepDiveResult {
+  schemaVersion: typeof INSPECT_DEEP_DIVE_MULTI_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  windowHours: number;
+  tenants: DeepDiveResult[];
+  failures: TenantFailure[];
+}
+
+export async function resolveTenantTargets(
+  profileStore: ProfileStore,
+  options: { tenants?: string[]; allTenants?: boolean }
+): Promise<string[]> {
+  if (options.tenants && options.allTenants) {
+    throw new Error('Use either --tenants or --all-tenants, not both.');
+  }
+  const known = (await profileStore.listTenants()).map((tenant) => tenant.id);
+  if (options.allTenants) {
+    if (known.length === 0) {
+      throw new Error('No tenants configured. Use "xyte-cli tenant add" first.');
+    }
+    return known;
+  }
+
+  const requested = [...new Set(options.tenants ?? [])];
+  const unknown = requested.filter((tenantId) => !known.includes(tenantId));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tenant(s): ${unknown.join(', ')}.`);
+  }
+  return requested;
+}
+
+/**
+ * Runs `task` once per tenant with bounded concurrency. A tenant that throws (missing key,
+ * 401, network) becomes a failed outcome instead of aborting the others; outcomes keep input order.
+ */
+export async function runPerTenant<T>(
+  tenantIds: string[],
+  task: (tenantId: string) => Promise<T>,
+  options: { concurrency?: number; onOutcome?: (outcome: TenantOutcome<T>) => void } = {}
+): Promise<Array<TenantOutcome<T>>> {
+  const concurrency = Math.min(MAX_FAN_OUT_CONCURRENCY, Math.max(1, options.concurrency ?? DEFAULT_FAN_OUT_CONCURRENCY));
+  const outcomes: Array<TenantOutcome<T> | undefined> = new Array(tenantIds.length);
+  let nextToEmit = 0;
+
+  const emitReady = () => {
+    while (nextToEmit < outcomes.length && outcomes[nextToEmit]) {
+      options.onOutcome?.(outcomes[nextToEmit] as TenantOutcome<T>);
+      nextToEmit += 1;
+    }
+  };
+
+  return mapWithConcurrency(tenantIds, concurrency, async (tenantId, index) => {
+    let outcome: TenantOutcome<T>;
+    try {
+      outcome = { tenantId, ok: true, result: await task(tenantId) };
+    } catch (error) {
+      outcome = { tenantId, ok: false, error: toProblemDetails(error, `/tenants/${tenantId}`) };
+    }
+    outcomes[index] = outcome;
+    emitReady();
+    return outcome;
+  });
+}
+
+function splitOutcomes<T>(outcomes: Array<TenantOutcome<T>>): { results: T[]; failures: TenantFailure[] } {
+  const results: T[] = [];
+  const failures: TenantFailure[] = [];
+  for (const outcome of outcomes) {
+    if (outcome.ok) {
+      results.push(outcome.result);
+    } else {
+      failures.push({ tenantId: outcome.tenantId, error: outcome.error });
+    }
+  }
+  return { results, failures };
+}
+
+function rankBy(results: FleetInspectResult[], value: (result: FleetInspectResult) => number): FleetTenantRank | null {
+  let best: FleetTenantRank | null = null;
+  for (const result of results) {
+    const candidate = value(result);
+    if (!best || candidate > best.value) {
+      best = { tenantId: result.tenantId, value: candidate };
+    }
+  }
+  return best;
+}
+
+export function buildMultiTenantFleetInspect(outcomes: Array<TenantOutcome<FleetInspectResult>>): MultiTenantFleetInspectResult {
+  const { results, failures } = splitOutcomes(outcomes);
+  const sum = (value: (result: FleetInspectResult) => number) => results.reduce((total, result) => total + value(result), 0);
+
+  const totals = {
+    devices: sum((result) => result.totals.devices),
+    spaces: sum((result) => result.totals.spaces),
+    incidents: sum((result) => result.totals.incidents),
+    tickets: sum((result) => result.totals.tickets)
+  };
+  const offlineDevices = sum((result) => result.highlights.offlineDevices);
+  const activeIncidents = sum((result) => result.highlights.activeIncidents);
+
+  return {
+    schemaVersion: INSPECT_FLEET_MULTI_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    summary: {
+      tenants: {
+        requested: outcomes.length,
+        succeeded: results.length,
+        failed: failures.length
+      },
+      totals,
+      highlights: {
+        offlineDevices,
+        offlinePct: pct(offlineDevices, totals.devices),
+        activeIncidents,
+        activeIncidentPct: pct(activeIncidents, totals.incidents),
+        openTickets: sum((result) => result.highlights.openTickets)
+      },
+      worstOfflinePct: rankBy(results, (result) => result.highlights.offlinePct),
+      mostActiveIncidents: rankBy(results, (result) => result.highlights.activeIncidents),
+      mostOpenTickets: rankBy(results, (result) => result.highlights.openTickets)
+    },
+    tenants: results,
+    failures
+  };
+}
+
+export function buildMultiTenantDeepDive(
+  outcomes: Array<TenantOutcome<DeepDiveResult>>,
+  windowHours: number
+): MultiTenantDeepDiveResult {
+  const { results, failures } = splitOutcomes(outcomes);
+  return {
+    schemaVersion: INSPECT_DEEP_DIVE_MULTI_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    windowHours,
+    tenants: results,
+    failures
+  };
+}
+
+export function formatMultiTenantFleetAscii(result: MultiTenantFleetInspectResult): string {
+  const { summary } = result;
+  const rank = (label: string, item: FleetTenantRank | null, suffix = '') =>
+    `${label.padEnd(22)} ${item ? `${item.tenantId} (${item.value}${suffix})` : 'n/a'}`;
+  const rows = result.tenants.map(
+    (tenant) =>
+      `${tenant.tenantId.padEnd(20)} ${String(tenant.totals.devices).padStart(7)} ${String(tenant.highlights.offlinePct).padStart(8)}% ${String(
+        tenant.highlights.activeIncidents
+      ).padStart(9)} ${String(tenant.highlights.openTickets).padStart(7)}`
+  );
+
+  return [
+    `Cross-Tenant Fleet Inspect (${summary.tenants.succeeded}/${summary.tenants.requested} tenants)`,
+    `Generated: ${result.generatedAtUtc}`,
+    '',
+    `${'TENANT'.padEnd(20)} ${'DEVICES'.padStart(7)} ${'OFFLINE'.padStart(9)} ${'INCIDENTS'.padStart(9)} ${'TICKETS'.padStart(7)}`,
+    ...rows,
+    ...result.failures.map((failure) => `${failure.tenantId.padEnd(20)} FAILED: ${failure.error.detail}`),
+    '',
+    `Totals: devices=${summary.totals.devices} offline=${summary.highlights.offlineDevices} (${summary.highlights.offlinePct}%) active_incidents=${summary.highlights.activeIncidents} open_tickets=${summary.highlights.openTickets}`,
+    rank('Worst offline %:', summary.worstOfflinePct, '%'),
+    rank('Most active incidents:', summary.mostActiveIncidents),
+    rank('Most open tickets:', summary.mostOpenTickets)
+  ].join('\n');
+}
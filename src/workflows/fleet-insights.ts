@@ -3,10 +3,29 @@ import { dirname, resolve } from 'node:path';
 
 import PDFDocument from 'pdfkit';
 
-import { extractArray } from '../tui/data-loaders';
+import { extractArray } from '../utils/json';
+import { collectItems, DEFAULT_MAX_PAGES, type CollectedItems } from '../client/pagination';
 import type { XyteClient } from '../types/client';
-import { INSPECT_DEEP_DIVE_SCHEMA_VERSION, INSPECT_FLEET_SCHEMA_VERSION, REPORT_SCHEMA_VERSION } from '../contracts/versions';
+import {
+  INSPECT_DEEP_DIVE_SCHEMA_VERSION,
+  INSPECT_FLEET_SCHEMA_VERSION,
+  REPORT_PORTFOLIO_SCHEMA_VERSION,
+  REPORT_SCHEMA_VERSION
+} from '../contracts/versions';
 import { withSpan } from '../observability/tracing';
+import { formatConfigDriftMarkdown, formatDriftValue, type ConfigDriftResult } from './config-drift';
+import { formatDeepDiveHtml } from './report-html';
+import {
+  formatUtcForReport,
+  getWindowFocus,
+  identifier,
+  parseTimestamp,
+  pct,
+  redactSensitive,
+  type WindowFocus
+} from './report-format';
+
+export { formatUtcForReport, getWindowFocus, redactSensitive } from './report-format';
 
 interface StatusCounts {
   [key: string]: number;
@@ -19,6 +38,9 @@ export interface FleetSnapshot {
   spaces: any[];
   incidents: any[];
   tickets: any[];
+  histories?: any[];
+  /** Collections that stopped at the page cap, e.g. `['devices']`; their counts are incomplete. */
+  truncated?: string[];
 }
 
 export interface FleetInspectResult {
@@ -44,6 +66,7 @@ export interface FleetInspectResult {
     activeIncidentPct: number;
     openTickets: number;
   };
+  truncated?: string[];
 }
 
 export interface DeepDiveResult {
@@ -52,6 +75,8 @@ export interface DeepDiveResult {
   tenantId: string;
   windowHours: number;
   summary: string[];
+  /** Absent in deep-dive files written before portfolio reports existed. */
+  totals?: DeepDiveTotals;
   topOfflineSpaces: Array<{ space: string; offlineDevices: number; shareOfOfflinePct: number }>;
   topIncidentDevices: Array<{ device: string; incidentCount: number; activeIncidents: number }>;
   activeIncidentAging: Array<{ device: string; space: string; ageHours: number; createdAtUtc: string }>;
@@ -70,12 +95,79 @@ export interface DeepDiveResult {
   dataQuality: {
     statusMismatches: Array<{ device: string; status: string; stateStatus: string; lastSeen: string; space: string }>;
   };
+  availability?: DeepDiveAvailability;
+  truncated?: string[];
 }
 
+export interface DeepDiveTotals {
+  devices: number;
+  offlineDevices: number;
+  offlinePct: number;
+  incidents: number;
+  activeIncidents: number;
+  tickets: number;
+  openTickets: number;
+}
+
+export interface DeepDiveAvailability {
+  devicesWithHistory: number;
+  uptimePct: number;
+  flaps: number;
+  outages: number;
+  mttrMinutes: number | null;
+  bySpace: Array<{ space: string; devices: number; uptimePct: number; flaps: number; mttrMinutes: number | null }>;
+  byDevice: Array<{
+    device: string;
+    space: string;
+    uptimePct: number;
+    downtimeMinutes: number;
+    flaps: number;
+    outages: number;
+    mttrMinutes: number | null;
+  }>;
+}
+
+export type FleetReportFormat = 'markdown' | 'pdf' | 'html';
+
 export interface FleetReportResult {
   schemaVersion: typeof REPORT_SCHEMA_VERSION;
   generatedAtUtc: string;
   tenantId: string;
+  format: FleetReportFormat;
+  outputPath: string;
+  includeSensitive: boolean;
+}
+
+export interface PortfolioTenantRow {
+  rank: number;
+  tenantId: string;
+  /** Null for deep-dive files without `totals`. */
+  devices: number | null;
+  offlineDevices: number | null;
+  offlinePct: number | null;
+  activeIncidents: number;
+  openTickets: number;
+  churnIncidents: number;
+}
+
+export interface Portfolio {
+  generatedAtUtc: string;
+  windowHours: number;
+  totals: {
+    tenants: number;
+    devices: number;
+    offlineDevices: number;
+    offlinePct: number;
+    activeIncidents: number;
+    openTickets: number;
+  };
+  ranking: PortfolioTenantRow[];
+}
+
+export interface PortfolioReportResult {
+  schemaVersion: typeof REPORT_PORTFOLIO_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  tenantIds: string[];
   format: 'markdown' | 'pdf';
   outputPath: string;
   includeSensitive: boolean;
@@ -96,66 +188,6 @@ function toCounter(items: string[]): StatusCounts {
   return counter;
 }
 
-function pct(count: number, total: number): number {
-  if (!total) {
-    return 0;
-  }
-  return Number(((count * 100) / total).toFixed(1));
-}
-
-function parseTimestamp(value: unknown): Date | undefined {
-  if (typeof value !== 'string' || !value.trim()) {
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  const normalized = trimmed.replace(/\s+/, 'T');
-  const parts = normalized.match(
-    /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?(Z|[+-]\d{2}(?::?\d{2})?)?$/i
-  );
-
-  if (parts) {
-    const date = parts[1];
-    const hour = parts[2] ?? '00';
-    const minute = parts[3] ?? '00';
-    const second = parts[4] ?? '00';
-    const fraction = parts[5] ? `.${parts[5].slice(0, 3).padEnd(3, '0')}` : '';
-    const zoneRaw = parts[6] ?? 'Z';
-    const zone = /^[+-]\d{4}$/.test(zoneRaw)
-      ? `${zoneRaw.slice(0, 3)}:${zoneRaw.slice(3)}`
-      : /^[+-]\d{2}$/.test(zoneRaw)
-        ? `${zoneRaw}:00`
-        : zoneRaw;
-    const iso = `${date}T${hour}:${minute}:${second}${fraction}${zone}`;
-    const parsedIso = new Date(iso);
-    if (!Number.isNaN(parsedIso.getTime())) {
-      return parsedIso;
-    }
-  }
-
-  // Treat timezone-naive ISO timestamps as UTC for deterministic reporting.
-  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed) && !/(Z|[+-]\d{2}(?::?\d{2})?)$/i.test(trimmed)) {
-    const asUtc = new Date(`${trimmed}Z`);
-    if (!Number.isNaN(asUtc.getTime())) {
-      return asUtc;
-    }
-  }
-
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    const asDateUtc = new Date(`${trimmed}T00:00:00Z`);
-    if (!Number.isNaN(asDateUtc.getTime())) {
-      return asDateUtc;
-    }
-  }
-
-  const direct = new Date(trimmed);
-  if (!Number.isNaN(direct.getTime())) {
-    return direct;
-  }
-
-  return undefined;
-}
-
 function ageHours(createdAt: unknown): number {
   const parsed = parseTimestamp(createdAt);
   if (!parsed) {
@@ -176,13 +208,6 @@ function topEntries(counter: Record<string, number>, limit = 10): Array<[string,
     .slice(0, limit);
 }
 
-function identifier(value: unknown): string {
-  if (value === undefined || value === null) {
-    return 'n/a';
-  }
-  return String(value);
-}
-
 function safeSpacePath(value: any): string {
   return identifier(value?.space_tree_path_name ?? value?.space?.full_path ?? value?.space?.name ?? value?.space_id ?? 'unknown');
 }
@@ -191,80 +216,52 @@ function safeDeviceName(value: any): string {
   return identifier(value?.device_name ?? value?.name ?? value?.device?.name ?? value?.device_id ?? 'unknown');
 }
 
-function redactSensitive(value: string, includeSensitive: boolean): string {
-  if (includeSensitive || value === 'n/a') {
-    return value;
-  }
-  if (value.length <= 8) {
-    return '***';
-  }
-  return `${value.slice(0, 4)}...${value.slice(-4)}`;
-}
-
-async function loadAllDevices(client: XyteClient, tenantId: string): Promise<any[]> {
-  const perPage = 100;
-
-  async function fetchAll(fetcher: (query: Record<string, any>) => Promise<any>): Promise<any[]> {
-    const all: any[] = [];
-    for (let page = 1; page <= 50; page += 1) {
-      const raw = await fetcher({ page, per_page: perPage });
-      const pageItems = extractArray(raw, ['devices', 'data', 'items']);
-      if (!pageItems.length) break;
-      all.push(...pageItems);
-      if (pageItems.length < perPage) break;
-    }
-    return all;
-  }
-
+async function loadAllDevices(client: XyteClient, tenantId: string): Promise<CollectedItems> {
+  let organizationFailed = false;
   try {
-    const devices = await fetchAll((q) => client.organization.getDevices({ tenantId, query: q }));
-    if (devices.length > 0) return devices;
-  } catch { /* fall through to partner */ }
+    const devices = await collectItems(client.paginate('organization.devices.getDevices', { tenantId }));
+    if (devices.items.length > 0) return devices;
+  } catch {
+    organizationFailed = true;
+  }
 
   try {
-    const devices = await fetchAll((q) => client.partner.getDevices({ tenantId, query: q }));
-    if (devices.length > 0) return devices;
-  } catch { /* fall through to unpaginated */ }
-
-  const single = await client.organization.getDevices({ tenantId }).catch(() => client.partner.getDevices({ tenantId }));
-  return extractArray(single, ['devices', 'data', 'items']);
+    return await collectItems(client.paginate('partner.devices.getDevices', { tenantId }));
+  } catch (error) {
+    if (organizationFailed) throw error;
+    return { items: [], truncated: false };
+  }
 }
 
-async function loadAllSpaces(client: XyteClient, tenantId: string): Promise<any[]> {
-  const perPage = 100;
-  const all: any[] = [];
-
-  for (let page = 1; page <= 50; page += 1) {
-    const raw = await client.organization.getSpaces({
-      tenantId,
-      query: { page, per_page: perPage }
-    });
-    const pageItems = extractArray(raw, ['spaces', 'data', 'items']);
-    if (!pageItems.length) {
-      break;
-    }
-    all.push(...pageItems);
-    if (pageItems.length < perPage) {
-      break;
-    }
-  }
+async function loadAllSpaces(client: XyteClient, tenantId: string): Promise<CollectedItems> {
+  return collectItems(client.paginate('organization.spaces.getSpaces', { tenantId }));
+}
 
-  if (all.length > 0) {
-    return all;
+async function loadHistories(client: XyteClient, tenantId: string, windowHours: number): Promise<any[]> {
+  const from = new Date(Date.now() - windowHours * 3_600_000).toISOString();
+  try {
+    const raw = await client.organization.getHistories({ tenantId, query: { from } });
+    return extractArray(raw, ['histories', 'data', 'items']);
+  } catch {
+    // Availability is best-effort. The partner multi-device history endpoint takes no time window, so it is not a fallback.
+    return [];
   }
-
-  const single = await client.organization.getSpaces({ tenantId });
-  return extractArray(single, ['spaces', 'data', 'items']);
 }
 
-export async function collectFleetSnapshot(client: XyteClient, tenantId: string): Promise<FleetSnapshot> {
+export async function collectFleetSnapshot(
+  client: XyteClient,
+  tenantId: string,
+  /** State histories are only fetched when `windowHours` is set (deep dives); fleet summaries never use them. */
+  options: { windowHours?: number } = {}
+): Promise<FleetSnapshot> {
   return withSpan('xyte.inspect.collect_snapshot', { 'xyte.tenant.id': tenantId }, async () => {
-    const [devices, spaces, incidentsRaw, orgTicketsRaw, partnerTicketsRaw] = await Promise.all([
+    const [devices, spaces, incidentsRaw, orgTicketsRaw, partnerTicketsRaw, histories] = await Promise.all([
       loadAllDevices(client, tenantId),
       loadAllSpaces(client, tenantId),
       client.organization.getIncidents({ tenantId }),
       client.organization.getTickets({ tenantId }).catch(() => ({ items: [] })),
-      client.partner.getTickets({ tenantId }).catch(() => ({ items: [] }))
+      client.partner.getTickets({ tenantId }).catch(() => ({ items: [] })),
+      options.windowHours === undefined ? Promise.resolve(undefined) : loadHistories(client, tenantId, options.windowHours)
     ]);
     const incidents = extractArray(incidentsRaw, ['incidents', 'data', 'items']);
     const orgTickets = extractArray(orgTicketsRaw, ['tickets', 'data', 'items']);
@@ -274,13 +271,16 @@ export async function collectFleetSnapshot(client: XyteClient, tenantId: string)
     const stableSort = (items: any[]) =>
       items.slice().sort((a, b) => identifier(a?.id ?? a?.name ?? a?.title).localeCompare(identifier(b?.id ?? b?.name ?? b?.title)));
 
+    const truncated = [devices.truncated && 'devices', spaces.truncated && 'spaces'].filter((name): name is string => Boolean(name));
     return {
       generatedAtUtc: new Date().toISOString(),
       tenantId,
-      devices: stableSort(devices),
-      spaces: stableSort(spaces),
+      devices: stableSort(devices.items),
+      spaces: stableSort(spaces.items),
       incidents: stableSort(incidents),
-      tickets: stableSort(tickets)
+      tickets: stableSort(tickets),
+      histories,
+      ...(truncated.length ? { truncated } : {})
     };
   });
 }
@@ -317,7 +317,8 @@ export function buildFleetInspect(snapshot: FleetSnapshot): FleetInspectResult {
       activeIncidents,
       activeIncidentPct: pct(activeIncidents, snapshot.incidents.length),
       openTickets
-    }
+    },
+    ...(snapshot.truncated?.length ? { truncated: snapshot.truncated } : {})
   };
 }
 
@@ -328,10 +329,15 @@ function asciiBar(label: string, count: number, total: number, width = 30): stri
   return `${label.padEnd(12)} ${String(count).padStart(4)} |${bar}| ${String((share * 100).toFixed(1)).padStart(5)}%`;
 }
 
+export function truncationNotice(collections: string[]): string {
+  return `Incomplete data: ${collections.join(' and ')} stopped at ${DEFAULT_MAX_PAGES} pages; totals undercount.`;
+}
+
 export function formatFleetInspectAscii(result: FleetInspectResult): string {
   return [
     `Fleet Inspect Snapshot (${result.tenantId})`,
     `Generated: ${result.generatedAtUtc}`,
+    ...(result.truncated?.length ? [truncationNotice(result.truncated)] : []),
     '',
     'DEVICES',
     asciiBar('offline', result.status.devices.offline ?? 0, result.totals.devices),
@@ -349,6 +355,132 @@ export function formatFleetInspectAscii(result: FleetInspectResult): string {
   ].join('\n');
 }
 
+interface HistorySegment {
+  down: boolean;
+  start: number;
+  end: number;
+  open: boolean;
+}
+
+interface DeviceAvailability {
+  device: string;
+  space: string;
+  coveredMs: number;
+  downMs: number;
+  flaps: number;
+  outages: number;
+  repairsMs: number[];
+}
+
+function meanMinutes(durationsMs: number[]): number | null {
+  if (!durationsMs.length) {
+    return null;
+  }
+  const total = durationsMs.reduce((sum, value) => sum + value, 0);
+  return Number((total / durationsMs.length / 60_000).toFixed(1));
+}
+
+function uptimePct(coveredMs: number, downMs: number): number {
+  return coveredMs > 0 ? pct(coveredMs - downMs, coveredMs) : 100;
+}
+
+function buildAvailability(snapshot: FleetSnapshot, windowHours: number): DeepDiveAvailability {
+  const windowEnd = parseTimestamp(snapshot.generatedAtUtc)?.getTime() ?? Date.now();
+  const windowStart = windowEnd - windowHours * 3_600_000;
+  const devicesById = new Map(snapshot.devices.map((item) => [identifier(item?.id), item]));
+
+  const segmentsByDevice = new Map<string, HistorySegment[]>();
+  for (const item of snapshot.histories ?? []) {
+    const start = parseTimestamp(item?.from ?? item?.created_at)?.getTime();
+    if (start === undefined) {
+      continue;
+    }
+    const end = parseTimestamp(item?.to)?.getTime();
+    const deviceId = identifier(item?.device_id);
+    const segments = segmentsByDevice.get(deviceId) ?? [];
+    segments.push({ down: identifier(item?.status) === 'offline', start, end: end ?? windowEnd, open: end === undefined });
+    segmentsByDevice.set(deviceId, segments);
+  }
+
+  const rows: DeviceAvailability[] = [];
+  for (const [deviceId, segments] of segmentsByDevice) {
+    segments.sort((a, b) => a.start - b.start);
+    const device = devicesById.get(deviceId);
+    const row: DeviceAvailability = {
+      device: device ? safeDeviceName(device) : deviceId,
+      space: device ? safeSpacePath(device) : 'unknown',
+      coveredMs: 0,
+      downMs: 0,
+      flaps: 0,
+      outages: 0,
+      repairsMs: []
+    };
+
+    segments.forEach((segment, index) => {
+      const overlap = Math.max(0, Math.min(segment.end, windowEnd) - Math.max(segment.start, windowStart));
+      if (overlap === 0) {
+        return;
+      }
+      row.coveredMs += overlap;
+      const startsInWindow = segment.start >= windowStart;
+      if (startsInWindow && index > 0 && segments[index - 1].down !== segment.down) {
+        row.flaps += 1;
+      }
+      if (!segment.down) {
+        return;
+      }
+      row.downMs += overlap;
+      if (startsInWindow) {
+        row.outages += 1;
+      }
+      if (!segment.open && segment.end <= windowEnd) {
+        row.repairsMs.push(segment.end - segment.start);
+      }
+    });
+
+    if (row.coveredMs > 0) {
+      rows.push(row);
+    }
+  }
+
+  const bySpace = new Map<string, DeviceAvailability[]>();
+  for (const row of rows) {
+    bySpace.set(row.space, [...(bySpace.get(row.space) ?? []), row]);
+  }
+  const sum = (items: DeviceAvailability[], pick: (row: DeviceAvailability) => number) =>
+    items.reduce((total, row) => total + pick(row), 0);
+
+  return {
+    devicesWithHistory: rows.length,
+    uptimePct: uptimePct(sum(rows, (row) => row.coveredMs), sum(rows, (row) => row.downMs)),
+    flaps: sum(rows, (row) => row.flaps),
+    outages: sum(rows, (row) => row.outages),
+    mttrMinutes: meanMinutes(rows.flatMap((row) => row.repairsMs)),
+    bySpace: [...bySpace.entries()]
+      .map(([space, items]) => ({
+        space,
+        devices: items.length,
+        uptimePct: uptimePct(sum(items, (row) => row.coveredMs), sum(items, (row) => row.downMs)),
+        flaps: sum(items, (row) => row.flaps),
+        mttrMinutes: meanMinutes(items.flatMap((row) => row.repairsMs))
+      }))
+      .sort((a, b) => a.uptimePct - b.uptimePct || b.flaps - a.flaps || a.space.localeCompare(b.space))
+      .slice(0, 10),
+    byDevice: rows
+      .map((row) => ({
+        device: row.device,
+        space: row.space,
+        uptimePct: uptimePct(row.coveredMs, row.downMs),
+        downtimeMinutes: Math.round(row.downMs / 60_000),
+        flaps: row.flaps,
+        outages: row.outages,
+        mttrMinutes: meanMinutes(row.repairsMs)
+      }))
+      .sort((a, b) => a.uptimePct - b.uptimePct || b.flaps - a.flaps || a.device.localeCompare(b.device))
+      .slice(0, 20)
+  };
+}
+
 export function buildDeepDive(snapshot: FleetSnapshot, windowHours = 24): DeepDiveResult {
   const offlineDevices = snapshot.devices.filter((item) => identifier(item?.status) === 'offline');
   const activeIncidents = snapshot.incidents.filter((item) => identifier(item?.status) === 'active');
@@ -419,12 +551,18 @@ export function buildDeepDive(snapshot: FleetSnapshot, windowHours = 24): DeepDi
     .sort((a, b) => b.ageHours - a.ageHours)
     .slice(0, 20);
 
+  const availability = buildAvailability(snapshot, windowHours);
+
   const summary = [
     `Devices: ${snapshot.devices.length} total, ${offlineDevices.length} offline (${pct(offlineDevices.length, snapshot.devices.length)}%).`,
     `Incidents: ${snapshot.incidents.length} total, ${activeIncidents.length} active (${pct(activeIncidents.length, snapshot.incidents.length)}%).`,
     `Tickets: ${snapshot.tickets.length} total, ${openTickets.length} open.`,
     `${windowHours}h churn: ${recentIncidents.length} incidents across ${Object.keys(recentDevice).length} devices and ${Object.keys(recentSpace).length} spaces.`,
-    `Data quality: ${mismatches.length} status mismatches detected.`
+    `Data quality: ${mismatches.length} status mismatches detected.`,
+    availability.devicesWithHistory
+      ? `Availability: ${availability.uptimePct}% uptime across ${availability.devicesWithHistory} devices over ${windowHours}h, ${availability.flaps} flaps, MTTR ${availability.mttrMinutes ?? 'n/a'} min.`
+      : `Availability: no state history recorded in the last ${windowHours}h.`,
+    ...(snapshot.truncated?.length ? [truncationNotice(snapshot.truncated)] : [])
   ];
 
   return {
@@ -433,6 +571,15 @@ export function buildDeepDive(snapshot: FleetSnapshot, windowHours = 24): DeepDi
     tenantId: snapshot.tenantId,
     windowHours,
     summary,
+    totals: {
+      devices: snapshot.devices.length,
+      offlineDevices: offlineDevices.length,
+      offlinePct: pct(offlineDevices.length, snapshot.devices.length),
+      incidents: snapshot.incidents.length,
+      activeIncidents: activeIncidents.length,
+      tickets: snapshot.tickets.length,
+      openTickets: openTickets.length
+    },
     topOfflineSpaces,
     topIncidentDevices,
     activeIncidentAging,
@@ -450,7 +597,9 @@ export function buildDeepDive(snapshot: FleetSnapshot, windowHours = 24): DeepDi
     },
     dataQuality: {
       statusMismatches: mismatches
-    }
+    },
+    availability,
+    ...(snapshot.truncated?.length ? { truncated: snapshot.truncated } : {})
   };
 }
 
@@ -544,6 +693,35 @@ export function formatDeepDiveMarkdown(result: DeepDiveResult, includeSensitive
     );
   }
 
+  if (result.availability) {
+    const availability = result.availability;
+    const mttr = (value: number | null) => (value === null ? 'n/a' : `${value}`);
+    markdown.push('');
+    markdown.push('## Availability');
+    markdown.push('');
+    if (!availability.devicesWithHistory) {
+      markdown.push('No device state history recorded in this window.');
+    } else {
+      markdown.push(
+        `Uptime: **${availability.uptimePct}%** across **${availability.devicesWithHistory}** devices, flaps: **${availability.flaps}**, outages: **${availability.outages}**, MTTR: **${mttr(availability.mttrMinutes)} min**.`
+      );
+      markdown.push('');
+      markdown.push('| Space | Devices | Uptime | Flaps | MTTR (min) |');
+      markdown.push('| --- | ---: | ---: | ---: | ---: |');
+      availability.bySpace.forEach((row) =>
+        markdown.push(`| ${row.space} | ${row.devices} | ${row.uptimePct}% | ${row.flaps} | ${mttr(row.mttrMinutes)} |`)
+      );
+      markdown.push('');
+      markdown.push('| Device | Space | Uptime | Downtime (min) | Flaps | MTTR (min) |');
+      markdown.push('| --- | --- | ---: | ---: | ---: | ---: |');
+      availability.byDevice.slice(0, 10).forEach((row) =>
+        markdown.push(
+          `| ${row.device} | ${row.space} | ${row.uptimePct}% | ${row.downtimeMinutes} | ${row.flaps} | ${mttr(row.mttrMinutes)} |`
+        )
+      );
+    }
+  }
+
   return markdown.join('\n');
 }
 
@@ -570,14 +748,10 @@ const TABLE_ROW_MAX = 220;
 const TABLE_CELL_PAD_X = 6;
 const TABLE_CELL_PAD_Y = 5;
 
-interface WindowFocus {
-  label: string;
-  detail: string;
-  accent: string;
-}
-
 interface PdfRenderContext {
-  tenantId: string;
+  title: string;
+  /** Second header line, e.g. "Tenant: acme". */
+  scope: string;
   generatedAtUtc: string;
   windowHours: number;
   windowFocus: WindowFocus;
@@ -600,45 +774,6 @@ function resolveLogoPath(): string | undefined {
   return candidates.find((candidate) => existsSync(candidate));
 }
 
-function formatTwoDigits(value: number): string {
-  return String(value).padStart(2, '0');
-}
-
-export function formatUtcForReport(value: unknown): string {
-  const parsed = parseTimestamp(value);
-  if (!parsed) {
-    return identifier(value);
-  }
-  const y = parsed.getUTCFullYear();
-  const m = formatTwoDigits(parsed.getUTCMonth() + 1);
-  const d = formatTwoDigits(parsed.getUTCDate());
-  const hh = formatTwoDigits(parsed.getUTCHours());
-  const mm = formatTwoDigits(parsed.getUTCMinutes());
-  return `${y}-${m}-${d} ${hh}:${mm} UTC`;
-}
-
-export function getWindowFocus(windowHours: number): WindowFocus {
-  if (windowHours <= 24) {
-    return {
-      label: 'Immediate churn',
-      detail: 'Prioritize active incident containment and hot spaces in the last day.',
-      accent: '#B45309'
-    };
-  }
-  if (windowHours <= 72) {
-    return {
-      label: 'Short-term Trend',
-      detail: 'Track repeat offenders and stabilize recurring high-churn spaces.',
-      accent: '#1D4ED8'
-    };
-  }
-  return {
-    label: 'Weekly concentration',
-    detail: 'Focus on sustained incident concentration and structural remediation.',
-    accent: '#166534'
-  };
-}
-
 function resetCursor(doc: PDFKit.PDFDocument): void {
   doc.x = doc.page.margins.left;
   doc.y = Math.max(doc.y, CONTENT_TOP);
@@ -668,12 +803,12 @@ function drawPdfHeader(doc: PDFKit.PDFDocument, ctx: PdfRenderContext): void {
     .font('Helvetica-Bold')
     .fontSize(FONT_H1)
     .fillColor('#1A2332')
-    .text('Fleet Findings Report', left + 146, bandTop + 14, { width: right - left - 250, align: 'left' });
+    .text(ctx.title, left + 146, bandTop + 14, { width: right - left - 250, align: 'left' });
   doc
     .font('Helvetica')
     .fontSize(FONT_BODY)
     .fillColor('#415067')
-    .text(`Tenant: ${ctx.tenantId}`, left + 146, bandTop + 37, { width: right - left - 250, align: 'left' })
+    .text(ctx.scope, left + 146, bandTop + 37, { width: right - left - 250, align: 'left' })
     .text(`Generated: ${formatUtcForReport(ctx.generatedAtUtc)}`, left + 146, bandTop + 51, { width: right - left - 250, align: 'left' });
 
   const badgeWidth = 165;
@@ -698,7 +833,7 @@ function drawPdfFooter(doc: PDFKit.PDFDocument, ctx: PdfRenderContext, pageNumbe
   doc.save();
   doc.moveTo(left, y - 6).lineTo(right, y - 6).lineWidth(0.6).strokeColor('#D5DEE9').stroke();
   doc.restore();
-  doc.font('Helvetica').fontSize(FONT_CAPTION).fillColor('#5B687B').text('Xyte Fleet Findings Report', left, y, { width: 220, align: 'left' });
+  doc.font('Helvetica').fontSize(FONT_CAPTION).fillColor('#5B687B').text(`Xyte ${ctx.title}`, left, y, { width: 220, align: 'left' });
   doc.text(`${ctx.windowHours}h window`, left + 220, y, { width: 120, align: 'center' });
   doc.text(`Page ${pageNumber} of ${pageCount}`, right - 120, y, { width: 120, align: 'right' });
 }
@@ -978,160 +1113,272 @@ function drawTable(
   doc.moveDown(0.45);
 }
 
-function renderBrandedPdfReport(deepDive: DeepDiveResult, outputPath: string, includeSensitive: boolean): Promise<void> {
-  return new Promise((resolvePromise, rejectPromise) => {
-    ensureDir(outputPath);
-    const ctx: PdfRenderContext = {
-      tenantId: deepDive.tenantId,
-      generatedAtUtc: deepDive.generatedAtUtc,
-      windowHours: deepDive.windowHours,
-      windowFocus: getWindowFocus(deepDive.windowHours),
-      logoPath: resolveLogoPath()
-    };
-
-    const doc = new PDFDocument({
-      size: 'LETTER',
-      margins: {
-        left: PAGE_MARGIN_X,
-        right: PAGE_MARGIN_X,
-        top: PAGE_MARGIN_Y,
-        bottom: PAGE_MARGIN_Y
-      },
-      bufferPages: true
-    });
-    const stream = doc.pipe(createWriteStream(outputPath));
-
+function openPdfDocument(outputPath: string): { doc: PDFKit.PDFDocument; written: Promise<void> } {
+  ensureDir(outputPath);
+  const doc = new PDFDocument({
+    size: 'LETTER',
+    margins: {
+      left: PAGE_MARGIN_X,
+      right: PAGE_MARGIN_X,
+      top: PAGE_MARGIN_Y,
+      bottom: PAGE_MARGIN_Y
+    },
+    bufferPages: true
+  });
+  const stream = doc.pipe(createWriteStream(outputPath));
+  const written = new Promise<void>((resolvePromise, rejectPromise) => {
     stream.on('finish', () => resolvePromise());
     stream.on('error', (error) => rejectPromise(error));
+  });
+  return { doc, written };
+}
 
-    drawPdfHeader(doc, ctx);
-    resetCursor(doc);
+function finishPdfDocument(doc: PDFKit.PDFDocument, ctx: PdfRenderContext): void {
+  const pages = doc.bufferedPageRange();
+  for (let index = pages.start; index < pages.start + pages.count; index += 1) {
+    doc.switchToPage(index);
+    drawPdfFooter(doc, ctx, index - pages.start + 1, pages.count);
+  }
+  doc.end();
+}
 
-    drawKpiGrid(doc, ctx, [
-      { label: 'Active incidents', value: String(deepDive.activeIncidentAging.length), tone: deepDive.activeIncidentAging.length > 0 ? 'warn' : 'normal' },
-      { label: `${deepDive.windowHours}h churn`, value: String(deepDive.churn24h.incidents), tone: deepDive.churn24h.incidents > 0 ? 'warn' : 'normal' },
-      { label: 'Open tickets', value: String(deepDive.ticketPosture.openTickets), tone: deepDive.ticketPosture.openTickets > 0 ? 'warn' : 'normal' },
-      {
-        label: 'Data mismatches',
-        value: String(deepDive.dataQuality.statusMismatches.length),
-        tone: deepDive.dataQuality.statusMismatches.length > 0 ? 'bad' : 'normal'
-      }
-    ]);
+function tenantReportContext(deepDive: DeepDiveResult, logoPath: string | undefined): PdfRenderContext {
+  return {
+    title: 'Fleet Findings Report',
+    scope: `Tenant: ${deepDive.tenantId}`,
+    generatedAtUtc: deepDive.generatedAtUtc,
+    windowHours: deepDive.windowHours,
+    windowFocus: getWindowFocus(deepDive.windowHours),
+    logoPath
+  };
+}
 
-    drawWindowFocusStrip(doc, ctx);
-    drawKeyFindings(doc, ctx, deepDive.summary);
+function drawConfigDriftPage(doc: PDFKit.PDFDocument, ctx: PdfRenderContext, drift: ConfigDriftResult): void {
+  startReportPage(doc, ctx);
+  drawSectionTitle(doc, ctx, 'Configuration Drift');
+  drawKpiGrid(doc, ctx, [
+    { label: 'Configs read', value: `${drift.totals.read}/${drift.totals.devices}`, tone: drift.totals.failed > 0 ? 'warn' : 'normal' },
+    { label: 'Distinct configs', value: String(drift.totals.groups), tone: drift.totals.groups > 1 ? 'warn' : 'normal' },
+    { label: 'Drifted devices', value: String(drift.totals.driftedDevices), tone: drift.totals.driftedDevices > 0 ? 'bad' : 'normal' },
+    { label: 'Drifted keys', value: String(drift.totals.driftedKeys), tone: drift.totals.driftedKeys > 0 ? 'bad' : 'normal' }
+  ]);
+
+  drawTable(doc, ctx, {
+    title: 'Configuration Groups',
+    columns: [
+      { header: 'Fingerprint', width: 130, wrap: false },
+      { header: 'Devices', width: 70, align: 'right', wrap: false },
+      { header: 'Share', width: 70, align: 'right', wrap: false },
+      { header: drift.reference === 'baseline' ? 'Baseline' : 'Majority', width: 80, wrap: false }
+    ],
+    rows: drift.groups.map((group) => [
+      group.fingerprint,
+      String(group.devices),
+      `${group.sharePct}%`,
+      group.matchesBaseline === null ? (group.majority ? 'yes' : 'no') : group.matchesBaseline ? 'match' : 'drift'
+    ]),
+    emptyMessage: 'No device configurations were read.'
+  });
 
-    drawSectionTitle(doc, ctx, 'Executive Summary');
-    drawBullets(doc, ctx, deepDive.summary);
-    doc.moveDown(0.35);
+  drawTable(doc, ctx, {
+    title: 'Drifted Keys',
+    columns: [
+      { header: 'Key', width: 190, wrap: true },
+      { header: drift.reference === 'baseline' ? 'Baseline' : 'Majority', width: 180, wrap: true },
+      { header: 'Deviating', width: 80, align: 'right', wrap: false }
+    ],
+    rows: drift.keys.slice(0, 24).map((key) => [key.path, formatDriftValue(key.expected), String(key.deviating)]),
+    emptyMessage: 'No configuration drift detected.'
+  });
+}
 
-    drawSpaceBars(doc, ctx, deepDive.churn24h.bySpace);
+function renderBrandedPdfReport(
+  deepDive: DeepDiveResult,
+  outputPath: string,
+  includeSensitive: boolean,
+  configDrift?: ConfigDriftResult
+): Promise<void> {
+  const ctx = tenantReportContext(deepDive, resolveLogoPath());
+  const { doc, written } = openPdfDocument(outputPath);
 
-    drawTable(doc, ctx, {
-      title: 'Top Spaces by Offline Devices',
-      columns: [
-        { header: 'Space', width: 370, wrap: true },
-        { header: 'Offline', width: 90, align: 'right', wrap: false },
-        { header: 'Share', width: 90, align: 'right', wrap: false }
-      ],
-      rows: deepDive.topOfflineSpaces.map((row) => [row.space, String(row.offlineDevices), `${row.shareOfOfflinePct}%`]),
-      emptyMessage: 'No offline spaces found.'
-    });
+  drawPdfHeader(doc, ctx);
+  resetCursor(doc);
 
-    drawTable(doc, ctx, {
-      title: 'Top Devices by Incident Volume',
-      columns: [
-        { header: 'Device', width: 370, wrap: true },
-        { header: 'Incidents', width: 90, align: 'right', wrap: false },
-        { header: 'Active', width: 90, align: 'right', wrap: false }
-      ],
-      rows: deepDive.topIncidentDevices.map((row) => [row.device, String(row.incidentCount), String(row.activeIncidents)]),
-      emptyMessage: 'No incident device concentration detected.'
-    });
+  drawKpiGrid(doc, ctx, [
+    { label: 'Active incidents', value: String(deepDive.activeIncidentAging.length), tone: deepDive.activeIncidentAging.length > 0 ? 'warn' : 'normal' },
+    { label: `${deepDive.windowHours}h churn`, value: String(deepDive.churn24h.incidents), tone: deepDive.churn24h.incidents > 0 ? 'warn' : 'normal' },
+    { label: 'Open tickets', value: String(deepDive.ticketPosture.openTickets), tone: deepDive.ticketPosture.openTickets > 0 ? 'warn' : 'normal' },
+    {
+      label: 'Data mismatches',
+      value: String(deepDive.dataQuality.statusMismatches.length),
+      tone: deepDive.dataQuality.statusMismatches.length > 0 ? 'bad' : 'normal'
+    }
+  ]);
 
+  drawWindowFocusStrip(doc, ctx);
+  drawKeyFindings(doc, ctx, deepDive.summary);
+
+  drawSectionTitle(doc, ctx, 'Executive Summary');
+  drawBullets(doc, ctx, deepDive.summary);
+  doc.moveDown(0.35);
+
+  drawSpaceBars(doc, ctx, deepDive.churn24h.bySpace);
+
+  drawTable(doc, ctx, {
+    title: 'Top Spaces by Offline Devices',
+    columns: [
+      { header: 'Space', width: 370, wrap: true },
+      { header: 'Offline', width: 90, align: 'right', wrap: false },
+      { header: 'Share', width: 90, align: 'right', wrap: false }
+    ],
+    rows: deepDive.topOfflineSpaces.map((row) => [row.space, String(row.offlineDevices), `${row.shareOfOfflinePct}%`]),
+    emptyMessage: 'No offline spaces found.'
+  });
+
+  drawTable(doc, ctx, {
+    title: 'Top Devices by Incident Volume',
+    columns: [
+      { header: 'Device', width: 370, wrap: true },
+      { header: 'Incidents', width: 90, align: 'right', wrap: false },
+      { header: 'Active', width: 90, align: 'right', wrap: false }
+    ],
+    rows: deepDive.topIncidentDevices.map((row) => [row.device, String(row.incidentCount), String(row.activeIncidents)]),
+    emptyMessage: 'No incident device concentration detected.'
+  });
+
+  drawTable(doc, ctx, {
+    title: 'Active Incident Aging',
+    columns: [
+      { header: 'Device', width: 120, wrap: true },
+      { header: 'Space', width: 230, wrap: true },
+      { header: 'Age (h)', width: 70, align: 'right', wrap: false },
+      { header: 'Created At', width: 130, wrap: false }
+    ],
+    rows: deepDive.activeIncidentAging.slice(0, 16).map((row) => [row.device, row.space, String(row.ageHours), formatUtcForReport(row.createdAtUtc)]),
+    emptyMessage: 'No active incidents.'
+  });
+
+  drawTable(doc, ctx, {
+    title: `${deepDive.windowHours}-Hour Churn by Space`,
+    columns: [
+      { header: 'Space', width: 450, wrap: true },
+      { header: 'Incidents', width: 100, align: 'right', wrap: false }
+    ],
+    rows: deepDive.churn24h.bySpace.map((row) => [row.space, String(row.incidents)]),
+    emptyMessage: 'No churn events in this window.'
+  });
+
+  drawTable(doc, ctx, {
+    title: 'Oldest Open Tickets',
+    columns: [
+      { header: 'Ticket', width: 88, wrap: false },
+      { header: 'Title', width: 182, wrap: true },
+      { header: 'Age (h)', width: 62, align: 'right', wrap: false },
+      { header: 'Device', width: 88, wrap: false },
+      { header: 'Created At', width: 130, wrap: false }
+    ],
+    rows: deepDive.ticketPosture.oldestOpenTickets.slice(0, 12).map((row) => [
+      redactSensitive(row.ticketId, includeSensitive),
+      row.title,
+      String(row.ageHours),
+      redactSensitive(row.deviceId, includeSensitive),
+      formatUtcForReport(row.createdAtUtc)
+    ]),
+    emptyMessage: 'No open tickets.'
+  });
+
+  if (deepDive.dataQuality.statusMismatches.length) {
     drawTable(doc, ctx, {
-      title: 'Active Incident Aging',
+      title: 'Data Quality: Status Mismatches',
       columns: [
         { header: 'Device', width: 120, wrap: true },
-        { header: 'Space', width: 230, wrap: true },
-        { header: 'Age (h)', width: 70, align: 'right', wrap: false },
-        { header: 'Created At', width: 130, wrap: false }
+        { header: 'status', width: 70, wrap: false },
+        { header: 'state.status', width: 90, wrap: false },
+        { header: 'Last Seen', width: 130, wrap: false },
+        { header: 'Space', width: 160, wrap: true }
       ],
-      rows: deepDive.activeIncidentAging.slice(0, 16).map((row) => [row.device, row.space, String(row.ageHours), formatUtcForReport(row.createdAtUtc)]),
-      emptyMessage: 'No active incidents.'
+      rows: deepDive.dataQuality.statusMismatches.map((row) => [
+        row.device,
+        row.status,
+        row.stateStatus,
+        formatUtcForReport(row.lastSeen),
+        row.space
+      ])
     });
+  }
 
+  if (deepDive.availability) {
+    const mttr = (value: number | null) => (value === null ? 'n/a' : String(value));
     drawTable(doc, ctx, {
-      title: `${deepDive.windowHours}-Hour Churn by Space`,
+      title: `Availability by Space (${deepDive.availability.uptimePct}% fleet uptime)`,
       columns: [
-        { header: 'Space', width: 450, wrap: true },
-        { header: 'Incidents', width: 100, align: 'right', wrap: false }
+        { header: 'Space', width: 250, wrap: true },
+        { header: 'Devices', width: 70, align: 'right', wrap: false },
+        { header: 'Uptime', width: 80, align: 'right', wrap: false },
+        { header: 'Flaps', width: 70, align: 'right', wrap: false },
+        { header: 'MTTR (min)', width: 80, align: 'right', wrap: false }
       ],
-      rows: deepDive.churn24h.bySpace.map((row) => [row.space, String(row.incidents)]),
-      emptyMessage: 'No churn events in this window.'
+      rows: deepDive.availability.bySpace.map((row) => [
+        row.space,
+        String(row.devices),
+        `${row.uptimePct}%`,
+        String(row.flaps),
+        mttr(row.mttrMinutes)
+      ]),
+      emptyMessage: 'No device state history recorded in this window.'
     });
 
     drawTable(doc, ctx, {
-      title: 'Oldest Open Tickets',
+      title: 'Least Available Devices',
       columns: [
-        { header: 'Ticket', width: 88, wrap: false },
-        { header: 'Title', width: 182, wrap: true },
-        { header: 'Age (h)', width: 62, align: 'right', wrap: false },
-        { header: 'Device', width: 88, wrap: false },
-        { header: 'Created At', width: 130, wrap: false }
+        { header: 'Device', width: 130, wrap: true },
+        { header: 'Space', width: 170, wrap: true },
+        { header: 'Uptime', width: 70, align: 'right', wrap: false },
+        { header: 'Down (min)', width: 70, align: 'right', wrap: false },
+        { header: 'Flaps', width: 50, align: 'right', wrap: false },
+        { header: 'MTTR', width: 60, align: 'right', wrap: false }
       ],
-      rows: deepDive.ticketPosture.oldestOpenTickets.slice(0, 12).map((row) => [
-        redactSensitive(row.ticketId, includeSensitive),
-        row.title,
-        String(row.ageHours),
-        redactSensitive(row.deviceId, includeSensitive),
-        formatUtcForReport(row.createdAtUtc)
+      rows: deepDive.availability.byDevice.slice(0, 12).map((row) => [
+        row.device,
+        row.space,
+        `${row.uptimePct}%`,
+        String(row.downtimeMinutes),
+        String(row.flaps),
+        mttr(row.mttrMinutes)
       ]),
-      emptyMessage: 'No open tickets.'
+      emptyMessage: 'No device state history recorded in this window.'
     });
+  }
 
-    if (deepDive.dataQuality.statusMismatches.length) {
-      drawTable(doc, ctx, {
-        title: 'Data Quality: Status Mismatches',
-        columns: [
-          { header: 'Device', width: 120, wrap: true },
-          { header: 'status', width: 70, wrap: false },
-          { header: 'state.status', width: 90, wrap: false },
-          { header: 'Last Seen', width: 130, wrap: false },
-          { header: 'Space', width: 160, wrap: true }
-        ],
-        rows: deepDive.dataQuality.statusMismatches.map((row) => [
-          row.device,
-          row.status,
-          row.stateStatus,
-          formatUtcForReport(row.lastSeen),
-          row.space
-        ])
-      });
-    }
-
-    const pages = doc.bufferedPageRange();
-    for (let index = pages.start; index < pages.start + pages.count; index += 1) {
-      doc.switchToPage(index);
-      drawPdfFooter(doc, ctx, index - pages.start + 1, pages.count);
-    }
+  if (configDrift) {
+    drawConfigDriftPage(doc, ctx, configDrift);
+  }
 
-    doc.end();
-  });
+  finishPdfDocument(doc, ctx);
+  return written;
 }
+
 export async function generateFleetReport(args: {
   deepDive: DeepDiveResult;
-  format: 'markdown' | 'pdf';
+  format: FleetReportFormat;
   outPath: string;
   includeSensitive: boolean;
+  /** `inspect config-drift` output appended as an extra section. */
+  configDrift?: ConfigDriftResult;
 }): Promise<FleetReportResult> {
-  const markdown = formatDeepDiveMarkdown(args.deepDive, args.includeSensitive);
   ensureDir(args.outPath);
 
   if (args.format === 'markdown') {
-    writeFileSync(args.outPath, markdown, 'utf8');
+    const sections = [formatDeepDiveMarkdown(args.deepDive, args.includeSensitive)];
+    if (args.configDrift) {
+      // Demote the drift report one heading level so it nests under the deep dive.
+      sections.push(formatConfigDriftMarkdown(args.configDrift).replace(/^(#+) /gm, '#$1 '));
+    }
+    writeFileSync(args.outPath, sections.join('\n\n'), 'utf8');
+  } else if (args.format === 'html') {
+    writeFileSync(args.outPath, formatDeepDiveHtml(args.deepDive, args.includeSensitive, args.configDrift), 'utf8');
   } else {
-    await renderBrandedPdfReport(args.deepDive, args.outPath, args.includeSensitive);
+    await renderBrandedPdfReport(args.deepDive, args.outPath, args.includeSensitive, args.configDrift);
   }
 
   return {
@@ -1143,3 +1390,199 @@ export async function generateFleetReport(args: {
     includeSensitive: args.includeSensitive
   };
 }
+
+// Worst first: offline share, then active incidents, then ticket backlog. Tenants without totals sort after the rest.
+function comparePortfolioRows(a: Omit<PortfolioTenantRow, 'rank'>, b: Omit<PortfolioTenantRow, 'rank'>): number {
+  return (
+    (b.offlinePct ?? -1) - (a.offlinePct ?? -1) ||
+    b.activeIncidents - a.activeIncidents ||
+    b.openTickets - a.openTickets ||
+    a.tenantId.localeCompare(b.tenantId)
+  );
+}
+
+export function buildPortfolio(deepDives: DeepDiveResult[]): Portfolio {
+  if (!deepDives.length) {
+    throw new Error('Portfolio reports need at least one deep-dive input.');
+  }
+  const seen = new Set<string>();
+  for (const deepDive of deepDives) {
+    if (seen.has(deepDive.tenantId)) {
+      throw new Error(`Duplicate deep-dive input for tenant ${deepDive.tenantId}.`);
+    }
+    seen.add(deepDive.tenantId);
+  }
+  const windows = [...new Set(deepDives.map((deepDive) => deepDive.windowHours))];
+  if (windows.length > 1) {
+    throw new Error(`Deep-dive inputs use different windows (${windows.join('h, ')}h). Re-run them with the same --window.`);
+  }
+
+  const ranking = deepDives
+    .map((deepDive) => ({
+      tenantId: deepDive.tenantId,
+      devices: deepDive.totals?.devices ?? null,
+      offlineDevices: deepDive.totals?.offlineDevices ?? null,
+      offlinePct: deepDive.totals?.offlinePct ?? null,
+      activeIncidents: deepDive.totals?.activeIncidents ?? deepDive.activeIncidentAging.length,
+      openTickets: deepDive.ticketPosture.openTickets,
+      churnIncidents: deepDive.churn24h.incidents
+    }))
+    .sort(comparePortfolioRows)
+    .map((row, index) => ({ rank: index + 1, ...row }));
+
+  const devices = ranking.reduce((sum, row) => sum + (row.devices ?? 0), 0);
+  const offlineDevices = ranking.reduce((sum, row) => sum + (row.offlineDevices ?? 0), 0);
+  return {
+    generatedAtUtc: new Date().toISOString(),
+    windowHours: windows[0],
+    totals: {
+      tenants: ranking.length,
+      devices,
+      offlineDevices,
+      offlinePct: pct(offlineDevices, devices),
+      activeIncidents: ranking.reduce((sum, row) => sum + row.activeIncidents, 0),
+      openTickets: ranking.reduce((sum, row) => sum + row.openTickets, 0)
+    },
+    ranking
+  };
+}
+
+function formatOfflinePct(row: PortfolioTenantRow): string {
+  return row.offlinePct === null ? 'n/a' : `${row.offlinePct}%`;
+}
+
+export function formatPortfolioMarkdown(deepDives: DeepDiveResult[], includeSensitive = false): string {
+  const portfolio = buildPortfolio(deepDives);
+  const byTenant = new Map(deepDives.map((deepDive) => [deepDive.tenantId, deepDive]));
+  const markdown: string[] = [];
+  markdown.push('# Xyte Portfolio Report');
+  markdown.push('');
+  markdown.push(`- Tenants: \`${portfolio.totals.tenants}\``);
+  markdown.push(`- Generated: \`${portfolio.generatedAtUtc}\``);
+  markdown.push(`- Window: \`${portfolio.windowHours}h\``);
+  markdown.push(
+    `- Devices: **${portfolio.totals.devices}**, offline: **${portfolio.totals.offlineDevices}** (${portfolio.totals.offlinePct}%), active incidents: **${portfolio.totals.activeIncidents}**, open tickets: **${portfolio.totals.openTickets}**`
+  );
+  markdown.push('');
+  markdown.push('## Tenant Ranking');
+  markdown.push('');
+  markdown.push(`| Rank | Tenant | Devices | Offline | Active Incidents | Open Tickets | ${portfolio.windowHours}h Churn |`);
+  markdown.push('| ---: | --- | ---: | ---: | ---: | ---: | ---: |');
+  portfolio.ranking.forEach((row) =>
+    markdown.push(
+      `| ${row.rank} | ${row.tenantId} | ${row.devices ?? 'n/a'} | ${formatOfflinePct(row)} | ${row.activeIncidents} | ${row.openTickets} | ${row.churnIncidents} |`
+    )
+  );
+
+  portfolio.ranking.forEach((row) => {
+    markdown.push('');
+    // Demote the per-tenant report one heading level so it nests under the portfolio.
+    markdown.push(
+      formatDeepDiveMarkdown(byTenant.get(row.tenantId) as DeepDiveResult, includeSensitive)
+        .replace(/^# Xyte Fleet Deep Dive$/m, `## ${row.rank}. ${row.tenantId}`)
+        .replace(/^## (?!\d+\. )/gm, '### ')
+    );
+  });
+
+  return markdown.join('\n');
+}
+
+function renderPortfolioPdfReport(deepDives: DeepDiveResult[], outputPath: string): Promise<void> {
+  const portfolio = buildPortfolio(deepDives);
+  const byTenant = new Map(deepDives.map((deepDive) => [deepDive.tenantId, deepDive]));
+  const logoPath = resolveLogoPath();
+  const ctx: PdfRenderContext = {
+    title: 'Portfolio Report',
+    scope: `Tenants: ${portfolio.totals.tenants}`,
+    generatedAtUtc: portfolio.generatedAtUtc,
+    windowHours: portfolio.windowHours,
+    windowFocus: getWindowFocus(portfolio.windowHours),
+    logoPath
+  };
+  const { doc, written } = openPdfDocument(outputPath);
+
+  drawPdfHeader(doc, ctx);
+  resetCursor(doc);
+
+  drawKpiGrid(doc, ctx, [
+    { label: 'Tenants', value: String(portfolio.totals.tenants) },
+    { label: 'Devices offline', value: `${portfolio.totals.offlinePct}%`, tone: portfolio.totals.offlineDevices > 0 ? 'bad' : 'normal' },
+    { label: 'Active incidents', value: String(portfolio.totals.activeIncidents), tone: portfolio.totals.activeIncidents > 0 ? 'warn' : 'normal' },
+    { label: 'Open tickets', value: String(portfolio.totals.openTickets), tone: portfolio.totals.openTickets > 0 ? 'warn' : 'normal' }
+  ]);
+
+  drawTable(doc, ctx, {
+    title: 'Tenant Ranking',
+    columns: [
+      { header: '#', width: 30, align: 'right', wrap: false },
+      { header: 'Tenant', width: 160, wrap: true },
+      { header: 'Devices', width: 60, align: 'right', wrap: false },
+      { header: 'Offline', width: 65, align: 'right', wrap: false },
+      { header: 'Active inc.', width: 75, align: 'right', wrap: false },
+      { header: 'Open tickets', width: 80, align: 'right', wrap: false },
+      { header: `${portfolio.windowHours}h churn`, width: 70, align: 'right', wrap: false }
+    ],
+    rows: portfolio.ranking.map((row) => [
+      String(row.rank),
+      row.tenantId,
+      row.devices === null ? 'n/a' : String(row.devices),
+      formatOfflinePct(row),
+      String(row.activeIncidents),
+      String(row.openTickets),
+      String(row.churnIncidents)
+    ])
+  });
+
+  portfolio.ranking.forEach((row) => {
+    const deepDive = byTenant.get(row.tenantId) as DeepDiveResult;
+    const tenantCtx = { ...tenantReportContext(deepDive, logoPath), title: 'Portfolio Report' };
+    startReportPage(doc, tenantCtx);
+
+    drawKpiGrid(doc, tenantCtx, [
+      { label: `Rank ${row.rank} • offline`, value: formatOfflinePct(row), tone: (row.offlineDevices ?? 0) > 0 ? 'bad' : 'normal' },
+      { label: 'Active incidents', value: String(row.activeIncidents), tone: row.activeIncidents > 0 ? 'warn' : 'normal' },
+      { label: 'Open tickets', value: String(row.openTickets), tone: row.openTickets > 0 ? 'warn' : 'normal' },
+      { label: `${deepDive.windowHours}h churn`, value: String(row.churnIncidents), tone: row.churnIncidents > 0 ? 'warn' : 'normal' }
+    ]);
+    drawKeyFindings(doc, tenantCtx, deepDive.summary);
+    drawSpaceBars(doc, tenantCtx, deepDive.churn24h.bySpace);
+    drawTable(doc, tenantCtx, {
+      title: 'Top Spaces by Offline Devices',
+      columns: [
+        { header: 'Space', width: 370, wrap: true },
+        { header: 'Offline', width: 90, align: 'right', wrap: false },
+        { header: 'Share', width: 90, align: 'right', wrap: false }
+      ],
+      rows: deepDive.topOfflineSpaces.slice(0, 8).map((item) => [item.space, String(item.offlineDevices), `${item.shareOfOfflinePct}%`]),
+      emptyMessage: 'No offline spaces found.'
+    });
+  });
+
+  finishPdfDocument(doc, ctx);
+  return written;
+}
+
+export async function generatePortfolioReport(args: {
+  deepDives: DeepDiveResult[];
+  format: 'markdown' | 'pdf';
+  outPath: string;
+  includeSensitive: boolean;
+}): Promise<PortfolioReportResult> {
+  const portfolio = buildPortfolio(args.deepDives);
+  ensureDir(args.outPath);
+
+  if (args.format === 'markdown') {
+    writeFileSync(args.outPath, formatPortfolioMarkdown(args.deepDives, args.includeSensitive), 'utf8');
+  } else {
+    await renderPortfolioPdfReport(args.deepDives, args.outPath);
+  }
+
+  return {
+    schemaVersion: REPORT_PORTFOLIO_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    tenantIds: portfolio.ranking.map((row) => row.tenantId),
+    format: args.format,
+    outputPath: resolve(args.outPath),
+    includeSensitive: args.includeSensitive
+  };
+}
@@ -0,0 +1,369 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { FLEET_SNAPSHOT_SCHEMA_VERSION, INSPECT_DIFF_SCHEMA_VERSION } from '../contracts/versions';
+import { getXyteConfigDir } from '../utils/config-dir';
+import type { FleetSnapshot } from './fleet-insights';
+
+export interface FleetSnapshotFile extends FleetSnapshot {
+  schemaVersion: typeof FLEET_SNAPSHOT_SCHEMA_VERSION;
+}
+
+export interface SavedFleetSnapshot {
+  schemaVersion: typeof FLEET_SNAPSHOT_SCHEMA_VERSION;
+  tenantId: string;
+  generatedAtUtc: string;
+  path: string;
+  totals: {
+    devices: number;
+    spaces: number;
+    incidents: number;
+    tickets: number;
+  };
+}
+
+export interface DiffDeviceRow {
+  id: string;
+  name: string;
+  space: string;
+}
+
+export interface DiffMovedDeviceRow {
+  id: string;
+  name: string;
+  fromSpace: string;
+  toSpace: string;
+}
+
+export interface DiffItemRow {
+  id: string;
+  title: string;
+  status: string;
+  device: string;
+}
+
+export interface FleetDiffResult {
+  schemaVersion: typeof INSPECT_DIFF_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  tenantId: string;
+  from: { generatedAtUtc: string };
+  to: { generatedAtUtc: string };
+  summary: {
+    wentOffline: number;
+    cameOnline: number;
+    addedDevices: number;
+    removedDevices: number;
+    movedDevices: number;
+    newIncidents: number;
+    closedIncidents: number;
+    openedTickets: number;
+    resolvedTickets: number;
+  };
+  devices: {
+    wentOffline: DiffDeviceRow[];
+    cameOnline: DiffDeviceRow[];
+    added: DiffDeviceRow[];
+    removed: DiffDeviceRow[];
+    moved: DiffMovedDeviceRow[];
+  };
+  incidents: {
+    new: DiffItemRow[];
+    closed: DiffItemRow[];
+  };
+  tickets: {
+    opened: DiffItemRow[];
+    resolved: DiffItemRow[];
+  };
+}
+
+const CLOSED_STATUSES = new Set(['closed', 'resolved', 'done', 'cancelled', 'canceled']);
+
+export function getSnapshotDir(tenantId: string, baseDir = path.join(getXyteConfigDir(), 'snapshots')): string {
+  return path.join(baseDir, encodeURIComponent(tenantId));
+}
+
+function snapshotFileName(generatedAtUtc: string): string {
+  return `${generatedAtUtc.replace(/[:.]/g, '-')}.json`;
+}
+
+export async function saveFleetSnapshot(
+  snapshot: FleetSnapshot,
+  options: { outPath?: string; baseDir?: string } = {}
+): Promise<SavedFleetSnapshot> {
+  const filePath = path.resolve(
+    options.outPath ?? path.join(getSnapshotDir(snapshot.tenantId, options.baseDir), snapshotFileName(snapshot.generatedAtUtc))
+  );
+  const file: FleetSnapshotFile = { schemaVersion: FLEET_SNAPSHOT_SCHEMA_VERSION, ...snapshot };
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+
+  return {
+    schemaVersion: FLEET_SNAPSHOT_SCHEMA_VERSION,
+    tenantId: snapshot.tenantId,
+    generatedAtUtc: snapshot.generatedAtUtc,
+    path: filePath,
+    totals: {
+      devices: snapshot.devices.length,
+      spaces: snapshot.spaces.length,
+      incidents: snapshot.incidents.length,
+      tickets: snapshot.tickets.length
+    }
+  };
+}
+
+export async function listFleetSnapshots(tenantId: string, baseDir?: string): Promise<string[]> {
+  const dir = getSnapshotDir(tenantId, baseDir);
+  try {
+    const names = await readdir(dir);
+    // File names are derived from ISO timestamps, so lexical order is chronological.
+    return names
+      .filter((name) => name.endsWith('.json'))
+      .sort()
+      .map((name) => path.join(dir, name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function resolveSnapshotRef(ref: string, tenantId: string | undefined, baseDir?: string): Promise<string> {
+  if (existsSync(ref)) {
+    return path.resolve(ref);
+  }
+  if (!tenantId) {
+    throw new Error(`Snapshot not found: ${ref}. Pass a file path, or --tenant to resolve saved snapshots.`);
+  }
+
+  const saved = await listFleetSnapshots(tenantId, baseDir);
+  const offset = ref === 'latest' ? 1 : ref === 'previous' ? 2 : undefined;
+  if (offset !== undefined) {
+    const match = saved[saved.length - offset];
+    if (!match) {
+      throw new Error(`Not enough saved snapshots for tenant ${tenantId} to resolve "${ref}". Run \`xyte-cli inspect snapshot save\` first.`);
+    }
+    return match;
+  }
+
+  const named = saved.find((item) => path.basename(item) === ref || path.basename(item, '.json') === ref);
+  if (!named) {
+    throw new Error(`Snapshot not found: ${ref}.`);
+  }
+  return named;
+}
+
+export async function loadFleetSnapshot(
+  ref: string,
+  options: { tenantId?: string; baseDir?: string } = {}
+): Promise<FleetSnapshotFile> {
+  const filePath = await resolveSnapshotRef(ref, options.tenantId, options.baseDir);
+  const parsed = JSON.parse(await readFile(filePath, 'utf8')) as Partial<FleetSnapshotFile>;
+  if (parsed.schemaVersion !== FLEET_SNAPSHOT_SCHEMA_VERSION) {
+    throw new Error(`File ${filePath} is not a ${FLEET_SNAPSHOT_SCHEMA_VERSION} snapshot.`);
+  }
+  return parsed as FleetSnapshotFile;
+}
+
+function text(value: unknown, fallback = 'unknown'): string {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  return String(value);
+}
+
+function byId(items: any[]): Map<string, any> {
+  const map = new Map<string, any>();
+  for (const item of items) {
+    if (item?.id !== undefined && item?.id !== null) {
+      map.set(String(item.id), item);
+    }
+  }
+  return map;
+}
+
+function statusOf(item: any): string {
+  return text(item?.status).toLowerCase();
+}
+
+function isClosed(item: any): boolean {
+  return CLOSED_STATUSES.has(statusOf(item));
+}
+
+function spaceIdOf(device: any): string | undefined {
+  const id = device?.space_id ?? device?.space?.id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+function spaceLabel(device: any): string {
+  return text(device?.space?.full_path ?? device?.space?.name ?? device?.space_id);
+}
+
+function deviceRow(device: any): DiffDeviceRow {
+  return { id: String(device.id), name: text(device?.name), space: spaceLabel(device) };
+}
+
+function itemRow(item: any): DiffItemRow {
+  return {
+    id: String(item.id),
+    title: text(item?.title ?? item?.name),
+    status: statusOf(item),
+    device: text(item?.device_name ?? item?.device_id, 'n/a')
+  };
+}
+
+// Items missing from the newer snapshot are treated as closed: most endpoints stop listing them once resolved.
+function closedSince(before: Map<string, any>, after: Map<string, any>): DiffItemRow[] {
+  const rows: DiffItemRow[] = [];
+  for (const [id, item] of before) {
+    if (isClosed(item)) {
+      continue;
+    }
+    const next = after.get(id);
+    if (!next || isClosed(next)) {
+      rows.push(itemRow(next ?? item));
+    }
+  }
+  return rows;
+}
+
+function openedSince(before: Map<string, any>, after: Map<string, any>): DiffItemRow[] {
+  return [...after.entries()].filter(([id, item]) => !before.has(id) && !isClosed(item)).map(([, item]) => itemRow(item));
+}
+
+export function diffFleetSnapshots(from: FleetSnapshot, to: FleetSnapshot): FleetDiffResult {
+  if (from.tenantId !== to.tenantId) {
+    throw new Error(`Snapshots belong to different tenants: ${from.tenantId} vs ${to.tenantId}.`);
+  }
+
+  const devicesBefore = byId(from.devices);
+  const devicesAfter = byId(to.devices);
+  const wentOffline: DiffDeviceRow[] = [];
+  const cameOnline: DiffDeviceRow[] = [];
+  const moved: DiffMovedDeviceRow[] = [];
+  const removed: DiffDeviceRow[] = [];
+
+  for (const [id, before] of devicesBefore) {
+    const after = devicesAfter.get(id);
+    if (!after) {
+      removed.push(deviceRow(before));
+      continue;
+    }
+    const wasOffline = statusOf(before) === 'offline';
+    const isOffline = statusOf(after) === 'offline';
+    if (!wasOffline && isOffline) {
+      wentOffline.push(deviceRow(after));
+    } else if (wasOffline && !isOffline) {
+      cameOnline.push(deviceRow(after));
+    }
+    if (spaceIdOf(before) !== spaceIdOf(after)) {
+      moved.push({ id, name: text(after?.name), fromSpace: spaceLabel(before), toSpace: spaceLabel(after) });
+    }
+  }
+  const added = [...devicesAfter.entries()].filter(([id]) => !devicesBefore.has(id)).map(([, device]) => deviceRow(device));
+
+  const incidentsBefore = byId(from.incidents);
+  const incidentsAfter = byId(to.incidents);
+  const ticketsBefore = byId(from.tickets);
+  const ticketsAfter = byId(to.tickets);
+  const newIncidents = openedSince(incidentsBefore, incidentsAfter);
+  const closedIncidents = closedSince(incidentsBefore, incidentsAfter);
+  const openedTickets = openedSince(ticketsBefore, ticketsAfter);
+  const resolvedTickets = closedSince(ticketsBefore, ticketsAfter);
+
+  return {
+    schemaVersion: INSPECT_DIFF_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    tenantId: to.tenantId,
+    from: { generatedAtUtc: from.generatedAtUtc },
+    to: { generatedAtUtc: to.generatedAtUtc },
+    summary: {
+      wentOffline: wentOffline.length,
+      cameOnline: cameOnline.length,
+      addedDevices: added.length,
+      removedDevices: removed.length,
+      movedDevices: moved.length,
+      newIncidents: newIncidents.length,
+      closedIncidents: closedIncidents.length,
+      openedTickets: openedTickets.length,
+      resolvedTickets: resolvedTickets.length
+    },
+    devices: { wentOffline, cameOnline, added, removed, moved },
+    incidents: { new: newIncidents, closed: closedIncidents },
+    tickets: { opened: openedTickets, resolved: resolvedTickets }
+  };
+}
+
+export function formatFleetDiffAscii(result: FleetDiffResult): string {
+  const lines: string[] = [];
+  const section = (title: string, rows: string[]) => {
+    lines.push('');
+    lines.push(`${title} (${rows.length})`);
+    rows.forEach((row) => lines.push(`- ${row}`));
+  };
+
+  lines.push(`Fleet Diff (${result.tenantId})`);
+  lines.push(`From: ${result.from.generatedAtUtc}`);
+  lines.push(`To:   ${result.to.generatedAtUtc}`);
+  section('WENT OFFLINE', result.devices.wentOffline.map((row) => `${row.name} | ${row.space}`));
+  section('CAME ONLINE', result.devices.cameOnline.map((row) => `${row.name} | ${row.space}`));
+  section('MOVED', result.devices.moved.map((row) => `${row.name} | ${row.fromSpace} -> ${row.toSpace}`));
+  section('ADDED DEVICES', result.devices.added.map((row) => `${row.name} | ${row.space}`));
+  section('REMOVED DEVICES', result.devices.removed.map((row) => `${row.name} | ${row.space}`));
+  section('NEW INCIDENTS', result.incidents.new.map((row) => `${row.title} | ${row.device}`));
+  section('CLOSED INCIDENTS', result.incidents.closed.map((row) => `${row.title} | ${row.device}`));
+  section('OPENED TICKETS', result.tickets.opened.map((row) => `${row.title} | ${row.status}`));
+  section('RESOLVED TICKETS', result.tickets.resolved.map((row) => `${row.title} | ${row.status}`));
+  return lines.join('\n');
+}
+
+export function formatFleetDiffMarkdown(result: FleetDiffResult): string {
+  const markdown: string[] = [];
+  const table = (title: string, header: string[], rows: string[][]) => {
+    markdown.push(`## ${title}`);
+    markdown.push('');
+    if (!rows.length) {
+      markdown.push('None.');
+    } else {
+      markdown.push(`| ${header.join(' | ')} |`);
+      markdown.push(`| ${header.map(() => '---').join(' | ')} |`);
+      rows.forEach((row) => markdown.push(`| ${row.join(' | ')} |`));
+    }
+    markdown.push('');
+  };
+
+  markdown.push('# Xyte Fleet Diff');
+  markdown.push('');
+  markdown.push(`- Tenant: \`${result.tenantId}\``);
+  markdown.push(`- From: \`${result.from.generatedAtUtc}\``);
+  markdown.push(`- To: \`${result.to.generatedAtUtc}\``);
+  markdown.push('');
+  markdown.push('## Summary');
+  markdown.push('');
+  markdown.push(`- Went offline: **${result.summary.wentOffline}**, came online: **${result.summary.cameOnline}**`);
+  markdown.push(
+    `- Devices added: **${result.summary.addedDevices}**, removed: **${result.summary.removedDevices}**, moved: **${result.summary.movedDevices}**`
+  );
+  markdown.push(`- Incidents new: **${result.summary.newIncidents}**, closed: **${result.summary.closedIncidents}**`);
+  markdown.push(`- Tickets opened: **${result.summary.openedTickets}**, resolved: **${result.summary.resolvedTickets}**`);
+  markdown.push('');
+
+  const deviceRows = (rows: DiffDeviceRow[]) => rows.map((row) => [row.name, row.space]);
+  const itemRows = (rows: DiffItemRow[]) => rows.map((row) => [row.title, row.status, row.device]);
+  table('Went Offline', ['Device', 'Space'], deviceRows(result.devices.wentOffline));
+  table('Came Online', ['Device', 'Space'], deviceRows(result.devices.cameOnline));
+  table(
+    'Moved Devices',
+    ['Device', 'From', 'To'],
+    result.devices.moved.map((row) => [row.name, row.fromSpace, row.toSpace])
+  );
+  table('Added Devices', ['Device', 'Space'], deviceRows(result.devices.added));
+  table('Removed Devices', ['Device', 'Space'], deviceRows(result.devices.removed));
+  table('New Incidents', ['Incident', 'Status', 'Device'], itemRows(result.incidents.new));
+  table('Closed Incidents', ['Incident', 'Status', 'Device'], itemRows(result.incidents.closed));
+  table('Opened Tickets', ['Ticket', 'Status', 'Device'], itemRows(result.tickets.opened));
+  table('Resolved Tickets', ['Ticket', 'Status', 'Device'], itemRows(result.tickets.resolved));
+
+  return markdown.join('\n').trimEnd();
+}
@@ -0,0 +1,124 @@
+/** Formatting shared by the markdown, PDF and HTML report renderers. */
+
+export interface WindowFocus {
+  label: string;
+  detail: string;
+  accent: string;
+}
+
+/** Share of `total` as a percentage with one decimal; 0 when there is nothing to divide. */
+export function pct(count: number, total: number): number {
+  if (!total) {
+    return 0;
+  }
+  return Number(((count * 100) / total).toFixed(1));
+}
+
+export function parseTimestamp(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  const normalized = trimmed.replace(/\s+/, 'T');
+  const parts = normalized.match(
+    /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?(Z|[+-]\d{2}(?::?\d{2})?)?$/i
+  );
+
+  if (parts) {
+    const date = parts[1];
+    const hour = parts[2] ?? '00';
+    const minute = parts[3] ?? '00';
+    const second = parts[4] ?? '00';
+    const fraction = parts[5] ? `.${parts[5].slice(0, 3).padEnd(3, '0')}` : '';
+    const zoneRaw = parts[6] ?? 'Z';
+    const zone = /^[+-]\d{4}$/.test(zoneRaw)
+      ? `${zoneRaw.slice(0, 3)}:${zoneRaw.slice(3)}`
+      : /^[+-]\d{2}$/.test(zoneRaw)
+        ? `${zoneRaw}:00`
+        : zoneRaw;
+    const iso = `${date}T${hour}:${minute}:${second}${fraction}${zone}`;
+    const parsedIso = new Date(iso);
+    if (!Number.isNaN(parsedIso.getTime())) {
+      return parsedIso;
+    }
+  }
+
+  // Treat timezone-naive ISO timestamps as UTC for deterministic reporting.
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed) && !/(Z|[+-]\d{2}(?::?\d{2})?)$/i.test(trimmed)) {
+    const asUtc = new Date(`${trimmed}Z`);
+    if (!Number.isNaN(asUtc.getTime())) {
+      return asUtc;
+    }
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    const asDateUtc = new Date(`${trimmed}T00:00:00Z`);
+    if (!Number.isNaN(asDateUtc.getTime())) {
+      return asDateUtc;
+    }
+  }
+
+  const direct = new Date(trimmed);
+  if (!Number.isNaN(direct.getTime())) {
+    return direct;
+  }
+
+  return undefined;
+}
+
+export function identifier(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'n/a';
+  }
+  return String(value);
+}
+
+export function redactSensitive(value: string, includeSensitive: boolean): string {
+  if (includeSensitive || value === 'n/a') {
+    return value;
+  }
+  if (value.length <= 8) {
+    return '***';
+  }
+  return `${value.slice(0, 4)}...${value.slice(-4)}`;
+}
+
+function formatTwoDigits(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function formatUtcForReport(value: unknown): string {
+  const parsed = parseTimestamp(value);
+  if (!parsed) {
+    return identifier(value);
+  }
+  const y = parsed.getUTCFullYear();
+  const m = formatTwoDigits(parsed.getUTCMonth() + 1);
+  const d = formatTwoDigits(parsed.getUTCDate());
+  const hh = formatTwoDigits(parsed.getUTCHours());
+  const mm = formatTwoDigits(parsed.getUTCMinutes());
+  return `${y}-${m}-${d} ${hh}:${mm} UTC`;
+}
+
+export function getWindowFocus(windowHours: number): WindowFocus {
+  if (windowHours <= 24) {
+    return {
+      label: 'Immediate churn',
+      detail: 'Prioritize active incident containment and hot spaces in the last day.',
+      accent: '#B45309'
+    };
+  }
+  if (windowHours <= 72) {
+    return {
+      label: 'Short-term Trend',
+      detail: 'Track repeat offenders and stabilize recurring high-churn spaces.',
+      accent: '#1D4ED8'
+    };
+  }
+  return {
+    label: 'Weekly concentration',
+    detail: 'Focus on sustained incident concentration and structural remediation.',
+    accent: '#166534'
+  };
+}
@@ -0,0 +1,304 @@
+import { formatDriftValue, type ConfigDriftResult } from './config-drift';
+import type { DeepDiveResult } from './fleet-insights';
+import { formatUtcForReport, getWindowFocus, redactSensitive } from './report-format';
+
+interface HtmlColumn {
+  header: string;
+  numeric?: boolean;
+}
+
+type HtmlCell = string | number | null;
+
+const STYLES = `
+:root { --ink: #1a2332; --muted: #5b687b; --line: #d5dee9; --panel: #f3f7fc; --brand: #1459a6; --warn: #9c5f08; --bad: #a2282f; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.45 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--ink); background: #fff; }
+main { max-width: 1080px; margin: 0 auto; padding: 24px; }
+header { display: flex; justify-content: space-between; align-items: center; gap: 16px; padding: 16px 20px; border: 1px solid #c2d5f3; border-radius: 8px; background: #e8f0fc; }
+header h1 { margin: 0; font-size: 22px; }
+header p { margin: 2px 0 0; color: #415067; }
+.badge { padding: 6px 14px; border-radius: 14px; color: #fff; font-weight: 600; font-size: 12px; white-space: nowrap; }
+.focus { margin: 16px 0; padding: 12px 16px; border: 1px solid #d7e3f2; border-radius: 7px; background: var(--panel); }
+.kpis { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 8px; margin: 16px 0; }
+.kpi { padding: 12px; border-radius: 8px; border: 1px solid #c6e0ff; background: #eef6ff; }
+.kpi span { display: block; color: #4b5563; }
+.kpi strong { display: block; font-size: 28px; color: var(--brand); }
+.kpi.warn { background: #fff6e8; border-color: #f7d9a6; } .kpi.warn strong { color: var(--warn); }
+.kpi.bad { background: #fdebec; border-color: #f7c4c7; } .kpi.bad strong { color: var(--bad); }
+h2 { margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 1px solid var(--line); font-size: 17px; }
+table { width: 100%; border-collapse: collapse; margin: 8px 0 16px; }
+th, td { padding: 5px 8px; border: 1px solid #e3eaf3; text-align: left; vertical-align: top; }
+th { background: #e8eef6; cursor: pointer; user-select: none; white-space: nowrap; }
+th[aria-sort="ascending"]::after { content: " \\25B2"; } th[aria-sort="descending"]::after { content: " \\25BC"; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+.empty { color: #475569; }
+svg.bars { width: 100%; height: auto; margin: 8px 0 16px; }
+svg.bars text { font-size: 12px; fill: var(--ink); }
+footer { margin-top: 32px; color: var(--muted); font-size: 12px; }
+`;
+
+// Sorts by the clicked column; numeric cells carry data-value so "12%" and "n/a" sort sensibly.
+const SORT_SCRIPT = `
+document.querySelectorAll('table.sortable').forEach(function (table) {
+  table.querySelectorAll('th').forEach(function (th, index) {
+    th.addEventListener('click', function () {
+      var ascending = th.getAttribute('aria-sort') !== 'ascending';
+      table.querySelectorAll('th').forEach(function (other) { other.removeAttribute('aria-sort'); });
+      th.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+      var body = table.tBodies[0];
+      var rows = Array.prototype.slice.call(body.rows);
+      var key = function (row) {
+        var cell = row.cells[index];
+        var value = cell.getAttribute('data-value');
+        return value === null ? cell.textContent.trim().toLowerCase() : Number(value);
+      };
+      rows.sort(function (a, b) {
+        var x = key(a), y = key(b);
+        var order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+        return ascending ? order : -order;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+});
+`;
+
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlTable(columns: HtmlColumn[], rows: HtmlCell[][], emptyMessage = 'No data available.'): string {
+  if (!rows.length) {
+    return `<p class="empty">${escapeHtml(emptyMessage)}</p>`;
+  }
+  const head = columns.map((column) => `<th${column.numeric ? ' class="num"' : ''}>${escapeHtml(column.header)}</th>`).join('');
+  const body = rows
+    .map((row) => {
+      const cells = row.map((cell, index) => {
+        if (!columns[index].numeric) {
+          return `<td>${escapeHtml(cell ?? 'n/a')}</td>`;
+        }
+        const numeric = typeof cell === 'number' ? cell : Number.parseFloat(String(cell));
+        const sortValue = Number.isFinite(numeric) ? numeric : -1;
+        return `<td class="num" data-value="${sortValue}">${escapeHtml(cell ?? 'n/a')}</td>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    })
+    .join('\n');
+  return `<table class="sortable"><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+function svgBars(rows: Array<{ label: string; value: number }>, options: { max?: number; suffix?: string; color?: string } = {}): string {
+  if (!rows.length) {
+    return '';
+  }
+  const width = 760;
+  const labelWidth = 300;
+  const valueWidth = 70;
+  const rowHeight = 24;
+  const barWidth = width - labelWidth - valueWidth - 16;
+  const max = options.max ?? Math.max(...rows.map((row) => row.value), 1);
+  const bars = rows
+    .map((row, index) => {
+      const y = index * rowHeight;
+      const filled = Math.max(4, Math.round((barWidth * Math.min(row.value, max)) / max));
+      const label = row.label.length > 44 ? `${row.label.slice(0, 43)}…` : row.label;
+      return [
+        `<text x="0" y="${y + 16}"><title>${escapeHtml(row.label)}</title>${escapeHtml(label)}</text>`,
+        `<rect x="${labelWidth}" y="${y + 7}" width="${barWidth}" height="10" rx="3" fill="#e6ecf5"/>`,
+        `<rect x="${labelWidth}" y="${y + 7}" width="${filled}" height="10" rx="3" fill="${options.color ?? '#3b82f6'}"/>`,
+        `<text x="${width}" y="${y + 16}" text-anchor="end" font-weight="600">${escapeHtml(`${row.value}${options.suffix ?? ''}`)}</text>`
+      ].join('');
+    })
+    .join('\n');
+  return `<svg class="bars" role="img" viewBox="0 0 ${width} ${rows.length * rowHeight}" xmlns="http://www.w3.org/2000/svg">\n${bars}\n</svg>`;
+}
+
+function kpi(label: string, value: string | number, tone: 'normal' | 'warn' | 'bad' = 'normal'): string {
+  return `<div class="kpi${tone === 'normal' ? '' : ` ${tone}`}"><span>${escapeHtml(label)}</span><strong>${escapeHtml(value)}</strong></div>`;
+}
+
+export function formatDeepDiveHtml(result: DeepDiveResult, includeSensitive = false, configDrift?: ConfigDriftResult): string {
+  const focus = getWindowFocus(result.windowHours);
+  const mttr = (value: number | null) => (value === null ? 'n/a' : value);
+  const sections: string[] = [];
+
+  sections.push('<h2>Executive Summary</h2>');
+  sections.push(`<ul>${result.summary.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`);
+
+  sections.push(`<h2>${result.windowHours}h Churn Concentration (Top Spaces)</h2>`);
+  sections.push(
+    svgBars(result.churn24h.bySpace.slice(0, 10).map((row) => ({ label: row.space, value: row.incidents }))) ||
+      '<p class="empty">No churn events in this window.</p>'
+  );
+
+  sections.push('<h2>Top Spaces by Offline Devices</h2>');
+  sections.push(svgBars(result.topOfflineSpaces.map((row) => ({ label: row.space, value: row.offlineDevices })), { color: '#dc2626' }));
+  sections.push(
+    htmlTable(
+      [{ header: 'Space' }, { header: 'Offline', numeric: true }, { header: 'Share', numeric: true }],
+      result.topOfflineSpaces.map((row) => [row.space, row.offlineDevices, `${row.shareOfOfflinePct}%`]),
+      'No offline spaces found.'
+    )
+  );
+
+  sections.push('<h2>Top Devices by Incident Volume</h2>');
+  sections.push(
+    htmlTable(
+      [{ header: 'Device' }, { header: 'Incidents', numeric: true }, { header: 'Active', numeric: true }],
+      result.topIncidentDevices.map((row) => [row.device, row.incidentCount, row.activeIncidents]),
+      'No incident device concentration detected.'
+    )
+  );
+
+  sections.push('<h2>Active Incident Aging</h2>');
+  sections.push(
+    htmlTable(
+      [{ header: 'Device' }, { header: 'Space' }, { header: 'Age (h)', numeric: true }, { header: 'Created At' }],
+      result.activeIncidentAging.map((row) => [row.device, row.space, row.ageHours, formatUtcForReport(row.createdAtUtc)]),
+      'No active incidents.'
+    )
+  );
+
+  sections.push(`<h2>${result.windowHours}-Hour Churn by Device</h2>`);
+  sections.push(
+    htmlTable(
+      [{ header: 'Device' }, { header: 'Incidents', numeric: true }],
+      result.churn24h.byDevice.map((row) => [row.device, row.incidents]),
+      'No churn events in this window.'
+    )
+  );
+
+  sections.push('<h2>Oldest Open Tickets</h2>');
+  sections.push(
+    `<p>Open tickets: <strong>${result.ticketPosture.openTickets}</strong>, overlapping active-incident devices: <strong>${result.ticketPosture.overlappingActiveIncidentDevices}</strong>.</p>`
+  );
+  sections.push(
+    htmlTable(
+      [{ header: 'Ticket' }, { header: 'Title' }, { header: 'Age (h)', numeric: true }, { header: 'Device' }, { header: 'Created At' }],
+      result.ticketPosture.oldestOpenTickets.map((row) => [
+        redactSensitive(row.ticketId, includeSensitive),
+        row.title,
+        row.ageHours,
+        redactSensitive(row.deviceId, includeSensitive),
+        formatUtcForReport(row.createdAtUtc)
+      ]),
+      'No open tickets.'
+    )
+  );
+
+  sections.push('<h2>Data Quality</h2>');
+  sections.push(
+    htmlTable(
+      [{ header: 'Device' }, { header: 'status' }, { header: 'state.status' }, { header: 'Last Seen' }, { header: 'Space' }],
+      result.dataQuality.statusMismatches.map((row) => [row.device, row.status, row.stateStatus, formatUtcForReport(row.lastSeen), row.space]),
+      'No status mismatches detected.'
+    )
+  );
+
+  if (result.availability) {
+    const availability = result.availability;
+    sections.push(`<h2>Availability (${availability.uptimePct}% fleet uptime)</h2>`);
+    if (!availability.devicesWithHistory) {
+      sections.push('<p class="empty">No device state history recorded in this window.</p>');
+    } else {
+      sections.push(
+        `<p>Uptime across <strong>${availability.devicesWithHistory}</strong> devices, flaps: <strong>${availability.flaps}</strong>, outages: <strong>${availability.outages}</strong>, MTTR: <strong>${mttr(availability.mttrMinutes)} min</strong>.</p>`
+      );
+      sections.push(
+        svgBars(availability.bySpace.map((row) => ({ label: row.space, value: row.uptimePct })), { max: 100, suffix: '%', color: '#16a34a' })
+      );
+      sections.push(
+        htmlTable(
+          [
+            { header: 'Space' },
+            { header: 'Devices', numeric: true },
+            { header: 'Uptime', numeric: true },
+            { header: 'Flaps', numeric: true },
+            { header: 'MTTR (min)', numeric: true }
+          ],
+          availability.bySpace.map((row) => [row.space, row.devices, `${row.uptimePct}%`, row.flaps, mttr(row.mttrMinutes)])
+        )
+      );
+      sections.push(
+        htmlTable(
+          [
+            { header: 'Device' },
+            { header: 'Space' },
+            { header: 'Uptime', numeric: true },
+            { header: 'Downtime (min)', numeric: true },
+            { header: 'Flaps', numeric: true },
+            { header: 'MTTR (min)', numeric: true }
+          ],
+          availability.byDevice.map((row) => [row.device, row.space, `${row.uptimePct}%`, row.downtimeMinutes, row.flaps, mttr(row.mttrMinutes)])
+        )
+      );
+    }
+  }
+
+  if (configDrift) {
+    const referenceHeader = configDrift.reference === 'baseline' ? 'Baseline' : 'Majority';
+    sections.push(`<h2>Configuration Drift (${configDrift.totals.driftedDevices} of ${configDrift.totals.read} devices)</h2>`);
+    sections.push(
+      `<p>Distinct configurations: <strong>${configDrift.totals.groups}</strong>, drifted keys: <strong>${configDrift.totals.driftedKeys}</strong>, unreadable devices: <strong>${configDrift.totals.failed}</strong>.</p>`
+    );
+    sections.push(
+      htmlTable(
+        [{ header: 'Fingerprint' }, { header: 'Devices', numeric: true }, { header: 'Share', numeric: true }, { header: referenceHeader }],
+        configDrift.groups.map((group) => [
+          group.fingerprint,
+          group.devices,
+          `${group.sharePct}%`,
+          group.matchesBaseline === null ? (group.majority ? 'yes' : 'no') : group.matchesBaseline ? 'match' : 'drift'
+        ]),
+        'No device configurations were read.'
+      )
+    );
+    sections.push(
+      htmlTable(
+        [{ header: 'Key' }, { header: referenceHeader }, { header: 'Deviating', numeric: true }],
+        configDrift.keys.map((key) => [key.path, formatDriftValue(key.expected), key.deviating]),
+        'No configuration drift detected.'
+      )
+    );
+  }
+
+  const activeIncidents = result.activeIncidentAging.length;
+  const mismatches = result.dataQuality.statusMismatches.length;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Xyte Fleet Findings Report – ${escapeHtml(result.tenantId)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<div>
+<h1>Fleet Findings Report</h1>
+<p>Tenant: ${escapeHtml(result.tenantId)} · Generated: ${escapeHtml(formatUtcForReport(result.generatedAtUtc))}</p>
+</div>
+<span class="badge" style="background: ${focus.accent}">${result.windowHours}h · ${escapeHtml(focus.label)}</span>
+</header>
+<div class="kpis">
+${kpi('Active incidents', activeIncidents, activeIncidents > 0 ? 'warn' : 'normal')}
+${kpi(`${result.windowHours}h churn`, result.churn24h.incidents, result.churn24h.incidents > 0 ? 'warn' : 'normal')}
+${kpi('Open tickets', result.ticketPosture.openTickets, result.ticketPosture.openTickets > 0 ? 'warn' : 'normal')}
+${kpi('Data mismatches', mismatches, mismatches > 0 ? 'bad' : 'normal')}
+</div>
+<div class="focus"><strong style="color: ${focus.accent}">Window Focus</strong> ${escapeHtml(focus.detail)}</div>
+${sections.join('\n')}
+<footer>Xyte Fleet Findings Report · ${result.windowHours}h window${includeSensitive ? '' : ' · ticket and device IDs redacted'}</footer>
+</main>
+<script>${SORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,407 @@
+import { randomUUID } from 'node:crypto';
+
+import { buildCallEnvelope, type CallEnvelopeV1 } from '../contracts/call-envelope';
+import { toProblemDetails, type ProblemDetails } from '../contracts/problem';
+import { collectItems, DEFAULT_MAX_PAGES } from '../client/pagination';
+import { SPACE_TREE_SCHEMA_VERSION } from '../contracts/versions';
+import type { XyteClient } from '../types/client';
+import { deviceSpaceId, deviceSpacePath, resolveSpaceScope, spacePathOf } from './device-broadcast';
+
+export interface SpaceTreeCounts {
+  devices: number;
+  offlineDevices: number;
+  activeIncidents: number;
+}
+
+export interface SpaceTreeNode {
+  id: string;
+  name: string;
+  type: string | null;
+  path: string;
+  parentId: string | null;
+  depth: number;
+  /** Devices and incidents attached directly to this space. */
+  own: SpaceTreeCounts;
+  /** This space plus every descendant, including levels cut off by `maxDepth`. */
+  rollup: SpaceTreeCounts;
+  children: SpaceTreeNode[];
+}
+
+export interface SpaceTree {
+  schemaVersion: typeof SPACE_TREE_SCHEMA_VERSION;
+  generatedAtUtc: string;
+  tenantId?: string;
+  totals: SpaceTreeCounts & { spaces: number; unassignedDevices: number };
+  roots: SpaceTreeNode[];
+  /** Set when incidents could not be loaded; incident counts are then zero rather than real. */
+  incidentsError?: ProblemDetails;
+  /** Collections that stopped at the page cap, e.g. `['devices']`; the tree and its counts are incomplete. */
+  truncated?: string[];
+}
+
+export interface SpaceSummary {
+  id: string;
+  name: string;
+  type: string | null;
+  path: string;
+  parentId: string | null;
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function summarizeSpace(space: any): SpaceSummary {
+  const parentId = text(space?.parent_id);
+  const type = text(space?.space_type ?? space?.type);
+  return {
+    id: text(space?.id),
+    name: text(space?.name ?? space?.title) || spacePathOf(space).split('/').pop() || text(space?.id),
+    type: type || null,
+    path: spacePathOf(space),
+    parentId: parentId || null
+  };
+}
+
+function emptyCounts(): SpaceTreeCounts {
+  return { devices: 0, offlineDevices: 0, activeIncidents: 0 };
+}
+
+/**
+ * Links spaces by `parent_id`, falling back to the parent path for spaces that only carry a full path.
+ * Spaces whose parent is unknown become roots, and so does the first space found on each parent cycle;
+ * spaces that merely hang off a cycle keep their parent.
+ */
+function resolveParents(spaces: SpaceSummary[]): Map<string, string | null> {
+  const ids = new Set(spaces.map((space) => space.id));
+  const byPath = new Map(spaces.filter((space) => space.path).map((space) => [space.path, space.id]));
+  const parents = new Map<string, string | null>();
+  for (const space of spaces) {
+    const byParentId = space.parentId && ids.has(space.parentId) ? space.parentId : undefined;
+    const parentPath = space.path.includes('/') ? space.path.slice(0, space.path.lastIndexOf('/')) : '';
+    parents.set(space.id, byParentId ?? byPath.get(parentPath) ?? null);
+  }
+  for (const space of spaces) {
+    const seen = new Set<string>([space.id]);
+    let current = parents.get(space.id);
+    while (current) {
+      if (current === space.id) {
+        parents.set(space.id, null);
+        break;
+      }
+      if (seen.has(current)) {
+        break;
+      }
+      seen.add(current);
+      current = parents.get(current);
+    }
+  }
+  return parents;
+}
+
+export function buildSpaceTree(args: {
+  tenantId?: string;
+  spaces: unknown[];
+  devices?: unknown[];
+  incidents?: unknown[];
+  /** Space id or full path to start from; defaults to every root space. */
+  root?: string;
+  maxDepth?: number;
+}): SpaceTree {
+  const spaces = (args.spaces as any[]).map(summarizeSpace).filter((space) => space.id);
+  const parents = resolveParents(spaces);
+  const idByPath = new Map(spaces.filter((space) => space.path).map((space) => [space.path, space.id]));
+  const own = new Map(spaces.map((space) => [space.id, emptyCounts()]));
+
+  const spaceOfDevice = new Map<string, string>();
+  let unassignedDevices = 0;
+  for (const device of (args.devices ?? []) as any[]) {
+    const directId = deviceSpaceId(device);
+    const spaceId = own.has(directId) ? directId : idByPath.get(deviceSpacePath(device));
+    if (!spaceId) {
+      unassignedDevices += 1;
+      continue;
+    }
+    spaceOfDevice.set(text(device?.id), spaceId);
+    const counts = own.get(spaceId) as SpaceTreeCounts;
+    counts.devices += 1;
+    if (text(device?.status).toLowerCase() === 'offline') {
+      counts.offlineDevices += 1;
+    }
+  }
+  for (const incident of (args.incidents ?? []) as any[]) {
+    if (text(incident?.status).toLowerCase() !== 'active') {
+      continue;
+    }
+    const spaceId =
+      spaceOfDevice.get(text(incident?.device_id)) ??
+      (own.has(text(incident?.space_id)) ? text(incident?.space_id) : idByPath.get(text(incident?.space_tree_path_name)));
+    if (spaceId) {
+      (own.get(spaceId) as SpaceTreeCounts).activeIncidents += 1;
+    }
+  }
+
+  const childrenOf = new Map<string | null, SpaceSummary[]>();
+  for (const space of spaces) {
+    const parent = parents.get(space.id) ?? null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), space]);
+  }
+  const build = (space: SpaceSummary, depth: number): SpaceTreeNode => {
+    const children = (childrenOf.get(space.id) ?? [])
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id))
+      .map((child) => build(child, depth + 1));
+    const rollup = children.reduce(
+      (sum, child) => ({
+        devices: sum.devices + child.rollup.devices,
+        offlineDevices: sum.offlineDevices + child.rollup.offlineDevices,
+        activeIncidents: sum.activeIncidents + child.rollup.activeIncidents
+      }),
+      { ...(own.get(space.id) as SpaceTreeCounts) }
+    );
+    return {
+      ...space,
+      parentId: parents.get(space.id) ?? null,
+      depth,
+      own: own.get(space.id) as SpaceTreeCounts,
+      rollup,
+      children: args.maxDepth !== undefined && depth >= args.maxDepth ? [] : children
+    };
+  };
+
+  const rootSpaces = args.root
+    ? [spaces.find((space) => space.id === resolveSpaceScope(args.spaces, args.root as string).id) as SpaceSummary]
+    : (childrenOf.get(null) ?? []).sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+  const roots = rootSpaces.map((space) => build(space, 0));
+
+  const countNodes = (nodes: SpaceTreeNode[]): number => nodes.reduce((sum, node) => sum + 1 + countNodes(node.children), 0);
+  const sum = (key: keyof SpaceTreeCounts) => roots.reduce((total, node) => total + node.rollup[key], 0);
+  return {
+    schemaVersion: SPACE_TREE_SCHEMA_VERSION,
+    generatedAtUtc: new Date().toISOString(),
+    tenantId: args.tenantId,
+    totals: {
+      spaces: args.root || args.maxDepth !== undefined ? countNodes(roots) : spaces.length,
+      devices: sum('devices'),
+      offlineDevices: sum('offlineDevices'),
+      activeIncidents: sum('activeIncidents'),
+      unassignedDevices: args.root ? 0 : unassignedDevices
+    },
+    roots
+  };
+}
+
+export async function collectSpaceTree(args: {
+  client: XyteClient;
+  tenantId?: string;
+  root?: string;
+  maxDepth?: number;
+}): Promise<SpaceTree> {
+  const { client, tenantId } = args;
+  let incidentsError: ProblemDetails | undefined;
+  const [spaces, devices, incidents] = await Promise.all([
+    collectItems(client.paginate('organization.spaces.getSpaces', { tenantId })),
+    collectItems(client.paginate('organization.devices.getDevices', { tenantId })),
+    collectItems(client.paginate('organization.incidents.getIncidents', { tenantId })).catch((error: unknown) => {
+      incidentsError = toProblemDetails(error, '/incidents');
+      return { items: [], truncated: false };
+    })
+  ]);
+  const tree = buildSpaceTree({
+    tenantId,
+    spaces: spaces.items,
+    devices: devices.items,
+    incidents: incidents.items,
+    root: args.root,
+    maxDepth: args.maxDepth
+  });
+  const truncated = Object.entries({ spaces, devices, incidents })
+    .filter(([, collected]) => collected.truncated)
+    .map(([name]) => name);
+  return { ...tree, ...(incidentsError ? { incidentsError } : {}), ...(truncated.length ? { truncated } : {}) };
+}
+
+export interface SpaceTreeRow {
+  node: SpaceTreeNode;
+  hasChildren: boolean;
+  expanded: boolean;
+}
+
+/**
+ * Visible rows of a collapsible tree. With `match`, only matching spaces and their ancestors are kept,
+ * and ancestors are shown expanded so every match is visible.
+ */
+export function flattenSpaceTree(
+  roots: SpaceTreeNode[],
+  expanded: ReadonlySet<string>,
+  match?: (node: SpaceTreeNode) => boolean
+): SpaceTreeRow[] {
+  const rows: SpaceTreeRow[] = [];
+  const keep = new Map<string, boolean>();
+  const mark = (node: SpaceTreeNode): boolean => {
+    const childMatches = node.children.map(mark).some(Boolean);
+    const kept = !match || match(node) || childMatches;
+    keep.set(node.id, kept);
+    return kept;
+  };
+  roots.forEach(mark);
+
+  const walk = (node: SpaceTreeNode) => {
+    if (!keep.get(node.id)) {
+      return;
+    }
+    const visibleChildren = node.children.filter((child) => keep.get(child.id));
+    const open = match ? visibleChildren.length > 0 : expanded.has(node.id);
+    rows.push({ node, hasChildren: visibleChildren.length > 0, expanded: open && visibleChildren.length > 0 });
+    if (open) {
+      visibleChildren.forEach(walk);
+    }
+  };
+  roots.forEach(walk);
+  return rows;
+}
+
+function formatCounts(counts: SpaceTreeCounts): string {
+  const parts = [`${counts.devices} device${counts.devices === 1 ? '' : 's'}`];
+  if (counts.offlineDevices) {
+    parts.push(`${counts.offlineDevices} offline`);
+  }
+  if (counts.activeIncidents) {
+    parts.push(`${counts.activeIncidents} incident${counts.activeIncidents === 1 ? '' : 's'}`);
+  }
+  return parts.join(', ');
+}
+
+export function formatSpaceTreeAscii(tree: SpaceTree): string {
+  const lines = [
+    `Space Tree${tree.tenantId ? ` (${tree.tenantId})` : ''}: ${tree.totals.spaces} spaces, ${formatCounts(tree.totals)}` +
+      (tree.totals.unassignedDevices ? `, ${tree.totals.unassignedDevices} devices without a space` : '')
+  ];
+  const walk = (node: SpaceTreeNode, prefix: string, connector: string, childPrefix: string) => {
+    const type = node.type ? ` <${node.type}>` : '';
+    lines.push(`${prefix}${connector}${node.name}${type}  [${formatCounts(node.rollup)}]`);
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      walk(child, `${prefix}${childPrefix}`, last ? '`-- ' : '|-- ', last ? '    ' : '|   ');
+    });
+  };
+  tree.roots.forEach((root) => walk(root, '', '', ''));
+  if (!tree.roots.length) {
+    lines.push('No spaces.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Matches spaces whose name or full path contains `query` (case-insensitive). The hub narrows the
+ * listing with `path_includes`; the local match keeps results consistent when it ignores the filter.
+ */
+export async function findSpaces(args: { client: XyteClient; tenantId?: string; query: string; type?: string }): Promise<SpaceSummary[]> {
+  const needle = args.query.trim().toLowerCase();
+  if (!needle) {
+    throw new Error('Missing search text.');
+  }
+  const query: Record<string, string> = { path_includes: args.query.trim() };
+  if (args.type) {
+    query.space_type = args.type;
+  }
+  const { items: spaces } = await collectItems(args.client.paginate('organization.spaces.getSpaces', { tenantId: args.tenantId, query }));
+  return spaces
+    .map(summarizeSpace)
+    .filter((space) => space.id)
+    .filter((space) => `${space.name}\n${space.path}`.toLowerCase().includes(needle))
+    .filter((space) => !args.type || space.type?.toLowerCase() === args.type.toLowerCase())
+    .sort((a, b) => a.path.localeCompare(b.path) || a.id.localeCompare(b.id));
+}
+
+export interface MoveSpaceResult {
+  space: SpaceSummary;
+  /** null moves the space to the top level. */
+  parent: SpaceSummary | null;
+  /** Absent when the space already sits under `parent`. */
+  envelope?: CallEnvelopeV1;
+}
+
+export const ROOT_SPACE_REF = 'root';
+
+/**
+ * Re-parents a space through `organization.spaces.updateSpace`. Refuses moves under the space itself or
+ * one of its descendants, and records the parent and path before and after in the envelope's `change`.
+ */
+export async function moveSpace(args: {
+  client: XyteClient;
+  tenantId?: string;
+  space: string;
+  to: string;
+  allowWrite: boolean;
+  dryRun?: boolean;
+}): Promise<MoveSpaceResult> {
+  const { client, tenantId } = args;
+  const { items: spaces, truncated } = await collectItems(client.paginate('organization.spaces.getSpaces', { tenantId }));
+  if (truncated) {
+    // Without every space the descendant check below could miss a cycle.
+    throw new Error(`Refusing to move: the space listing stopped at ${DEFAULT_MAX_PAGES} pages.`);
+  }
+  const scope = resolveSpaceScope(spaces, args.space);
+  const space = summarizeSpace(spaces.find((item) => text(item?.id) === scope.id));
+  const parent = args.to === ROOT_SPACE_REF ? null : summarizeSpace(spaces.find((item) => text(item?.id) === resolveSpaceScope(spaces, args.to).id));
+  if (parent && scope.spaceIds.includes(parent.id)) {
+    throw new Error(`Cannot move ${space.path || space.id} under itself or one of its descendants (${parent.path || parent.id}).`);
+  }
+  const currentParentId = resolveParents(spaces.map(summarizeSpace).filter((item) => item.id)).get(space.id) ?? null;
+  if (currentParentId === (parent?.id ?? null)) {
+    return { space, parent };
+  }
+
+  const requestId = randomUUID();
+  const path = { space_id: space.id };
+  const body = { parent_id: parent ? parent.id : null };
+  const before = { parent_id: space.parentId, path: space.path };
+  const expected = { parent_id: body.parent_id, path: parent?.path ? `${parent.path}/${space.name}` : space.name };
+  const envelopeBase = {
+    requestId,
+    tenantId,
+    endpointKey: 'organization.spaces.updateSpace',
+    method: 'PUT',
+    guard: { allowWrite: args.allowWrite },
+    request: { path, body }
+  };
+
+  try {
+    const result = await client.callWithMeta('organization.spaces.updateSpace', { requestId, tenantId, path, body, dryRun: args.dryRun });
+    const after = result.dryRun
+      ? expected
+      : await client.organization.getSpace({ tenantId, path }).then(
+          (reread) => {
+            const moved = summarizeSpace(reread);
+            return { parent_id: moved.parentId, path: moved.path || expected.path };
+          },
+          () => expected
+        );
+    return {
+      space,
+      parent,
+      envelope: buildCallEnvelope({
+        ...envelopeBase,
+        response: {
+          status: result.status,
+          durationMs: result.durationMs,
+          retryCount: result.retryCount,
+          data: result.dryRun ?? result.data,
+          rateLimit: result.rateLimit,
+          simulated: result.dryRun ? true : undefined
+        },
+        change: { before, after }
+      })
+    };
+  } catch (error) {
+    return {
+      space,
+      parent,
+      envelope: buildCallEnvelope({
+        ...envelopeBase,
+        change: { before, after: before },
+        error: toProblemDetails(error, `/spaces/${space.id}`)
+      })
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { formatCsv, type CsvCell } from '../utils/csv';
+import { extractArray } from '../utils/json';
+import { createZip } from '../utils/zip';
+import type { DeepDiveResult, FleetInspectResult, FleetSnapshot } from './fleet-insights';
+import { redactSensitive } from './report-format';
+
+export interface TabularTable {
+  name: string;
+  columns: string[];
+  rows: CsvCell[][];
+}
+
+interface ColumnSpec {
+  header: string;
+  value: (item: any) => CsvCell;
+  /** Masked with the report redaction rules unless sensitive output is requested. */
+  sensitive?: boolean;
+}
+
+export type EntityKind = 'devices' | 'incidents' | 'tickets' | 'spaces';
+
+function text(value: unknown): CsvCell {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value as CsvCell;
+}
+
+function spacePath(item: any): CsvCell {
+  return text(item?.space_tree_path_name ?? item?.space?.full_path ?? item?.space?.name ?? item?.space_id);
+}
+
+const ENTITY_COLUMNS: Record<EntityKind, ColumnSpec[]> = {
+  devices: [
+    { header: 'id', value: (item) => text(item?.id), sensitive: true },
+    { header: 'name', value: (item) => text(item?.name) },
+    { header: 'status', value: (item) => text(item?.status) },
+    { header: 'space', value: spacePath },
+    { header: 'model', value: (item) => text(item?.model?.name ?? item?.model) },
+    { header: 'serial_number', value: (item) => text(item?.sn ?? item?.serial_number), sensitive: true },
+    { header: 'mac', value: (item) => text(item?.mac), sensitive: true },
+    { header: 'last_seen_at', value: (item) => text(item?.last_seen_at) }
+  ],
+  incidents: [
+    { header: 'id', value: (item) => text(item?.id) },
+    { header: 'title', value: (item) => text(item?.title ?? item?.name) },
+    { header: 'status', value: (item) => text(item?.status) },
+    { header: 'priority', value: (item) => text(item?.priority ?? item?.severity) },
+    { header: 'device_id', value: (item) => text(item?.device_id ?? item?.device?.id), sensitive: true },
+    { header: 'device_name', value: (item) => text(item?.device_name ?? item?.device?.name) },
+    { header: 'space', value: spacePath },
+    { header: 'created_at', value: (item) => text(item?.created_at) },
+    { header: 'closed_at', value: (item) => text(item?.closed_at) }
+  ],
+  tickets: [
+    { header: 'id', value: (item) => text(item?.id), sensitive: true },
+    { header: 'title', value: (item) => text(item?.title ?? item?.subject) },
+    { header: 'status', value: (item) => text(item?.status) },
+    { header: 'device_id', value: (item) => text(item?.device_id), sensitive: true },
+    { header: 'created_at', value: (item) => text(item?.created_at) },
+    { header: 'updated_at', value: (item) => text(item?.updated_at) }
+  ],
+  spaces: [
+    { header: 'id', value: (item) => text(item?.id) },
+    { header: 'name', value: (item) => text(item?.name) },
+    { header: 'space_type', value: (item) => text(item?.space_type) },
+    { header: 'full_path', value: (item) => text(item?.full_path) },
+    { header: 'parent_id', value: (item) => text(item?.parent_id) }
+  ]
+};
+
+function redactCell(value: CsvCell, includeSensitive: boolean): CsvCell {
+  return value === undefined || value === null ? value : redactSensitive(String(value), includeSensitive);
+}
+
+function withTenant(tenantId: string, name: string, columns: string[], rows: CsvCell[][]): TabularTable {
+  return { name, columns: ['tenant_id', ...columns], rows: rows.map((row) => [tenantId, ...row]) };
+}
+
+export function entityTable(kind: EntityKind, items: unknown[], includeSensitive: boolean, tenantId?: string): TabularTable {
+  const specs = ENTITY_COLUMNS[kind];
+  const columns = specs.map((spec) => spec.header);
+  const rows = items.map((item) =>
+    specs.map((spec) => (spec.sensitive ? redactCell(spec.value(item), includeSensitive) : spec.value(item)))
+  );
+  return tenantId === undefined ? { name: kind, columns, rows } : withTenant(tenantId, kind, columns, rows);
+}
+
+function snapshotTables(snapshot: FleetSnapshot, includeSensitive: boolean): TabularTable[] {
+  return [
+    entityTable('devices', snapshot.devices, includeSensitive, snapshot.tenantId),
+    entityTable('incidents', snapshot.incidents, includeSensitive, snapshot.tenantId),
+    entityTable('tickets', snapshot.tickets, includeSensitive, snapshot.tenantId),
+    entityTable('spaces', snapshot.spaces, includeSensitive, snapshot.tenantId)
+  ];
+}
+
+export function fleetInspectTables(result: FleetInspectResult, snapshot: FleetSnapshot, includeSensitive = false): TabularTable[] {
+  const status = (['devices', 'incidents', 'tickets', 'spaces'] as const).flatMap((category) =>
+    Object.keys(result.status[category])
+      .sort()
+      .map((value): CsvCell[] => [category, value, result.status[category][value]])
+  );
+
+  return [
+    withTenant(
+      result.tenantId,
+      'summary',
+      [
+        'generated_at_utc',
+        'devices',
+        'spaces',
+        'incidents',
+        'tickets',
+        'offline_devices',
+        'offline_pct',
+        'active_incidents',
+        'active_incident_pct',
+        'open_tickets'
+      ],
+      [
+        [
+          result.generatedAtUtc,
+          result.totals.devices,
+          result.totals.spaces,
+          result.totals.incidents,
+          result.totals.tickets,
+          result.highlights.offlineDevices,
+          result.highlights.offlinePct,
+          result.highlights.activeIncidents,
+          result.highlights.activeIncidentPct,
+          result.highlights.openTickets
+        ]
+      ]
+    ),
+    withTenant(result.tenantId, 'status', ['category', 'status', 'count'], status),
+    ...snapshotTables(snapshot, includeSensitive)
+  ];
+}
+
+export function deepDiveTables(result: DeepDiveResult, includeSensitive = false, snapshot?: FleetSnapshot): TabularTable[] {
+  const tenantId = result.tenantId;
+  const availability = result.availability;
+  const tables = [
+    withTenant(
+      tenantId,
+      'summary',
+      [
+        'generated_at_utc',
+        'window_hours',
+        'devices',
+        'offline_devices',
+        'offline_pct',
+        'incidents',
+        'active_incidents',
+        'tickets',
+        'open_tickets',
+        'churn_incidents',
+        'churn_devices',
+        'churn_spaces',
+        'status_mismatches',
+        'uptime_pct',
+        'flaps',
+        'mttr_minutes'
+      ],
+      [
+        [
+          result.generatedAtUtc,
+          result.windowHours,
+          result.totals?.devices,
+          result.totals?.offlineDevices,
+          result.totals?.offlinePct,
+          result.totals?.incidents,
+          result.totals?.activeIncidents ?? result.activeIncidentAging.length,
+          result.totals?.tickets,
+          result.ticketPosture.openTickets,
+          result.churn24h.incidents,
+          result.churn24h.devices,
+          result.churn24h.spaces,
+          result.dataQuality.statusMismatches.length,
+          availability?.devicesWithHistory ? availability.uptimePct : undefined,
+          availability?.flaps,
+          availability?.mttrMinutes
+        ]
+      ]
+    ),
+    withTenant(
+      tenantId,
+      'top_offline_spaces',
+      ['space', 'offline_devices', 'share_of_offline_pct'],
+      result.topOfflineSpaces.map((row) => [row.space, row.offlineDevices, row.shareOfOfflinePct])
+    ),
+    withTenant(
+      tenantId,
+      'top_incident_devices',
+      ['device', 'incidents', 'active_incidents'],
+      result.topIncidentDevices.map((row) => [row.device, row.incidentCount, row.activeIncidents])
+    ),
+    withTenant(
+      tenantId,
+      'active_incident_aging',
+      ['device', 'space', 'age_hours', 'created_at_utc'],
+      result.activeIncidentAging.map((row) => [row.device, row.space, row.ageHours, row.createdAtUtc])
+    ),
+    withTenant(tenantId, 'churn_by_space', ['space', 'incidents'], result.churn24h.bySpace.map((row) => [row.space, row.incidents])),
+    withTenant(tenantId, 'churn_by_device', ['device', 'incidents'], result.churn24h.byDevice.map((row) => [row.device, row.incidents])),
+    withTenant(
+      tenantId,
+      'oldest_open_tickets',
+      ['ticket_id', 'title', 'age_hours', 'device_id', 'created_at_utc'],
+      result.ticketPosture.oldestOpenTickets.map((row) => [
+        redactSensitive(row.ticketId, includeSensitive),
+        row.title,
+        row.ageHours,
+        redactSensitive(row.deviceId, includeSensitive),
+        row.createdAtUtc
+      ])
+    ),
+    withTenant(
+      tenantId,
+      'status_mismatches',
+      ['device', 'status', 'state_status', 'last_seen', 'space'],
+      result.dataQuality.statusMismatches.map((row) => [row.device, row.status, row.stateStatus, row.lastSeen, row.space])
+    ),
+    withTenant(
+      tenantId,
+      'availability_by_space',
+      ['space', 'devices', 'uptime_pct', 'flaps', 'mttr_minutes'],
+      (availability?.bySpace ?? []).map((row) => [row.space, row.devices, row.uptimePct, row.flaps, row.mttrMinutes])
+    ),
+    withTenant(
+      tenantId,
+      'availability_by_device',
+      ['device', 'space', 'uptime_pct', 'downtime_minutes', 'flaps', 'outages', 'mttr_minutes'],
+      (availability?.byDevice ?? []).map((row) => [
+        row.device,
+        row.space,
+        row.uptimePct,
+        row.downtimeMinutes,
+        row.flaps,
+        row.outages,
+        row.mttrMinutes
+      ])
+    )
+  ];
+  return snapshot ? [...tables, ...snapshotTables(snapshot, includeSensitive)] : tables;
+}
+
+function entityKindForEndpoint(endpointKey: string): EntityKind | undefined {
+  const resource = endpointKey.split('.')[1];
+  return resource && resource in ENTITY_COLUMNS ? (resource as EntityKind) : undefined;
+}
+
+/**
+ * Flattens a `call` payload into one table. Known list endpoints (devices, incidents, tickets,
+ * spaces) use the fixed entity columns; anything else gets the sorted union of top-level keys.
+ */
+export function payloadTable(endpointKey: string, data: unknown, includeSensitive = false): TabularTable {
+  const kind = entityKindForEndpoint(endpointKey);
+  const items = Array.isArray(data) ? data : extractArray(data, kind ? [kind, 'data', 'items'] : ['data', 'items']);
+  const rows = items.length === 0 && data && typeof data === 'object' && !Array.isArray(data) ? [data] : items;
+
+  if (kind) {
+    return { ...entityTable(kind, rows, includeSensitive), name: endpointKey };
+  }
+
+  const records = rows.map((row): Record<string, unknown> => (row && typeof row === 'object' ? row : { value: row }));
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))].sort();
+  return {
+    name: endpointKey,
+    columns,
+    rows: records.map((record) => columns.map((column) => text(record[column])))
+  };
+}
+
+/** Concatenates same-named tables from several tenants; every table already leads with `tenant_id`. */
+export function mergeTables(perTenant: TabularTable[][]): TabularTable[] {
+  const merged = new Map<string, TabularTable>();
+  for (const tables of perTenant) {
+    for (const table of tables) {
+      const existing = merged.get(table.name);
+      if (existing) {
+        existing.rows.push(...table.rows);
+      } else {
+        merged.set(table.name, { ...table, rows: [...table.rows] });
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+export function selectTable(tables: TabularTable[], name: string): TabularTable {
+  const table = tables.find((item) => item.name === name);
+  if (!table) {
+    throw new Error(`Unknown table: ${name}. Use one of: ${tables.map((item) => item.name).join(', ')}.`);
+  }
+  return table;
+}
+
+export function formatTableCsv(table: TabularTable): string {
+  return formatCsv(table.columns, table.rows);
+}
+
+export function writeTableBundle(tables: TabularTable[], outPath: string): { outputPath: string; files: string[] } {
+  const entries = tables.map((table) => ({ name: `${table.name}.csv`, content: formatTableCsv(table) }));
+  const outputPath = resolve(outPath);
+  writeFileSync(outputPath, createZip(entries));
+  return { outputPath, files: entries.map((entry) => entry.name) };
+}
@@ -0,0 +1,217 @@
+import { spawn } from 'node:child_process';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import type { ConnectivityResult } from '../config/connectivity';
+import { WATCH_EVENT_SCHEMA_VERSION } from '../contracts/versions';
+import { loadDevicesData, loadIncidentsData, loadTicketsData, type LoadOutcome } from '../tui/data-loaders';
+import type { XyteClient } from '../types/client';
+import type { FleetSnapshot } from './fleet-insights';
+import { diffFleetSnapshots } from './fleet-snapshots';
+
+export type WatchCollection = 'devices' | 'incidents' | 'tickets';
+
+export type WatchEventType =
+  | 'watch.baseline'
+  | 'watch.degraded'
+  | 'watch.recovered'
+  | 'device.offline'
+  | 'device.online'
+  | 'device.added'
+  | 'device.removed'
+  | 'device.moved'
+  | 'incident.opened'
+  | 'incident.closed'
+  | 'ticket.opened'
+  | 'ticket.resolved';
+
+export interface WatchEvent {
+  schemaVersion: typeof WATCH_EVENT_SCHEMA_VERSION;
+  type: WatchEventType;
+  tenantId: string;
+  observedAtUtc: string;
+  poll: number;
+  subject: Record<string, unknown>;
+}
+
+export interface WatchOptions {
+  client: XyteClient;
+  tenantId: string;
+  intervalMs: number;
+  maxPolls?: number;
+  signal?: AbortSignal;
+  onEvent: (event: WatchEvent) => void | Promise<void>;
+}
+
+export const DEFAULT_WATCH_INTERVAL_MS = 60_000;
+export const MIN_WATCH_INTERVAL_MS = 1_000;
+
+export function parseIntervalMs(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h)?$/i);
+  if (!match) {
+    throw new Error(`Invalid interval: ${value}. Use e.g. 30s, 5m or 1h.`);
+  }
+  const unit = (match[2] ?? 's').toLowerCase();
+  const factor = unit === 'ms' ? 1 : unit === 's' ? 1_000 : unit === 'm' ? 60_000 : 3_600_000;
+  const intervalMs = Math.round(Number(match[1]) * factor);
+  if (intervalMs < MIN_WATCH_INTERVAL_MS) {
+    throw new Error(`Invalid interval: ${value}. Minimum is ${MIN_WATCH_INTERVAL_MS / 1000}s.`);
+  }
+  return intervalMs;
+}
+
+function diffEvents(previous: FleetSnapshot, next: FleetSnapshot): Array<{ type: WatchEventType; subject: object }> {
+  const diff = diffFleetSnapshots(previous, next);
+  return [
+    ...diff.devices.wentOffline.map((subject) => ({ type: 'device.offline' as const, subject })),
+    ...diff.devices.cameOnline.map((subject) => ({ type: 'device.online' as const, subject })),
+    ...diff.devices.added.map((subject) => ({ type: 'device.added' as const, subject })),
+    ...diff.devices.removed.map((subject) => ({ type: 'device.removed' as const, subject })),
+    ...diff.devices.moved.map((subject) => ({ type: 'device.moved' as const, subject })),
+    ...diff.incidents.new.map((subject) => ({ type: 'incident.opened' as const, subject })),
+    ...diff.incidents.closed.map((subject) => ({ type: 'incident.closed' as const, subject })),
+    ...diff.tickets.opened.map((subject) => ({ type: 'ticket.opened' as const, subject })),
+    ...diff.tickets.resolved.map((subject) => ({ type: 'ticket.resolved' as const, subject }))
+  ];
+}
+
+export async function runWatch(options: WatchOptions): Promise<{ polls: number; events: number }> {
+  const { client, tenantId, signal } = options;
+  const failing = new Map<WatchCollection, ConnectivityResult>();
+  let baseline: FleetSnapshot | undefined;
+  let polls = 0;
+  let events = 0;
+
+  const emit = async (poll: number, type: WatchEventType, subject: object) => {
+    events += 1;
+    await options.onEvent({
+      schemaVersion: WATCH_EVENT_SCHEMA_VERSION,
+      type,
+      tenantId,
+      observedAtUtc: new Date().toISOString(),
+      poll,
+      subject: subject as Record<string, unknown>
+    });
+  };
+
+  while (!signal?.aborted && (options.maxPolls === undefined || polls < options.maxPolls)) {
+    polls += 1;
+    const [devices, incidents, tickets] = await Promise.all([
+      loadDevicesData(client, tenantId),
+      loadIncidentsData(client, tenantId),
+      loadTicketsData(client, tenantId)
+    ]);
+    const outcomes: Record<WatchCollection, LoadOutcome<any[]>> = {
+      devices,
+      incidents,
+      tickets: { ...tickets, data: tickets.data.tickets }
+    };
+
+    // A collection that failed to load keeps its previous contents, so outages never read as removals or closures.
+    const next: FleetSnapshot = {
+      generatedAtUtc: new Date().toISOString(),
+      tenantId,
+      devices: baseline?.devices ?? [],
+      spaces: [],
+      incidents: baseline?.incidents ?? [],
+      tickets: baseline?.tickets ?? []
+    };
+    let fatal: ConnectivityResult | undefined;
+    for (const collection of ['devices', 'incidents', 'tickets'] as const) {
+      const outcome = outcomes[collection];
+      if (outcome.connectionState === 'connected') {
+        next[collection] = outcome.data;
+        if (failing.delete(collection)) {
+          await emit(polls, 'watch.recovered', { collection });
+        }
+        continue;
+      }
+      if (!failing.has(collection) && outcome.error) {
+        failing.set(collection, outcome.error);
+        await emit(polls, 'watch.degraded', { collection, ...outcome.error });
+      }
+      if (outcome.error && !outcome.error.retriable) {
+        fatal = outcome.error;
+      }
+    }
+    if (fatal) {
+      throw new Error(`Watch stopped: ${fatal.message}`);
+    }
+
+    if (!baseline) {
+      if (failing.size === 0) {
+        baseline = next;
+        await emit(polls, 'watch.baseline', {
+          devices: next.devices.length,
+          incidents: next.incidents.length,
+          tickets: next.tickets.length
+        });
+      }
+    } else {
+      for (const change of diffEvents(baseline, next)) {
+        await emit(polls, change.type, change.subject);
+      }
+      baseline = next;
+    }
+
+    if (options.maxPolls !== undefined && polls >= options.maxPolls) {
+      break;
+    }
+    await delay(options.intervalMs, undefined, { signal }).catch(() => undefined);
+  }
+
+  return { polls, events };
+}
+
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export async function postWebhook(url: string, event: WatchEvent, timeoutMs = WEBHOOK_TIMEOUT_MS): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(event),
+    signal: AbortSignal.timeout(timeoutMs)
+  }).catch((error: unknown) => {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Webhook ${url} did not respond within ${timeoutMs}ms.`);
+    }
+    throw error;
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook ${url} responded with ${response.status}.`);
+  }
+}
+
+export const HOOK_TIMEOUT_MS = 30_000;
+
+export function runCommandHook(command: string, event: WatchEvent, timeoutMs = HOOK_TIMEOUT_MS): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'inherit'],
+      env: { ...process.env, XYTE_WATCH_EVENT_TYPE: event.type, XYTE_WATCH_TENANT_ID: event.tenantId }
+    });
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    // A hung hook would hold up every later event on the delivery chain and keep --max-polls from exiting.
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      settle(new Error(`Hook command did not finish within ${timeoutMs}ms.`));
+    }, timeoutMs);
+    child.on('error', settle);
+    child.on('close', (code) => settle(code === 0 ? undefined : new Error(`Hook command exited with code ${code}.`)));
+    // A hook that exits without reading stdin makes this write fail with EPIPE.
+    child.stdin.on('error', (error) => settle(new Error(`Hook command did not accept the event: ${error.message}`)));
+    child.stdin.end(`${JSON.stringify(event)}\n`);
+  });
+}
@@ -1,11 +1,15 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import { createXyteClient } from '../src/client/create-client';
 import { MemoryKeychain } from '../src/secure/keychain';
-import { XyteAuthError } from '../src/http/errors';
+import { XyteAuthError, XyteValidationError } from '../src/http/errors';
 import { MemoryProfileStore } from './support/memory-profile-store';
 
 describe('client auth behavior', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
   it('injects organization auth header from tenant keychain', async () => {
     const profileStore = new MemoryProfileStore();
     await profileStore.upsertTenant({ id: 'acme' });
@@ -110,4 +114,117 @@ describe('client auth behavior', () => {
 
     expect(transport.request.mock.calls[0][0].headers.Authorization).toBe('org-key-b');
   });
+
+  it('rejects invalid request bodies before sending with a field path', async () => {
+    const transport = {
+      request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { ok: true } })
+    } as any;
+
+    const client = createXyteClient({ profileStore: new MemoryProfileStore(), transport, auth: { organization: 'org-key' } });
+    const pending = client.call('organization.commands.sendCommand', {
+      path: { device_id: 'dev-1' },
+      body: { name: 'reboot', extra_params: 'force' }
+    });
+
+    await expect(pending).rejects.toBeInstanceOf(XyteValidationError);
+    await expect(pending).rejects.toMatchObject({ field: 'body.extra_params' });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('returns a redacted request preview for dry runs without calling the transport', async () => {
+    const transport = {
+      request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { ok: true } })
+    } as any;
+
+    const client = createXyteClient({ profileStore: new MemoryProfileStore(), transport, auth: { organization: 'org-key' } });
+    const result = await client.callWithMeta('organization.devices.updateDevice', {
+      path: { device_id: 'dev 1' },
+      body: { name: 'Lobby' },
+      dryRun: true
+    });
+
+    expect(transport.request).not.toHaveBeenCalled();
+    expect(result.data).toBeUndefined();
+    expect(result.dryRun).toEqual({
+      method: 'PATCH',
+      url: 'https://hub.xyte.io/core/v1/organization/devices/dev%201',
+      headers: {
+        Accept: 'application/json',
+        Authorization: '[REDACTED]',
+        'Content-Type': 'application/json'
+      },
+      body: '{"name":"Lobby"}'
+    });
+  });
+
+  it('prefers provider env keys over the keychain and needs no tenant', async () => {
+    vi.stubEnv('XYTE_CLI_ORG_KEY', 'org-env-key');
+    const keychain = new MemoryKeychain();
+    const getSlotSecret = vi.spyOn(keychain, 'getSlotSecret');
+    const transport = {
+      request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { ok: true } })
+    } as any;
+
+    const client = createXyteClient({ profileStore: new MemoryProfileStore(), keychain, transport });
+    await client.organization.getDevices();
+
+    expect(transport.request.mock.calls[0][0].headers.Authorization).toBe('org-env-key');
+    expect(getSlotSecret).not.toHaveBeenCalled();
+  });
+
+  it('prefers tenant-scoped env keys and ignores unscoped ones in multi-tenant runs', async () => {
+    vi.stubEnv('XYTE_CLI_ORG_KEY', 'org-env-key');
+    vi.stubEnv('XYTE_CLI_ORG_KEY_ACME_EU', 'acme-env-key');
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme-eu' });
+    await profileStore.upsertTenant({ id: 'globex' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('globex', 'xyte-org', 'globex-keychain-key');
+    const transport = {
+      request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { ok: true } })
+    } as any;
+
+    await createXyteClient({ profileStore, keychain, transport, tenantId: 'acme-eu', fanOut: true }).organization.getDevices();
+    await createXyteClient({ profileStore, keychain, transport, tenantId: 'globex', fanOut: true }).organization.getDevices();
+    await createXyteClient({ profileStore, keychain, transport, tenantId: 'globex' }).organization.getDevices();
+
+    expect(transport.request.mock.calls.map((call: any[]) => call[0].headers.Authorization)).toEqual([
+      'acme-env-key',
+      'globex-keychain-key',
+      'org-env-key'
+    ]);
+  });
+
+  it('resolves keys from a tenant credential_process once per client', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({
+      id: 'acme',
+      credentialProcess: `node -e "process.stdout.write(JSON.stringify({ [process.env.XYTE_PROVIDER]: 'proc-' + process.env.XYTE_TENANT_ID }))"`
+    });
+    await profileStore.setActiveTenant('acme');
+    const transport = {
+      request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { ok: true } })
+    } as any;
+    const keychain = new MemoryKeychain();
+    const getSlotSecret = vi.spyOn(keychain, 'getSlotSecret');
+
+    const client = createXyteClient({ profileStore, keychain, transport });
+    await client.organization.getDevices();
+    await client.organization.getDevices();
+
+    expect(transport.request.mock.calls[0][0].headers.Authorization).toBe('proc-acme');
+    expect(transport.request.mock.calls[1][0].headers.Authorization).toBe('proc-acme');
+    expect(getSlotSecret).not.toHaveBeenCalled();
+  });
+
+  it('surfaces a failing credential_process as an auth error', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme', credentialProcess: 'node -e "process.exit(3)"' });
+    await profileStore.setActiveTenant('acme');
+    const transport = { request: vi.fn() } as any;
+
+    const client = createXyteClient({ profileStore, keychain: new MemoryKeychain(), transport });
+    await expect(client.organization.getDevices()).rejects.toBeInstanceOf(XyteAuthError);
+    expect(transport.request).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { parseBatchOperations, runBatch } from '../src/workflows/batch';
+
+describe('batch workflow', () => {
+  it('rejects malformed lines with their line number', () => {
+    expect(() => parseBatchOperations('{"endpointKey":"organization.devices.getDevices"}\n\n{oops')).toThrow(
+      'Invalid batch line 3'
+    );
+    expect(() => parseBatchOperations('{"endpointKey":"organization.nope"}')).toThrow('unknown endpoint key');
+    expect(() =>
+      parseBatchOperations('{"endpointKey":"organization.devices.deleteDevice","path":{"device_id":"d1"},"confirm":"organization.devices.deleteDevice"}')
+    ).toThrow('--confirm <endpointKey>');
+    expect(() => parseBatchOperations('{"endpointKey":"organization.devices.getDevice","path":{"device_id":true}}')).toThrow(
+      'Invalid batch line 1: path.device_id'
+    );
+  });
+
+  it('emits envelopes in file order under concurrency and applies guards per line', async () => {
+    const lines = parseBatchOperations(
+      [
+        '# warm-up read',
+        '{"endpointKey":"organization.devices.getDevice","path":{"device_id":"slow"}}',
+        '{"endpointKey":"organization.devices.getDevice","path":{"device_id":"fast"}}',
+        '{"endpointKey":"organization.devices.deleteDevice","path":{"device_id":"d9"}}'
+      ].join('\n')
+    );
+
+    const client = {
+      callWithMeta: vi.fn(async (_key: string, args: { path: { device_id: string } }) => {
+        await new Promise((resolve) => setTimeout(resolve, args.path.device_id === 'slow' ? 20 : 1));
+        return { status: 200, headers: {}, data: { id: args.path.device_id }, durationMs: 1, retryCount: 0, attempts: 1 };
+      })
+    } as any;
+
+    const emitted: number[] = [];
+    const summary = await runBatch({
+      client,
+      lines,
+      concurrency: 3,
+      allowWrite: true,
+      onResult: (result) => emitted.push(result.line)
+    });
+
+    expect(emitted).toEqual([2, 3, 4]);
+    expect(client.callWithMeta).toHaveBeenCalledTimes(2);
+    expect(summary).toMatchObject({ total: 3, succeeded: 2, failed: 1, concurrency: 3 });
+    expect(summary.failures[0]).toMatchObject({ line: 4, endpointKey: 'organization.devices.deleteDevice' });
+    expect(summary.failures[0].detail).toContain('--confirm organization.devices.deleteDevice');
+
+    const confirmed = await runBatch({ client, lines, allowWrite: true, confirm: ['organization.devices.deleteDevice'] });
+    expect(confirmed.failed).toBe(0);
+  });
+});
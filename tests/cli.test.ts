@@ -325,6 +325,270 @@ describe('cli integration', () => {
     expect(parsed.response.status).toBe(200);
   });
 
+  it('streams every page as ndjson with --all-pages', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    await profileStore.setActiveTenant('acme');
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get('page'));
+        const spaces = page === 1 ? [{ id: 's1' }, { id: 's2' }] : [{ id: 's3' }];
+        return new Response(JSON.stringify({ spaces }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' }
+        });
+      })
+    );
+
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'call',
+      'organization.spaces.getSpaces',
+      '--tenant',
+      'acme',
+      '--query-json',
+      '{"per_page":2}',
+      '--all-pages'
+    ]);
+
+    const lines = stdout.write.mock.calls.map((call) => String(call[0])).join('').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['s1', 's2', 's3']);
+
+    stdout.write.mockClear();
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'call',
+      'organization.spaces.getSpaces',
+      '--tenant',
+      'acme',
+      '--query-json',
+      '{"per_page":2}',
+      '--all-pages',
+      '--output-mode',
+      'envelope'
+    ]);
+
+    const envelope = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(envelope.response.data).toHaveLength(3);
+    expect(envelope.response.pagination).toEqual({ pages: 2, items: 3, perPage: 2, truncated: false });
+  });
+
+  it('prints a simulated envelope for --dry-run without sending or requiring --allow-write', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    await profileStore.setActiveTenant('acme');
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'call',
+      'organization.devices.updateDevice',
+      '--tenant',
+      'acme',
+      '--path-json',
+      '{"device_id":"d1"}',
+      '--body-json',
+      '{"name":"Lobby"}',
+      '--dry-run',
+      '--output-mode',
+      'envelope'
+    ]);
+
+    const envelope = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(envelope.response.simulated).toBe(true);
+    expect(envelope.response.data).toMatchObject({
+      method: 'PATCH',
+      url: 'https://hub.xyte.io/core/v1/organization/devices/d1',
+      body: '{"name":"Lobby"}'
+    });
+    expect(envelope.response.data.headers.Authorization).toBe('[REDACTED]');
+  });
+
+  it('runs a batch file with one envelope per line plus a summary', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    await profileStore.setActiveTenant('acme');
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ ok: true }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const dir = mkdtempSync(join(tmpdir(), 'xyte-batch-'));
+    const file = join(dir, 'ops.jsonl');
+    writeFileSync(
+      file,
+      [
+        '{"endpointKey":"organization.devices.updateDevice","path":{"device_id":"d1"},"body":{"name":"Lobby"}}',
+        '{"endpointKey":"organization.devices.updateDevice","path":{"device_id":"d2"},"body":{"name":"Hall"}}'
+      ].join('\n')
+    );
+
+    await program.parseAsync(['node', 'xyte-cli', 'batch', 'run', '--file', file, '--tenant', 'acme', '--concurrency', '2']);
+
+    const blocked = stdout.write.mock.calls.map((call) => String(call[0])).join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(blocked).toHaveLength(3);
+    expect(blocked[0].error.detail).toContain('--allow-write');
+    expect(blocked[2]).toMatchObject({ schemaVersion: 'xyte.batch.summary.v1', total: 2, failed: 2 });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = undefined;
+
+    stdout.write.mockClear();
+    await program.parseAsync(['node', 'xyte-cli', 'batch', 'run', '--file', file, '--tenant', 'acme', '--allow-write']);
+
+    const lines = stdout.write.mock.calls.map((call) => String(call[0])).join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.slice(0, 2).map((line) => line.request.path.device_id)).toEqual(['d1', 'd2']);
+    expect(lines[0].response.status).toBe(200);
+    expect(lines[2]).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends a device command and waits for it to finish', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const body = init?.method === 'POST' ? { id: 'cmd-9', name: 'reboot', status: 'pending' } : { commands: [{ id: 'cmd-9', status: 'done' }] };
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      program.parseAsync(['node', 'xyte-cli', 'device', 'command', 'send', 'dev-1', 'reboot', '--tenant', 'acme'])
+    ).rejects.toThrow('--allow-write');
+
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'device',
+      'command',
+      'send',
+      'dev-1',
+      'reboot',
+      '--tenant',
+      'acme',
+      '--params',
+      '{"delay":5}',
+      '--allow-write',
+      '--wait'
+    ]);
+    const result = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(result).toMatchObject({ schemaVersion: 'xyte.device.command.v1', commandId: 'cmd-9', outcome: 'succeeded', polls: 1 });
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body))).toEqual({ name: 'reboot', extra_params: { delay: 5 } });
+    expect(String(fetchMock.mock.calls[1][0])).toContain('/devices/dev-1/commands');
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('previews a device broadcast and sends only with a matching confirm count', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      const body =
+        init?.method === 'POST'
+          ? { id: `cmd-${url.split('/devices/')[1].split('/')[0]}`, status: 'pending' }
+          : url.includes('/spaces')
+            ? { spaces: [{ id: 'hq', full_path: 'HQ' }, { id: 'f1', full_path: 'HQ/Floor 1', parent_id: 'hq' }] }
+            : {
+                devices: [
+                  { id: 'd1', name: 'A', status: 'online', space_id: 'f1' },
+                  { id: 'd2', name: 'B', status: 'offline', space_id: 'f1' },
+                  { id: 'd3', name: 'C', status: 'online', space_id: 'elsewhere' }
+                ]
+              };
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const base = ['node', 'xyte-cli', 'device', 'command', 'broadcast', '--tenant', 'acme', '--space', 'HQ', '--filter', 'status=online', '--command', 'reboot'];
+
+    await program.parseAsync(base);
+    const preview = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(preview).toMatchObject({ schemaVersion: 'xyte.device.broadcast.v1', preview: true, total: 1, targets: [{ deviceId: 'd1' }] });
+    expect(fetchMock.mock.calls.some(([, init]) => init?.method === 'POST')).toBe(false);
+
+    await expect(program.parseAsync([...base, '--allow-write', '--confirm', '3'])).rejects.toThrow('Resolved 1 device(s), got --confirm 3');
+
+    stdout.write.mockClear();
+    await program.parseAsync([...base, '--allow-write', '--confirm', '1']);
+    const sent = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(sent).toMatchObject({ preview: false, succeeded: 1, failed: 0, results: [{ deviceId: 'd1', ok: true, commandId: 'cmd-d1' }] });
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('diffs a device config against a yaml file and applies only the changed keys', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-device', 'device-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+    const dir = mkdtempSync(join(tmpdir(), 'xyte-device-config-cli-'));
+    const file = join(dir, 'desired.yaml');
+    writeFileSync(file, 'input: hdmi2\nvolume: 30\n');
+
+    let config: Record<string, unknown> = { input: 'hdmi1', volume: 30, eco: true };
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.method === 'POST') {
+        config = { ...config, ...JSON.parse(String(init.body)) };
+        return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { 'content-type': 'application/json' } });
+      }
+      return new Response(JSON.stringify(config), { status: 200, headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await program.parseAsync(['node', 'xyte-cli', 'device', 'config', 'diff', 'dev-1', '--tenant', 'acme', '--file', file, '--format', 'ascii']);
+    expect(stdout.write.mock.calls.map((call) => String(call[0])).join('')).toContain('~ input: "hdmi1" -> "hdmi2"');
+
+    await expect(
+      program.parseAsync(['node', 'xyte-cli', 'device', 'config', 'apply', 'dev-1', '--tenant', 'acme', '--file', file])
+    ).rejects.toThrow('--allow-write');
+
+    stdout.write.mockClear();
+    await program.parseAsync(['node', 'xyte-cli', 'device', 'config', 'apply', 'dev-1', '--tenant', 'acme', '--file', file, '--allow-write']);
+    const envelope = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(envelope.endpointKey).toBe('device.configuration.setConfig');
+    expect(envelope.request.body).toEqual({ input: 'hdmi2' });
+    expect(envelope.change).toEqual({ before: { input: 'hdmi1', volume: 30, eco: true }, after: { input: 'hdmi2', volume: 30, eco: true } });
+    expect(String(fetchMock.mock.calls.find(([, init]) => init?.method === 'POST')?.[0])).toContain('/v1/devices/dev-1/config');
+  });
+
   it('runs inspect fleet with deterministic json output', async () => {
     const profileStore = new MemoryProfileStore();
     await profileStore.upsertTenant({ id: 'acme' });
@@ -376,6 +640,73 @@ describe('cli integration', () => {
     expect(parsed.tenantId).toBe('acme');
   });
 
+  it('fans a call out across tenants and tolerates a tenant without credentials', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    await profileStore.upsertTenant({ id: 'globex' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ devices: [{ id: 'd1' }] }), { status: 200, headers: { 'content-type': 'application/json' } }))
+    );
+
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'call',
+      'organization.devices.getDevices',
+      '--all-tenants',
+      '--output-mode',
+      'envelope'
+    ]);
+
+    const lines = stdout.write.mock.calls.map((call) => String(call[0])).join('').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.tenantId)).toEqual(['acme', 'globex']);
+    expect(lines[0].response.data).toEqual({ devices: [{ id: 'd1' }] });
+    expect(lines[1].error.status).toBe(401);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('exports call payloads and inspect tables as csv or zip', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const body = url.includes('/devices')
+          ? { devices: [{ id: 'device-0001', name: 'Codec', status: 'online', sn: 'SN-1' }] }
+          : { items: [] };
+        return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+      })
+    );
+
+    await program.parseAsync(['node', 'xyte-cli', 'call', 'organization.devices.getDevices', '--tenant', 'acme', '--format', 'csv']);
+    const csv = stdout.write.mock.calls.map((call) => String(call[0])).join('');
+    expect(csv.split('\r\n').slice(0, 2)).toEqual([
+      'id,name,status,space,model,serial_number,mac,last_seen_at',
+      'devi...0001,Codec,online,,,***,,'
+    ]);
+
+    const out = join(mkdtempSync(join(tmpdir(), 'xyte-tabular-cli-')), 'fleet.zip');
+    stdout.write.mockClear();
+    await program.parseAsync(['node', 'xyte-cli', 'inspect', 'fleet', '--tenant', 'acme', '--format', 'zip', '--out', out]);
+    const written = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(written.outputPath).toBe(out);
+    expect(written.files).toEqual(['summary.csv', 'status.csv', 'devices.csv', 'incidents.csv', 'tickets.csv', 'spaces.csv']);
+    expect(readFileSync(out).readUInt32LE(0)).toBe(0x04034b50);
+  });
+
   it('generates markdown report from deep-dive input', async () => {
     const profileStore = new MemoryProfileStore();
     const keychain = new MemoryKeychain();
@@ -416,6 +747,125 @@ describe('cli integration', () => {
     expect(reportText).toContain('## Summary');
   });
 
+  it('inspects config drift against a baseline and attaches it to a report', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    await keychain.setSecret('acme', 'xyte-device', 'device-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+    const tmpRoot = mkdtempSync(join(tmpdir(), 'xyte-config-drift-cli-'));
+    const baselinePath = join(tmpRoot, 'baseline.json');
+    writeFileSync(baselinePath, JSON.stringify({ input: 'hdmi1' }), 'utf8');
+
+    const configs: Record<string, unknown> = { d1: { input: 'hdmi1' }, d2: { input: 'hdmi2' } };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const configMatch = /\/devices\/([^/]+)\/config/.exec(url);
+        const body = configMatch
+          ? configs[configMatch[1]]
+          : url.includes('/spaces')
+            ? { spaces: [{ id: 'hq', full_path: 'HQ' }] }
+            : { devices: [{ id: 'd1', name: 'A', space_id: 'hq' }, { id: 'd2', name: 'B', space_id: 'hq' }, { id: 'd3', name: 'C', space_id: 'other' }] };
+        return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+      })
+    );
+
+    await program.parseAsync(['node', 'xyte-cli', 'inspect', 'config-drift', '--tenant', 'acme', '--space', 'HQ', '--baseline', baselinePath]);
+    const drift = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(drift).toMatchObject({
+      schemaVersion: 'xyte.inspect.config-drift.v1',
+      reference: 'baseline',
+      totals: { devices: 2, read: 2, groups: 2, driftedDevices: 1, driftedKeys: 1 }
+    });
+
+    const driftPath = join(tmpRoot, 'drift.json');
+    const inputPath = join(tmpRoot, 'deep-dive.json');
+    const outPath = join(tmpRoot, 'report.md');
+    writeFileSync(driftPath, JSON.stringify(drift), 'utf8');
+    writeFileSync(
+      inputPath,
+      JSON.stringify(buildDeepDive({ generatedAtUtc: new Date().toISOString(), tenantId: 'acme', devices: [], spaces: [], incidents: [], tickets: [] })),
+      'utf8'
+    );
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'report',
+      'generate',
+      '--tenant',
+      'acme',
+      '--input',
+      inputPath,
+      '--out',
+      outPath,
+      '--format',
+      'markdown',
+      '--attach',
+      driftPath
+    ]);
+    expect(readFileSync(outPath, 'utf8')).toContain('## Xyte Configuration Drift');
+
+    await expect(
+      program.parseAsync(['node', 'xyte-cli', 'report', 'generate', '--tenant', 'acme', '--input', inputPath, '--out', outPath, '--attach', inputPath])
+    ).rejects.toThrow('inspect config-drift --format json');
+  });
+
+  it('prints the space tree with rollups and moves a space only with --allow-write', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const keychain = new MemoryKeychain();
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore, keychain, stdout, stderr });
+
+    let spaces = [
+      { id: 'hq', name: 'HQ', full_path: 'HQ', parent_id: null },
+      { id: 'f2', name: 'Floor 2', full_path: 'HQ/Floor 2', parent_id: 'hq' },
+      { id: 'branch', name: 'Branch', full_path: 'Branch', parent_id: null }
+    ];
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (init?.method === 'PUT') {
+        const parentId = JSON.parse(String(init.body)).parent_id;
+        spaces = spaces.map((space) => (space.id === 'f2' ? { ...space, parent_id: parentId, full_path: 'Branch/Floor 2' } : space));
+      }
+      const body = /\/spaces\/f2$/.test(url)
+        ? spaces[1]
+        : url.includes('/spaces')
+          ? { spaces }
+          : url.includes('/incidents')
+            ? { incidents: [{ id: 'i1', status: 'active', device_id: 'd1' }] }
+            : { devices: [{ id: 'd1', status: 'offline', space_id: 'f2' }, { id: 'd2', status: 'online', space_id: 'hq' }] };
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await program.parseAsync(['node', 'xyte-cli', 'space', 'tree', '--tenant', 'acme', '--format', 'ascii']);
+    expect(stdout.write.mock.calls.map((call) => String(call[0])).join('').split('\n')).toEqual([
+      'Space Tree (acme): 3 spaces, 2 devices, 1 offline, 1 incident',
+      'Branch  [0 devices]',
+      'HQ  [2 devices, 1 offline, 1 incident]',
+      '`-- Floor 2  [1 device, 1 offline, 1 incident]',
+      ''
+    ]);
+
+    await expect(program.parseAsync(['node', 'xyte-cli', 'space', 'move', 'HQ/Floor 2', '--to', 'Branch', '--tenant', 'acme'])).rejects.toThrow(
+      '--allow-write'
+    );
+
+    stdout.write.mockClear();
+    await program.parseAsync(['node', 'xyte-cli', 'space', 'move', 'HQ/Floor 2', '--to', 'Branch', '--tenant', 'acme', '--allow-write']);
+    const envelope = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(envelope.endpointKey).toBe('organization.spaces.updateSpace');
+    expect(envelope.request.body).toEqual({ parent_id: 'branch' });
+    expect(envelope.change).toEqual({ before: { parent_id: 'hq', path: 'HQ/Floor 2' }, after: { parent_id: 'branch', path: 'Branch/Floor 2' } });
+    expect(String(fetchMock.mock.calls.find(([, init]) => init?.method === 'PUT')?.[0])).toContain('/organization/spaces/f2');
+  });
+
   it('defaults report generation to branded pdf output', async () => {
     const profileStore = new MemoryProfileStore();
     const keychain = new MemoryKeychain();
@@ -459,6 +909,47 @@ describe('cli integration', () => {
     expect(reportBytes.byteLength).toBeGreaterThan(500);
   });
 
+  it('builds a portfolio report from single and multi-tenant deep-dive inputs', async () => {
+    const stdout = { write: vi.fn() };
+    const stderr = { write: vi.fn() };
+    const program = createCli({ profileStore: new MemoryProfileStore(), keychain: new MemoryKeychain(), stdout, stderr });
+    const tmpRoot = mkdtempSync(join(tmpdir(), 'xyte-portfolio-cli-test-'));
+    const deepDiveFor = (tenantId: string, status: string) =>
+      buildDeepDive({
+        generatedAtUtc: new Date().toISOString(),
+        tenantId,
+        devices: [{ id: 'd1', name: 'Device 1', status }],
+        spaces: [],
+        incidents: [],
+        tickets: []
+      });
+    writeFileSync(join(tmpRoot, 'acme.json'), JSON.stringify(deepDiveFor('acme', 'online')), 'utf8');
+    writeFileSync(
+      join(tmpRoot, 'msp.json'),
+      JSON.stringify({ schemaVersion: 'xyte.inspect.deep-dive.multi.v1', windowHours: 24, tenants: [deepDiveFor('globex', 'offline')], failures: [] }),
+      'utf8'
+    );
+
+    await program.parseAsync([
+      'node',
+      'xyte-cli',
+      'report',
+      'portfolio',
+      '--input',
+      join(tmpRoot, 'acme.json'),
+      '--input',
+      join(tmpRoot, 'msp.json'),
+      '--format',
+      'markdown',
+      '--out',
+      join(tmpRoot, 'portfolio.md')
+    ]);
+
+    const result = JSON.parse(stdout.write.mock.calls.map((call) => String(call[0])).join(''));
+    expect(result.tenantIds).toEqual(['globex', 'acme']);
+    expect(readFileSync(join(tmpRoot, 'portfolio.md'), 'utf8')).toContain('## Tenant Ranking');
+  });
+
   it('runs simplified setup in non-interactive mode with only tenant+key', async () => {
     const profileStore = new MemoryProfileStore();
     const keychain = new MemoryKeychain();
@@ -727,4 +1218,17 @@ describe('cli integration', () => {
     expect(authCommand?.commands.map((command) => command.name())).not.toContain('set-key');
     expect(authCommand?.commands.map((command) => command.name())).not.toContain('clear-key');
   });
+
+  it('rejects a non-numeric mock --retry-after before starting the server', async () => {
+    const program = createCli({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      stdout: { write: vi.fn() },
+      stderr: { write: vi.fn() }
+    });
+
+    await expect(program.parseAsync(['node', 'xyte-cli', 'mock', 'serve', '--port', '0', '--retry-after', 'soon'])).rejects.toThrow(
+      'Invalid --retry-after: soon. Expected a positive integer.'
+    );
+  });
 });
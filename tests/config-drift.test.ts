@@ -0,0 +1,133 @@
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { buildConfigDrift, collectConfigDrift, configFingerprint, formatConfigDriftMarkdown } from '../src/workflows/config-drift';
+import { buildDeepDive, generateFleetReport } from '../src/workflows/fleet-insights';
+
+const spaces = [
+  { id: 'hq', full_path: 'HQ', parent_id: null },
+  { id: 'f2', full_path: 'HQ/Floor 2', parent_id: 'hq' },
+  { id: 'branch', full_path: 'Branch', parent_id: null }
+];
+
+const devices = [
+  { id: 'd1', name: 'Room 201 display', space_id: 'f2' },
+  { id: 'd2', name: 'Room 202 display', space_id: 'f2' },
+  { id: 'd3', name: 'Lobby display', space_id: 'hq' },
+  { id: 'd4', name: 'Broken display', space_id: 'hq' },
+  { id: 'd5', name: 'Branch display', space_id: 'branch' }
+];
+
+const configs: Record<string, Record<string, unknown>> = {
+  d1: { input: 'hdmi1', display: { brightness: 60 }, eco: true },
+  d2: { eco: true, display: { brightness: 60 }, input: 'hdmi1' },
+  d3: { input: 'hdmi2', display: { brightness: 80 } },
+  d5: { input: 'hdmi1', display: { brightness: 60 }, eco: true }
+};
+
+function fakeClient() {
+  return {
+    paginate: vi.fn(async function* (endpointKey: string) {
+      yield { items: endpointKey.includes('spaces') ? spaces : devices } as any;
+    }),
+    device: {
+      getConfig: vi.fn(async ({ path }: any) => {
+        if (!configs[path.device_id]) {
+          throw new Error(`device ${path.device_id} is unreachable`);
+        }
+        return configs[path.device_id];
+      })
+    },
+    partner: { getConfiguration: vi.fn(async () => Promise.reject(new Error('no partner key'))) }
+  };
+}
+
+describe('config drift', () => {
+  it('fingerprints configs independently of key order', () => {
+    expect(configFingerprint(configs.d1)).toBe(configFingerprint(configs.d2));
+    expect(configFingerprint(configs.d1)).not.toBe(configFingerprint(configs.d3));
+  });
+
+  it('groups devices in a space and reports keys that drift from the majority', async () => {
+    const client = fakeClient();
+    const result = await collectConfigDrift({ client: client as any, tenantId: 'acme', space: 'HQ' });
+
+    expect(result.reference).toBe('majority');
+    expect(result.totals).toEqual({ devices: 4, read: 3, failed: 1, groups: 2, driftedDevices: 1, driftedKeys: 3 });
+    expect(result.groups.map((group) => [group.devices, group.majority, group.deviceIds])).toEqual([
+      [2, true, ['d1', 'd2']],
+      [1, false, ['d3']]
+    ]);
+    expect(result.keys.find((key) => key.path === 'input')).toEqual({
+      path: 'input',
+      expected: { missing: false, value: 'hdmi1' },
+      deviating: 1,
+      values: [
+        { missing: false, value: 'hdmi1', devices: 2, deviceIds: ['d1', 'd2'] },
+        { missing: false, value: 'hdmi2', devices: 1, deviceIds: ['d3'] }
+      ]
+    });
+    expect(result.keys.find((key) => key.path === 'eco')?.values[1]).toEqual({ missing: true, devices: 1, deviceIds: ['d3'] });
+    expect(result.devices[0]).toMatchObject({ deviceId: 'd3', driftedKeys: ['display.brightness', 'eco', 'input'] });
+    expect(result.failures).toEqual([
+      expect.objectContaining({ deviceId: 'd4', error: expect.objectContaining({ detail: expect.stringContaining('unreachable') }) })
+    ]);
+  });
+
+  it('checks only baseline keys when a baseline is given', async () => {
+    const client = fakeClient();
+    const result = await collectConfigDrift({
+      client: client as any,
+      tenantId: 'acme',
+      filters: [{ field: 'name', value: 'Lobby display' }],
+      baseline: { ref: 'baseline.json', config: { input: 'hdmi2', display: { brightness: 70 } } }
+    });
+
+    expect(result.reference).toBe('baseline');
+    expect(result.keys).toEqual([
+      {
+        path: 'display.brightness',
+        expected: { missing: false, value: 70 },
+        deviating: 1,
+        values: [{ missing: false, value: 80, devices: 1, deviceIds: ['d3'] }]
+      }
+    ]);
+    expect(result.groups[0].matchesBaseline).toBe(false);
+  });
+
+  it('renders markdown and attaches it to report generate output', async () => {
+    const result = buildConfigDrift({
+      tenantId: 'acme',
+      scope: { filters: [], targets: [] },
+      reads: ['d1', 'd3'].map((id) => ({
+        target: { deviceId: id, name: `Display ${id}`, status: null, space: 'HQ' },
+        live: { source: 'device' as const, config: configs[id] }
+      })),
+      baseline: { ref: 'baseline.yaml', config: { input: 'hdmi1' } }
+    });
+    const markdown = formatConfigDriftMarkdown(result);
+    expect(markdown).toContain('# Xyte Configuration Drift');
+    expect(markdown).toContain('| `input` | "hdmi1" | 1 | "hdmi2" (1) |');
+    expect(markdown).toContain('| Display d3 | HQ |');
+
+    const dir = mkdtempSync(join(tmpdir(), 'xyte-config-drift-'));
+    const deepDive = buildDeepDive({ generatedAtUtc: '2026-03-01T12:00:00.000Z', tenantId: 'acme', devices: [], spaces: [], incidents: [], tickets: [] });
+    const outPath = join(dir, 'report.md');
+    await generateFleetReport({ deepDive, format: 'markdown', outPath, includeSensitive: false, configDrift: result });
+    const report = readFileSync(outPath, 'utf8');
+    expect(report).toContain('# Xyte Fleet Deep Dive');
+    expect(report).toContain('## Xyte Configuration Drift');
+    expect(report).toContain('### Drifted Keys');
+
+    const htmlPath = join(dir, 'report.html');
+    await generateFleetReport({ deepDive, format: 'html', outPath: htmlPath, includeSensitive: false, configDrift: result });
+    expect(readFileSync(htmlPath, 'utf8')).toContain('<h2>Configuration Drift (1 of 2 devices)</h2>');
+
+    const pdfPath = join(dir, 'report.pdf');
+    await generateFleetReport({ deepDive, format: 'pdf', outPath: pdfPath, includeSensitive: false, configDrift: result });
+    expect(readFileSync(pdfPath).subarray(0, 4).toString()).toBe('%PDF');
+  });
+});
@@ -1,10 +1,14 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import { evaluateReadiness } from '../../src/config/readiness';
 import { MemoryKeychain } from '../../src/secure/keychain';
 import { MemoryProfileStore } from '../support/memory-profile-store';
 
 describe('readiness evaluation', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
   it('returns needs_setup when no active tenant exists', async () => {
     const profileStore = new MemoryProfileStore();
     const keychain = new MemoryKeychain();
@@ -74,4 +78,69 @@ describe('readiness evaluation', () => {
     expect(readiness.state).toBe('degraded');
     expect(readiness.connectionState).toBe('network_error');
   });
+
+  it('reports env keys as the credential source without any tenant profile', async () => {
+    vi.stubEnv('XYTE_CLI_ORG_KEY', 'org-env-key');
+
+    const readiness = await evaluateReadiness({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      checkConnectivity: false
+    });
+
+    expect(readiness.state).toBe('ready');
+    expect(readiness.providers.find((item) => item.provider === 'xyte-org')).toMatchObject({
+      hasActiveSecret: true,
+      source: 'env'
+    });
+    expect(readiness.providers.find((item) => item.provider === 'xyte-partner')?.source).toBeUndefined();
+  });
+
+  it('degrades readiness when the active key breaks the age or validation policy', async () => {
+    const profileStore = new MemoryProfileStore();
+    const keychain = new MemoryKeychain();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const slot = await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'primary', fingerprint: 'sha256:test' });
+    await keychain.setSlotSecret('acme', 'xyte-org', slot.slotId, 'org-key');
+    const now = new Date(Date.parse(slot.createdAt) + 120 * 86_400_000);
+
+    const readiness = await evaluateReadiness({
+      profileStore,
+      keychain,
+      checkConnectivity: false,
+      keyPolicy: { maxKeyAgeDays: 90, maxValidationAgeDays: 30 },
+      now
+    });
+
+    expect(readiness.state).toBe('degraded');
+    expect(readiness.policyViolations.map((violation) => [violation.rule, violation.actualDays])).toEqual([
+      ['max_key_age', 120],
+      ['max_validation_age', null]
+    ]);
+    expect(readiness.recommendedActions).toEqual([
+      expect.stringContaining('xyte-cli auth key rotate --tenant acme --provider xyte-org'),
+      expect.stringContaining('xyte-cli auth key test --tenant acme --provider xyte-org --slot primary')
+    ]);
+  });
+
+  it('reads the key policy from the environment and stays ready within it', async () => {
+    vi.stubEnv('XYTE_CLI_MAX_KEY_AGE_DAYS', '90d');
+    const profileStore = new MemoryProfileStore();
+    const keychain = new MemoryKeychain();
+    await profileStore.upsertTenant({ id: 'acme' });
+    const slot = await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'primary', fingerprint: 'sha256:test' });
+    await keychain.setSlotSecret('acme', 'xyte-org', slot.slotId, 'org-key');
+
+    const fresh = await evaluateReadiness({ profileStore, keychain, checkConnectivity: false });
+    expect(fresh.state).toBe('ready');
+    expect(fresh.policyViolations).toEqual([]);
+
+    const stale = await evaluateReadiness({
+      profileStore,
+      keychain,
+      checkConnectivity: false,
+      now: new Date(Date.parse(slot.createdAt) + 91 * 86_400_000)
+    });
+    expect(stale.policyViolations.map((violation) => violation.rule)).toEqual(['max_key_age']);
+  });
 });
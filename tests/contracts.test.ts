@@ -1,13 +1,33 @@
 import { describe, expect, it } from 'vitest';
 import Ajv2020 from 'ajv/dist/2020';
 
+import batchSummarySchema from '../docs/schemas/batch-summary.v1.schema.json';
 import callEnvelopeSchema from '../docs/schemas/call-envelope.v1.schema.json';
+import deviceBroadcastSchema from '../docs/schemas/device-broadcast.v1.schema.json';
+import deviceConfigDiffSchema from '../docs/schemas/device-config-diff.v1.schema.json';
+import deviceCommandSchema from '../docs/schemas/device-command.v1.schema.json';
 import deepDiveSchema from '../docs/schemas/inspect-deep-dive.v1.schema.json';
+import deepDiveMultiSchema from '../docs/schemas/inspect-deep-dive-multi.v1.schema.json';
+import configDriftSchema from '../docs/schemas/inspect-config-drift.v1.schema.json';
+import diffSchema from '../docs/schemas/inspect-diff.v1.schema.json';
 import fleetSchema from '../docs/schemas/inspect-fleet.v1.schema.json';
+import fleetMultiSchema from '../docs/schemas/inspect-fleet-multi.v1.schema.json';
 import headlessSchema from '../docs/schemas/headless-frame.v1.schema.json';
 import reportSchema from '../docs/schemas/report.v1.schema.json';
+import spaceTreeSchema from '../docs/schemas/space-tree.v1.schema.json';
+import portfolioReportSchema from '../docs/schemas/report-portfolio.v1.schema.json';
+import watchEventSchema from '../docs/schemas/watch-event.v1.schema.json';
 import { buildCallEnvelope } from '../src/contracts/call-envelope';
-import { buildDeepDive, buildFleetInspect, generateFleetReport } from '../src/workflows/fleet-insights';
+import { parseBatchOperations, runBatch } from '../src/workflows/batch';
+import { collectConfigDrift } from '../src/workflows/config-drift';
+import { previewDeviceBroadcast, resolveBroadcastTargets, runDeviceBroadcast } from '../src/workflows/device-broadcast';
+import { sendDeviceCommand } from '../src/workflows/device-command';
+import { applyDeviceConfig } from '../src/workflows/device-config';
+import { buildDeepDive, buildFleetInspect, generateFleetReport, generatePortfolioReport } from '../src/workflows/fleet-insights';
+import { buildMultiTenantDeepDive, buildMultiTenantFleetInspect } from '../src/workflows/fan-out';
+import { diffFleetSnapshots } from '../src/workflows/fleet-snapshots';
+import { buildSpaceTree, moveSpace } from '../src/workflows/space-tree';
+import { runWatch, type WatchEvent } from '../src/workflows/watch';
 import { runHeadlessRenderer } from '../src/tui/headless-renderer';
 import { MemoryKeychain } from '../src/secure/keychain';
 import { MemoryProfileStore } from './support/memory-profile-store';
@@ -17,7 +37,18 @@ const validateCallEnvelope = ajv.compile(callEnvelopeSchema);
 const validateHeadless = ajv.compile(headlessSchema);
 const validateFleet = ajv.compile(fleetSchema);
 const validateDeepDive = ajv.compile(deepDiveSchema);
+const validateFleetMulti = ajv.compile(fleetMultiSchema);
+const validateDeepDiveMulti = ajv.compile(deepDiveMultiSchema);
+const validateDiff = ajv.compile(diffSchema);
+const validateConfigDrift = ajv.compile(configDriftSchema);
+const validateWatchEvent = ajv.compile(watchEventSchema);
 const validateReport = ajv.compile(reportSchema);
+const validatePortfolioReport = ajv.compile(portfolioReportSchema);
+const validateBatchSummary = ajv.compile(batchSummarySchema);
+const validateDeviceCommand = ajv.compile(deviceCommandSchema);
+const validateDeviceBroadcast = ajv.compile(deviceBroadcastSchema);
+const validateDeviceConfigDiff = ajv.compile(deviceConfigDiffSchema);
+const validateSpaceTree = ajv.compile(spaceTreeSchema);
 
 describe('schema contracts', () => {
   it('validates call envelope payload', () => {
@@ -44,6 +75,126 @@ describe('schema contracts', () => {
     expect(validateCallEnvelope(envelope)).toBe(true);
   });
 
+  it('validates batch summary payload', async () => {
+    const summary = await runBatch({
+      client: { callWithMeta: async () => ({ status: 200, headers: {}, data: {}, durationMs: 1, retryCount: 0, attempts: 1 }) } as any,
+      lines: parseBatchOperations('{"endpointKey":"organization.devices.deleteDevice","path":{"device_id":"d1"}}'),
+      tenantId: 'acme',
+      allowWrite: false
+    });
+
+    expect(validateBatchSummary(summary)).toBe(true);
+    expect(summary.failed).toBe(1);
+  });
+
+  it('validates device command results', async () => {
+    const client = {
+      organization: {
+        sendCommand: async () => ({ id: 'cmd-1', status: 'pending' }),
+        getCommands: async () => ({ commands: [{ id: 'cmd-1', status: 'done' }] })
+      }
+    } as any;
+    const result = await sendDeviceCommand({ client, tenantId: 'acme', deviceId: 'd1', name: 'reboot', wait: true });
+
+    expect(result.outcome).toBe('succeeded');
+    expect(validateDeviceCommand(result)).toBe(true);
+  });
+
+  it('validates device broadcast previews and results', async () => {
+    const client = {
+      paginate: async function* (endpointKey: string) {
+        yield { items: endpointKey.includes('spaces') ? [{ id: 's1', full_path: 'HQ' }] : [{ id: 'd1', status: 'online', space_id: 's1' }, { id: 'd2', space_id: 's1' }] };
+      },
+      organization: {
+        sendCommand: async ({ path }: any) => {
+          if (path.device_id === 'd2') {
+            throw new Error('unreachable');
+          }
+          return { id: 'cmd-1', status: 'pending' };
+        }
+      }
+    } as any;
+    const scope = await resolveBroadcastTargets({ client, tenantId: 'acme', space: 'HQ' });
+    const result = await runDeviceBroadcast({ client, tenantId: 'acme', scope, name: 'reboot' });
+
+    expect(validateDeviceBroadcast(previewDeviceBroadcast('acme', 'reboot', scope))).toBe(true);
+    expect(result.failed).toBe(1);
+    expect(validateDeviceBroadcast(result)).toBe(true);
+  });
+
+  it('validates device config diffs and apply envelopes', async () => {
+    const client = {
+      device: { getConfig: async () => ({ input: 'hdmi1', eco: true }) },
+      callWithMeta: async () => ({ status: 200, headers: {}, data: { ok: true }, durationMs: 1, retryCount: 0, attempts: 1 })
+    } as any;
+    const result = await applyDeviceConfig({ client, tenantId: 'acme', deviceId: 'd1', desired: { input: 'hdmi2' }, ref: 'cfg.json', allowWrite: true });
+
+    expect(validateDeviceConfigDiff(result.diff)).toBe(true);
+    expect(result.envelope?.change?.before).toEqual({ input: 'hdmi1', eco: true });
+    expect(validateCallEnvelope(JSON.parse(JSON.stringify(result.envelope)))).toBe(true);
+  });
+
+  it('validates config drift results', async () => {
+    const configs: Record<string, unknown> = { d1: { input: 'hdmi1', eco: true }, d2: { input: 'hdmi2' } };
+    const client = {
+      paginate: async function* () {
+        yield { items: [{ id: 'd1', name: 'A' }, { id: 'd2', name: 'B' }, { id: 'd3', name: 'C' }] } as any;
+      },
+      device: {
+        getConfig: async ({ path }: any) => configs[path.device_id] ?? Promise.reject(new Error('offline'))
+      },
+      partner: { getConfiguration: async () => Promise.reject(new Error('no partner key')) }
+    } as any;
+
+    const majority = await collectConfigDrift({ client, tenantId: 'acme', filters: [] });
+    const baseline = await collectConfigDrift({ client, tenantId: 'acme', baseline: { ref: 'baseline.json', config: { input: 'hdmi1' } } });
+
+    expect(validateConfigDrift(JSON.parse(JSON.stringify(majority)))).toBe(true);
+    expect(validateConfigDrift(JSON.parse(JSON.stringify(baseline)))).toBe(true);
+    expect(baseline.failures).toHaveLength(1);
+  });
+
+  it('validates space trees and move envelopes', async () => {
+    const spaces = [
+      { id: 'hq', name: 'HQ', space_type: 'building', full_path: 'HQ', parent_id: null },
+      { id: 'f2', name: 'Floor 2', full_path: 'HQ/Floor 2', parent_id: 'hq' },
+      { id: 'branch', name: 'Branch', full_path: 'Branch' }
+    ];
+    const tree = buildSpaceTree({
+      tenantId: 'acme',
+      spaces,
+      devices: [{ id: 'd1', status: 'offline', space_id: 'f2' }, { id: 'd2' }],
+      incidents: [{ id: 'i1', status: 'active', device_id: 'd1' }]
+    });
+    expect(validateSpaceTree(JSON.parse(JSON.stringify(tree)))).toBe(true);
+
+    const client = {
+      paginate: async function* () {
+        yield { items: spaces } as any;
+      },
+      callWithMeta: async () => ({ status: 200, headers: {}, data: { ok: true }, durationMs: 1, retryCount: 0, attempts: 1 }),
+      organization: { getSpace: async () => ({ ...spaces[1], parent_id: 'branch', full_path: 'Branch/Floor 2' }) }
+    } as any;
+    const moved = await moveSpace({ client, tenantId: 'acme', space: 'f2', to: 'branch', allowWrite: true });
+    expect(moved.envelope?.change?.after).toEqual({ parent_id: 'branch', path: 'Branch/Floor 2' });
+    expect(validateCallEnvelope(JSON.parse(JSON.stringify(moved.envelope)))).toBe(true);
+  });
+
+  it('validates watch events', async () => {
+    const events: WatchEvent[] = [];
+    const client = {
+      organization: {
+        getDevices: async () => ({ devices: [{ id: 'd1', name: 'Device 1', status: 'online' }] }),
+        getIncidents: async () => ({ incidents: [] }),
+        getTickets: async () => ({ tickets: [] })
+      }
+    } as any;
+    await runWatch({ client, tenantId: 'acme', intervalMs: 0, maxPolls: 1, onEvent: (event) => void events.push(event) });
+
+    expect(events).toHaveLength(1);
+    expect(validateWatchEvent(events[0])).toBe(true);
+  });
+
   it('validates inspect and report payloads', async () => {
     const snapshot = {
       generatedAtUtc: new Date().toISOString(),
@@ -51,13 +202,18 @@ describe('schema contracts', () => {
       devices: [{ id: 'd1', name: 'Device 1', status: 'offline', space: { full_path: 'Overview/A' } }],
       spaces: [{ id: 's1', name: 'Room A', space_type: 'room' }],
       incidents: [{ id: 'i1', device_name: 'Device 1', status: 'active', space_tree_path_name: 'Overview/A', created_at: new Date().toISOString() }],
-      tickets: [{ id: 't1', title: 'Need help', status: 'open', created_at: new Date().toISOString(), device_id: 'd1' }]
+      tickets: [{ id: 't1', title: 'Need help', status: 'open', created_at: new Date().toISOString(), device_id: 'd1' }],
+      histories: [{ device_id: 'd1', status: 'offline', from: new Date(Date.now() - 3_600_000).toISOString(), to: null }]
     };
 
     const fleet = buildFleetInspect(snapshot);
     const deepDive = buildDeepDive(snapshot);
     expect(validateFleet(fleet)).toBe(true);
     expect(validateDeepDive(deepDive)).toBe(true);
+    const failure = { tenantId: 'globex', ok: false as const, error: { type: 'about:blank', title: 'x', detail: 'x', xyteCode: 'X', retriable: false } };
+    expect(validateFleetMulti(buildMultiTenantFleetInspect([{ tenantId: 'acme', ok: true, result: fleet }, failure]))).toBe(true);
+    expect(validateDeepDiveMulti(buildMultiTenantDeepDive([{ tenantId: 'acme', ok: true, result: deepDive }, failure], 24))).toBe(true);
+    expect(validateDiff(diffFleetSnapshots(snapshot, { ...snapshot, devices: [], incidents: [] }))).toBe(true);
 
     const report = await generateFleetReport({
       deepDive,
@@ -67,6 +223,14 @@ describe('schema contracts', () => {
     });
 
     expect(validateReport(report)).toBe(true);
+
+    const portfolio = await generatePortfolioReport({
+      deepDives: [deepDive],
+      format: 'markdown',
+      outPath: '/tmp/xyte-contract-portfolio.md',
+      includeSensitive: false
+    });
+    expect(validatePortfolioReport(portfolio)).toBe(true);
   });
 
   it('validates headless runtime frame payload', async () => {
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  matchesDeviceFilters,
+  parseDeviceFilters,
+  resolveBroadcastTargets,
+  resolveSpaceScope,
+  runDeviceBroadcast
+} from '../src/workflows/device-broadcast';
+
+const spaces = [
+  { id: 'hq', name: 'HQ', full_path: 'HQ', parent_id: null },
+  { id: 'f2', name: 'Floor 2', full_path: 'HQ/Floor 2', parent_id: 'hq' },
+  { id: 'r201', name: 'Room 201', full_path: 'HQ/Floor 2/Room 201', parent_id: 'f2' },
+  { id: 'annex', name: 'Annex', full_path: 'HQ/Annex' },
+  { id: 'branch', name: 'Branch', full_path: 'Branch', parent_id: null }
+];
+
+const devices = [
+  { id: 'd3', name: 'Lobby display', status: 'online', space_id: 'hq' },
+  { id: 'd1', name: 'Room 201 codec', status: 'online', space: { id: 'r201', full_path: 'HQ/Floor 2/Room 201' } },
+  { id: 'd2', name: 'Room 201 display', status: 'offline', space_id: 'r201' },
+  { id: 'd4', name: 'Annex display', status: 'online', space_tree_path_name: 'HQ/Annex' },
+  { id: 'd5', name: 'Branch display', status: 'online', space_id: 'branch' }
+];
+
+function fakeClient(failing: string[] = []) {
+  return {
+    paginate: vi.fn(async function* (endpointKey: string) {
+      yield { items: endpointKey.includes('spaces') ? spaces : devices } as any;
+    }),
+    organization: {
+      sendCommand: vi.fn(async ({ path }: any) => {
+        if (failing.includes(path.device_id)) {
+          throw new Error(`device ${path.device_id} is unreachable`);
+        }
+        return { id: `cmd-${path.device_id}`, status: 'pending' };
+      })
+    }
+  };
+}
+
+describe('device broadcast', () => {
+  it('parses field=value filters and matches nested fields case-insensitively', () => {
+    const filters = parseDeviceFilters(['status=Online', 'space.id=r201']);
+    expect(filters).toEqual([
+      { field: 'status', value: 'Online' },
+      { field: 'space.id', value: 'r201' }
+    ]);
+    expect(matchesDeviceFilters(devices[1], filters)).toBe(true);
+    expect(matchesDeviceFilters(devices[0], filters)).toBe(false);
+    expect(() => parseDeviceFilters(['online'])).toThrow('Invalid filter: online');
+  });
+
+  it('includes descendants by parent_id and by path prefix', () => {
+    expect(resolveSpaceScope(spaces, 'HQ').spaceIds).toEqual(['annex', 'f2', 'hq', 'r201']);
+    expect(resolveSpaceScope(spaces, 'f2')).toEqual({ id: 'f2', path: 'HQ/Floor 2', spaceIds: ['f2', 'r201'] });
+    expect(() => resolveSpaceScope(spaces, 'Nowhere')).toThrow('Unknown space: Nowhere');
+  });
+
+  it('resolves targets inside the space that match every filter', async () => {
+    const client = fakeClient();
+    const scope = await resolveBroadcastTargets({
+      client: client as any,
+      tenantId: 'acme',
+      space: 'HQ',
+      filters: parseDeviceFilters(['status=online'])
+    });
+
+    expect(scope.targets.map((target) => target.deviceId)).toEqual(['d1', 'd3', 'd4']);
+    expect(scope.targets[0]).toEqual({ deviceId: 'd1', name: 'Room 201 codec', status: 'online', space: 'HQ/Floor 2/Room 201' });
+    await expect(resolveBroadcastTargets({ client: client as any, tenantId: 'acme' })).rejects.toThrow('Refusing to target every device');
+  });
+
+  it('refuses to send when the device listing was truncated', async () => {
+    const client = fakeClient();
+    client.paginate.mockImplementation(async function* (endpointKey: string) {
+      yield { items: endpointKey.includes('spaces') ? spaces : devices, truncated: !endpointKey.includes('spaces') } as any;
+    });
+    const scope = await resolveBroadcastTargets({ client: client as any, tenantId: 'acme', space: 'HQ' });
+
+    expect(scope.truncated).toBe(true);
+    await expect(runDeviceBroadcast({ client: client as any, tenantId: 'acme', scope, name: 'reboot' })).rejects.toThrow(
+      'Refusing to broadcast'
+    );
+    expect(client.organization.sendCommand).not.toHaveBeenCalled();
+  });
+
+  it('sends to every target and reports per-device failures', async () => {
+    const client = fakeClient(['d3']);
+    const scope = await resolveBroadcastTargets({ client: client as any, tenantId: 'acme', space: 'HQ', filters: [] });
+    const seen: string[] = [];
+    const result = await runDeviceBroadcast({
+      client: client as any,
+      tenantId: 'acme',
+      scope,
+      name: 'reboot',
+      concurrency: 2,
+      onResult: (item) => seen.push(item.deviceId)
+    });
+
+    expect(client.organization.sendCommand).toHaveBeenCalledTimes(4);
+    expect(seen.sort()).toEqual(['d1', 'd2', 'd3', 'd4']);
+    expect(result).toMatchObject({ preview: false, total: 4, succeeded: 3, failed: 1 });
+    expect(result.results.map((item) => item.deviceId)).toEqual(['d1', 'd2', 'd3', 'd4']);
+    expect(result.results[0]).toEqual({ deviceId: 'd1', name: 'Room 201 codec', ok: true, commandId: 'cmd-d1', outcome: 'sent', status: 'pending' });
+    expect(result.results[2].error?.detail).toContain('d3 is unreachable');
+  });
+
+  it('keeps a device result and flags it when cancelling on abort fails', async () => {
+    const client = fakeClient();
+    const scope = await resolveBroadcastTargets({ client: client as any, tenantId: 'acme', space: 'Branch', filters: [] });
+    const controller = new AbortController();
+    Object.assign(client.organization, {
+      sendCommand: vi.fn(async () => {
+        controller.abort();
+        return { id: 'cmd-d5', status: 'pending' };
+      }),
+      cancelCommand: vi.fn(async () => {
+        throw new Error('HTTP 503');
+      })
+    });
+
+    const result = await runDeviceBroadcast({ client: client as any, tenantId: 'acme', scope, name: 'reboot', wait: true, signal: controller.signal });
+
+    expect(result.results[0]).toMatchObject({ deviceId: 'd5', ok: false, outcome: 'failed' });
+    expect(result.results[0].error?.detail).toContain('Cancel failed: HTTP 503');
+  });
+});
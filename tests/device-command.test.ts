@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { commandOutcomeForStatus, sendDeviceCommand } from '../src/workflows/device-command';
+
+function fakeClient(statuses: string[]) {
+  let poll = 0;
+  return {
+    organization: {
+      sendCommand: vi.fn(async () => ({ id: 'cmd-1', name: 'reboot', status: 'pending' })),
+      getCommands: vi.fn(async () => {
+        const status = statuses[Math.min(poll, statuses.length - 1)];
+        poll += 1;
+        return { commands: [{ id: 'cmd-0', status: 'done' }, { id: 'cmd-1', name: 'reboot', status }] };
+      }),
+      cancelCommand: vi.fn(async () => ({ ok: true }))
+    }
+  };
+}
+
+describe('device command workflow', () => {
+  it('maps hub statuses to terminal outcomes', () => {
+    expect(commandOutcomeForStatus('done')).toBe('succeeded');
+    expect(commandOutcomeForStatus('expired')).toBe('failed');
+    expect(commandOutcomeForStatus('cancelled')).toBe('canceled');
+    expect(commandOutcomeForStatus('in_progress')).toBeUndefined();
+    expect(commandOutcomeForStatus(null)).toBeUndefined();
+  });
+
+  it('sends without polling unless asked to wait', async () => {
+    const client = fakeClient(['done']);
+    const result = await sendDeviceCommand({ client: client as any, tenantId: 'acme', deviceId: 'dev-1', name: 'reboot', params: { delay: 5 } });
+
+    expect(client.organization.sendCommand).toHaveBeenCalledWith({
+      tenantId: 'acme',
+      path: { device_id: 'dev-1' },
+      body: { name: 'reboot', friendly_name: undefined, file_id: undefined, extra_params: { delay: 5 } }
+    });
+    expect(client.organization.getCommands).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ commandId: 'cmd-1', outcome: 'sent', status: 'pending', polls: 0 });
+  });
+
+  it('polls the command list until the command reaches a terminal state', async () => {
+    const client = fakeClient(['pending', 'in_progress', 'Failed']);
+    const polls: Array<string | null> = [];
+    const result = await sendDeviceCommand({
+      client: client as any,
+      deviceId: 'dev-1',
+      name: 'reboot',
+      wait: true,
+      intervalMs: 1,
+      onPoll: (poll) => polls.push(poll.status)
+    });
+
+    expect(polls).toEqual(['pending', 'in_progress', 'failed']);
+    expect(result).toMatchObject({ outcome: 'failed', status: 'failed', polls: 3, command: { id: 'cmd-1', status: 'Failed' } });
+  });
+
+  it('gives up after the timeout without canceling', async () => {
+    const client = fakeClient(['pending']);
+    const result = await sendDeviceCommand({ client: client as any, deviceId: 'dev-1', name: 'reboot', wait: true, intervalMs: 1, timeoutMs: 20 });
+
+    expect(result.outcome).toBe('timeout');
+    expect(result.polls).toBeGreaterThan(1);
+    expect(client.organization.cancelCommand).not.toHaveBeenCalled();
+  });
+
+  it('cancels the command on the hub when aborted while waiting', async () => {
+    const client = fakeClient(['pending']);
+    const controller = new AbortController();
+    const result = await sendDeviceCommand({
+      client: client as any,
+      tenantId: 'acme',
+      deviceId: 'dev-1',
+      name: 'reboot',
+      wait: true,
+      intervalMs: 60_000,
+      signal: controller.signal,
+      onPoll: () => controller.abort()
+    });
+
+    expect(client.organization.cancelCommand).toHaveBeenCalledWith({ tenantId: 'acme', path: { device_id: 'dev-1', command_id: 'cmd-1' } });
+    expect(result).toMatchObject({ outcome: 'canceled', status: 'canceled', polls: 1 });
+  });
+
+  it('reports a failed cancel instead of throwing when the hub rejects it', async () => {
+    const client = fakeClient(['pending']);
+    client.organization.cancelCommand.mockRejectedValueOnce(new Error('HTTP 409'));
+    const controller = new AbortController();
+    const result = await sendDeviceCommand({
+      client: client as any,
+      deviceId: 'dev-1',
+      name: 'reboot',
+      wait: true,
+      intervalMs: 60_000,
+      signal: controller.signal,
+      onPoll: () => controller.abort()
+    });
+
+    expect(result).toMatchObject({ outcome: 'failed', status: 'pending', cancelError: 'HTTP 409' });
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  applyDeviceConfig,
+  buildConfigPatch,
+  buildDeviceConfigDiff,
+  formatConfigDiffAscii,
+  loadConfigFile,
+  readDeviceConfig
+} from '../src/workflows/device-config';
+
+const live = {
+  input: 'hdmi1',
+  display: { brightness: 60, schedule: ['08:00', '18:00'] },
+  'audio.mode': 'stereo',
+  legacy: true
+};
+
+const desired = {
+  input: 'hdmi2',
+  display: { brightness: 60, schedule: ['07:00', '18:00'], contrast: 50 },
+  'audio.mode': 'stereo'
+};
+
+function fakeClient(config: Record<string, unknown>, options: { deviceFails?: boolean; setFails?: boolean } = {}) {
+  let current = config;
+  return {
+    device: {
+      getConfig: vi.fn(async () => {
+        if (options.deviceFails) {
+          throw new Error('no device key');
+        }
+        return { config: current };
+      })
+    },
+    partner: { getConfiguration: vi.fn(async () => current) },
+    callWithMeta: vi.fn(async (_key: string, args: any) => {
+      if (options.setFails) {
+        throw new Error('rejected');
+      }
+      current = { ...current, ...args.body, display: { ...(current.display as object), ...args.body.display } };
+      return { status: 200, headers: {}, data: { ok: true }, durationMs: 3, retryCount: 0, attempts: 1 };
+    })
+  };
+}
+
+describe('device config workflow', () => {
+  it('produces a structural diff and a readable ascii rendering', () => {
+    const diff = buildDeviceConfigDiff({ deviceId: 'dev-1', live: { source: 'device', config: live }, desired, against: { kind: 'file', ref: 'cfg.yaml' } });
+
+    expect(diff.changes).toEqual([
+      { path: 'display.contrast', kind: 'added', after: 50 },
+      { path: 'display.schedule', kind: 'changed', before: ['08:00', '18:00'], after: ['07:00', '18:00'] },
+      { path: 'input', kind: 'changed', before: 'hdmi1', after: 'hdmi2' },
+      { path: 'legacy', kind: 'removed', before: true }
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 2 });
+    expect(formatConfigDiffAscii(diff).split('\n').slice(1, 5)).toEqual([
+      '+ display.contrast: 50',
+      '~ display.schedule: ["08:00","18:00"] -> ["07:00","18:00"]',
+      '~ input: "hdmi1" -> "hdmi2"',
+      '- legacy: true'
+    ]);
+    expect(buildDeviceConfigDiff({ deviceId: 'dev-1', live: { source: 'device', config: { ['a b']: { c: 1 } } }, desired: { ['a b']: { c: 2 } }, against: { kind: 'device', ref: 'dev-2' } }).changes[0].path).toBe('["a b"].c');
+  });
+
+  it('patches only added and changed keys', () => {
+    expect(buildConfigPatch(live, desired)).toEqual({ display: { contrast: 50, schedule: ['07:00', '18:00'] }, input: 'hdmi2' });
+    expect(buildConfigPatch(live, { input: 'hdmi1' })).toEqual({});
+  });
+
+  it('loads yaml and json files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'xyte-device-config-'));
+    writeFileSync(join(dir, 'cfg.yml'), 'input: hdmi2\ndisplay:\n  brightness: 70\n');
+    writeFileSync(join(dir, 'cfg.json'), '["not", "an", "object"]');
+
+    expect(loadConfigFile(join(dir, 'cfg.yml'))).toEqual({ input: 'hdmi2', display: { brightness: 70 } });
+    expect(() => loadConfigFile(join(dir, 'cfg.json'))).toThrow('must contain a configuration object');
+  });
+
+  it('falls back to the partner configuration endpoint', async () => {
+    const client = fakeClient(live, { deviceFails: true });
+    await expect(readDeviceConfig(client as any, 'dev-1')).resolves.toEqual({ source: 'partner', config: live });
+  });
+
+  it('applies the patch and records the config before and after', async () => {
+    const client = fakeClient(live);
+    const result = await applyDeviceConfig({ client: client as any, tenantId: 'acme', deviceId: 'dev-1', desired, ref: 'cfg.yaml', allowWrite: true });
+
+    expect(client.callWithMeta).toHaveBeenCalledWith('device.configuration.setConfig', expect.objectContaining({
+      path: { device_id: 'dev-1' },
+      body: { display: { contrast: 50, schedule: ['07:00', '18:00'] }, input: 'hdmi2' }
+    }));
+    expect(result.envelope?.response?.status).toBe(200);
+    expect(result.envelope?.change?.before).toEqual(live);
+    expect(result.envelope?.change?.after).toMatchObject({ input: 'hdmi2', legacy: true, display: { contrast: 50, brightness: 60 } });
+
+    const unchanged = await applyDeviceConfig({ client: client as any, deviceId: 'dev-1', desired: { input: 'hdmi2' }, ref: 'x.json', allowWrite: true });
+    expect(unchanged.envelope).toBeUndefined();
+    expect(unchanged.diff.summary).toEqual({ added: 0, removed: 3, changed: 0 });
+  });
+
+  it('reports a rejected write as an envelope error', async () => {
+    const client = fakeClient(live, { setFails: true });
+    const result = await applyDeviceConfig({ client: client as any, deviceId: 'dev-1', desired, ref: 'cfg.yaml', allowWrite: true });
+
+    expect(result.envelope?.error?.detail).toContain('rejected');
+    expect(result.envelope?.change).toEqual({ before: live, after: live });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
+import { ENDPOINT_SCHEMAS, getBodySchema } from '../src/client/endpoint-schemas';
 import endpoints from '../src/spec/public-endpoints.json';
 
 describe('public endpoint catalog', () => {
@@ -23,5 +24,17 @@ describe('public endpoint catalog', () => {
 
     const cloudSettings = endpoints.find((endpoint) => endpoint.key === 'device.device-info.setCloudSettings');
     expect(cloudSettings?.notes?.join(' ')).toContain('{ property, value }');
+
+    const orgDevices = endpoints.find((endpoint) => endpoint.key === 'organization.devices.getDevices');
+    expect(orgDevices?.queryParams).toEqual(['page', 'per_page']);
+  });
+
+  it('defines request/response schemas for every endpoint key', () => {
+    const keys = endpoints.map((endpoint) => endpoint.key).sort();
+    expect(Object.keys(ENDPOINT_SCHEMAS).sort()).toEqual(keys);
+
+    for (const endpoint of endpoints) {
+      expect(Boolean(getBodySchema(endpoint.key)), endpoint.key).toBe(endpoint.hasBody);
+    }
   });
 });
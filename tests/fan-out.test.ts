@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { XyteAuthError } from '../src/http/errors';
+import { buildFleetInspect } from '../src/workflows/fleet-insights';
+import { buildMultiTenantFleetInspect, resolveTenantTargets, runPerTenant } from '../src/workflows/fan-out';
+import { MemoryProfileStore } from './support/memory-profile-store';
+
+function fleetFor(tenantId: string, statuses: string[]) {
+  return buildFleetInspect({
+    generatedAtUtc: '2026-01-01T00:00:00.000Z',
+    tenantId,
+    devices: statuses.map((status, index) => ({ id: `${tenantId}-d${index}`, status })),
+    spaces: [],
+    incidents: [{ id: `${tenantId}-i1`, status: 'active' }],
+    tickets: [],
+    histories: []
+  });
+}
+
+describe('multi-tenant fan-out', () => {
+  it('resolves explicit and all-tenant targets against the profile', async () => {
+    const profileStore = new MemoryProfileStore();
+    await profileStore.upsertTenant({ id: 'acme' });
+    await profileStore.upsertTenant({ id: 'globex' });
+
+    expect(await resolveTenantTargets(profileStore, { allTenants: true })).toEqual(['acme', 'globex']);
+    expect(await resolveTenantTargets(profileStore, { tenants: ['globex', 'globex'] })).toEqual(['globex']);
+    await expect(resolveTenantTargets(profileStore, { tenants: ['acme', 'initech'] })).rejects.toThrow('Unknown tenant(s): initech');
+  });
+
+  it('keeps input order and turns per-tenant failures into outcomes', async () => {
+    const emitted: string[] = [];
+    const outcomes = await runPerTenant(
+      ['slow', 'denied', 'fast'],
+      async (tenantId) => {
+        if (tenantId === 'denied') {
+          throw new XyteAuthError('Missing API key for tenant denied');
+        }
+        await new Promise((resolve) => setTimeout(resolve, tenantId === 'slow' ? 20 : 1));
+        return tenantId.toUpperCase();
+      },
+      { concurrency: 3, onOutcome: (outcome) => emitted.push(outcome.tenantId) }
+    );
+
+    expect(emitted).toEqual(['slow', 'denied', 'fast']);
+    expect(outcomes[0]).toEqual({ tenantId: 'slow', ok: true, result: 'SLOW' });
+    expect(outcomes[1]).toMatchObject({ tenantId: 'denied', ok: false, error: { status: 401 } });
+  });
+
+  it('summarizes fleets across tenants and names the worst offenders', () => {
+    const result = buildMultiTenantFleetInspect([
+      { tenantId: 'acme', ok: true, result: fleetFor('acme', ['online', 'online', 'online', 'offline']) },
+      { tenantId: 'globex', ok: true, result: fleetFor('globex', ['offline', 'online']) },
+      { tenantId: 'initech', ok: false, error: { type: 'about:blank', title: 'x', detail: 'denied', xyteCode: 'X', retriable: false } }
+    ]);
+
+    expect(result.summary.tenants).toEqual({ requested: 3, succeeded: 2, failed: 1 });
+    expect(result.summary.totals.devices).toBe(6);
+    expect(result.summary.highlights).toMatchObject({ offlineDevices: 2, offlinePct: 33.3, activeIncidents: 2 });
+    expect(result.summary.worstOfflinePct).toEqual({ tenantId: 'globex', value: 50 });
+    expect(result.failures.map((failure) => failure.tenantId)).toEqual(['initech']);
+  });
+});
@@ -0,0 +1,89 @@
+import { existsSync, mkdtempSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EncryptedFileKeychain, resetFileKeychainCache } from '../src/secure/file-keychain';
+import { createKeychainStore } from '../src/secure/keychain';
+
+// Cheap KDF parameters keep the suite fast; production files use DEFAULT_SCRYPT_PARAMS.
+const scryptParams = { N: 1024, r: 8, p: 1 };
+
+describe('encrypted file keychain', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'xyte-file-keychain-'));
+    resetFileKeychainCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('persists encrypted slot secrets across instances', async () => {
+    const filePath = join(dir, 'keychain.enc.json');
+    const writer = new EncryptedFileKeychain({ filePath, passphrase: 'correct horse', scryptParams });
+    await writer.setSecret('acme', 'xyte-org', 'org-secret-value');
+    await writer.setSlotSecret('acme', 'xyte-partner', 'backup', 'partner-secret-value');
+
+    const raw = readFileSync(filePath, 'utf8');
+    expect(raw).not.toContain('org-secret-value');
+    expect(raw).not.toContain('partner-secret-value');
+    expect(statSync(filePath).mode & 0o777).toBe(0o600);
+
+    resetFileKeychainCache();
+    const reader = new EncryptedFileKeychain({ filePath, passphrase: 'correct horse' });
+    expect(await reader.getSecret('acme', 'xyte-org')).toBe('org-secret-value');
+    expect(await reader.getSlotSecret('acme', 'xyte-partner', 'backup')).toBe('partner-secret-value');
+
+    await reader.clearSlotSecret('acme', 'xyte-partner', 'backup');
+    expect(await reader.getSlotSecret('acme', 'xyte-partner', 'backup')).toBeUndefined();
+  });
+
+  it('keeps every secret when separate instances write the same file concurrently', async () => {
+    const filePath = join(dir, 'keychain.enc.json');
+    const writers = [0, 1, 2].map(() => new EncryptedFileKeychain({ filePath, passphrase: 'correct horse', scryptParams }));
+
+    await Promise.all(
+      Array.from({ length: 9 }, (_, index) => writers[index % writers.length].setSlotSecret('acme', 'xyte-org', `slot-${index}`, `v${index}`))
+    );
+
+    const reader = new EncryptedFileKeychain({ filePath, passphrase: 'correct horse' });
+    for (let index = 0; index < 9; index += 1) {
+      expect(await reader.getSlotSecret('acme', 'xyte-org', `slot-${index}`)).toBe(`v${index}`);
+    }
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('rejects a wrong passphrase and requires unlock material', async () => {
+    const filePath = join(dir, 'keychain.enc.json');
+    await new EncryptedFileKeychain({ filePath, passphrase: 'right', scryptParams }).setSecret('acme', 'xyte-org', 'value');
+    resetFileKeychainCache();
+
+    await expect(new EncryptedFileKeychain({ filePath, passphrase: 'wrong' }).getSecret('acme', 'xyte-org')).rejects.toThrow(
+      'wrong passphrase or key file'
+    );
+    await expect(new EncryptedFileKeychain({ filePath: join(dir, 'other.json') }).setSecret('acme', 'xyte-org', 'value')).rejects.toThrow(
+      'XYTE_CLI_KEYCHAIN_PASSPHRASE'
+    );
+  });
+
+  it('is selected by XYTE_CLI_KEYCHAIN_BACKEND=file and unlocks with a key file', async () => {
+    const keyFile = join(dir, 'unlock.key');
+    writeFileSync(keyFile, 'key-file-material\n');
+    vi.stubEnv('XYTE_CLI_KEYCHAIN_BACKEND', 'file');
+    vi.stubEnv('XYTE_CLI_CONFIG_DIR', dir);
+    vi.stubEnv('XYTE_CLI_KEYCHAIN_PASSPHRASE', '');
+    vi.stubEnv('XYTE_CLI_KEYCHAIN_KEY_FILE', keyFile);
+
+    const store = await createKeychainStore();
+    expect(store).toBeInstanceOf(EncryptedFileKeychain);
+    await store.setSecret('acme', 'xyte-org', 'from-key-file');
+    expect(JSON.parse(readFileSync(join(dir, 'keychain.enc.json'), 'utf8'))).toMatchObject({ version: 1, kdf: { name: 'scrypt' } });
+
+    resetFileKeychainCache();
+    expect(await (await createKeychainStore()).getSecret('acme', 'xyte-org')).toBe('from-key-file');
+  });
+});
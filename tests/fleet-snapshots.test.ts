@@ -0,0 +1,104 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { FleetSnapshot } from '../src/workflows/fleet-insights';
+import {
+  diffFleetSnapshots,
+  formatFleetDiffAscii,
+  formatFleetDiffMarkdown,
+  listFleetSnapshots,
+  loadFleetSnapshot,
+  saveFleetSnapshot
+} from '../src/workflows/fleet-snapshots';
+
+function snapshotAt(generatedAtUtc: string, overrides: Partial<FleetSnapshot> = {}): FleetSnapshot {
+  return {
+    generatedAtUtc,
+    tenantId: 'acme',
+    devices: [
+      { id: 'd1', name: 'Lobby Display', status: 'online', space_id: 's1', space: { full_path: 'HQ/Lobby' } },
+      { id: 'd2', name: 'Board Codec', status: 'offline', space_id: 's2', space: { full_path: 'HQ/Board' } },
+      { id: 'd3', name: 'Lab Sensor', status: 'online', space_id: 's3', space: { full_path: 'HQ/Lab' } }
+    ],
+    spaces: [],
+    incidents: [
+      { id: 'i1', title: 'Codec offline', status: 'active', device_name: 'Board Codec' },
+      { id: 'i2', title: 'Old flicker', status: 'closed', device_name: 'Lobby Display' }
+    ],
+    tickets: [{ id: 't1', title: 'Codec will not boot', status: 'open', device_id: 'd2' }],
+    ...overrides
+  };
+}
+
+describe('fleet snapshots', () => {
+  it('reports status changes, moves, incidents and tickets between runs', () => {
+    const before = snapshotAt('2026-01-01T08:00:00.000Z');
+    const after = snapshotAt('2026-01-01T20:00:00.000Z', {
+      devices: [
+        { id: 'd1', name: 'Lobby Display', status: 'offline', space_id: 's1', space: { full_path: 'HQ/Lobby' } },
+        { id: 'd2', name: 'Board Codec', status: 'online', space_id: 's2', space: { full_path: 'HQ/Board' } },
+        { id: 'd3', name: 'Lab Sensor', status: 'online', space_id: 's1', space: { full_path: 'HQ/Lobby' } },
+        { id: 'd4', name: 'New Panel', status: 'online', space_id: 's3', space: { full_path: 'HQ/Lab' } }
+      ],
+      incidents: [
+        { id: 'i1', title: 'Codec offline', status: 'closed', device_name: 'Board Codec' },
+        { id: 'i2', title: 'Old flicker', status: 'closed', device_name: 'Lobby Display' },
+        { id: 'i3', title: 'Display offline', status: 'active', device_name: 'Lobby Display' }
+      ],
+      tickets: [{ id: 't2', title: 'Check lobby cabling', status: 'open', device_id: 'd1' }]
+    });
+
+    const diff = diffFleetSnapshots(before, after);
+
+    expect(diff).toMatchObject({
+      schemaVersion: 'xyte.inspect.diff.v1',
+      tenantId: 'acme',
+      from: { generatedAtUtc: '2026-01-01T08:00:00.000Z' },
+      to: { generatedAtUtc: '2026-01-01T20:00:00.000Z' },
+      summary: {
+        wentOffline: 1,
+        cameOnline: 1,
+        addedDevices: 1,
+        removedDevices: 0,
+        movedDevices: 1,
+        newIncidents: 1,
+        closedIncidents: 1,
+        openedTickets: 1,
+        resolvedTickets: 1
+      }
+    });
+    expect(diff.devices.moved).toEqual([{ id: 'd3', name: 'Lab Sensor', fromSpace: 'HQ/Lab', toSpace: 'HQ/Lobby' }]);
+    expect(diff.incidents.closed[0]).toMatchObject({ id: 'i1', status: 'closed' });
+    expect(diff.tickets.resolved[0]).toMatchObject({ id: 't1', status: 'open' });
+
+    expect(formatFleetDiffAscii(diff)).toContain('MOVED (1)\n- Lab Sensor | HQ/Lab -> HQ/Lobby');
+    expect(formatFleetDiffMarkdown(diff)).toContain('| Lobby Display | HQ/Lobby |');
+  });
+
+  it('refuses to diff snapshots from different tenants', () => {
+    expect(() =>
+      diffFleetSnapshots(snapshotAt('2026-01-01T08:00:00.000Z'), { ...snapshotAt('2026-01-01T09:00:00.000Z'), tenantId: 'other' })
+    ).toThrow('different tenants');
+  });
+
+  it('saves snapshots per tenant and resolves latest/previous', async () => {
+    const baseDir = mkdtempSync(join(tmpdir(), 'xyte-snapshots-'));
+    const first = await saveFleetSnapshot(snapshotAt('2026-01-01T08:00:00.000Z'), { baseDir });
+    await saveFleetSnapshot(snapshotAt('2026-01-01T20:00:00.000Z', { devices: [] }), { baseDir });
+
+    expect(first).toMatchObject({ schemaVersion: 'xyte.fleet.snapshot.v1', tenantId: 'acme', totals: { devices: 3 } });
+    expect(await listFleetSnapshots('acme', baseDir)).toHaveLength(2);
+
+    const latest = await loadFleetSnapshot('latest', { tenantId: 'acme', baseDir });
+    const previous = await loadFleetSnapshot('previous', { tenantId: 'acme', baseDir });
+    const byPath = await loadFleetSnapshot(first.path);
+    expect(latest.generatedAtUtc).toBe('2026-01-01T20:00:00.000Z');
+    expect(previous.generatedAtUtc).toBe('2026-01-01T08:00:00.000Z');
+    expect(byPath.devices).toHaveLength(3);
+
+    await expect(loadFleetSnapshot('latest', { tenantId: 'nobody', baseDir })).rejects.toThrow('Not enough saved snapshots');
+  });
+});
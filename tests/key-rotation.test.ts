@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { XyteAuthError } from '../src/http/errors';
+import { MemoryKeychain } from '../src/secure/keychain';
+import { rollbackKeyRotation, rotateKeySlot, type KeyProbe } from '../src/secure/key-rotation';
+import { makeKeyFingerprint } from '../src/secure/key-slots';
+import { MemoryProfileStore } from './support/memory-profile-store';
+
+const connected: KeyProbe = async () => ({
+  state: 'connected',
+  message: 'Organization connectivity OK.',
+  retriable: false,
+  endpointKey: 'organization.getOrganizationInfo'
+});
+
+async function seed() {
+  const profileStore = new MemoryProfileStore();
+  const keychain = new MemoryKeychain();
+  await profileStore.upsertTenant({ id: 'acme' });
+  await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'primary', fingerprint: makeKeyFingerprint('old-key') });
+  await keychain.setSlotSecret('acme', 'xyte-org', 'primary', 'old-key');
+  return { profileStore, keychain };
+}
+
+describe('key rotation', () => {
+  it('verifies the new key, swaps the active slot and keeps the old one for rollback', async () => {
+    const { profileStore, keychain } = await seed();
+    const probe = vi.fn(connected);
+    const now = new Date('2026-10-19T10:00:00.000Z');
+
+    const result = await rotateKeySlot({
+      profileStore,
+      keychain,
+      tenantId: 'acme',
+      provider: 'xyte-org',
+      slotRef: 'primary',
+      newKey: 'new-key',
+      rollbackHours: 24,
+      probe,
+      now
+    });
+
+    expect(probe).toHaveBeenCalledWith(expect.objectContaining({ key: 'new-key', provider: 'xyte-org' }));
+    expect(result.activated).toBe(true);
+    expect(result.newSlot).toMatchObject({ slotId: 'primary-2', name: 'primary-2' });
+    expect(result.newSlot.rotationHistory).toEqual([
+      {
+        rotatedAt: now.toISOString(),
+        previousSlotId: 'primary',
+        previousFingerprint: makeKeyFingerprint('old-key'),
+        fingerprint: makeKeyFingerprint('new-key'),
+        verifiedBy: 'organization.getOrganizationInfo'
+      }
+    ]);
+    expect(result.rollbackSlot.rollbackUntil).toBe('2026-10-20T10:00:00.000Z');
+    expect((await profileStore.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('primary-2');
+    expect(await keychain.getSlotSecret('acme', 'xyte-org', 'primary-2')).toBe('new-key');
+    expect(await keychain.getSlotSecret('acme', 'xyte-org', 'primary')).toBe('old-key');
+
+    const rolledBack = await rollbackKeyRotation({ profileStore, tenantId: 'acme', provider: 'xyte-org', now });
+    expect(rolledBack).toMatchObject({ replacedSlotId: 'primary-2', activeSlot: { slotId: 'primary', rollbackUntil: undefined } });
+    expect((await profileStore.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('primary');
+  });
+
+  it('discards the staging slot and leaves the active slot alone when verification fails', async () => {
+    const { profileStore, keychain } = await seed();
+    const probe: KeyProbe = async () => ({ state: 'auth_required', class: 'auth', message: 'HTTP 401', retriable: false });
+
+    await expect(
+      rotateKeySlot({ profileStore, keychain, tenantId: 'acme', provider: 'xyte-org', newKey: 'bad-key', probe })
+    ).rejects.toBeInstanceOf(XyteAuthError);
+
+    expect((await profileStore.listKeySlots('acme', 'xyte-org')).map((slot) => slot.slotId)).toEqual(['primary']);
+    expect((await profileStore.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('primary');
+    expect(await keychain.getSlotSecret('acme', 'xyte-org', 'primary-2')).toBeUndefined();
+  });
+
+  it('prunes expired rollback slots on the next rotation and refuses stale rollbacks', async () => {
+    const { profileStore, keychain } = await seed();
+    const start = new Date('2026-10-01T00:00:00.000Z');
+    const base = { profileStore, keychain, tenantId: 'acme', provider: 'xyte-org' as const, probe: connected };
+    await rotateKeySlot({ ...base, newKey: 'key-2', rollbackHours: 1, now: start });
+
+    const later = new Date('2026-10-02T00:00:00.000Z');
+    await expect(rollbackKeyRotation({ profileStore, tenantId: 'acme', provider: 'xyte-org', now: later })).rejects.toThrow(
+      'No rollback slot available'
+    );
+
+    const result = await rotateKeySlot({ ...base, newKey: 'key-3', now: later });
+    expect(result.prunedSlotIds).toEqual(['primary']);
+    expect(result.newSlot.name).toBe('primary-3');
+    expect(result.newSlot.rotationHistory).toHaveLength(2);
+    expect(await keychain.getSlotSecret('acme', 'xyte-org', 'primary')).toBeUndefined();
+  });
+
+  it('rotates a non-active slot without changing the active slot', async () => {
+    const { profileStore, keychain } = await seed();
+    await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'spare', fingerprint: makeKeyFingerprint('spare-key') });
+
+    const result = await rotateKeySlot({ profileStore, keychain, tenantId: 'acme', provider: 'xyte-org', slotRef: 'spare', newKey: 'spare-2', probe: connected });
+
+    expect(result).toMatchObject({ activated: false, newSlot: { slotId: 'spare-2' } });
+    expect((await profileStore.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('primary');
+  });
+});
@@ -39,6 +39,45 @@ describe('mcp server', () => {
     const listed = await waitForLine(output);
     expect(Array.isArray(listed.result.tools)).toBe(true);
     expect(listed.result.tools.some((tool: any) => tool.name === 'xyte_call')).toBe(true);
+    expect(listed.result.tools.some((tool: any) => tool.name === 'xyte_device_command')).toBe(true);
+
+    input.end();
+    await running;
+  });
+
+  it('previews write calls with dry_run without sending them', async () => {
+    const profileStore = new MemoryProfileStore();
+    const keychain = new MemoryKeychain();
+    await profileStore.upsertTenant({ id: 'acme' });
+    await keychain.setSecret('acme', 'xyte-org', 'org-key');
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const server = createMcpServer({ profileStore, keychain, input, output });
+    const running = server.start();
+
+    input.write(
+      `${JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: {
+          name: 'xyte_call',
+          arguments: {
+            tenant: 'acme',
+            endpoint_key: 'organization.commands.sendCommand',
+            path: { device_id: 'dev-1' },
+            body: { name: 'reboot' },
+            dry_run: true
+          }
+        }
+      })}\n`
+    );
+    const called = await waitForLine(output);
+    const envelope = called.result.structuredContent;
+    expect(envelope.response.simulated).toBe(true);
+    expect(envelope.response.data.method).toBe('POST');
+    expect(envelope.response.data.headers.Authorization).toBe('[REDACTED]');
+    expect(JSON.parse(envelope.response.data.body)).toEqual({ name: 'reboot' });
 
     input.end();
     await running;
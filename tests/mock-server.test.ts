@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { listEndpoints } from '../src/client/catalog';
+import { createXyteClient } from '../src/client/create-client';
+import { compileMockRoutes, createMockServer, matchMockRoute, type MockServer } from '../src/mock/server';
+import { MemoryKeychain } from '../src/secure/keychain';
+import { MemoryProfileStore } from './support/memory-profile-store';
+
+async function clientFor(url: string) {
+  const profileStore = new MemoryProfileStore();
+  await profileStore.upsertTenant({ id: 'mock', hubBaseUrl: url, entryBaseUrl: url });
+  await profileStore.setActiveTenant('mock');
+  const keychain = new MemoryKeychain();
+  await keychain.setSecret('mock', 'xyte-org', 'org-key');
+  return createXyteClient({ profileStore, keychain, retryBackoffMs: 1 });
+}
+
+describe('mock server', () => {
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  it('routes every catalog endpoint to itself', () => {
+    const routes = compileMockRoutes();
+    for (const endpoint of listEndpoints()) {
+      const path = endpoint.pathTemplate.replace(/:(\w+)/g, (_match, name: string) => `${name}-1`);
+      const matched = matchMockRoute(routes, endpoint.method, path);
+      if (endpoint.key === 'device.telemetries.sendMassTelemetry') {
+        // Shares its route with sendChildTelemetry.
+        expect(matched?.endpoint.pathTemplate).toBe(endpoint.pathTemplate);
+        continue;
+      }
+      expect(matched?.endpoint.key, endpoint.key).toBe(endpoint.key);
+    }
+  });
+
+  it('serves paginated reads and persists writes for real clients', async () => {
+    server = createMockServer();
+    const { url } = await server.start();
+    const client = await clientFor(url);
+
+    const pages = [];
+    for await (const page of client.paginate('organization.devices.getDevices', {}, { perPage: 3 })) {
+      pages.push(page);
+    }
+    expect(pages).toHaveLength(3);
+    expect(pages.flatMap((page) => page.items)).toHaveLength(8);
+
+    const command = await client.organization.sendCommand({ path: { device_id: 'dev-lab-sensor' }, body: { name: 'reboot' } });
+    expect(command.status).toBe('pending');
+
+    const listed = await client.call<{ commands: Array<{ id: string }> }>('organization.commands.getCommands', {
+      path: { device_id: 'dev-lab-sensor' }
+    });
+    expect(listed.commands.map((item) => item.id)).toContain(command.id);
+
+    await expect(client.organization.getDevice({ path: { device_id: 'missing' } })).rejects.toMatchObject({ status: 404 });
+
+    const anonymous = await server.handle('GET', '/core/v1/organization/info', {});
+    expect(anonymous.status).toBe(401);
+  });
+
+  it('injects 429 faults that the transport retries', async () => {
+    server = createMockServer({ faults: { rateLimitEvery: 2, retryAfterSeconds: 0 } });
+    const { url } = await server.start();
+    const client = await clientFor(url);
+
+    await client.callWithMeta('organization.getOrganizationInfo');
+    const throttled = await client.callWithMeta('organization.getOrganizationInfo');
+    expect(throttled.status).toBe(200);
+    expect(throttled.retryCount).toBe(1);
+    expect(throttled.rateLimit?.throttledRetries).toBe(1);
+  });
+});
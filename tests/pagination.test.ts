@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createXyteClient } from '../src/client/create-client';
+import { collectItems } from '../src/client/pagination';
+import { MemoryKeychain } from '../src/secure/keychain';
+import { MemoryProfileStore } from './support/memory-profile-store';
+
+function pagedTransport(pages: unknown[][]) {
+  return {
+    request: vi.fn(async (request: { url: string }) => {
+      const page = Number(new URL(request.url).searchParams.get('page') ?? '1');
+      return { status: 200, headers: {}, data: { spaces: pages[page - 1] ?? [] } };
+    })
+  } as any;
+}
+
+describe('client pagination', () => {
+  it('follows page/per_page until a short page is returned', async () => {
+    const transport = pagedTransport([
+      [{ id: 's1' }, { id: 's2' }],
+      [{ id: 's3' }, { id: 's4' }],
+      [{ id: 's5' }]
+    ]);
+    const client = createXyteClient({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      transport,
+      auth: { organization: 'org-key' }
+    });
+
+    const pages = [];
+    for await (const page of client.paginate('organization.spaces.getSpaces', { query: { per_page: 2, name: 'room' } })) {
+      pages.push(page);
+    }
+
+    expect(pages.map((page) => page.page)).toEqual([1, 2, 3]);
+    expect(pages.flatMap((page) => page.items)).toHaveLength(5);
+    expect(pages.every((page) => page.paginated && !page.truncated)).toBe(true);
+    const lastUrl = new URL(transport.request.mock.calls[2][0].url);
+    expect(lastUrl.searchParams.get('per_page')).toBe('2');
+    expect(lastUrl.searchParams.get('name')).toBe('room');
+  });
+
+  it('keeps paging past short pages while total_pages says more remain', async () => {
+    const pages = [[{ id: 's1' }, { id: 's2' }], [{ id: 's3' }, { id: 's4' }], [{ id: 's5' }]];
+    const transport = {
+      request: vi.fn(async (request: { url: string }) => {
+        const page = Number(new URL(request.url).searchParams.get('page'));
+        return { status: 200, headers: {}, data: { spaces: pages[page - 1], meta: { total_pages: 3 } } };
+      })
+    } as any;
+    const client = createXyteClient({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      transport,
+      auth: { organization: 'org-key' }
+    });
+
+    const seen = [];
+    for await (const page of client.paginate('organization.spaces.getSpaces')) {
+      seen.push(page);
+    }
+
+    expect(seen.map((page) => page.page)).toEqual([1, 2, 3]);
+    expect(seen.flatMap((page) => page.items)).toHaveLength(5);
+    expect(seen.every((page) => !page.truncated)).toBe(true);
+  });
+
+  it('marks the final page as truncated when maxPages is reached', async () => {
+    const transport = pagedTransport([[{ id: 's1' }], [{ id: 's2' }], [{ id: 's3' }]]);
+    const client = createXyteClient({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      transport,
+      auth: { organization: 'org-key' }
+    });
+
+    const pages = [];
+    for await (const page of client.paginate('organization.spaces.getSpaces', { query: { per_page: 1 } }, { maxPages: 2 })) {
+      pages.push(page);
+    }
+
+    expect(pages).toHaveLength(2);
+    expect(pages[1].truncated).toBe(true);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('collects every page and reports when the page cap cut the listing short', async () => {
+    const transport = pagedTransport([[{ id: 's1' }], [{ id: 's2' }], [{ id: 's3' }]]);
+    const client = createXyteClient({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      transport,
+      auth: { organization: 'org-key' }
+    });
+    const paginate = (maxPages: number) =>
+      client.paginate('organization.spaces.getSpaces', { query: { per_page: 1 } }, { maxPages });
+
+    expect(await collectItems(paginate(2))).toEqual({ items: [{ id: 's1' }, { id: 's2' }], truncated: true });
+    expect(await collectItems(paginate(5))).toEqual({ items: [{ id: 's1' }, { id: 's2' }, { id: 's3' }], truncated: false });
+  });
+
+  it('yields a single page for endpoints without pagination params', async () => {
+    const transport = {
+      request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { incidents: [{ id: 'i1' }, { id: 'i2' }] } })
+    } as any;
+    const client = createXyteClient({
+      profileStore: new MemoryProfileStore(),
+      keychain: new MemoryKeychain(),
+      transport,
+      auth: { organization: 'org-key' }
+    });
+
+    const pages = [];
+    for await (const page of client.paginate('organization.incidents.getIncidents')) {
+      pages.push(page);
+    }
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0].paginated).toBe(false);
+    expect(pages[0].items).toHaveLength(2);
+    expect(new URL(transport.request.mock.calls[0][0].url).searchParams.has('page')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, expect, it } from 'vitest';
+
+import { buildDeepDive, buildPortfolio, formatPortfolioMarkdown, generatePortfolioReport } from '../src/workflows/fleet-insights';
+
+function deepDiveFor(tenantId: string, args: { online: number; offline: number; activeIncidents: number; openTickets: number }, windowHours = 24) {
+  const devices = [
+    ...Array.from({ length: args.online }, (_, index) => ({ id: `${tenantId}-on-${index}`, name: `On ${index}`, status: 'online' })),
+    ...Array.from({ length: args.offline }, (_, index) => ({
+      id: `${tenantId}-off-${index}`,
+      name: `Off ${index}`,
+      status: 'offline',
+      space: { full_path: `${tenantId}/Room` }
+    }))
+  ];
+  return buildDeepDive(
+    {
+      generatedAtUtc: '2026-03-01T00:00:00.000Z',
+      tenantId,
+      devices,
+      spaces: [],
+      incidents: Array.from({ length: args.activeIncidents }, (_, index) => ({ id: `i${index}`, status: 'active', device_name: `On ${index}` })),
+      tickets: Array.from({ length: args.openTickets }, (_, index) => ({ id: `t${index}`, title: 'Help', status: 'open' }))
+    },
+    windowHours
+  );
+}
+
+describe('portfolio report', () => {
+  it('ranks tenants by offline share, then active incidents, then ticket backlog', () => {
+    const { totals, ranking } = buildPortfolio([
+      deepDiveFor('acme', { online: 9, offline: 1, activeIncidents: 5, openTickets: 0 }),
+      deepDiveFor('globex', { online: 1, offline: 1, activeIncidents: 0, openTickets: 0 }),
+      deepDiveFor('initech', { online: 9, offline: 1, activeIncidents: 5, openTickets: 3 })
+    ]);
+
+    expect(ranking.map((row) => row.tenantId)).toEqual(['globex', 'initech', 'acme']);
+    expect(ranking[0]).toMatchObject({ rank: 1, devices: 2, offlinePct: 50 });
+    expect(totals).toMatchObject({ tenants: 3, devices: 22, offlineDevices: 3, offlinePct: 13.6, activeIncidents: 10, openTickets: 3 });
+  });
+
+  it('rejects duplicate tenants and mixed windows', () => {
+    const acme = deepDiveFor('acme', { online: 1, offline: 0, activeIncidents: 0, openTickets: 0 });
+    expect(() => buildPortfolio([acme, acme])).toThrow('Duplicate deep-dive input for tenant acme');
+    expect(() => buildPortfolio([acme, deepDiveFor('globex', { online: 1, offline: 0, activeIncidents: 0, openTickets: 0 }, 72)])).toThrow(
+      'different windows'
+    );
+  });
+
+  it('keeps older deep-dive files without totals at the bottom of the ranking', () => {
+    const legacy = { ...deepDiveFor('legacy', { online: 0, offline: 4, activeIncidents: 0, openTickets: 0 }), totals: undefined };
+    const { ranking } = buildPortfolio([legacy, deepDiveFor('acme', { online: 4, offline: 0, activeIncidents: 0, openTickets: 0 })]);
+    expect(ranking.map((row) => [row.tenantId, row.offlinePct])).toEqual([
+      ['acme', 0],
+      ['legacy', null]
+    ]);
+  });
+
+  it('renders a ranking table followed by nested per-tenant sections', async () => {
+    const deepDives = [
+      deepDiveFor('acme', { online: 3, offline: 1, activeIncidents: 1, openTickets: 1 }),
+      deepDiveFor('globex', { online: 1, offline: 1, activeIncidents: 0, openTickets: 0 })
+    ];
+    const markdown = formatPortfolioMarkdown(deepDives);
+    expect(markdown).toContain('| 1 | globex | 2 | 50% | 0 | 0 | 0 |');
+    expect(markdown).toContain('## 2. acme');
+    expect(markdown).toContain('### Top Offline Spaces');
+    expect(markdown).not.toContain('# Xyte Fleet Deep Dive');
+
+    const outPath = join(mkdtempSync(join(tmpdir(), 'xyte-portfolio-test-')), 'portfolio.pdf');
+    const result = await generatePortfolioReport({ deepDives, format: 'pdf', outPath, includeSensitive: false });
+    expect(result).toMatchObject({ schemaVersion: 'xyte.report.portfolio.v1', tenantIds: ['globex', 'acme'], format: 'pdf' });
+    expect(readFileSync(outPath).subarray(0, 4).toString()).toBe('%PDF');
+  });
+});
@@ -0,0 +1,114 @@
+import { existsSync, mkdtempSync, promises as fsp, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { withFileLock } from '../src/secure/file-lock';
+import { FileProfileStore, ProfileCorruptError } from '../src/secure/profile-store';
+
+describe('file profile store', () => {
+  const dirs: string[] = [];
+  const makePath = () => {
+    const dir = mkdtempSync(join(tmpdir(), 'xyte-profile-'));
+    dirs.push(dir);
+    return join(dir, 'profile.json');
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps every write when several stores mutate the same file concurrently', async () => {
+    const filePath = makePath();
+    const stores = [new FileProfileStore(filePath), new FileProfileStore(filePath), new FileProfileStore(filePath)];
+    await stores[0].upsertTenant({ id: 'acme' });
+
+    await Promise.all(
+      Array.from({ length: 12 }, (_, index) =>
+        stores[index % stores.length].addKeySlot('acme', { provider: 'xyte-org', name: `slot-${index}`, fingerprint: 'sha256:x' })
+      )
+    );
+
+    expect(await new FileProfileStore(filePath).listKeySlots('acme')).toHaveLength(12);
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('rotates a bounded number of backups', async () => {
+    const filePath = makePath();
+    const store = new FileProfileStore(filePath, { backupCount: 2 });
+    await store.upsertTenant({ id: 'one' });
+    await store.upsertTenant({ id: 'two' });
+    await store.upsertTenant({ id: 'three' });
+
+    expect(await store.listBackups()).toEqual([`${filePath}.bak.1`, `${filePath}.bak.2`]);
+    expect(existsSync(`${filePath}.bak.3`)).toBe(false);
+    const previous = JSON.parse(readFileSync(`${filePath}.bak.1`, 'utf8'));
+    expect(previous.tenants.map((tenant: { id: string }) => tenant.id)).toEqual(['one', 'two']);
+  });
+
+  it('takes over a lock left behind by a dead process', async () => {
+    const filePath = makePath();
+    writeFileSync(`${filePath}.lock`, JSON.stringify({ pid: 2 ** 22 + 12345, acquiredAt: new Date().toISOString() }));
+
+    const store = new FileProfileStore(filePath, { lockTimeoutMs: 500 });
+    await store.upsertTenant({ id: 'acme' });
+    expect((await store.listTenants()).map((tenant) => tenant.id)).toEqual(['acme']);
+  });
+
+  it('leaves a fresh lock alone when it replaces the stale one mid-check', async () => {
+    const filePath = makePath();
+    const lockPath = `${filePath}.lock`;
+    writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 22 + 12345, acquiredAt: new Date().toISOString() }));
+    const fresh = JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() });
+    const realStat = fsp.stat.bind(fsp);
+    const stat = vi.spyOn(fsp, 'stat').mockImplementationOnce(async (target: any) => {
+      const result = await realStat(target);
+      writeFileSync(`${lockPath}.next`, fresh);
+      renameSync(`${lockPath}.next`, lockPath);
+      return result;
+    });
+
+    try {
+      const store = new FileProfileStore(filePath, { lockTimeoutMs: 100 });
+      await expect(store.upsertTenant({ id: 'acme' })).rejects.toMatchObject({ code: 'XYTE_PROFILE_LOCKED' });
+      expect(readFileSync(lockPath, 'utf8')).toBe(fresh);
+      expect(readdirSync(join(filePath, '..')).filter((name) => name.endsWith('.stale'))).toEqual([]);
+    } finally {
+      stat.mockRestore();
+    }
+  });
+
+  it('keeps a lock that another process took over while the task ran', async () => {
+    const filePath = makePath();
+    const lockPath = `${filePath}.lock`;
+    const other = JSON.stringify({ pid: process.pid + 1, token: 'other', acquiredAt: new Date().toISOString() });
+
+    await withFileLock(filePath, { label: 'profile', code: 'XYTE_PROFILE_LOCKED' }, async () => {
+      rmSync(lockPath);
+      writeFileSync(lockPath, other);
+    });
+
+    expect(readFileSync(lockPath, 'utf8')).toBe(other);
+    expect(readdirSync(join(filePath, '..')).filter((name) => name.endsWith('.release'))).toEqual([]);
+  });
+
+  it('reports a corrupt profile and repairs it from the newest good backup', async () => {
+    const filePath = makePath();
+    const store = new FileProfileStore(filePath);
+    await store.upsertTenant({ id: 'acme' });
+    await store.upsertTenant({ id: 'globex' });
+    writeFileSync(filePath, '{"version":2,"tenants":[', 'utf8');
+
+    await expect(store.getData()).rejects.toBeInstanceOf(ProfileCorruptError);
+    await expect(store.upsertTenant({ id: 'initech' })).rejects.toThrow('profile repair');
+
+    const result = await store.repair();
+    expect(result).toMatchObject({ status: 'restored', restoredFrom: `${filePath}.bak.1` });
+    expect(existsSync(result.quarantinedPath!)).toBe(true);
+    expect((await store.listTenants()).map((tenant) => tenant.id)).toEqual(['acme']);
+    expect(await store.repair()).toMatchObject({ status: 'ok' });
+  });
+});
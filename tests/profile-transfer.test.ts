@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+
+import { MemoryKeychain } from '../src/secure/keychain';
+import { exportProfile, importProfile, parseProfileExport } from '../src/secure/profile-transfer';
+import { MemoryProfileStore } from './support/memory-profile-store';
+
+const FAST_SCRYPT = { N: 2 ** 10, r: 8, p: 1 };
+
+async function seedSource() {
+  const profileStore = new MemoryProfileStore();
+  const keychain = new MemoryKeychain();
+  await profileStore.upsertTenant({ id: 'acme', name: 'Acme', hubBaseUrl: 'https://hub.acme.test' });
+  await profileStore.upsertTenant({ id: 'globex' });
+  await profileStore.setActiveTenant('acme');
+  const primary = await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'primary', fingerprint: 'sha256:a' });
+  const backup = await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'backup', fingerprint: 'sha256:b' });
+  await profileStore.setActiveKeySlot('acme', 'xyte-org', backup.slotId);
+  await keychain.setSlotSecret('acme', 'xyte-org', primary.slotId, 'primary-secret');
+  await keychain.setSlotSecret('acme', 'xyte-org', backup.slotId, 'backup-secret');
+  return { profileStore, keychain };
+}
+
+describe('profile export/import', () => {
+  it('round-trips tenants, slots and encrypted secrets into an empty profile', async () => {
+    const source = await seedSource();
+    const exported = await exportProfile({
+      ...source,
+      includeSecrets: true,
+      passphrase: 'correct horse',
+      scryptParams: FAST_SCRYPT
+    });
+
+    expect(JSON.stringify(exported)).not.toContain('primary-secret');
+    const file = parseProfileExport(JSON.stringify(exported));
+
+    const target = { profileStore: new MemoryProfileStore(), keychain: new MemoryKeychain() };
+    const result = await importProfile(file, { ...target, passphrase: 'correct horse' });
+
+    expect(result.tenants.created).toEqual(['acme', 'globex']);
+    expect(result.secretsWritten).toBe(2);
+    expect(result.activeTenantId).toBe('acme');
+    expect((await target.profileStore.getTenant('acme'))?.hubBaseUrl).toBe('https://hub.acme.test');
+    expect((await target.profileStore.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('backup');
+    expect(await target.keychain.getSlotSecret('acme', 'xyte-org', 'primary')).toBe('primary-secret');
+  });
+
+  it('rejects a wrong passphrase before changing the profile', async () => {
+    const exported = await exportProfile({
+      ...(await seedSource()),
+      includeSecrets: true,
+      passphrase: 'right',
+      scryptParams: FAST_SCRYPT
+    });
+    const target = { profileStore: new MemoryProfileStore(), keychain: new MemoryKeychain() };
+
+    await expect(importProfile(exported, { ...target, passphrase: 'wrong' })).rejects.toThrow('wrong passphrase');
+    expect(await target.profileStore.listTenants()).toEqual([]);
+  });
+
+  it('keeps local tenants and slots on merge and replaces them on overwrite', async () => {
+    const exported = await exportProfile({ ...(await seedSource()), tenantIds: ['acme'] });
+
+    const local = new MemoryProfileStore();
+    await local.upsertTenant({ id: 'acme', name: 'Local Acme' });
+    await local.addKeySlot('acme', { provider: 'xyte-org', name: 'primary', fingerprint: 'sha256:local' });
+    await local.addKeySlot('acme', { provider: 'xyte-org', name: 'laptop', fingerprint: 'sha256:laptop' });
+
+    const merged = await importProfile(exported, { profileStore: local, mode: 'merge' });
+    expect(merged.tenants.unchanged).toEqual(['acme']);
+    expect(merged.slots.skipped.map((slot) => slot.slotId)).toEqual(['primary']);
+    expect(merged.slots.added.map((slot) => slot.slotId)).toEqual(['backup']);
+    expect((await local.getTenant('acme'))?.name).toBe('Local Acme');
+    expect((await local.listKeySlots('acme')).map((slot) => slot.slotId).sort()).toEqual(['backup', 'laptop', 'primary']);
+
+    const keychain = new MemoryKeychain();
+    await keychain.setSlotSecret('acme', 'xyte-org', 'primary', 'local-secret');
+    await keychain.setSlotSecret('acme', 'xyte-org', 'laptop', 'laptop-secret');
+    const overwritten = await importProfile(exported, { profileStore: local, keychain, mode: 'overwrite' });
+    expect(overwritten.tenants.updated).toEqual(['acme']);
+    expect(overwritten.slots.removed.map((slot) => slot.slotId)).toEqual(['laptop']);
+    expect(overwritten.slots.replaced.map((slot) => slot.slotId).sort()).toEqual(['backup', 'primary']);
+    expect((await local.getTenant('acme'))?.name).toBe('Acme');
+    expect((await local.listKeySlots('acme')).find((slot) => slot.slotId === 'primary')?.fingerprint).toBe('sha256:a');
+    expect((await local.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('backup');
+    expect(overwritten.secretsCleared).toBe(3);
+    expect(await keychain.getSlotSecret('acme', 'xyte-org', 'primary')).toBeUndefined();
+    expect(await keychain.getSlotSecret('acme', 'xyte-org', 'laptop')).toBeUndefined();
+  });
+
+  it('drops credential_process commands unless they are trusted', async () => {
+    const source = await seedSource();
+    await source.profileStore.upsertTenant({ id: 'acme', credentialProcess: 'vault read acme' });
+    const exported = await exportProfile({ profileStore: source.profileStore, tenantIds: ['acme'] });
+
+    const untrusted = new MemoryProfileStore();
+    const skipped = await importProfile(exported, { profileStore: untrusted });
+    expect(skipped.credentialProcesses).toEqual([{ tenantId: 'acme', command: 'vault read acme', imported: false }]);
+    expect((await untrusted.getTenant('acme'))?.credentialProcess).toBeUndefined();
+
+    const trusted = new MemoryProfileStore();
+    await importProfile(exported, { profileStore: trusted, trustCredentialProcess: true });
+    expect((await trusted.getTenant('acme'))?.credentialProcess).toBe('vault read acme');
+  });
+
+  it('rejects scrypt parameters above the export defaults', async () => {
+    const exported = await exportProfile({ ...(await seedSource()), includeSecrets: true, passphrase: 'p', scryptParams: FAST_SCRYPT });
+    exported.secrets!.kdf.N = 2 ** 30;
+
+    expect(() => parseProfileExport(JSON.stringify(exported))).toThrow('Invalid profile export: secrets.kdf.N');
+  });
+
+  it('validates the export format and profile version', () => {
+    expect(() => parseProfileExport('{"schemaVersion":"xyte.profile.export.v1","exportedAtUtc":"x","profileVersion":1,"tenants":[]}')).toThrow(
+      'Invalid profile export: profileVersion'
+    );
+    expect(() => parseProfileExport('not json')).toThrow('Invalid profile export');
+  });
+});
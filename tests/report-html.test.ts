@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildDeepDive } from '../src/workflows/fleet-insights';
+import { formatDeepDiveHtml } from '../src/workflows/report-html';
+
+const deepDive = buildDeepDive({
+  generatedAtUtc: '2026-03-01T12:00:00.000Z',
+  tenantId: 'acme <script>alert(1)</script>',
+  devices: [{ id: 'd1', name: 'Device & Co', status: 'offline', space: { full_path: 'HQ/"Board" Room' } }],
+  spaces: [],
+  incidents: [{ id: 'i1', device_name: 'Device & Co', status: 'active', space_tree_path_name: 'HQ/Lobby', created_at: '2026-03-01T10:00:00.000Z' }],
+  tickets: [{ id: 'ticket-123456789', title: 'Projector <broken>', status: 'open', created_at: '2026-03-01T09:00:00.000Z', device_id: 'device-987654321' }]
+});
+
+describe('html report', () => {
+  it('renders a self-contained document with inline charts and escaped content', () => {
+    const html = formatDeepDiveHtml(deepDive);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<svg class="bars"');
+    expect(html).toContain('acme &lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('Projector &lt;broken&gt;');
+    expect(html).toContain('HQ/&quot;Board&quot; Room');
+    expect(html).not.toContain('<script>alert(1)');
+    expect(html).not.toMatch(/<(link|img)\b|\bsrc=/);
+  });
+
+  it('redacts ticket and device ids unless sensitive output is requested', () => {
+    expect(formatDeepDiveHtml(deepDive)).toContain('<td>tick...6789</td>');
+    expect(formatDeepDiveHtml(deepDive)).not.toContain('device-987654321');
+    expect(formatDeepDiveHtml(deepDive, true)).toContain('<td>ticket-123456789</td>');
+  });
+
+  it('marks numeric cells for the inline sort script', () => {
+    const html = formatDeepDiveHtml(deepDive);
+    expect(html).toContain('<table class="sortable">');
+    expect(html).toMatch(/<td class="num" data-value="\d+">/);
+
+    const script = html.match(/<script>([\s\S]*)<\/script>/)?.[1] ?? '';
+    expect(() => new Function(script)).not.toThrow();
+  });
+});
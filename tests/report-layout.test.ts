@@ -60,4 +60,43 @@ describe('report layout helpers', () => {
 
     expect(result.activeIncidentAging.length).toBe(25);
   });
+
+  it('computes availability, flaps and MTTR from state histories within the window', () => {
+    const result = buildDeepDive(
+      {
+        generatedAtUtc: '2026-01-02T00:00:00Z',
+        tenantId: 'acme',
+        devices: [
+          { id: 'd1', name: 'Codec', status: 'online', space: { full_path: 'HQ/Board' } },
+          { id: 'd2', name: 'Sensor', status: 'offline', space: { full_path: 'HQ/Lab' } }
+        ],
+        spaces: [],
+        incidents: [],
+        tickets: [],
+        histories: [
+          { device_id: 'd1', status: 'online', from: '2026-01-01T00:00:00Z', to: '2026-01-01T06:00:00Z' },
+          { device_id: 'd1', status: 'offline', from: '2026-01-01T06:00:00Z', to: '2026-01-01T07:00:00Z' },
+          { device_id: 'd1', status: 'online', from: '2026-01-01T07:00:00Z', to: null },
+          { device_id: 'd2', status: 'online', from: '2025-12-31T00:00:00Z', to: '2026-01-01T12:00:00Z' },
+          { device_id: 'd2', status: 'offline', from: '2026-01-01T12:00:00Z', to: null }
+        ]
+      },
+      24
+    );
+
+    expect(result.availability).toMatchObject({
+      devicesWithHistory: 2,
+      uptimePct: 72.9,
+      flaps: 3,
+      outages: 2,
+      mttrMinutes: 60
+    });
+    expect(result.availability?.byDevice[0]).toMatchObject({ device: 'Sensor', uptimePct: 50, downtimeMinutes: 720, mttrMinutes: null });
+    expect(result.availability?.bySpace.map((row) => row.space)).toEqual(['HQ/Lab', 'HQ/Board']);
+    expect(result.summary.at(-1)).toContain('72.9% uptime across 2 devices over 24h');
+
+    const markdown = formatDeepDiveMarkdown(result, false);
+    expect(markdown).toContain('## Availability');
+    expect(markdown).toContain('| HQ/Board | 1 | 95.8% | 2 | 60 |');
+  });
 });
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { buildSpaceTree, collectSpaceTree, findSpaces, flattenSpaceTree, formatSpaceTreeAscii, moveSpace } from '../src/workflows/space-tree';
+
+const spaces = [
+  { id: 'hq', name: 'HQ', space_type: 'building', full_path: 'HQ', parent_id: null },
+  { id: 'f2', name: 'Floor 2', space_type: 'floor', full_path: 'HQ/Floor 2', parent_id: 'hq' },
+  { id: 'r201', name: 'Room 201', space_type: 'room', full_path: 'HQ/Floor 2/Room 201', parent_id: 'f2' },
+  { id: 'annex', name: 'Annex', full_path: 'HQ/Annex' },
+  { id: 'branch', name: 'Branch', full_path: 'Branch', parent_id: null },
+  { id: 'loop-a', name: 'Loop A', parent_id: 'loop-b' },
+  { id: 'loop-b', name: 'Loop B', parent_id: 'loop-a' }
+];
+
+const devices = [
+  { id: 'd1', status: 'online', space_id: 'r201' },
+  { id: 'd2', status: 'offline', space: { id: 'r201' } },
+  { id: 'd3', status: 'offline', space_tree_path_name: 'HQ/Annex' },
+  { id: 'd4', status: 'online', space_id: 'hq' },
+  { id: 'd5', status: 'online' }
+];
+
+const incidents = [
+  { id: 'i1', status: 'active', device_id: 'd2' },
+  { id: 'i2', status: 'active', space_tree_path_name: 'HQ/Annex' },
+  { id: 'i3', status: 'closed', device_id: 'd1' }
+];
+
+function spacesClient() {
+  let current = spaces.map((space) => ({ ...space }));
+  return {
+    paginate: vi.fn(async function* () {
+      yield { items: current } as any;
+    }),
+    callWithMeta: vi.fn(async (_key: string, args: any) => {
+      current = current.map((space) =>
+        space.id === args.path.space_id ? { ...space, parent_id: args.body.parent_id, full_path: `Branch/${space.name}` } : space
+      );
+      return { status: 200, headers: {}, data: { ok: true }, durationMs: 2, retryCount: 0, attempts: 1 };
+    }),
+    organization: {
+      getSpace: vi.fn(async ({ path }: any) => current.find((space) => space.id === path.space_id))
+    }
+  };
+}
+
+describe('space tree', () => {
+  it('links spaces by parent id or path and rolls up devices and incidents per subtree', () => {
+    const tree = buildSpaceTree({ tenantId: 'acme', spaces, devices, incidents });
+
+    expect(tree.roots.map((root) => root.id)).toEqual(['branch', 'hq', 'loop-a']);
+    expect(tree.roots[2].children.map((child) => child.id)).toEqual(['loop-b']);
+    const hq = tree.roots[1];
+    expect(hq.children.map((child) => child.id)).toEqual(['annex', 'f2']);
+    expect(hq.own).toEqual({ devices: 1, offlineDevices: 0, activeIncidents: 0 });
+    expect(hq.rollup).toEqual({ devices: 4, offlineDevices: 2, activeIncidents: 2 });
+    expect(hq.children[1].children[0]).toMatchObject({ id: 'r201', depth: 2, parentId: 'f2', own: { devices: 2, activeIncidents: 1 } });
+    expect(tree.totals).toEqual({ spaces: 7, devices: 4, offlineDevices: 2, activeIncidents: 2, unassignedDevices: 1 });
+  });
+
+  it('starts from a root space and keeps full rollups when the depth is limited', () => {
+    const tree = buildSpaceTree({ spaces, devices, incidents, root: 'HQ/Floor 2', maxDepth: 0 });
+
+    expect(tree.roots).toHaveLength(1);
+    expect(tree.roots[0]).toMatchObject({ id: 'f2', depth: 0, children: [], rollup: { devices: 2, offlineDevices: 1, activeIncidents: 1 } });
+    expect(tree.totals.spaces).toBe(1);
+  });
+
+  it('records an incidents failure instead of silently reporting zero incidents', async () => {
+    const client = {
+      paginate: vi.fn(async function* (endpointKey: string) {
+        if (endpointKey.includes('incidents')) {
+          throw new Error('socket hang up');
+        }
+        yield { items: endpointKey.includes('spaces') ? spaces : devices } as any;
+      })
+    };
+
+    const tree = await collectSpaceTree({ client: client as any, tenantId: 'acme' });
+
+    expect(tree.totals.activeIncidents).toBe(0);
+    expect(tree.incidentsError).toMatchObject({ detail: 'socket hang up', instance: '/incidents' });
+  });
+
+  it('renders an ascii tree with rollups', () => {
+    const ascii = formatSpaceTreeAscii(buildSpaceTree({ tenantId: 'acme', spaces: spaces.slice(0, 5), devices, incidents }));
+
+    expect(ascii.split('\n')).toEqual([
+      'Space Tree (acme): 5 spaces, 4 devices, 2 offline, 2 incidents, 1 devices without a space',
+      'Branch  [0 devices]',
+      'HQ <building>  [4 devices, 2 offline, 2 incidents]',
+      '|-- Annex  [1 device, 1 offline, 1 incident]',
+      '`-- Floor 2 <floor>  [2 devices, 1 offline, 1 incident]',
+      '    `-- Room 201 <room>  [2 devices, 1 offline, 1 incident]'
+    ]);
+  });
+
+  it('flattens only expanded subtrees, and shows every match with its ancestors when filtering', () => {
+    const { roots } = buildSpaceTree({ spaces: spaces.slice(0, 5) });
+
+    expect(flattenSpaceTree(roots, new Set(['hq'])).map((row) => [row.node.id, row.hasChildren, row.expanded])).toEqual([
+      ['branch', false, false],
+      ['hq', true, true],
+      ['annex', false, false],
+      ['f2', true, false]
+    ]);
+    expect(flattenSpaceTree(roots, new Set(), (node) => node.name === 'Room 201').map((row) => row.node.id)).toEqual(['hq', 'f2', 'r201']);
+  });
+
+  it('finds spaces with path_includes and matches locally as well', async () => {
+    const client = spacesClient();
+    const matches = await findSpaces({ client: client as any, tenantId: 'acme', query: 'floor 2' });
+
+    expect(matches.map((match) => match.id)).toEqual(['f2', 'r201']);
+    expect(client.paginate).toHaveBeenCalledWith('organization.spaces.getSpaces', { tenantId: 'acme', query: { path_includes: 'floor 2' } });
+    expect(await findSpaces({ client: client as any, query: 'floor', type: 'room' })).toEqual([
+      { id: 'r201', name: 'Room 201', type: 'room', path: 'HQ/Floor 2/Room 201', parentId: 'f2' }
+    ]);
+  });
+
+  it('moves a space and records the parent and path before and after', async () => {
+    const client = spacesClient();
+    const result = await moveSpace({ client: client as any, tenantId: 'acme', space: 'HQ/Floor 2', to: 'Branch', allowWrite: true });
+
+    expect(client.callWithMeta).toHaveBeenCalledWith(
+      'organization.spaces.updateSpace',
+      expect.objectContaining({ path: { space_id: 'f2' }, body: { parent_id: 'branch' } })
+    );
+    expect(result.envelope?.change).toEqual({
+      before: { parent_id: 'hq', path: 'HQ/Floor 2' },
+      after: { parent_id: 'branch', path: 'Branch/Floor 2' }
+    });
+  });
+
+  it('refuses cycles and skips moves that change nothing', async () => {
+    const client = spacesClient();
+
+    await expect(moveSpace({ client: client as any, space: 'hq', to: 'r201', allowWrite: true })).rejects.toThrow('under itself or one of its descendants');
+    expect(await moveSpace({ client: client as any, space: 'f2', to: 'hq', allowWrite: true })).not.toHaveProperty('envelope');
+    expect(await moveSpace({ client: client as any, space: 'branch', to: 'root', allowWrite: true })).not.toHaveProperty('envelope');
+    expect(client.callWithMeta).not.toHaveBeenCalled();
+  });
+
+  it('compares moves against the path-linked parent of a space without a parent id', async () => {
+    const client = spacesClient();
+
+    expect(await moveSpace({ client: client as any, space: 'annex', to: 'HQ', allowWrite: true })).not.toHaveProperty('envelope');
+    await moveSpace({ client: client as any, space: 'annex', to: 'root', allowWrite: true });
+    expect(client.callWithMeta).toHaveBeenCalledWith(
+      'organization.spaces.updateSpace',
+      expect.objectContaining({ path: { space_id: 'annex' }, body: { parent_id: null } })
+    );
+  });
+
+  it('detaches only the spaces on a parent cycle', () => {
+    const tree = buildSpaceTree({
+      spaces: [
+        { id: 'leaf', name: 'Leaf', parent_id: 'loop-b' },
+        { id: 'loop-a', name: 'Loop A', parent_id: 'loop-b' },
+        { id: 'loop-b', name: 'Loop B', parent_id: 'loop-a' }
+      ]
+    });
+
+    expect(tree.roots.map((node) => node.id)).toEqual(['loop-a']);
+    expect(tree.roots[0].children[0].id).toBe('loop-b');
+    expect(tree.roots[0].children[0].children.map((node) => node.id)).toEqual(['leaf']);
+  });
+});
@@ -1,5 +1,6 @@
 import type {
   ApiKeySlotMeta,
+  KeySlotUpdate,
   ProfileStoreData,
   SecretProvider,
   TenantKeyRegistry,
@@ -38,6 +39,7 @@ export class MemoryProfileStore implements ProfileStore {
     name?: string;
     hubBaseUrl?: string;
     entryBaseUrl?: string;
+    credentialProcess?: string;
   }): Promise<TenantProfile> {
     const existing = this.data.tenants.find((tenant) => tenant.id === input.id);
     const now = new Date().toISOString();
@@ -46,6 +48,9 @@ export class MemoryProfileStore implements ProfileStore {
       existing.name = input.name ?? existing.name;
       existing.hubBaseUrl = input.hubBaseUrl ?? existing.hubBaseUrl;
       existing.entryBaseUrl = input.entryBaseUrl ?? existing.entryBaseUrl;
+      if (input.credentialProcess !== undefined) {
+        existing.credentialProcess = input.credentialProcess || undefined;
+      }
       existing.keyRegistry = existing.keyRegistry ?? emptyRegistry();
       existing.updatedAt = now;
       return structuredClone(existing);
@@ -56,6 +61,7 @@ export class MemoryProfileStore implements ProfileStore {
       name: input.name ?? input.id,
       hubBaseUrl: input.hubBaseUrl,
       entryBaseUrl: input.entryBaseUrl,
+      credentialProcess: input.credentialProcess || undefined,
       keyRegistry: emptyRegistry(),
       createdAt: now,
       updatedAt: now
@@ -115,6 +121,7 @@ export class MemoryProfileStore implements ProfileStore {
       provider: input.provider,
       name: slotName,
       fingerprint: input.fingerprint,
+      keySetAt: now,
       createdAt: now,
       updatedAt: now
     };
@@ -128,7 +135,7 @@ export class MemoryProfileStore implements ProfileStore {
     tenantId: string,
     provider: SecretProvider,
     slotRef: string,
-    update: { name?: string; fingerprint?: string; lastValidatedAt?: string }
+    update: KeySlotUpdate
   ): Promise<ApiKeySlotMeta> {
     const tenant = this.getRequiredTenant(tenantId);
     const registry = tenant.keyRegistry ?? emptyRegistry();
@@ -152,6 +159,9 @@ export class MemoryProfileStore implements ProfileStore {
       name: nextName,
       fingerprint: update.fingerprint ?? slot.fingerprint,
       lastValidatedAt: update.lastValidatedAt ?? slot.lastValidatedAt,
+      keySetAt: update.fingerprint && update.fingerprint !== slot.fingerprint ? new Date().toISOString() : slot.keySetAt,
+      rollbackUntil: update.rollbackUntil !== undefined ? update.rollbackUntil || undefined : slot.rollbackUntil,
+      rotationHistory: update.rotationHistory ?? slot.rotationHistory,
       updatedAt: new Date().toISOString()
     };
     registry.slots[index] = next;
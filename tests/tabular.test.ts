@@ -0,0 +1,81 @@
+import { inflateRawSync } from 'node:zlib';
+
+import { describe, expect, it } from 'vitest';
+
+import { formatCsv } from '../src/utils/csv';
+import { createZip } from '../src/utils/zip';
+import { buildDeepDive, buildFleetInspect } from '../src/workflows/fleet-insights';
+import { deepDiveTables, fleetInspectTables, formatTableCsv, mergeTables, payloadTable, selectTable } from '../src/workflows/tabular';
+
+const snapshot = {
+  generatedAtUtc: '2026-03-01T12:00:00.000Z',
+  tenantId: 'acme',
+  devices: [
+    { id: 'dev-board-codec', name: 'Codec, Boardroom', status: 'offline', sn: 'SN-1000', model: { name: 'XR-100' }, space: { full_path: 'HQ/Board' } }
+  ],
+  spaces: [{ id: 's1', name: 'Board', space_type: 'room', full_path: 'HQ/Board' }],
+  incidents: [{ id: 'inc-1', title: '=HYPERLINK("x")', status: 'active', device_id: 'dev-board-codec', device_name: 'Codec, Boardroom', created_at: '2026-03-01T10:00:00.000Z' }],
+  tickets: [{ id: 'ticket-123456789', title: 'Will not "boot"', status: 'open', device_id: 'dev-board-codec', created_at: '2026-03-01T09:00:00.000Z' }]
+};
+
+function readZipEntries(buffer: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const name = buffer.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const dataStart = offset + 30 + nameLength;
+    entries[name] = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    offset = dataStart + compressedSize;
+  }
+  return entries;
+}
+
+describe('tabular exports', () => {
+  it('quotes CSV cells and neutralises spreadsheet formulas', () => {
+    expect(formatCsv(['a', 'b', 'c'], [['x,y', 'say "hi"', -3], ['=SUM(A1)', null, '-12.5']])).toBe(
+      'a,b,c\r\n"x,y","say ""hi""",-3\r\n\'=SUM(A1),,-12.5\r\n'
+    );
+  });
+
+  it('builds deterministic fleet tables with redacted identifiers', () => {
+    const tables = fleetInspectTables(buildFleetInspect(snapshot), snapshot);
+    expect(tables.map((table) => table.name)).toEqual(['summary', 'status', 'devices', 'incidents', 'tickets', 'spaces']);
+
+    const devices = selectTable(tables, 'devices');
+    expect(devices.columns).toEqual(['tenant_id', 'id', 'name', 'status', 'space', 'model', 'serial_number', 'mac', 'last_seen_at']);
+    expect(devices.rows[0]).toEqual(['acme', 'dev-...odec', 'Codec, Boardroom', 'offline', 'HQ/Board', 'XR-100', '***', undefined, undefined]);
+    expect(selectTable(fleetInspectTables(buildFleetInspect(snapshot), snapshot, true), 'devices').rows[0][1]).toBe('dev-board-codec');
+    expect(() => selectTable(tables, 'nope')).toThrow('Unknown table: nope. Use one of: summary, status');
+  });
+
+  it('flattens every deep-dive table and merges tenants by table name', () => {
+    const deepDive = buildDeepDive(snapshot);
+    const tables = deepDiveTables(deepDive, false, snapshot);
+    expect(formatTableCsv(selectTable(tables, 'oldest_open_tickets'))).toContain('acme,tick...6789,"Will not ""boot"""');
+
+    const merged = mergeTables([tables, deepDiveTables({ ...deepDive, tenantId: 'globex' })]);
+    expect(selectTable(merged, 'summary').rows.map((row) => row[0])).toEqual(['acme', 'globex']);
+    expect(selectTable(merged, 'devices').rows).toHaveLength(1);
+  });
+
+  it('uses entity columns for known endpoints and sorted keys otherwise', () => {
+    const devices = payloadTable('organization.devices.getDevices', { devices: snapshot.devices }, true);
+    expect(devices.columns[0]).toBe('id');
+    expect(devices.rows[0][0]).toBe('dev-board-codec');
+
+    const generic = payloadTable('organization.organization.getOrganizationInfo', { name: 'Acme', id: 'org-1', plan: { tier: 'pro' } });
+    expect(generic.columns).toEqual(['id', 'name', 'plan']);
+    expect(generic.rows).toEqual([['org-1', 'Acme', '{"tier":"pro"}']]);
+  });
+
+  it('writes a zip archive with one CSV per table', () => {
+    const archive = createZip([
+      { name: 'summary.csv', content: 'a,b\r\n1,2\r\n' },
+      { name: 'devices.csv', content: 'id\r\nd1\r\n' }
+    ]);
+    expect(readZipEntries(archive)).toEqual({ 'summary.csv': 'a,b\r\n1,2\r\n', 'devices.csv': 'id\r\nd1\r\n' });
+    expect(createZip([{ name: 'x.csv', content: 'x' }]).equals(createZip([{ name: 'x.csv', content: 'x' }]))).toBe(true);
+  });
+});
@@ -1,11 +1,18 @@
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { resetCassettes } from '../src/http/cassette';
 import { HttpTransport } from '../src/http/transport';
 import { XyteHttpError } from '../src/http/errors';
+import { parseRateLimitHeaders, resetRateLimitBuckets, TokenBucket } from '../src/http/rate-limit';
 
 describe('http transport', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
+    resetRateLimitBuckets();
   });
 
   it('retries idempotent requests after transient failures', async () => {
@@ -71,4 +78,160 @@ describe('http transport', () => {
       endpointKey: 'test.key'
     } satisfies Partial<XyteHttpError>);
   });
+
+  it('retries 429 responses after Retry-After, including writes, and reports rate-limit state', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ message: 'slow down' }), {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'content-type': 'application/json', 'retry-after': '0' }
+        })
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ ok: true }), {
+          status: 200,
+          headers: {
+            'content-type': 'application/json',
+            'x-ratelimit-limit': '100',
+            'x-ratelimit-remaining': '42'
+          }
+        })
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const transport = new HttpTransport({ retryAttempts: 2, retryBackoffMs: 1 });
+    const response = await transport.request({
+      method: 'POST',
+      url: 'https://example.test/v1/commands',
+      idempotent: false
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(response.meta.retryCount).toBe(1);
+    expect(response.meta.rateLimit).toMatchObject({
+      limit: 100,
+      remaining: 42,
+      retryAfterMs: 0,
+      throttledRetries: 1
+    });
+  });
+
+  it('gives up when Retry-After exceeds the configured ceiling', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response('', { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '120' } })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const transport = new HttpTransport({ retryAttempts: 2, retryBackoffMs: 1 });
+
+    await expect(transport.request({ method: 'GET', url: 'https://example.test/v1/devices' })).rejects.toMatchObject({
+      status: 429,
+      retryAfterMs: 120_000
+    } satisfies Partial<XyteHttpError>);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('rate limiting', () => {
+  it('parses retry-after and rate-limit reset headers', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRateLimitHeaders({ 'retry-after': '2', 'x-ratelimit-reset': '30' }, now)).toEqual({
+      limit: undefined,
+      remaining: undefined,
+      resetAt: now + 30_000,
+      retryAfterMs: 2_000
+    });
+    expect(parseRateLimitHeaders({ 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }, now).retryAfterMs).toBe(5_000);
+  });
+
+  it('queues requests once the bucket is drained and honors server blocks', () => {
+    const bucket = new TokenBucket(2, 4, 0);
+    expect(bucket.reserve(0)).toBe(0);
+    expect(bucket.reserve(0)).toBe(0);
+    expect(bucket.reserve(0)).toBe(250);
+    expect(bucket.reserve(1_000)).toBe(0);
+
+    bucket.blockUntil(3_000);
+    expect(bucket.reserve(2_000)).toBe(1_000);
+  });
+});
+
+describe('cassettes', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    resetRateLimitBuckets();
+    resetCassettes();
+  });
+
+  it('records redacted interactions and replays them without the network', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'xyte-cassette-')), 'nested', 'run.json');
+    const json = { status: 200, headers: { 'content-type': 'application/json' } };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ items: [{ id: 'a' }] }), json))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ items: [{ id: 'b' }] }), json))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'live-token', ok: true }), { ...json, status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const recorder = new HttpTransport({ retryAttempts: 0, recordPath: file });
+    await recorder.request({ method: 'GET', url: 'https://hub.example.test/core/v1/devices?page=1', headers: { Authorization: 'secret-key' } });
+    await recorder.request({ method: 'GET', url: 'https://hub.example.test/core/v1/devices?page=1', headers: { Authorization: 'secret-key' } });
+    await recorder.request({
+      method: 'POST',
+      url: 'https://hub.example.test/core/v1/tokens?api_key=abc',
+      body: JSON.stringify({ name: 'ci', password: 'hunter2' })
+    });
+
+    const raw = readFileSync(file, 'utf8');
+    expect(raw).not.toContain('secret-key');
+    expect(raw).not.toContain('hunter2');
+    expect(raw).not.toContain('live-token');
+    expect(JSON.parse(raw)).toMatchObject({
+      schemaVersion: 'xyte.cassette.v1',
+      interactions: [
+        { request: { method: 'GET', url: '/core/v1/devices?page=1', headers: { authorization: '[REDACTED]' } } },
+        {},
+        { request: { url: '/core/v1/tokens?api_key=%5BREDACTED%5D', body: '{"name":"ci","password":"[REDACTED]"}' } }
+      ]
+    });
+
+    fetchMock.mockClear();
+    const player = new HttpTransport({ retryAttempts: 0, replayPath: file });
+    const first = await player.request<{ items: Array<{ id: string }> }>({ method: 'GET', url: 'https://other.example.test/core/v1/devices?page=1' });
+    const second = await player.request<{ items: Array<{ id: string }> }>({ method: 'GET', url: 'https://other.example.test/core/v1/devices?page=1' });
+    const third = await player.request<{ items: Array<{ id: string }> }>({ method: 'GET', url: 'https://other.example.test/core/v1/devices?page=1' });
+    const created = await player.request<{ ok: boolean }>({ method: 'POST', url: 'https://other.example.test/core/v1/tokens?api_key=xyz' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(first.data.items[0].id).toBe('a');
+    expect(second.data.items[0].id).toBe('b');
+    expect(third.data.items[0].id).toBe('b');
+    expect(created).toMatchObject({ status: 201, data: { ok: true } });
+    await expect(player.request({ method: 'GET', url: 'https://other.example.test/core/v1/spaces' })).rejects.toMatchObject({
+      code: 'XYTE_CASSETTE_MISS'
+    });
+  });
+
+  it('replays calls whose time-window params moved with the clock', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'xyte-cassette-window-')), 'run.json');
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(JSON.stringify({ histories: [{ id: 'h1' }] }), { status: 200, headers: { 'content-type': 'application/json' } }))
+    );
+
+    const recorder = new HttpTransport({ retryAttempts: 0, recordPath: file });
+    await recorder.request({ method: 'GET', url: 'https://hub.example.test/core/v1/devices/histories?from=2026-03-01T10%3A00%3A00.000Z&page=1' });
+
+    const player = new HttpTransport({ retryAttempts: 0, replayPath: file });
+    const replayed = await player.request<{ histories: Array<{ id: string }> }>({
+      method: 'GET',
+      url: 'https://hub.example.test/core/v1/devices/histories?from=2026-03-02T09%3A30%3A00.000Z&page=1'
+    });
+    expect(replayed.data.histories[0].id).toBe('h1');
+    await expect(
+      player.request({ method: 'GET', url: 'https://hub.example.test/core/v1/devices/histories?from=2026-03-02T09%3A30%3A00.000Z&page=2' })
+    ).rejects.toMatchObject({ code: 'XYTE_CASSETTE_MISS' });
+  });
 });
@@ -1,5 +1,6 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 
+import { sendDeviceCommandWithGuard } from '../../src/tui/screens/devices';
 import { sceneFromDevicesState } from '../../src/tui/scene';
 
 describe('devices screen rendering', () => {
@@ -18,3 +19,41 @@ describe('devices screen rendering', () => {
     expect(lines.join('\n')).toContain('[Circular]');
   });
 });
+
+describe('devices screen command action', () => {
+  const makeContext = (answers: Array<string | undefined>, confirmed: boolean): any => ({
+    client: {
+      organization: {
+        sendCommand: vi.fn().mockResolvedValue({ id: 'cmd-1', status: 'pending' }),
+        getCommands: vi.fn().mockResolvedValue({ commands: [{ id: 'cmd-1', status: 'done' }] }),
+        cancelCommand: vi.fn()
+      }
+    },
+    prompt: vi.fn(async () => answers.shift()),
+    confirmWrite: vi.fn().mockResolvedValue(confirmed),
+    getActiveTenantId: vi.fn().mockResolvedValue('acme'),
+    setStatus: vi.fn(),
+    showError: vi.fn()
+  });
+
+  it('does not send before the write is confirmed', async () => {
+    const context = makeContext(['reboot', ''], false);
+    const result = await sendDeviceCommandWithGuard({ device: { id: 'dev-1', name: 'Display' }, context });
+
+    expect(result).toBeUndefined();
+    expect(context.confirmWrite).toHaveBeenCalledWith('Send "reboot" to dev-1', 'send');
+    expect(context.client.organization.sendCommand).not.toHaveBeenCalled();
+    expect(context.setStatus).toHaveBeenCalledWith('Command canceled.');
+  });
+
+  it('sends the command and tracks it to completion after confirmation', async () => {
+    const context = makeContext(['input', '{"source":"hdmi2"}'], true);
+    const result = await sendDeviceCommandWithGuard({ device: { id: 'dev-1' }, context });
+
+    expect(result?.outcome).toBe('succeeded');
+    expect(context.client.organization.sendCommand).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'acme', path: { device_id: 'dev-1' }, body: expect.objectContaining({ name: 'input', extra_params: { source: 'hdmi2' } }) })
+    );
+    expect(context.setStatus).toHaveBeenLastCalledWith('Command input succeeded (done).');
+  });
+});
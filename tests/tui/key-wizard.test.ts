@@ -1,7 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import { MemoryKeychain } from '../../src/secure/keychain';
-import { runKeyCreateWizard, runKeyUpdateWizard } from '../../src/tui/key-wizard';
+import { runKeyCreateWizard, runKeyRotateWizard } from '../../src/tui/key-wizard';
 import { MemoryProfileStore } from '../support/memory-profile-store';
 
 function makePromptQueue(values: Array<string | undefined>) {
@@ -71,40 +71,32 @@ describe('key wizard', () => {
     expect(slots).toHaveLength(0);
   });
 
-  it('updates selected slot through guided flow', async () => {
+  it('rotates the selected slot through the verification flow', async () => {
     const profileStore = new MemoryProfileStore();
     const keychain = new MemoryKeychain();
     await profileStore.upsertTenant({ id: 'acme' });
-    const slot = await profileStore.addKeySlot('acme', {
-      provider: 'xyte-org',
-      name: 'primary',
-      fingerprint: 'sha256:old'
-    });
+    await profileStore.addKeySlot('acme', { provider: 'xyte-org', name: 'primary', fingerprint: 'sha256:old' });
+    const probe = vi.fn(async () => ({ state: 'connected' as const, message: 'ok', retriable: false }));
 
-    const prompt = makePromptQueue(['y', 'primary-prod', 'y']);
-    const promptSecret = makePromptQueue(['new-secret']);
-    const confirmWrite = vi.fn(async () => true);
-
-    const result = await runKeyUpdateWizard({
+    const result = await runKeyRotateWizard({
       context: {
-        prompt,
-        promptSecret,
-        confirmWrite,
+        prompt: makePromptQueue(['12']),
+        promptSecret: makePromptQueue(['rotated-secret']),
+        confirmWrite: vi.fn(async () => true),
         setStatus: vi.fn(),
         profileStore,
         keychain
       },
       tenantId: 'acme',
       provider: 'xyte-org',
-      slotRef: slot.slotId,
-      promptEditSelected: true
+      slotRef: 'primary',
+      probe
     });
 
     expect(result.canceled).toBe(false);
-    const updated = await profileStore.getActiveKeySlot('acme', 'xyte-org');
-    expect(updated?.name).toBe('primary-prod');
-    const secret = await keychain.getSlotSecret('acme', 'xyte-org', slot.slotId);
-    expect(secret).toBe('new-secret');
+    expect(result.slotId).toBe('primary-2');
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect((await profileStore.getActiveKeySlot('acme', 'xyte-org'))?.slotId).toBe('primary-2');
+    expect((await profileStore.listKeySlots('acme', 'xyte-org')).find((slot) => slot.slotId === 'primary')?.rollbackUntil).toBeDefined();
   });
 });
-
@@ -22,5 +22,7 @@ describe('tui keymaps', () => {
     const actions = SCREEN_ACTION_KEYMAP.map((item) => item.keys);
     expect(actions).toContain('Incidents: /');
     expect(actions).toContain('Tickets: R or rr');
+    expect(actions).toContain('Devices: c / x');
+    expect(actions).toContain('Spaces: Space / + / -');
   });
 });
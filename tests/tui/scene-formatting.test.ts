@@ -8,6 +8,7 @@ import {
   sceneFromSpacesState,
   sceneFromTicketsState
 } from '../../src/tui/scene';
+import { buildSpaceTree, flattenSpaceTree } from '../../src/workflows/space-tree';
 
 describe('scene compact formatting', () => {
   it('emits compact device/ticket/incident/space table rows', () => {
@@ -50,6 +51,37 @@ describe('scene compact formatting', () => {
     expect(spacePathCell).toContain('…');
   });
 
+  it('renders spaces as an indented tree with subtree rollups', () => {
+    const rawSpaces = [
+      { id: 'hq', name: 'HQ', full_path: 'HQ' },
+      { id: 'f2', name: 'Floor 2', full_path: 'HQ/Floor 2', parent_id: 'hq' },
+      { id: 'r201', name: 'Room 201', full_path: 'HQ/Floor 2/Room 201', parent_id: 'f2' }
+    ];
+    const tree = buildSpaceTree({
+      spaces: rawSpaces,
+      devices: [{ id: 'd1', status: 'offline', space_id: 'r201' }],
+      incidents: [{ id: 'i1', status: 'active', device_id: 'd1' }]
+    });
+    const treeRows = flattenSpaceTree(tree.roots, new Set(['hq']));
+    const panels = sceneFromSpacesState({
+      selectedIndex: 1,
+      searchText: '',
+      loading: false,
+      paneStatus: 'ok',
+      spaces: treeRows.map((row) => rawSpaces.find((space) => space.id === row.node.id)),
+      treeRows,
+      devicesInSpace: []
+    });
+
+    const list = panels.find((panel) => panel.id === 'spaces-list')?.table;
+    expect(list?.columns).toEqual(['Space', 'Devices', 'Offline', 'Incidents']);
+    expect(list?.rows).toEqual([
+      ['▾ HQ', '1', '1', '1'],
+      ['│ ▸ Floor 2', '1', '1', '1']
+    ]);
+    expect(panels.find((panel) => panel.id === 'spaces-detail')?.text?.lines).toContain('Subtree: 1 devices, 1 offline, 1 active incidents');
+  });
+
   it('reduces config slot table columns and keeps metadata in action panel', () => {
     const panels = sceneFromConfigState({
       tenantId: 'tenant-1',
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { XyteHttpError } from '../src/http/errors';
+import { parseIntervalMs, postWebhook, runCommandHook, runWatch, type WatchEvent } from '../src/workflows/watch';
+
+// Each call consumes the next queued response; the last one repeats. Loader retries consume entries too.
+function fakeClient(queues: { devices: Array<any[] | Error>; incidents?: any[][]; tickets?: any[][] }) {
+  const next = <T>(queue: T[] | undefined, fallback: T): T => (queue && queue.length > 1 ? queue.shift() : queue?.[0]) ?? fallback;
+  let lastError: Error | undefined;
+  return {
+    organization: {
+      getDevices: vi.fn(async () => {
+        const devices = next(queues.devices, []);
+        if (devices instanceof Error) {
+          lastError = devices;
+          throw devices;
+        }
+        return { devices };
+      }),
+      getIncidents: vi.fn(async () => ({ incidents: next(queues.incidents, []) })),
+      getTickets: vi.fn(async () => ({ tickets: next(queues.tickets, []) }))
+    },
+    partner: {
+      // The loader falls back to the partner scope, which fails the same way.
+      getDevices: vi.fn(async () => {
+        throw lastError;
+      }),
+      getTickets: vi.fn(async () => ({ tickets: [] }))
+    }
+  } as any;
+}
+
+const online = { id: 'd1', name: 'Codec', status: 'online', space_id: 's1' };
+const offline = { ...online, status: 'offline' };
+
+describe('watch', () => {
+  it('parses interval durations', () => {
+    expect(parseIntervalMs('60s')).toBe(60_000);
+    expect(parseIntervalMs('5m')).toBe(300_000);
+    expect(parseIntervalMs('90')).toBe(90_000);
+    expect(() => parseIntervalMs('10ms')).toThrow('Minimum is 1s');
+    expect(() => parseIntervalMs('soon')).toThrow('Invalid interval');
+  });
+
+  it('emits a baseline then change events between polls', async () => {
+    const events: WatchEvent[] = [];
+    const client = fakeClient({
+      devices: [[online], [offline]],
+      incidents: [[], [{ id: 'i1', title: 'Codec offline', status: 'active' }]],
+      tickets: [[{ id: 't1', title: 'Help', status: 'open' }], [{ id: 't1', title: 'Help', status: 'resolved' }]]
+    });
+
+    const result = await runWatch({ client, tenantId: 'acme', intervalMs: 0, maxPolls: 2, onEvent: (event) => void events.push(event) });
+
+    expect(result).toEqual({ polls: 2, events: 4 });
+    expect(events.map((event) => event.type)).toEqual(['watch.baseline', 'device.offline', 'incident.opened', 'ticket.resolved']);
+    expect(events[0]).toMatchObject({ schemaVersion: 'xyte.watch.event.v1', tenantId: 'acme', poll: 1, subject: { devices: 1 } });
+    expect(events[1]).toMatchObject({ poll: 2, subject: { id: 'd1', name: 'Codec' } });
+  });
+
+  it('does not report removals while a collection is failing', async () => {
+    const events: WatchEvent[] = [];
+    const outage = new TypeError('fetch failed');
+    const client = fakeClient({ devices: [[online], outage, outage, outage, [online]] });
+
+    await runWatch({ client, tenantId: 'acme', intervalMs: 0, maxPolls: 3, onEvent: (event) => void events.push(event) });
+
+    expect(events.map((event) => event.type)).toEqual(['watch.baseline', 'watch.degraded', 'watch.recovered']);
+    expect(events[1].subject).toMatchObject({ collection: 'devices', state: 'network_error' });
+  });
+
+  it('stops on non-retriable auth failures', async () => {
+    const events: WatchEvent[] = [];
+    const denied = new XyteHttpError({ status: 401, statusText: 'Unauthorized', message: 'Unauthorized' });
+    const client = fakeClient({ devices: [denied] });
+
+    await expect(
+      runWatch({ client, tenantId: 'acme', intervalMs: 0, maxPolls: 3, onEvent: (event) => void events.push(event) })
+    ).rejects.toThrow('Watch stopped');
+    expect(events.map((event) => event.type)).toEqual(['watch.degraded']);
+  });
+
+  it('gives up on a webhook that does not respond in time', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => init.signal?.addEventListener('abort', () => reject(init.signal?.reason)))
+      )
+    );
+    const event = { schemaVersion: 'xyte.watch.event.v1', type: 'watch.baseline', tenantId: 'acme' } as unknown as WatchEvent;
+
+    await expect(postWebhook('https://hooks.example.test/xyte', event, 20)).rejects.toThrow('did not respond within 20ms');
+    vi.unstubAllGlobals();
+  });
+
+  it('kills a hook command that does not finish in time', async () => {
+    const event = { schemaVersion: 'xyte.watch.event.v1', type: 'watch.baseline', tenantId: 'acme' } as unknown as WatchEvent;
+
+    await expect(runCommandHook('sleep 5', event, 100)).rejects.toThrow('did not finish within 100ms');
+  });
+
+  it('rejects instead of crashing when a hook exits without reading stdin', async () => {
+    const event = { schemaVersion: 'xyte.watch.event.v1', type: 'watch.baseline', tenantId: 'acme', pad: 'x'.repeat(1_000_000) } as unknown as WatchEvent;
+
+    await expect(runCommandHook('exit 0', event, 5_000)).rejects.toThrow('did not accept the event');
+  });
+});